@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowLeft, GraduationCap, MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [sentMessage, setSentMessage] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim()) {
+      setError("Email is required");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/password-reset/request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.email?.[0] || data.error || "Failed to request a password reset");
+      }
+
+      setSentMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request a password reset");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center p-8">
+      <div className="absolute top-8 left-8 md:top-12 md:left-12">
+        <Link href="/" className="inline-flex items-center space-x-2">
+          <GraduationCap className="h-6 w-6 text-blue-600" />
+          <span className="text-xl font-bold">PRP</span>
+          <Badge variant="outline" className="ml-2 hidden sm:inline-flex">BiT</Badge>
+        </Link>
+      </div>
+
+      <motion.div
+        className="max-w-md w-full"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Forgot your password?</h1>
+          <p className="mt-3 text-gray-600">
+            Enter the email address of your account and we&apos;ll send you a link to choose a new password.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <div className="p-4 bg-green-50 rounded-lg flex items-start gap-3 text-green-800 shadow-sm">
+            <MailCheck className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+            <p>{sentMessage}</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="p-4 bg-red-50 rounded-lg text-red-600 text-sm shadow-sm">{error}</div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="email" className="text-gray-700">Email</Label>
+              <Input
+                id="email"
+                name="email"
+                type="email"
+                placeholder="example@example.com"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setError("");
+                }}
+                disabled={submitting}
+                className={`border-0 bg-gray-50 shadow-sm ${error ? "ring-2 ring-red-500" : ""}`}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting ? (
+                <span className="flex items-center justify-center gap-2">
+                  <span className="h-4 w-4 border-2 border-white border-r-transparent rounded-full animate-spin" />
+                  Sending link...
+                </span>
+              ) : "Send reset link"}
+            </Button>
+          </form>
+        )}
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          <Link href="/login" className="inline-flex items-center gap-1 font-medium text-blue-600 hover:text-blue-500">
+            <ArrowLeft className="h-4 w-4" /> Back to sign in
+          </Link>
+        </p>
+      </motion.div>
+    </div>
+  );
+}
@@ -16,7 +16,7 @@ export default function LoginPage() {
   const searchParams = useSearchParams();
   const { login, user, isAuthenticated, isLoading, authError } = useAuth();
   const [submitting, setSubmitting] = useState(false);
-  const [showSuccessMessage, setShowSuccessMessage] = useState(false);
+  const [successMessage, setSuccessMessage] = useState("");
   const [formData, setFormData] = useState({
     identifier: "",
     password: "",
@@ -31,13 +31,18 @@ export default function LoginPage() {
   const callbackUrl = searchParams.get("callbackUrl") || "/";
 
   useEffect(() => {
-    // Check for registration success message
+    // Check for registration or password reset success message
     const registered = searchParams.get("registered");
-    if (registered === "true") {
-      setShowSuccessMessage(true);
+    const reset = searchParams.get("reset");
+    if (registered === "true" || reset === "true") {
+      setSuccessMessage(
+        registered === "true"
+          ? "Account created successfully! Please sign in."
+          : "Your password has been reset. Please sign in with your new password."
+      );
       // Hide success message after 5 seconds
       const timer = setTimeout(() => {
-        setShowSuccessMessage(false);
+        setSuccessMessage("");
       }, 5000);
       return () => clearTimeout(timer);
     }
@@ -179,7 +184,7 @@ export default function LoginPage() {
             </p>
           </div>
 
-          {showSuccessMessage && (
+          {successMessage && (
             <motion.div 
               className="mb-6 p-4 bg-green-50 rounded-lg flex items-center gap-3 text-green-800 shadow-sm"
               initial={{ opacity: 0, y: -10 }}
@@ -187,7 +192,7 @@ export default function LoginPage() {
               exit={{ opacity: 0, y: -10 }}
             >
               <CheckCircle2 className="h-5 w-5 text-green-500 flex-shrink-0" />
-              <p>Account created successfully! Please sign in.</p>
+              <p>{successMessage}</p>
             </motion.div>
           )}
 
@@ -0,0 +1,176 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { motion } from "framer-motion";
+import { ArrowLeft, GraduationCap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [formData, setFormData] = useState({ password: "", confirmPassword: "" });
+  const [formErrors, setFormErrors] = useState({ password: "", confirmPassword: "", general: "" });
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setFormErrors(prev => ({ ...prev, [name]: "", general: "" }));
+  };
+
+  const validateForm = () => {
+    const errors = { password: "", confirmPassword: "", general: "" };
+
+    if (!formData.password) {
+      errors.password = "Password is required";
+    } else if (formData.password.length < 8) {
+      errors.password = "Password must be at least 8 characters";
+    }
+
+    if (formData.password !== formData.confirmPassword) {
+      errors.confirmPassword = "Passwords do not match";
+    }
+
+    setFormErrors(errors);
+    return !errors.password && !errors.confirmPassword;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/password-reset/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password: formData.password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.password?.[0] || data.error || "Failed to reset password");
+      }
+
+      router.push("/login?reset=true");
+    } catch (err) {
+      setFormErrors(prev => ({
+        ...prev,
+        general: err instanceof Error ? err.message : "Failed to reset password",
+      }));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="space-y-6">
+        <div className="p-4 bg-red-50 rounded-lg text-red-600 text-sm shadow-sm">
+          This reset link is incomplete. Please use the link from the email or request a new one.
+        </div>
+        <Button asChild className="w-full">
+          <Link href="/forgot-password">Request a new link</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {formErrors.general && (
+        <div className="p-4 bg-red-50 rounded-lg text-red-600 text-sm shadow-sm">
+          {formErrors.general}{" "}
+          <Link href="/forgot-password" className="font-medium underline">Request a new link</Link>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="password" className="text-gray-700">New password</Label>
+        <Input
+          id="password"
+          name="password"
+          type="password"
+          placeholder="At least 8 characters"
+          value={formData.password}
+          onChange={handleChange}
+          disabled={submitting}
+          className={`border-0 bg-gray-50 shadow-sm ${formErrors.password ? "ring-2 ring-red-500" : ""}`}
+        />
+        {formErrors.password && <p className="text-sm text-red-500">{formErrors.password}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword" className="text-gray-700">Confirm new password</Label>
+        <Input
+          id="confirmPassword"
+          name="confirmPassword"
+          type="password"
+          placeholder="Repeat the new password"
+          value={formData.confirmPassword}
+          onChange={handleChange}
+          disabled={submitting}
+          className={`border-0 bg-gray-50 shadow-sm ${formErrors.confirmPassword ? "ring-2 ring-red-500" : ""}`}
+        />
+        {formErrors.confirmPassword && <p className="text-sm text-red-500">{formErrors.confirmPassword}</p>}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={submitting}>
+        {submitting ? (
+          <span className="flex items-center justify-center gap-2">
+            <span className="h-4 w-4 border-2 border-white border-r-transparent rounded-full animate-spin" />
+            Saving...
+          </span>
+        ) : "Set new password"}
+      </Button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center p-8">
+      <div className="absolute top-8 left-8 md:top-12 md:left-12">
+        <Link href="/" className="inline-flex items-center space-x-2">
+          <GraduationCap className="h-6 w-6 text-blue-600" />
+          <span className="text-xl font-bold">PRP</span>
+          <Badge variant="outline" className="ml-2 hidden sm:inline-flex">BiT</Badge>
+        </Link>
+      </div>
+
+      <motion.div
+        className="max-w-md w-full"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Choose a new password</h1>
+          <p className="mt-3 text-gray-600">Reset links can only be used once and expire after a short time.</p>
+        </div>
+
+        {/* useSearchParams needs a Suspense boundary to allow static rendering */}
+        <Suspense fallback={null}>
+          <ResetPasswordForm />
+        </Suspense>
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          <Link href="/login" className="inline-flex items-center gap-1 font-medium text-blue-600 hover:text-blue-500">
+            <ArrowLeft className="h-4 w-4" /> Back to sign in
+          </Link>
+        </p>
+      </motion.div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ interface FileData {
   path: string;
   content: string | null;
   isBinary: boolean;
+  commitId: string;
 }
 
 export default function BlobPage() {
@@ -119,7 +120,8 @@ export default function BlobPage() {
           fileData={{
             name: fileData.name,
             content: fileData.content || undefined,
-            isBinary: fileData.isBinary
+            isBinary: fileData.isBinary,
+            commitId: fileData.commitId
           }}
           isLoading={false}
         />
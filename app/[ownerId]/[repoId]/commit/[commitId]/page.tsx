@@ -0,0 +1,21 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { RepositoryHeader } from "@/components/repository/repository-header";
+import { CommitDetail } from "@/components/repository/commit-detail";
+
+export default function RepoCommitPage() {
+  const params = useParams<{ ownerId: string; repoId: string; commitId: string }>();
+  const { ownerId, repoId, commitId } = params;
+  const { data: session } = useSession();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <RepositoryHeader owner={ownerId} repository={repoId} session={session} />
+      <div className="container mx-auto py-8 max-w-6xl px-4 sm:px-6 lg:px-8">
+        <CommitDetail ownerId={ownerId} repoId={repoId} commitId={commitId} />
+      </div>
+    </div>
+  );
+}
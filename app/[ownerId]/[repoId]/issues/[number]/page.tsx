@@ -0,0 +1,21 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { RepositoryHeader } from "@/components/repository/repository-header";
+import { IssueDetail } from "@/components/repository/issue-detail";
+
+export default function RepoIssuePage() {
+  const params = useParams<{ ownerId: string; repoId: string; number: string }>();
+  const { ownerId, repoId, number } = params;
+  const { data: session } = useSession();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <RepositoryHeader owner={ownerId} repository={repoId} session={session} />
+      <div className="container mx-auto py-8 max-w-6xl px-4 sm:px-6 lg:px-8">
+        <IssueDetail ownerId={ownerId} repoId={repoId} issueNumber={number} />
+      </div>
+    </div>
+  );
+}
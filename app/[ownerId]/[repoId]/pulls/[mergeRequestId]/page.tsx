@@ -0,0 +1,21 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { RepositoryHeader } from "@/components/repository/repository-header";
+import { MergeRequestDetail } from "@/components/repository/merge-request-detail";
+
+export default function RepoMergeRequestPage() {
+  const params = useParams<{ ownerId: string; repoId: string; mergeRequestId: string }>();
+  const { ownerId, repoId, mergeRequestId } = params;
+  const { data: session } = useSession();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <RepositoryHeader owner={ownerId} repository={repoId} session={session} />
+      <div className="container mx-auto py-8 max-w-5xl px-4 sm:px-6 lg:px-8">
+        <MergeRequestDetail ownerId={ownerId} repoId={repoId} mergeRequestId={mergeRequestId} />
+      </div>
+    </div>
+  );
+}
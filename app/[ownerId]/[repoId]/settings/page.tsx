@@ -0,0 +1,21 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { RepositoryHeader } from "@/components/repository/repository-header";
+import { RemotesSettings } from "@/components/repository/remotes-settings";
+
+export default function Settings() {
+  const params = useParams<{ ownerId: string; repoId: string }>();
+  const { ownerId, repoId } = params;
+  const { data: session } = useSession();
+
+  return (
+    <>
+      <RepositoryHeader owner={ownerId} repository={repoId} session={session} />
+      <div className="container mx-auto py-6 max-w-6xl space-y-6">
+        <RemotesSettings ownerId={ownerId} repoId={repoId} />
+      </div>
+    </>
+  );
+}
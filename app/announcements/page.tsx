@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeftIcon, MegaphoneIcon, RotateCcwIcon } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { FeedAnnouncement, getPriorityClasses } from "@/components/announcements/announcement-banner"
+import { cn } from "@/lib/utils"
+
+export default function AnnouncementsArchivePage() {
+  const [announcements, setAnnouncements] = useState<FeedAnnouncement[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchArchive = async () => {
+      try {
+        const response = await fetch("/api/announcements?archive=true&limit=100")
+        if (!response.ok) {
+          throw new Error(response.status === 401 ? "Please sign in to view announcements" : "Failed to load announcements")
+        }
+        const data = await response.json()
+        setAnnouncements(data.announcements)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load announcements")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchArchive()
+  }, [])
+
+  const restore = async (id: string) => {
+    const response = await fetch(`/api/announcements/${id}/dismiss`, { method: "DELETE" })
+    if (response.ok) {
+      setAnnouncements((prev) => prev.map((a) => (a.id === id ? { ...a, dismissed: false } : a)))
+    }
+  }
+
+  const formatDate = (date: string) =>
+    new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", year: "numeric" }).format(new Date(date))
+
+  return (
+    <main className="max-w-3xl mx-auto py-8 px-4 space-y-6">
+      <Link href="/" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeftIcon className="mr-1 h-4 w-4" />
+        Back to dashboard
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <MegaphoneIcon className="mr-2 h-5 w-5" />
+            Announcements
+          </CardTitle>
+          <CardDescription>Every announcement published for your role, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            [...Array(4)].map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : announcements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No announcements have been published yet.</p>
+          ) : (
+            announcements.map((announcement) => (
+              <div
+                key={announcement.id}
+                className={cn(
+                  "border border-l-4 rounded-md p-4",
+                  getPriorityClasses(announcement.priority),
+                  (announcement.expired || announcement.dismissed) && "opacity-70"
+                )}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="font-medium">{announcement.title}</h3>
+                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                      <span>{formatDate(announcement.createdAt)}</span>
+                      <span>by {announcement.creator.firstName} {announcement.creator.lastName}</span>
+                      {announcement.expired && <Badge variant="outline">Expired</Badge>}
+                      {announcement.dismissed && <Badge variant="secondary">Dismissed</Badge>}
+                    </div>
+                  </div>
+                  {announcement.dismissed && !announcement.expired && (
+                    <Button variant="ghost" size="sm" onClick={() => restore(announcement.id)}>
+                      <RotateCcwIcon className="mr-1 h-4 w-4" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm mt-3 whitespace-pre-line">{announcement.content}</p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
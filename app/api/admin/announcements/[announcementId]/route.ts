@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { announcementSchema } from '@/lib/announcements';
+
+// Defaults only apply on creation, so updates strip them
+const updateAnnouncementSchema = announcementSchema
+  .extend({
+    priority: announcementSchema.shape.priority.removeDefault(),
+    active: announcementSchema.shape.active.removeDefault(),
+    audience: announcementSchema.shape.audience.removeDefault(),
+  })
+  .partial();
+
+// PATCH: Edit, activate or deactivate an announcement
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ announcementId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { announcementId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = updateAnnouncementSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.announcement.findUnique({
+      where: { id: announcementId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ message: 'Announcement not found' }, { status: 404 });
+    }
+
+    const { expiresAt, ...data } = validationResult.data;
+
+    const announcement = await db.announcement.update({
+      where: { id: announcementId },
+      data: {
+        ...data,
+        ...(expiresAt !== undefined && { expiresAt: expiresAt ? new Date(expiresAt) : null }),
+      },
+    });
+
+    return NextResponse.json({
+      message: 'Announcement updated successfully',
+      announcement,
+    });
+  } catch (error) {
+    console.error('Error updating announcement:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove an announcement permanently
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ announcementId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { announcementId } = await params;
+
+    const existing = await db.announcement.findUnique({
+      where: { id: announcementId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ message: 'Announcement not found' }, { status: 404 });
+    }
+
+    await db.announcement.delete({
+      where: { id: announcementId },
+    });
+
+    return NextResponse.json({ message: 'Announcement deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting announcement:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { announcementSchema } from '@/lib/announcements';
+
+// GET: List every announcement, including inactive and expired ones
+export async function GET() {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const announcements = await db.announcement.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        creator: {
+          select: {
+            userId: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        _count: {
+          select: { dismissals: true },
+        },
+      },
+    });
+
+    return NextResponse.json({ announcements });
+  } catch (error) {
+    console.error('Error listing announcements:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Publish a new announcement
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const rawData = await req.json();
+    const validationResult = announcementSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { expiresAt, ...data } = validationResult.data;
+
+    const announcement = await db.announcement.create({
+      data: {
+        ...data,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+        creatorId: session.user.userId,
+      },
+    });
+
+    return NextResponse.json(
+      { message: 'Announcement created successfully', announcement },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating announcement:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
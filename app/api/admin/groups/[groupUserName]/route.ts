@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+
+// DELETE: Force-dissolve a group regardless of its projects and repositories
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ groupUserName: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { groupUserName } = await params;
+
+    const group = await db.group.findUnique({
+      where: { groupUserName },
+      select: {
+        name: true,
+        members: {
+          select: { userId: true },
+        },
+      },
+    });
+
+    if (!group) {
+      return NextResponse.json(
+        { message: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    // Projects, repositories, memberships and invites are removed by cascade
+    await db.$transaction([
+      db.group.delete({
+        where: { groupUserName },
+      }),
+      db.notification.createMany({
+        data: group.members.map((member) => ({
+          message: `Your group "${group.name}" has been dissolved by an administrator`,
+          recipientId: member.userId,
+          read: false,
+        })),
+      }),
+    ]);
+
+    return NextResponse.json({
+      message: 'Group dissolved successfully',
+    });
+  } catch (error) {
+    console.error('Error dissolving group:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+
+// GET: List all groups with their leader and member/project counts
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const search = req.nextUrl.searchParams.get('search') || '';
+
+    const where: Prisma.GroupWhereInput = search
+      ? {
+          OR: [
+            { groupUserName: { contains: search, mode: 'insensitive' } },
+            { name: { contains: search, mode: 'insensitive' } },
+          ],
+        }
+      : {};
+
+    const groups = await db.group.findMany({
+      where,
+      select: {
+        groupUserName: true,
+        name: true,
+        description: true,
+        createdAt: true,
+        leader: {
+          select: {
+            userId: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        _count: {
+          select: {
+            members: true,
+            projects: true,
+            repositories: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error('Error listing groups:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { EmailStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { deliverEmail } from '@/lib/mail/outbox';
+
+// POST: Give a failed email a fresh set of delivery attempts and try it immediately
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ emailId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { emailId } = await params;
+
+    const reset = await db.outboundEmail.updateMany({
+      where: { id: emailId, status: EmailStatus.FAILED },
+      data: { status: EmailStatus.PENDING, attempts: 0, nextAttemptAt: new Date() },
+    });
+
+    if (reset.count === 0) {
+      const exists = await db.outboundEmail.count({ where: { id: emailId } });
+      return exists
+        ? NextResponse.json({ message: 'Only failed emails can be retried' }, { status: 400 })
+        : NextResponse.json({ message: 'Email not found' }, { status: 404 });
+    }
+
+    const status = await deliverEmail(emailId);
+
+    return NextResponse.json({
+      message: status === EmailStatus.SENT ? 'Email sent' : 'Delivery failed again; the email will be retried',
+      status,
+    });
+  } catch (error) {
+    console.error('Error retrying email:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
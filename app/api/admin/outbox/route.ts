@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EmailStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { processOutbox } from '@/lib/mail/outbox';
+import { queueTaskDeadlineReminders } from '@/lib/mail/reminders';
+
+// GET: List the most recent outbound emails, optionally filtered by status
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const status = req.nextUrl.searchParams.get('status');
+    if (status && !(status in EmailStatus)) {
+      return NextResponse.json({ message: 'Invalid status' }, { status: 400 });
+    }
+
+    const [emails, statusCounts] = await Promise.all([
+      db.outboundEmail.findMany({
+        where: status ? { status: status as EmailStatus } : undefined,
+        select: {
+          id: true,
+          to: true,
+          subject: true,
+          template: true,
+          status: true,
+          attempts: true,
+          lastError: true,
+          nextAttemptAt: true,
+          sentAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      }),
+      db.outboundEmail.groupBy({
+        by: ['status'],
+        _count: { id: true },
+      }),
+    ]);
+
+    const counts = Object.fromEntries(
+      Object.values(EmailStatus).map((s) => [s, statusCounts.find((c) => c.status === s)?._count.id ?? 0])
+    );
+
+    return NextResponse.json({ emails, counts });
+  } catch (error) {
+    console.error('Error listing outbound emails:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Queue due task reminders and retry every email whose next attempt is due
+export async function POST() {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const reminders = await queueTaskDeadlineReminders();
+    const summary = await processOutbox();
+
+    return NextResponse.json({
+      message: `Processed ${summary.processed} email(s), queued ${reminders} reminder(s)`,
+      reminders,
+      ...summary,
+    });
+  } catch (error) {
+    console.error('Error processing outbox:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
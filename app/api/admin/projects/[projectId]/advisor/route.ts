@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Role } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { countAdvisedProjects, getRules } from '@/lib/rules';
+
+const reassignAdvisorSchema = z.object({
+  advisorId: z.string().trim().min(1).nullable(),
+});
+
+// PUT: Reassign (or remove) the advisor of a project
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { projectId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = reassignAdvisorSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { advisorId } = validationResult.data;
+
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        title: true,
+        advisorId: true,
+        group: {
+          select: {
+            members: { select: { userId: true } },
+          },
+        },
+        projectEvaluators: {
+          select: { evaluatorId: true },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    if (advisorId) {
+      const advisor = await db.user.findUnique({
+        where: { userId: advisorId },
+        select: { role: true, suspended: true },
+      });
+
+      if (!advisor || advisor.role !== Role.ADVISOR) {
+        return NextResponse.json(
+          { message: 'The specified user is not an advisor' },
+          { status: 400 }
+        );
+      }
+
+      if (advisor.suspended) {
+        return NextResponse.json(
+          { message: 'The specified advisor is suspended' },
+          { status: 400 }
+        );
+      }
+
+      if (project.projectEvaluators.some((pe) => pe.evaluatorId === advisorId)) {
+        return NextResponse.json(
+          { message: 'A user cannot be both advisor and evaluator of the same project' },
+          { status: 400 }
+        );
+      }
+
+      const { maxProjectsPerAdvisor } = await getRules();
+      if (advisorId !== project.advisorId && await countAdvisedProjects(advisorId) >= maxProjectsPerAdvisor) {
+        return NextResponse.json(
+          { message: `This advisor already supervises the maximum of ${maxProjectsPerAdvisor} projects` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedProject = await db.project.update({
+      where: { id: projectId },
+      data: { advisorId },
+      select: {
+        id: true,
+        title: true,
+        advisor: {
+          select: {
+            userId: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    const recipients = project.group.members.map((member) => member.userId);
+    if (advisorId) {
+      recipients.push(advisorId);
+    }
+
+    await db.notification.createMany({
+      data: recipients.map((recipientId) => ({
+        message: advisorId
+          ? `An administrator assigned a new advisor to "${project.title}"`
+          : `An administrator removed the advisor from "${project.title}"`,
+        recipientId,
+        read: false,
+      })),
+    });
+
+    return NextResponse.json({
+      message: 'Advisor updated successfully',
+      project: updatedProject,
+    });
+  } catch (error) {
+    console.error('Error reassigning advisor:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,257 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Role } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { getRules } from '@/lib/rules';
+import { recomputeFinalGrade } from '@/lib/grades';
+
+const assignEvaluatorSchema = z.object({
+  evaluatorId: z.string().trim().min(1, 'Evaluator is required'),
+  // Relative weight used by the WEIGHTED_MEAN grade aggregation
+  weight: z.number().positive().max(100).optional(),
+});
+
+const updateWeightSchema = assignEvaluatorSchema.required({ weight: true });
+
+// POST: Assign an evaluator to a project
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { projectId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = assignEvaluatorSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { evaluatorId, weight } = validationResult.data;
+
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        title: true,
+        advisorId: true,
+        projectEvaluators: {
+          select: { evaluatorId: true },
+        },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const evaluator = await db.user.findUnique({
+      where: { userId: evaluatorId },
+      select: { role: true, suspended: true },
+    });
+
+    if (!evaluator || evaluator.role !== Role.EVALUATOR) {
+      return NextResponse.json(
+        { message: 'The specified user is not an evaluator' },
+        { status: 400 }
+      );
+    }
+
+    if (evaluator.suspended) {
+      return NextResponse.json(
+        { message: 'The specified evaluator is suspended' },
+        { status: 400 }
+      );
+    }
+
+    if (project.advisorId === evaluatorId) {
+      return NextResponse.json(
+        { message: 'A user cannot be both advisor and evaluator of the same project' },
+        { status: 400 }
+      );
+    }
+
+    if (project.projectEvaluators.some((pe) => pe.evaluatorId === evaluatorId)) {
+      return NextResponse.json(
+        { message: 'This evaluator is already assigned to the project' },
+        { status: 409 }
+      );
+    }
+
+    const { maxEvaluatorsPerProject } = await getRules();
+
+    if (project.projectEvaluators.length >= maxEvaluatorsPerProject) {
+      return NextResponse.json(
+        { message: `A project can have at most ${maxEvaluatorsPerProject} evaluators` },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await db.projectEvaluator.create({
+      data: {
+        projectId,
+        evaluatorId,
+        weight,
+      },
+      include: {
+        evaluator: {
+          select: {
+            userId: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+
+    await db.notification.create({
+      data: {
+        message: `You have been assigned to evaluate "${project.title}"`,
+        recipientId: evaluatorId,
+        read: false,
+      },
+    });
+
+    // A re-assigned evaluator may already have an evaluation on record
+    await recomputeFinalGrade(projectId);
+
+    return NextResponse.json(
+      { message: 'Evaluator assigned successfully', assignment },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error assigning evaluator:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Change the weight of an assigned evaluator's score
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { projectId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = updateWeightSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { evaluatorId, weight } = validationResult.data;
+
+    const assignment = await db.projectEvaluator.findUnique({
+      where: {
+        projectId_evaluatorId: { projectId, evaluatorId },
+      },
+    });
+
+    if (!assignment) {
+      return NextResponse.json(
+        { message: 'Evaluator is not assigned to this project' },
+        { status: 404 }
+      );
+    }
+
+    await db.projectEvaluator.update({
+      where: {
+        projectId_evaluatorId: { projectId, evaluatorId },
+      },
+      data: { weight },
+    });
+
+    const finalGrade = await recomputeFinalGrade(projectId);
+
+    return NextResponse.json({
+      message: 'Evaluator weight updated successfully',
+      finalGrade,
+    });
+  } catch (error) {
+    console.error('Error updating evaluator weight:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Unassign an evaluator from a project (?evaluatorId=...)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { projectId } = await params;
+    const evaluatorId = req.nextUrl.searchParams.get('evaluatorId');
+
+    if (!evaluatorId) {
+      return NextResponse.json(
+        { message: 'evaluatorId is required' },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await db.projectEvaluator.findUnique({
+      where: {
+        projectId_evaluatorId: { projectId, evaluatorId },
+      },
+    });
+
+    if (!assignment) {
+      return NextResponse.json(
+        { message: 'Evaluator is not assigned to this project' },
+        { status: 404 }
+      );
+    }
+
+    await db.projectEvaluator.delete({
+      where: {
+        projectId_evaluatorId: { projectId, evaluatorId },
+      },
+    });
+
+    // The unassigned evaluator's score no longer counts towards the final grade
+    await recomputeFinalGrade(projectId);
+
+    return NextResponse.json({
+      message: 'Evaluator unassigned successfully',
+    });
+  } catch (error) {
+    console.error('Error unassigning evaluator:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+
+const assignRubricSchema = z.object({
+  rubricId: z.string().trim().min(1).nullable(),
+});
+
+// PUT: Assign a rubric to a project, or clear it to use the default rubric
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { projectId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = assignRubricSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { rubricId } = validationResult.data;
+
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ message: 'Project not found' }, { status: 404 });
+    }
+
+    if (rubricId) {
+      const rubric = await db.rubric.findUnique({
+        where: { id: rubricId },
+        select: { id: true },
+      });
+
+      if (!rubric) {
+        return NextResponse.json({ message: 'Rubric not found' }, { status: 404 });
+      }
+    }
+
+    const updatedProject = await db.project.update({
+      where: { id: projectId },
+      data: { rubricId },
+      select: {
+        id: true,
+        rubric: { select: { id: true, name: true } },
+      },
+    });
+
+    return NextResponse.json({
+      message: rubricId ? 'Rubric assigned successfully' : 'Project now uses the default rubric',
+      project: updatedProject,
+    });
+  } catch (error) {
+    console.error('Error assigning rubric:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, ProjectStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+
+// GET: List projects with their advisor and evaluators
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const search = searchParams.get('search') || '';
+    const status = searchParams.get('status');
+
+    const where: Prisma.ProjectWhereInput = {};
+
+    if (status && Object.values(ProjectStatus).includes(status as ProjectStatus)) {
+      where.status = status as ProjectStatus;
+    }
+
+    if (search) {
+      where.OR = [
+        { title: { contains: search, mode: 'insensitive' } },
+        { groupUserName: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const projects = await db.project.findMany({
+      where,
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        groupUserName: true,
+        createdAt: true,
+        group: {
+          select: { name: true },
+        },
+        rubric: {
+          select: { id: true, name: true },
+        },
+        finalGrade: {
+          select: { score: true, evaluationCount: true, disagreement: true },
+        },
+        advisor: {
+          select: {
+            userId: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        projectEvaluators: {
+          select: {
+            assignedAt: true,
+            weight: true,
+            evaluator: {
+              select: {
+                userId: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
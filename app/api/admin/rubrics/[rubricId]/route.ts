@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { rubricInclude, rubricSchema } from '@/lib/rubrics';
+
+// PUT: Replace a rubric and its criteria
+// Past evaluations keep the snapshot of the criteria they were scored against
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ rubricId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { rubricId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = rubricSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.rubric.findUnique({
+      where: { id: rubricId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ message: 'Rubric not found' }, { status: 404 });
+    }
+
+    const { criteria, ...data } = validationResult.data;
+
+    const rubric = await db.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.rubric.updateMany({
+          where: { isDefault: true, id: { not: rubricId } },
+          data: { isDefault: false },
+        });
+      }
+
+      await tx.rubricCriterion.deleteMany({
+        where: { rubricId },
+      });
+
+      return tx.rubric.update({
+        where: { id: rubricId },
+        data: {
+          ...data,
+          criteria: {
+            create: criteria.map((criterion, position) => ({ ...criterion, position })),
+          },
+        },
+        include: rubricInclude,
+      });
+    });
+
+    return NextResponse.json({
+      message: 'Rubric updated successfully',
+      rubric,
+    });
+  } catch (error) {
+    console.error('Error updating rubric:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove a rubric; projects using it fall back to the default rubric
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ rubricId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { rubricId } = await params;
+
+    const existing = await db.rubric.findUnique({
+      where: { id: rubricId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ message: 'Rubric not found' }, { status: 404 });
+    }
+
+    await db.rubric.delete({
+      where: { id: rubricId },
+    });
+
+    return NextResponse.json({ message: 'Rubric deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting rubric:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { rubricInclude, rubricSchema } from '@/lib/rubrics';
+
+// GET: List rubrics with their criteria and usage
+export async function GET() {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const rubrics = await db.rubric.findMany({
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      include: {
+        ...rubricInclude,
+        _count: {
+          select: { projects: true, evaluations: true },
+        },
+      },
+    });
+
+    return NextResponse.json({ rubrics });
+  } catch (error) {
+    console.error('Error listing rubrics:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a rubric together with its criteria
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const rawData = await req.json();
+    const validationResult = rubricSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { criteria, ...data } = validationResult.data;
+
+    const rubric = await db.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.rubric.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.rubric.create({
+        data: {
+          ...data,
+          creatorId: session.user.userId,
+          criteria: {
+            create: criteria.map((criterion, position) => ({ ...criterion, position })),
+          },
+        },
+        include: rubricInclude,
+      });
+    });
+
+    return NextResponse.json(
+      { message: 'Rubric created successfully', rubric },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating rubric:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Role } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+
+// Schema for administrative user updates
+const updateUserSchema = z.object({
+  role: z.nativeEnum(Role).optional(),
+  suspended: z.boolean().optional(),
+}).refine((data) => data.role !== undefined || data.suspended !== undefined, {
+  message: 'Nothing to update',
+});
+
+// PATCH: Change a user's role or suspend/reinstate them
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { userId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = updateUserSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { role, suspended } = validationResult.data;
+
+    const user = await db.user.findUnique({
+      where: { userId },
+      select: {
+        userId: true,
+        role: true,
+        _count: {
+          select: {
+            advisedProjects: true,
+            evaluatedProjects: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Administrators cannot lock themselves out of the console
+    if (userId === session.user.userId && (suspended || (role && role !== Role.ADMINISTRATOR))) {
+      return NextResponse.json(
+        { message: 'You cannot suspend or demote your own account' },
+        { status: 400 }
+      );
+    }
+
+    // Advisors and evaluators must be released from their projects before losing the role
+    if (role && role !== user.role) {
+      if (user.role === Role.ADVISOR && user._count.advisedProjects > 0) {
+        return NextResponse.json(
+          { message: `This advisor is assigned to ${user._count.advisedProjects} project(s). Reassign them first.` },
+          { status: 409 }
+        );
+      }
+
+      if (user.role === Role.EVALUATOR && user._count.evaluatedProjects > 0) {
+        return NextResponse.json(
+          { message: `This evaluator is assigned to ${user._count.evaluatedProjects} project(s). Unassign them first.` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updatedUser = await db.user.update({
+      where: { userId },
+      data: {
+        ...(role !== undefined && { role }),
+        ...(suspended !== undefined && { suspended }),
+        // Sessions carry the role and are refused while suspended; end them either way
+        ...(((role !== undefined && role !== user.role) || suspended) && { tokenVersion: { increment: 1 } }),
+      },
+      select: {
+        userId: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        role: true,
+        suspended: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return NextResponse.json({
+      message: 'User updated successfully',
+      user: updatedUser,
+    });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { revokeUserSessions } from '@/lib/sessions';
+
+// DELETE: Sign a user out of every session they currently have
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const { userId } = await params;
+
+    const user = await db.user.findUnique({
+      where: { userId },
+      select: { userId: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await revokeUserSessions(userId);
+
+    return NextResponse.json({ message: 'User signed out of all sessions' });
+  } catch (error) {
+    console.error('Error revoking user sessions:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
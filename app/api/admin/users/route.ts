@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, Role } from '@prisma/client';
+import { hash } from 'bcrypt';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+
+// Schema for creating a user from the admin console
+const createUserSchema = z.object({
+  userId: z.string().trim().min(3, 'Username must be at least 3 characters'),
+  firstName: z.string().trim().min(1, 'First name is required'),
+  lastName: z.string().trim().min(1, 'Last name is required'),
+  email: z.string().trim().email('Invalid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  role: z.nativeEnum(Role).default(Role.STUDENT),
+});
+
+const userSelect = {
+  userId: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  role: true,
+  suspended: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+// GET: List users with optional search, role and suspension filters
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10), 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10), 1), 100);
+    const search = searchParams.get('search') || '';
+    const role = searchParams.get('role');
+    const suspended = searchParams.get('suspended');
+
+    const where: Prisma.UserWhereInput = {};
+
+    if (role && Object.values(Role).includes(role as Role)) {
+      where.role = role as Role;
+    }
+
+    if (suspended === 'true' || suspended === 'false') {
+      where.suspended = suspended === 'true';
+    }
+
+    if (search) {
+      where.OR = [
+        { userId: { contains: search, mode: 'insensitive' } },
+        { firstName: { contains: search, mode: 'insensitive' } },
+        { lastName: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [users, total] = await Promise.all([
+      db.user.findMany({
+        where,
+        select: userSelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.user.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      users,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a user with any role
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const rawData = await req.json();
+    const validationResult = createUserSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { userId, firstName, lastName, email, password, role } = validationResult.data;
+
+    const existingUser = await db.user.findFirst({
+      where: {
+        OR: [{ userId }, { email }],
+      },
+      select: { userId: true },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { message: 'Username or email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const passwordHash = await hash(password, 10);
+
+    const user = await db.user.create({
+      data: {
+        userId,
+        firstName,
+        lastName,
+        email,
+        passwordHash,
+        role,
+      },
+      select: userSelect,
+    });
+
+    return NextResponse.json(
+      { message: 'User created successfully', user },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { AdvisorRequestStatus, Role } from '@prisma/client';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { countAdvisedProjects, getRules } from '@/lib/rules';
+import { queueEmail } from '@/lib/mail/outbox';
+
+const respondSchema = z.object({
+  action: z.enum(['accept', 'reject']),
+  message: z.string().trim().max(1000).nullable().optional(),
+});
+
+// PATCH: Accept or reject an advisor request addressed to the current advisor
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ requestId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== Role.ADVISOR) {
+      return NextResponse.json({ message: 'Only advisors can respond to advisor requests' }, { status: 403 });
+    }
+
+    const { requestId } = await params;
+
+    const rawData = await req.json();
+    const validationResult = respondSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { action, message } = validationResult.data;
+    const advisorId = session.user.userId;
+
+    const advisorRequest = await db.advisorRequest.findUnique({
+      where: { id: requestId },
+      include: {
+        group: {
+          select: {
+            name: true,
+            members: {
+              select: {
+                userId: true,
+                user: { select: { email: true, firstName: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!advisorRequest) {
+      return NextResponse.json({ message: 'Advisor request not found' }, { status: 404 });
+    }
+
+    if (advisorRequest.requestedAdvisorId !== advisorId) {
+      return NextResponse.json({ message: 'This request is not addressed to you' }, { status: 403 });
+    }
+
+    if (advisorRequest.status !== AdvisorRequestStatus.PENDING) {
+      return NextResponse.json({ message: 'This request has already been processed' }, { status: 400 });
+    }
+
+    const project = await db.project.findUnique({
+      where: { id: advisorRequest.projectId },
+      select: { id: true, title: true, advisorId: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ message: 'The requested project no longer exists' }, { status: 404 });
+    }
+
+    if (action === 'accept') {
+      if (project.advisorId) {
+        return NextResponse.json({ message: 'This project already has an advisor' }, { status: 400 });
+      }
+
+      const { maxProjectsPerAdvisor } = await getRules();
+      if (await countAdvisedProjects(advisorId) >= maxProjectsPerAdvisor) {
+        return NextResponse.json(
+          { message: `You already supervise the maximum of ${maxProjectsPerAdvisor} projects` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const newStatus = action === 'accept' ? AdvisorRequestStatus.ACCEPTED : AdvisorRequestStatus.REJECTED;
+    const recipients = advisorRequest.group.members.map((member) => member.userId);
+
+    await db.$transaction([
+      db.advisorRequest.update({
+        where: { id: requestId },
+        data: {
+          status: newStatus,
+          responseMessage: message || null,
+        },
+      }),
+      ...(action === 'accept'
+        ? [
+            db.project.update({
+              where: { id: project.id },
+              data: { advisorId },
+            }),
+          ]
+        : []),
+      db.notification.createMany({
+        data: recipients.map((recipientId) => ({
+          message: action === 'accept'
+            ? `${session.user.name || 'An advisor'} accepted your advisor request for "${project.title}"`
+            : `${session.user.name || 'An advisor'} declined your advisor request for "${project.title}"`,
+          recipientId,
+          read: false,
+          link: `/${advisorRequest.groupUserName}/projects/${project.id}`,
+        })),
+      }),
+    ]);
+
+    // Email every group member; undelivered emails are retried from the outbox
+    await Promise.all(
+      advisorRequest.group.members.map(({ user }) =>
+        queueEmail(user.email, 'advisorRequestDecision', {
+          recipientName: user.firstName,
+          advisorName: session.user.name || 'Your advisor',
+          projectTitle: project.title,
+          accepted: action === 'accept',
+          message: message || null,
+          projectPath: `/${advisorRequest.groupUserName}/projects/${project.id}`,
+        }).catch((error) => console.error(`Error queueing advisor decision email for ${user.email}:`, error))
+      )
+    );
+
+    return NextResponse.json({
+      message: `Advisor request ${action === 'accept' ? 'accepted' : 'rejected'} successfully`,
+      status: newStatus,
+    });
+  } catch (error) {
+    console.error('Error responding to advisor request:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
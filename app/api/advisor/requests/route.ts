@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { PrismaClient, AdvisorRequestStatus, Role } from "@prisma/client";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import { countAdvisedProjects, getRules } from "@/lib/rules";
 
 // Initialize Prisma client
 const prisma = new PrismaClient();
@@ -83,6 +84,17 @@ export async function POST(request: Request) {
       );
     }
 
+    // An advisor cannot take on more projects than the system rules allow
+    if (action === "accept") {
+      const { maxProjectsPerAdvisor } = await getRules();
+      if (await countAdvisedProjects(userId) >= maxProjectsPerAdvisor) {
+        return NextResponse.json(
+          { error: `You already supervise the maximum of ${maxProjectsPerAdvisor} projects` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Update the request status based on the action
     const newStatus = action === "accept" 
       ? AdvisorRequestStatus.ACCEPTED 
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+
+// POST: Hide an announcement from the current user's feed
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ announcementId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { announcementId } = await params;
+    const userId = session.user.userId;
+
+    const announcement = await db.announcement.findUnique({
+      where: { id: announcementId },
+      select: { id: true },
+    });
+
+    if (!announcement) {
+      return NextResponse.json({ message: 'Announcement not found' }, { status: 404 });
+    }
+
+    await db.announcementDismissal.upsert({
+      where: {
+        announcementId_userId: { announcementId, userId },
+      },
+      update: {},
+      create: { announcementId, userId },
+    });
+
+    return NextResponse.json({ message: 'Announcement dismissed' });
+  } catch (error) {
+    console.error('Error dismissing announcement:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Restore a dismissed announcement to the feed
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ announcementId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { announcementId } = await params;
+
+    await db.announcementDismissal.deleteMany({
+      where: {
+        announcementId,
+        userId: session.user.userId,
+      },
+    });
+
+    return NextResponse.json({ message: 'Announcement restored' });
+  } catch (error) {
+    console.error('Error restoring announcement:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Role } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { announcementFeedOrderBy, announcementFeedWhere } from '@/lib/announcements';
+
+// GET: Announcements visible to the current user
+// ?archive=true also returns dismissed, inactive and expired announcements
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId, role } = session.user;
+    const searchParams = req.nextUrl.searchParams;
+    const archive = searchParams.get('archive') === 'true';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10), 1), 100);
+
+    const announcements = await db.announcement.findMany({
+      where: announcementFeedWhere(userId, role as Role, {
+        includeDismissed: archive,
+        includeExpired: archive,
+      }),
+      orderBy: archive ? { createdAt: 'desc' } : announcementFeedOrderBy,
+      take: limit,
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        priority: true,
+        active: true,
+        expiresAt: true,
+        createdAt: true,
+        creator: {
+          select: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+        dismissals: {
+          where: { userId },
+          select: { dismissedAt: true },
+        },
+      },
+    });
+
+    const now = new Date();
+
+    return NextResponse.json({
+      announcements: announcements.map(({ dismissals, ...announcement }) => ({
+        ...announcement,
+        dismissed: dismissals.length > 0,
+        expired: !announcement.active || (announcement.expiresAt !== null && announcement.expiresAt <= now),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching announcements:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import NextAuth, { type AuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { PrismaClient, Role } from '@prisma/client';
 import bcrypt from 'bcrypt';
+import { assertTokenCurrent } from '@/lib/sessions';
 
 const prisma = new PrismaClient();
 
@@ -35,6 +36,11 @@ export const authOptions: AuthOptions = {
           return null;
         }
 
+        // Suspended accounts cannot sign in
+        if (user.suspended) {
+          return null;
+        }
+
         // Check if passwords match
         const passwordMatch = await bcrypt.compare(
           credentials.password,
@@ -51,6 +57,7 @@ export const authOptions: AuthOptions = {
           userId: user.userId,
           name: `${user.firstName} ${user.lastName}`,
           role: user.role,
+          tokenVersion: user.tokenVersion,
         };
       }
     })
@@ -59,12 +66,16 @@ export const authOptions: AuthOptions = {
     strategy: 'jwt',
   },
   callbacks: {
-    jwt({ token, user }) {
+    async jwt({ token, user }) {
       if (user) {
         token.userId = user.userId;
         token.name = user.name;
         token.role = user.role as Role;
+        token.tokenVersion = user.tokenVersion;
+        return token;
       }
+      // Reject tokens revoked by a password change or an administrator
+      await assertTokenCurrent(token);
       return token;
     },
     session({ session, token }) {
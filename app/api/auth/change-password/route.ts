@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { compare, hash } from 'bcrypt';
+import { authOptions } from '@/lib/auth';
+import { authOptions as handlerAuthOptions } from '@/app/api/auth/[...nextauth]/route';
+import { db } from '@/lib/db';
+import { changePasswordSchema } from '@/lib/password-reset';
+import { reissueSessionToken } from '@/lib/sessions';
+
+// POST /api/auth/change-password
+// Changing the password revokes every session of the user; the current one is re-issued
+// with the new token version so this device stays signed in.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validationResult = changePasswordSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { currentPassword, newPassword } = validationResult.data;
+
+    const user = await db.user.findUnique({
+      where: { userId: session.user.userId },
+      select: { userId: true, passwordHash: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!(await compare(currentPassword, user.passwordHash))) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect', errors: { currentPassword: ['Current password is incorrect'] } },
+        { status: 400 }
+      );
+    }
+
+    const { tokenVersion } = await db.user.update({
+      where: { userId: user.userId },
+      data: {
+        passwordHash: await hash(newPassword, 10),
+        // A pending reset link must not be able to undo the change
+        passwordResetToken: null,
+        passwordResetExpires: null,
+        tokenVersion: { increment: 1 },
+      },
+      select: { tokenVersion: true },
+    });
+
+    const response = NextResponse.json({ message: 'Password changed successfully' }, { status: 200 });
+    // The handler's options decide how the session cookie is signed and named
+    await reissueSessionToken(req, response, tokenVersion, handlerAuthOptions);
+    return response;
+  } catch (error) {
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { error: 'Something went wrong while changing the password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmResetSchema, resetPassword } from '@/lib/password-reset';
+
+// POST /api/auth/password-reset/confirm
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const validationResult = confirmResetSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { token, password } = validationResult.data;
+
+    if (!(await resetPassword(token, password))) {
+      return NextResponse.json(
+        { error: 'This reset link is invalid or has expired. Please request a new one.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Password reset successfully' }, { status: 200 });
+  } catch (error) {
+    console.error('Password reset confirm error:', error);
+    return NextResponse.json(
+      { error: 'Something went wrong while resetting the password' },
+      { status: 500 }
+    );
+  }
+}
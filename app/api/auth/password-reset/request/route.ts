@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  RESET_REQUEST_WINDOW_MINUTES,
+  requestPasswordReset,
+  requestResetSchema,
+} from '@/lib/password-reset';
+
+// POST /api/auth/password-reset/request
+// Always answers with the same message so the endpoint cannot be used to discover accounts
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const validationResult = requestResetSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const ipAddress = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+    const { rateLimited } = await requestPasswordReset(validationResult.data.email, ipAddress);
+
+    if (rateLimited) {
+      return NextResponse.json(
+        { error: `Too many reset requests for this address. Please try again in ${RESET_REQUEST_WINDOW_MINUTES} minutes.` },
+        { status: 429, headers: { 'Retry-After': String(RESET_REQUEST_WINDOW_MINUTES * 60) } }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'If an account exists for this address, a password reset link has been sent to it.' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    return NextResponse.json(
+      { error: 'Something went wrong while requesting a password reset' },
+      { status: 500 }
+    );
+  }
+}
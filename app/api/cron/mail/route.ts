@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processOutbox } from '@/lib/mail/outbox';
+import { queueTaskDeadlineReminders } from '@/lib/mail/reminders';
+
+// POST: Periodic mail job for an external scheduler (e.g. a cron entry calling curl).
+// Requires `Authorization: Bearer $CRON_SECRET`; disabled while CRON_SECRET is unset.
+export async function POST(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const reminders = await queueTaskDeadlineReminders();
+    const summary = await processOutbox();
+
+    return NextResponse.json({ reminders, ...summary });
+  } catch (error) {
+    console.error('Error running mail job:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
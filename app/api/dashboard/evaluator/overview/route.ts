@@ -22,21 +22,7 @@ export async function GET(request: Request) {
 
     const evaluatorName = evaluator ? `${evaluator.firstName} ${evaluator.lastName}` : 'Evaluator';
 
-    // 1. Announcements (fetch general active announcements for now)
-    const announcementsData = await prisma.announcement.findMany({
-      where: { active: true }, // Add more specific targeting if needed
-      orderBy: { createdAt: 'desc' },
-      take: 5, // Limit to 5 most recent
-    });
-    const announcements = announcementsData.map(a => ({
-        id: a.id,
-        title: a.title,
-        content: a.content,
-        date: a.createdAt.toISOString(),
-        type: a.priority > 1 ? 'urgent' : 'info', // Example mapping
-    }));
-
-    // 2. Stats
+    // Stats
     const totalAssignedProjects = await prisma.projectEvaluator.count({
       where: { evaluatorId: evaluatorId }
     });
@@ -74,6 +60,22 @@ export async function GET(request: Request) {
       averageEvaluationTime: 'N/A', // TODO: Implement logic
     };
 
+    // Final grades of the assigned projects, disagreements first
+    const finalGrades = assignedProjectIds.length > 0 ? (await prisma.finalGrade.findMany({
+      where: { projectId: { in: assignedProjectIds } },
+      select: {
+        projectId: true,
+        score: true,
+        method: true,
+        evaluationCount: true,
+        lowestScore: true,
+        highestScore: true,
+        disagreement: true,
+        project: { select: { title: true } },
+      },
+      orderBy: [{ disagreement: 'desc' }, { computedAt: 'desc' }],
+    })).map(({ project, ...grade }) => ({ ...grade, projectTitle: project.title })) : [];
+
     // 3. Unread Notifications Count
     const unreadNotificationsCount = await prisma.notification.count({
       where: {
@@ -84,8 +86,8 @@ export async function GET(request: Request) {
 
     const overviewData = {
       evaluatorName,
-      announcements,
       stats,
+      finalGrades,
       unreadNotificationsCount,
     };
 
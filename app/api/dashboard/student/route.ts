@@ -71,26 +71,6 @@ export async function GET() {
     })
     console.log(`Dashboard API: Found ${unreadNotificationsCount} unread notifications`)
 
-    // Get announcements
-    const announcements = await prisma.announcement.findMany({
-      where: {
-        active: true,
-      },
-      orderBy: [
-        { priority: "desc" },
-        { createdAt: "desc" },
-      ],
-      take: 3,
-      select: {
-        id: true,
-        title: true,
-        content: true,
-        priority: true,
-        createdAt: true,
-      },
-    })
-    console.log(`Dashboard API: Found ${announcements.length} announcements`)
-
     // Get user's groups
     const userGroups = await prisma.groupMember.findMany({
       where: {
@@ -326,7 +306,6 @@ export async function GET() {
       
       const responseData = {
         user: userData,
-        announcements,
         projectSummary,
         taskSummary: {
           ...taskSummary,
@@ -354,7 +333,6 @@ export async function GET() {
       // Return data without activities if that part fails
       const responseData = {
         user: userData,
-        announcements,
         projectSummary,
         taskSummary: {
           ...taskSummary,
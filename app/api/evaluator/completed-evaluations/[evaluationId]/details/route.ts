@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { Role } from '@prisma/client';
+import { parseEvaluationCriteria } from '@/lib/evaluation-report';
 
 // GET /api/evaluator/completed-evaluations/:evaluationId/details
 export async function GET(
@@ -45,18 +46,7 @@ export async function GET(
       return NextResponse.json({ error: 'Evaluation not found or access denied.' }, { status: 404 });
     }
 
-    // Transform to match frontend EvaluationDetails interface (partially)
-    // The frontend mock `fetchEvaluationDetailsAPI` has a more detailed structure for criteria.
-    // The `criteriaData` in Prisma is a JSON blob. We need to ensure it matches what frontend expects or transform it.
-    
-    let criteria = [];
-    if (evaluation.criteriaData && typeof evaluation.criteriaData === 'object' && Array.isArray((evaluation.criteriaData as any).criteria)) {
-        criteria = (evaluation.criteriaData as any).criteria;
-    } else if (Array.isArray(evaluation.criteriaData)) {
-        // If criteriaData itself is an array (less likely based on typical usage but possible)
-        criteria = evaluation.criteriaData;
-    }
-    // If criteriaData is not in the expected structure, it defaults to empty array.
+    const criteria = parseEvaluationCriteria(evaluation.criteriaData);
 
     const details = {
       id: evaluation.id,
@@ -67,7 +57,7 @@ export async function GET(
       score: evaluation.score,
       // category: getEvaluationCategory(evaluation.score || 0), // Category is derived on frontend
       overallComments: evaluation.comments,
-      criteria: criteria, // This relies on criteriaData being structured as { criteria: [...] } or an array itself.
+      criteria,
       // evaluatorNotes: evaluation.profileInfo?.evaluatorNotes, // Example if notes were stored elsewhere
     };
 
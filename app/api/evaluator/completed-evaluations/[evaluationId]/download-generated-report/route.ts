@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { Role } from '@prisma/client';
+import { generateEvaluationReportPdf, parseEvaluationCriteria } from '@/lib/evaluation-report';
 
 // GET /api/evaluator/completed-evaluations/:evaluationId/download-generated-report
 export async function GET(
@@ -31,7 +32,15 @@ export async function GET(
         project: {
           select: {
             title: true,
-            group: { select: { name: true } },
+            group: {
+              select: {
+                name: true,
+                members: {
+                  select: { user: { select: { firstName: true, lastName: true } } },
+                  orderBy: { joinedAt: 'asc' },
+                },
+              },
+            },
           },
         },
         author: { select: { firstName: true, lastName: true } }
@@ -42,47 +51,27 @@ export async function GET(
       return NextResponse.json({ error: 'Evaluation not found or access denied.' }, { status: 404 });
     }
 
-    // Placeholder for PDF generation
-    // In a real application, you would use a library like PDFKit, pdf-lib, or Puppeteer to generate a PDF here.
-    // For now, returning JSON data that could be used to build a report.
-    const reportData = {
-      reportTitle: `Evaluation Report for: ${evaluation.project.title}`,
+    const pdfBytes = await generateEvaluationReportPdf({
       projectTitle: evaluation.project.title,
       groupName: evaluation.project.group.name,
-      evaluatedBy: `${evaluation.author.firstName} ${evaluation.author.lastName}`,
-      evaluationDate: evaluation.createdAt.toISOString(),
+      members: evaluation.project.group.members.map((m) => `${m.user.firstName} ${m.user.lastName}`),
+      evaluatorName: `${evaluation.author.firstName} ${evaluation.author.lastName}`,
+      evaluationDate: evaluation.createdAt,
       score: evaluation.score,
       comments: evaluation.comments,
-      criteria: evaluation.criteriaData, // Assuming criteriaData is structured appropriately
-    };
-
-    // Simulating a PDF file name for the content-disposition header if we were sending a PDF
-    // const filename = `Evaluation_Report_${evaluation.project.title.replace(/[^a-z0-9_.-]/gi, '_')}_${evaluation.id.substring(0,8)}.pdf`;
-    
-    // To make the frontend toast "Report downloaded successfully" without erroring on blob(),
-    // we need to send a response that *can* be blobbed, like simple text or an actual blob.
-    // Sending JSON with a content-type that makes sense for a file download intent.
-    // However, the frontend expects response.blob(). JSON.stringify is text.
-    
-    // For now, to avoid frontend error and indicate placeholder:
-    const textContent = `PDF Generation Placeholder for Evaluation ID: ${evaluationId}\nData: ${JSON.stringify(reportData, null, 2)}`;
-    return new NextResponse(textContent, {
-        status: 200,
-        headers: {
-            'Content-Type': 'text/plain',
-            'Content-Disposition': `attachment; filename="evaluation_report_${evaluationId}.txt"`,
-        }
+      criteria: parseEvaluationCriteria(evaluation.criteriaData),
     });
 
-    // If actual PDF generation was here, it would be more like:
-    // const pdfBytes = await generatePdfFunction(reportData); // Your PDF generation logic
-    // return new NextResponse(pdfBytes, {
-    //   status: 200,
-    //   headers: {
-    //     'Content-Type': 'application/pdf',
-    //     'Content-Disposition': `attachment; filename="${filename}"`,
-    //   }
-    // });
+    const filename = `Evaluation_Report_${evaluation.project.title.replace(/[^a-z0-9_.-]/gi, '_').substring(0, 50)}_${evaluation.id.substring(0, 8)}.pdf`;
+
+    return new NextResponse(Buffer.from(pdfBytes), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(pdfBytes.length),
+      },
+    });
 
   } catch (error) {
     console.error(`Error generating report for evaluation ${evaluationId}:`, error);
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { rubricEvaluationSchema, saveRubricEvaluation } from '@/lib/rubrics';
+
+// POST /api/evaluator/evaluation-forms/:formId/submit
+// A form is identified by its project; scores are validated against the project's rubric
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.userId || session.user.role !== Role.EVALUATOR) {
+    return NextResponse.json({ error: 'Unauthorized. You must be an evaluator to submit evaluations.' }, { status: 401 });
+  }
+
+  const { formId: projectId } = await params;
+  const evaluatorId = session.user.userId;
+
+  try {
+    const body = await request.json();
+    const validationResult = rubricEvaluationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const projectEvaluator = await prisma.projectEvaluator.findUnique({
+      where: {
+        projectId_evaluatorId: { projectId, evaluatorId },
+      },
+    });
+
+    if (!projectEvaluator) {
+      return NextResponse.json({ error: 'Forbidden. You are not assigned to evaluate this project.' }, { status: 403 });
+    }
+
+    const result = await saveRubricEvaluation(projectId, evaluatorId, validationResult.data);
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.evaluation, { status: result.created ? 201 : 200 });
+  } catch (error) {
+    console.error(`Error submitting evaluation form ${projectId} by evaluator ${evaluatorId}:`, error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body: Malformed JSON.' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error while submitting evaluation.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { getRules } from '@/lib/rules';
+import { rubricInclude } from '@/lib/rubrics';
+
+// GET /api/evaluator/evaluation-forms
+// One form per assigned project, built from the rubric the project is graded against
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.userId || session.user.role !== Role.EVALUATOR) {
+    return NextResponse.json({ error: 'Unauthorized. You must be an evaluator to view evaluation forms.' }, { status: 401 });
+  }
+
+  const evaluatorId = session.user.userId;
+
+  try {
+    const [assignments, defaultRubric, rules] = await Promise.all([
+      prisma.projectEvaluator.findMany({
+        where: { evaluatorId },
+        include: {
+          project: {
+            select: {
+              id: true,
+              title: true,
+              rubric: { include: rubricInclude },
+              evaluations: {
+                where: { authorId: evaluatorId },
+                select: { id: true },
+                take: 1,
+              },
+            },
+          },
+        },
+        orderBy: { assignedAt: 'desc' },
+      }),
+      prisma.rubric.findFirst({
+        where: { isDefault: true },
+        include: rubricInclude,
+      }),
+      getRules(),
+    ]);
+
+    const forms = assignments.map(({ project }) => {
+      const rubric = project.rubric ?? defaultRubric;
+      const status = !rubric ? 'draft' : project.evaluations.length > 0 ? 'completed' : 'published';
+
+      return {
+        id: project.id,
+        title: project.title,
+        description: rubric ? rubric.description || rubric.name : 'No rubric has been assigned to this project yet.',
+        rubricName: rubric?.name ?? null,
+        deadline: rules.projectSubmissionDeadline,
+        criteria: rubric?.criteria.map((criterion) => ({
+          id: criterion.id,
+          name: criterion.name,
+          description: criterion.description,
+          weight: criterion.weight,
+          minScore: criterion.minScore,
+          maxScore: criterion.maxScore,
+        })) ?? [],
+        status,
+      };
+    });
+
+    return NextResponse.json(forms, { status: 200 });
+  } catch (error) {
+    console.error(`Error fetching evaluation forms for evaluator ${evaluatorId}:`, error);
+    return NextResponse.json({ error: 'Internal server error while fetching evaluation forms.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { authOptions } from '@/lib/auth';
+import { getDocumentAccess } from '@/lib/document-versions';
+import { fileUrl, getFileStorage } from '@/lib/storage';
+
+// Shown in the browser; anything else, HTML and SVG included, is served as a download
+const INLINE_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'text/plain'];
+
+// GET: Stream an uploaded file to a user who may see it
+export async function GET(req: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  try {
+    const { key: segments } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const key = segments.join('/');
+    let contentType: string | null = null;
+
+    if (segments[0] === 'documents' && segments.length === 3) {
+      const project = await db.project.findUnique({
+        where: { id: segments[1] },
+        select: { id: true, title: true, status: true, groupUserName: true, advisorId: true, isPrivate: true },
+      });
+      if (!project) {
+        return NextResponse.json({ message: 'File not found' }, { status: 404 });
+      }
+
+      // Files of private projects are only for the group, its advisor, evaluators and administrators
+      if (project.isPrivate) {
+        const access = await getDocumentAccess(project, session.user);
+        if (!access.canRead) {
+          return NextResponse.json({ message: 'You do not have access to this file' }, { status: 403 });
+        }
+      }
+
+      // Documents uploaded before versioning may not have a version yet
+      const [version, document] = await Promise.all([
+        db.documentVersion.findFirst({ where: { url: fileUrl(key) }, select: { type: true } }),
+        db.document.findFirst({ where: { url: fileUrl(key) }, select: { type: true } }),
+      ]);
+      contentType = version?.type ?? document?.type ?? null;
+    } else if (segments[0] === 'profile-photos' && segments.length === 2) {
+      // Photos are named after their image type, e.g. <userId>-<timestamp>.png
+      contentType = `image/${segments[1].split('.').pop()}`;
+    } else {
+      return NextResponse.json({ message: 'File not found' }, { status: 404 });
+    }
+
+    const file = await getFileStorage().get(key);
+    if (!file) {
+      return NextResponse.json({ message: 'File not found' }, { status: 404 });
+    }
+
+    const filename = segments[segments.length - 1];
+    const type = file.contentType || contentType || 'application/octet-stream';
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': type,
+        ...(file.size !== null && { 'Content-Length': String(file.size) }),
+        'Content-Disposition': `${INLINE_TYPES.includes(type) ? 'inline' : 'attachment'}; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error streaming file:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,10 +1,20 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { EmailStatus, Role } from '@prisma/client';
+import { z } from 'zod';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { db } from '@/lib/db';
+import { queueEmail } from '@/lib/mail/outbox';
+
+const inviteEmailSchema = z.object({
+  // User ID or email of the registered user being invited
+  invitee: z.string().trim().min(1, 'The user to invite is required'),
+  inviteCode: z.string().trim().min(1, 'Invite code is required'),
+});
 
 export async function POST(
   request: Request,
-  { params }: { params: { groupUserName: string } }
+  { params }: { params: Promise<{ groupUserName: string }> }
 ) {
   try {
     // Check authentication
@@ -13,35 +23,80 @@ export async function POST(
       return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
     }
 
-    const groupUserName = params.groupUserName;
+    const { groupUserName } = await params;
 
     // Get request data
-    const { email, inviteCode, groupName } = await request.json();
+    const validationResult = inviteEmailSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { invitee, inviteCode } = validationResult.data;
+
+    // The invite must be a live code of this group, created by its leader or an admin
+    const invite = await db.groupInvite.findUnique({
+      where: { code: inviteCode },
+      include: {
+        group: { select: { name: true, leaderId: true } },
+      },
+    });
+
+    if (!invite || invite.groupUserName !== groupUserName) {
+      return NextResponse.json({ message: 'Invite code not found' }, { status: 404 });
+    }
+
+    const isGroupLeader = invite.group.leaderId === session.user.userId;
+    const isAdmin = session.user.role === Role.ADMINISTRATOR;
+
+    if (!isGroupLeader && !isAdmin) {
+      return NextResponse.json(
+        { message: 'Only group leaders can send invitations' },
+        { status: 403 }
+      );
+    }
 
-    // Validate input
-    if (!email || !inviteCode || !groupName) {
-      return NextResponse.json({ message: 'Missing required fields' }, { status: 400 });
+    if (invite.usedAt || invite.expiresAt < new Date()) {
+      return NextResponse.json(
+        { message: 'This invite code has expired or was already used' },
+        { status: 400 }
+      );
     }
 
-    // In a production environment, you would send a real email here
-    // For this demo, we'll simulate sending an email
-    
-    console.log(`Sending invitation email to ${email} for group ${groupName} (Username: ${groupUserName}) with code ${inviteCode}`);
-    
-    // This would be replaced with actual email sending logic
-    // Example with a service like SendGrid:
-    // 
-    // await sendgrid.send({
-    //   to: email,
-    //   from: 'noreply@yourapp.com',
-    //   subject: `Invitation to join ${groupName} on [Your App Name]`,
-    //   text: `You've been invited to join ${groupName}. Use the code ${inviteCode} to join.`,
-    //   html: `<p>You've been invited to join <strong>${groupName}</strong>.</p>
-    //          <p>Use the code <strong>${inviteCode}</strong> to join.</p>`,
-    // });
-
-    // Mock successful email sending
-    return NextResponse.json({ message: 'Invitation email sent' }, { status: 200 });
+    // Mail only goes to the address a registered user has on file, never to one the caller typed
+    const user = await db.user.findFirst({
+      where: { OR: [{ userId: invitee }, { email: { equals: invitee, mode: 'insensitive' } }] },
+      select: { email: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ message: 'No user found with this ID or email' }, { status: 404 });
+    }
+
+    if (invite.email && invite.email.toLowerCase() !== user.email.toLowerCase()) {
+      return NextResponse.json(
+        { message: 'This invite code was created for another user' },
+        { status: 400 }
+      );
+    }
+
+    const { status } = await queueEmail(user.email, 'groupInvite', {
+      groupName: invite.group.name,
+      inviteCode: invite.code,
+      inviterName: session.user.name || 'A group leader',
+      expiresAt: invite.expiresAt,
+    });
+
+    // Failed attempts stay in the outbox and are retried later
+    return NextResponse.json(
+      {
+        message: status === EmailStatus.SENT ? 'Invitation email sent' : 'Invitation email queued for delivery',
+        status,
+      },
+      { status: 200 }
+    );
   } catch (error) {
     console.error('Error sending invitation email:', error);
     return NextResponse.json(
@@ -49,4 +104,4 @@ export async function POST(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
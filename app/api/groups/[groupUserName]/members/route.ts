@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { getRules } from '@/lib/rules';
 
 // GET: List all members of a group
 export async function GET(
@@ -117,6 +118,15 @@ export async function POST(
       );
     }
 
+    // Enforce the maximum group size from the system rules
+    const { maxGroupSize } = await getRules();
+    if (group.members.length >= maxGroupSize) {
+      return NextResponse.json(
+        { message: `Group is already at maximum capacity (${maxGroupSize})` },
+        { status: 400 }
+      );
+    }
+
     // Add the user to the group
     await db.groupMember.create({
       data: {
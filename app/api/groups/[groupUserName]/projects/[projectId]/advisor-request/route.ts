@@ -3,6 +3,7 @@ import { db } from '@/lib/db';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { z } from 'zod';
+import { getRules, isPastDeadline } from '@/lib/rules';
 
 // Schema for creating advisor requests
 const createRequestSchema = z.object({
@@ -155,6 +156,15 @@ export async function POST(
       );
     }
 
+    // Advisor requests are closed once the configured deadline has passed
+    const { advisorRequestDeadline } = await getRules();
+    if (isPastDeadline(advisorRequestDeadline)) {
+      return NextResponse.json(
+        { message: `The advisor request deadline (${advisorRequestDeadline!.toISOString()}) has passed` },
+        { status: 400 }
+      );
+    }
+
     // Check if the project already has an advisor
     if (project.advisorId) {
       return NextResponse.json(
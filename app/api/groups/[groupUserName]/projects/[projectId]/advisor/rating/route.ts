@@ -2,16 +2,44 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import { z } from 'zod';
+import { advisorRatingSchema, semesterOf } from '@/lib/advisor-ratings';
 
-// Schema for advisor rating
-const ratingSchema = z.object({
-  advisorId: z.string(),
-  rating: z.number().int().min(1).max(5),
-  feedback: z.string().nullable().optional(),
-});
+// GET: The signed-in student's own rating of the project's advisor, if any
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { groupUserName: string; projectId: string } }
+) {
+  try {
+    const { groupUserName, projectId } = params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
 
-// POST: Submit a rating for an advisor
+    const rating = await db.advisorRating.findFirst({
+      where: {
+        projectId,
+        studentId: session.user.userId,
+        project: { groupUserName },
+      },
+      select: { score: true, feedback: true, semester: true, updatedAt: true },
+    });
+
+    return NextResponse.json({ rating });
+  } catch (error) {
+    console.error('Error fetching advisor rating:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Submit or change the signed-in student's rating of the project's advisor
 export async function POST(
   req: NextRequest,
   { params }: { params: { groupUserName: string; projectId: string } }
@@ -78,7 +106,7 @@ export async function POST(
 
     // Validate rating data
     const ratingData = await req.json();
-    const validationResult = ratingSchema.safeParse(ratingData);
+    const validationResult = advisorRatingSchema.safeParse(ratingData);
 
     if (!validationResult.success) {
       return NextResponse.json(
@@ -100,38 +128,30 @@ export async function POST(
       );
     }
 
-    // Create an evaluation record to store the rating
-    // We're using the Evaluation model since it already has fields for scores and comments
-    const evaluation = await db.evaluation.create({
-      data: {
-        score: rating,
-        comments: feedback || `Rating: ${rating}/5`,
-        criteriaData: {
-          advisorRating: {
-            score: rating,
-            feedback: feedback || null,
-            ratedBy: session.user.userId,
-            ratedAt: new Date().toISOString(),
-          }
-        },
-        authorId: session.user.userId,
-        projectId,
-      },
+    // Each student rates the advisor once per project; rating again replaces the rating.
+    // The advisor is not notified, since the timing would tell them which group rated.
+    const existing = await db.advisorRating.findUnique({
+      where: { projectId_studentId: { projectId, studentId: session.user.userId } },
+      select: { id: true },
     });
 
-    // Create a notification for the advisor
-    await db.notification.create({
-      data: {
-        message: `You received a rating for your advising on project "${project.title}"`,
-        recipientId: advisorId,
-        read: false,
-        link: `/dashboard/project/${projectId}`,
+    const advisorRating = await db.advisorRating.upsert({
+      where: { projectId_studentId: { projectId, studentId: session.user.userId } },
+      update: { score: rating, feedback: feedback || null, advisorId },
+      create: {
+        score: rating,
+        feedback: feedback || null,
+        semester: semesterOf(new Date()),
+        projectId,
+        advisorId,
+        studentId: session.user.userId,
       },
+      select: { score: true, feedback: true, semester: true, updatedAt: true },
     });
 
     return NextResponse.json({
-      message: 'Advisor rating submitted successfully',
-      evaluation,
+      message: existing ? 'Advisor rating updated successfully' : 'Advisor rating submitted successfully',
+      rating: advisorRating,
     });
   } catch (error) {
     console.error('Error submitting advisor rating:', error);
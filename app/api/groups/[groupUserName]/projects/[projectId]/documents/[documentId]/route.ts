@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { deleteDocumentFiles, deleteTemporaryDocumentFile, getDocumentAccess } from '@/lib/document-versions';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import fs from 'fs/promises';
-import path from 'path';
-import { existsSync } from 'fs';
 
 // GET: Get a specific document by ID
 export async function GET(
@@ -111,24 +109,22 @@ export async function DELETE(
       );
     }
 
+    // Only group members may delete the project's documents
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await getDocumentAccess(project, session.user);
+    if (!access.canUpload) {
+      return NextResponse.json({ message: 'Only group members can delete documents' }, { status: 403 });
+    }
+
     try {
       // Handle temporary document IDs
       if (documentId.startsWith('temp-')) {
-        const timestamp = documentId.replace('temp-', '');
-        const documentsDir = path.join(process.cwd(), 'public', 'uploads', 'documents', projectId);
-        
-        // If the directory exists, try to find and delete files matching the timestamp
-        if (existsSync(documentsDir)) {
-          try {
-            const files = await fs.readdir(documentsDir);
-            const matchingFiles = files.filter(file => file.startsWith(timestamp));
-            
-            for (const file of matchingFiles) {
-              await fs.unlink(path.join(documentsDir, file));
-            }
-          } catch (fileError) {
-            console.error('Error finding/deleting temporary file:', fileError);
-          }
+        // Temporary IDs carry the name the file was stored under
+        const deleted = await deleteTemporaryDocumentFile(projectId, documentId.replace('temp-', ''));
+        if ('error' in deleted) {
+          return NextResponse.json({ message: deleted.error }, { status: deleted.status });
         }
       } else {
         // Find the document to get its file path
@@ -151,20 +147,8 @@ export async function DELETE(
           );
         }
         
-        // Delete the file if it exists
-        if (document.url) {
-          try {
-            // Extract file path from URL (remove the leading slash)
-            const filePath = path.join(process.cwd(), 'public', document.url.replace(/^\//, ''));
-            
-            if (existsSync(filePath)) {
-              await fs.unlink(filePath);
-            }
-          } catch (fileError) {
-            console.error('Error deleting file:', fileError);
-            // Continue with document deletion even if file deletion fails
-          }
-        }
+        // Delete the files of every version, unless a submission snapshot still refers to them
+        await deleteDocumentFiles(document);
 
         // Delete the document from the database
         await db.document.delete({
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { authOptions } from '@/lib/auth';
+import { resolveDocument, versionCommentSchema } from '@/lib/document-versions';
+
+type Params = { params: Promise<{ groupUserName: string; projectId: string; documentId: string; versionId: string }> };
+
+const authorSelect = { select: { userId: true, firstName: true, lastName: true } };
+
+// GET: Comments on a document version, oldest first
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const { groupUserName, projectId, documentId, versionId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolved = await resolveDocument(groupUserName, projectId, documentId, session.user);
+    if ('error' in resolved) {
+      return NextResponse.json({ message: resolved.error }, { status: resolved.status });
+    }
+
+    const comments = await db.documentVersionComment.findMany({
+      where: { versionId, version: { documentId } },
+      include: { author: authorSelect },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(comments);
+  } catch (error) {
+    console.error('Error fetching version comments:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST: The project's advisor comments on a document version
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const { groupUserName, projectId, documentId, versionId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolved = await resolveDocument(groupUserName, projectId, documentId, session.user);
+    if ('error' in resolved) {
+      return NextResponse.json({ message: resolved.error }, { status: resolved.status });
+    }
+    if (!resolved.access.canComment) {
+      return NextResponse.json({ message: 'Only the project advisor can comment on versions' }, { status: 403 });
+    }
+
+    const version = await db.documentVersion.findFirst({
+      where: { id: versionId, documentId },
+      select: { id: true, version: true },
+    });
+    if (!version) {
+      return NextResponse.json({ message: 'Version not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const validationResult = versionCommentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const comment = await db.documentVersionComment.create({
+      data: { content: validationResult.data.content, versionId: version.id, authorId: session.user.userId },
+      include: { author: authorSelect },
+    });
+
+    const members = await db.groupMember.findMany({
+      where: { groupUserName },
+      select: { userId: true },
+    });
+    await db.notification.createMany({
+      data: members.map(({ userId }) => ({
+        message: `Your advisor commented on version ${version.version} of "${resolved.document.title}"`,
+        recipientId: userId,
+        read: false,
+      })),
+    });
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    console.error('Error adding version comment:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
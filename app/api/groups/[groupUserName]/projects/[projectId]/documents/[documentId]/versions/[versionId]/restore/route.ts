@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { authOptions } from '@/lib/auth';
+import { addDocumentVersion, resolveDocument } from '@/lib/document-versions';
+
+// POST: Make an earlier version current again by adding it as the newest version
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ groupUserName: string; projectId: string; documentId: string; versionId: string }> }
+) {
+  try {
+    const { groupUserName, projectId, documentId, versionId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolved = await resolveDocument(groupUserName, projectId, documentId, session.user);
+    if ('error' in resolved) {
+      return NextResponse.json({ message: resolved.error }, { status: resolved.status });
+    }
+    if (!resolved.access.canUpload) {
+      return NextResponse.json({ message: 'Only group members can restore versions' }, { status: 403 });
+    }
+
+    const restored = await db.documentVersion.findFirst({
+      where: { id: versionId, documentId },
+    });
+    if (!restored) {
+      return NextResponse.json({ message: 'Version not found' }, { status: 404 });
+    }
+    if (restored.url === resolved.document.url) {
+      return NextResponse.json({ message: 'This version is already the current one' }, { status: 409 });
+    }
+
+    // The restored version keeps pointing at the old file rather than copying it
+    const { version, document } = await addDocumentVersion(
+      documentId,
+      { url: restored.url, type: restored.type, size: restored.size },
+      session.user.userId,
+      restored.version
+    );
+
+    return NextResponse.json({ version, document }, { status: 201 });
+  } catch (error) {
+    console.error('Error restoring document version:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
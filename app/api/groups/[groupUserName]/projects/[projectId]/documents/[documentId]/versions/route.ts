@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { addDocumentVersion, getDocumentVersions, resolveDocument, saveDocumentFile } from '@/lib/document-versions';
+
+type Params = { params: Promise<{ groupUserName: string; projectId: string; documentId: string }> };
+
+// GET: Version history of a document, newest first
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const { groupUserName, projectId, documentId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolved = await resolveDocument(groupUserName, projectId, documentId, session.user);
+    if ('error' in resolved) {
+      return NextResponse.json({ message: resolved.error }, { status: resolved.status });
+    }
+
+    const versions = await getDocumentVersions(resolved.document.id);
+    return NextResponse.json({
+      versions,
+      currentUrl: resolved.document.url,
+      permissions: { canUpload: resolved.access.canUpload, canComment: resolved.access.canComment },
+    });
+  } catch (error) {
+    console.error('Error fetching document versions:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST: Upload a new version of a document, keeping the earlier files
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const { groupUserName, projectId, documentId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolved = await resolveDocument(groupUserName, projectId, documentId, session.user);
+    if ('error' in resolved) {
+      return NextResponse.json({ message: resolved.error }, { status: resolved.status });
+    }
+    if (!resolved.access.canUpload) {
+      return NextResponse.json({ message: 'Only group members can upload new versions' }, { status: 403 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ message: 'No file provided' }, { status: 400 });
+    }
+
+    const stored = await saveDocumentFile(projectId, file);
+    const { version, document } = await addDocumentVersion(documentId, stored, session.user.userId);
+
+    return NextResponse.json({ version, document }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading document version:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,28 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
-import fs from 'fs/promises';
-import path from 'path';
-
-// Create uploads directory if it doesn't exist
-const uploadsDir = join(process.cwd(), 'public', 'uploads', 'documents');
-
-// Ensure the uploads directory exists
-try {
-  if (!existsSync(uploadsDir)) {
-    console.log('Creating uploads directory:', uploadsDir);
-    mkdir(uploadsDir, { recursive: true }).catch(err => 
-      console.error('Failed to create uploads directory:', err)
-    );
-  }
-} catch (error) {
-  console.error('Error checking/creating uploads directory:', error);
-}
+import {
+  deleteDocumentFiles,
+  deleteTemporaryDocumentFile,
+  getDocumentAccess,
+  saveDocumentFile,
+} from '@/lib/document-versions';
 
 // Schema for creating/updating documents
 const documentSchema = z.object({
@@ -167,30 +153,9 @@ export async function POST(
       );
     }
 
-    // Create uploads directory if it doesn't exist
-    if (!existsSync(uploadsDir)) {
-      await mkdir(uploadsDir, { recursive: true });
-    }
-
-    // Create project-specific directory
-    const projectDir = join(uploadsDir, projectId);
-    if (!existsSync(projectDir)) {
-      await mkdir(projectDir, { recursive: true });
-    }
-
-    // Generate unique filename
-    const timestamp = Date.now();
-    const originalExtension = file.name.split('.').pop() || '';
-    const safeFilename = `${timestamp}-${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
-    const filepath = join(projectDir, safeFilename);
-
-    // Convert file to buffer and save
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    await writeFile(filepath, buffer);
-
-    // Generate public URL
-    const fileUrl = `/uploads/documents/${projectId}/${safeFilename}`;
+    // Store the file; it is downloaded through the authorized file route
+    const stored = await saveDocumentFile(projectId, file);
+    const fileUrl = stored.url;
 
     try {
       // Save document metadata to database
@@ -205,6 +170,16 @@ export async function POST(
           projectId,
           // Include the user ID if session exists
           uploadedById: session?.user?.userId || null,
+          // The first upload starts the document's version history
+          versions: {
+            create: {
+              version: 1,
+              url: fileUrl,
+              type: file.type,
+              size: file.size,
+              uploadedById: session?.user?.userId || null,
+            },
+          },
         },
         include: {
           uploadedBy: {
@@ -223,7 +198,7 @@ export async function POST(
       console.error('Error creating document in database:', dbError);
       // If db operation fails, return the file info anyway
       const fallbackDocument = {
-        id: `temp-${timestamp}`,
+        id: `temp-${stored.filename}`,
         title: validationResult.data.title,
         content: validationResult.data.content || '',
         type: file.type,
@@ -252,6 +227,7 @@ export async function DELETE(
   { params, searchParams }: { params: { groupUserName: string; projectId: string }; searchParams: URLSearchParams }
 ) {
   try {
+    const session = await getServerSession(authOptions);
     const { groupUserName, projectId } = params;
     const documentId = searchParams.get('documentId');
     
@@ -289,24 +265,22 @@ export async function DELETE(
       );
     }
 
+    // Only group members may delete the project's documents
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await getDocumentAccess(project, session.user);
+    if (!access.canUpload) {
+      return NextResponse.json({ message: 'Only group members can delete documents' }, { status: 403 });
+    }
+
     try {
       // Handle temporary document IDs
       if (documentId.startsWith('temp-')) {
-        const timestamp = documentId.replace('temp-', '');
-        const documentsDir = join(process.cwd(), 'public', 'uploads', 'documents', projectId);
-        
-        // If the directory exists, try to find and delete files matching the timestamp
-        if (existsSync(documentsDir)) {
-          try {
-            const files = await fs.readdir(documentsDir);
-            const matchingFiles = files.filter(file => file.startsWith(timestamp));
-            
-            for (const file of matchingFiles) {
-              await fs.unlink(path.join(documentsDir, file));
-            }
-          } catch (fileError) {
-            console.error('Error finding/deleting temporary file:', fileError);
-          }
+        // Temporary IDs carry the name the file was stored under
+        const deleted = await deleteTemporaryDocumentFile(projectId, documentId.replace('temp-', ''));
+        if ('error' in deleted) {
+          return NextResponse.json({ message: deleted.error }, { status: deleted.status });
         }
       } else {
         // Find the document to get its file path
@@ -323,19 +297,8 @@ export async function DELETE(
             );
           }
           
-          // Delete the file if it exists
-          if (document.url) {
-            try {
-              // Extract file path from URL (remove the leading slash)
-              const filePath = join(process.cwd(), 'public', document.url.replace(/^\//, ''));
-              
-              if (existsSync(filePath)) {
-                await fs.unlink(filePath);
-              }
-            } catch (fileError) {
-              console.error('Error deleting file:', fileError);
-            }
-          }
+          // Delete the files of every version, unless a submission snapshot still refers to them
+          await deleteDocumentFiles(document);
 
           // Delete the document from the database
           await db.document.delete({
@@ -3,17 +3,60 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth'; // Assuming your authOptions are here
 import { prisma } from '@/lib/prisma'; // Corrected Prisma import
 import { Role } from '@prisma/client';
+import { getProjectRubric, rubricEvaluationSchema, saveRubricEvaluation } from '@/lib/rubrics';
 
-interface RequestBody {
-  score: number;
-  comments: string;
-  criteriaData?: any; // Flexible for now, can be typed more strictly
+// Only evaluators assigned to the project may read its rubric or submit an evaluation
+async function isAssignedEvaluator(projectId: string, evaluatorId: string) {
+  const projectEvaluator = await prisma.projectEvaluator.findUnique({
+    where: {
+      projectId_evaluatorId: {
+        projectId,
+        evaluatorId,
+      },
+    },
+  });
+  return !!projectEvaluator;
+}
+
+// GET /api/groups/:groupUserName/projects/:projectId/evaluation
+// Returns the rubric to grade against and the evaluator's current evaluation, if any
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ groupUserName: string; projectId: string }> }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.userId || session.user.role !== Role.EVALUATOR) {
+    return NextResponse.json({ error: 'Unauthorized. You must be an evaluator to view evaluations.' }, { status: 401 });
+  }
+
+  const { projectId } = await params;
+  const evaluatorId = session.user.userId;
+
+  try {
+    if (!(await isAssignedEvaluator(projectId, evaluatorId))) {
+      return NextResponse.json({ error: 'Forbidden. You are not assigned to evaluate this project.' }, { status: 403 });
+    }
+
+    const [rubric, evaluation] = await Promise.all([
+      getProjectRubric(projectId),
+      prisma.evaluation.findFirst({
+        where: { projectId, authorId: evaluatorId },
+      }),
+    ]);
+
+    return NextResponse.json({ rubric, evaluation }, { status: 200 });
+  } catch (error) {
+    console.error(`Error fetching evaluation for project ${projectId} by evaluator ${evaluatorId}:`, error);
+    return NextResponse.json({ error: 'Internal server error while fetching evaluation.' }, { status: 500 });
+  }
 }
 
 // POST /api/groups/:groupUserName/projects/:projectId/evaluation
+// The score is computed from the per-criterion scores; a client-supplied score is ignored
 export async function POST(
   request: Request,
-  { params }: { params: { groupUserName: string; projectId: string } }
+  { params }: { params: Promise<{ groupUserName: string; projectId: string }> }
 ) {
   const session = await getServerSession(authOptions);
 
@@ -21,84 +64,31 @@ export async function POST(
     return NextResponse.json({ error: 'Unauthorized. You must be an evaluator to submit evaluations.' }, { status: 401 });
   }
 
-  const { projectId } = params;
+  const { projectId } = await params;
   const evaluatorId = session.user.userId;
 
   try {
-    const body: RequestBody = await request.json();
-    const { score, comments, criteriaData } = body;
+    const body = await request.json();
+    const validationResult = rubricEvaluationSchema.safeParse(body);
 
-    if (typeof score !== 'number' || score < 0 || score > 100) {
-      return NextResponse.json({ error: 'Invalid score. Must be between 0 and 100.' }, { status: 400 });
-    }
-    if (!comments || typeof comments !== 'string' || comments.trim() === '') {
-      return NextResponse.json({ error: 'Comments are required.' }, { status: 400 });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
     }
 
-    // Verify the evaluator is assigned to this project
-    const projectEvaluator = await prisma.projectEvaluator.findUnique({
-      where: {
-        projectId_evaluatorId: {
-          projectId,
-          evaluatorId,
-        },
-      },
-    });
-
-    if (!projectEvaluator) {
+    if (!(await isAssignedEvaluator(projectId, evaluatorId))) {
       return NextResponse.json({ error: 'Forbidden. You are not assigned to evaluate this project.' }, { status: 403 });
     }
-    
-    // Check if an evaluation already exists from this evaluator for this project
-    const existingEvaluation = await prisma.evaluation.findFirst({
-        where: {
-            projectId,
-            authorId: evaluatorId,
-        }
-    });
-
-    if (existingEvaluation) {
-        // Update existing evaluation
-        const updatedEvaluation = await prisma.evaluation.update({
-            where: {
-                id: existingEvaluation.id,
-            },
-            data: {
-                score,
-                comments,
-                criteriaData: criteriaData || existingEvaluation.criteriaData, // Keep old criteria if new not provided
-                createdAt: new Date(), // Explicitly update timestamp if desired, or let Prisma handle `updatedAt` if schema has it
-            },
-        });
-        return NextResponse.json(updatedEvaluation, { status: 200 });
-    }
 
+    const result = await saveRubricEvaluation(projectId, evaluatorId, validationResult.data);
 
-    // Create the new evaluation
-    const newEvaluation = await prisma.evaluation.create({
-      data: {
-        score,
-        comments,
-        criteriaData: criteriaData || {}, // Ensure criteriaData is at least an empty object
-        projectId,
-        authorId: evaluatorId,
-        // project: { connect: { id: projectId } }, // This is implicit via projectId
-        // author: { connect: { userId: evaluatorId } }, // This is implicit via authorId
-      },
-      include: {
-        project: {
-          select: { title: true }
-        },
-        author: {
-          select: { firstName: true, lastName: true }
-        }
-      }
-    });
-
-    // Optionally, update project status if this evaluation completes it
-    // For now, keeping it simple as requested.
-
-    return NextResponse.json(newEvaluation, { status: 201 });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.evaluation, { status: result.created ? 201 : 200 });
   } catch (error) {
     console.error(`Error creating/updating evaluation for project ${projectId} by evaluator ${evaluatorId}:`, error);
     if (error instanceof SyntaxError) { // Handle malformed JSON
@@ -106,4 +96,4 @@ export async function POST(
     }
     return NextResponse.json({ error: 'Internal server error while submitting evaluation.' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { countAdvisedProjects, getRules } from '@/lib/rules';
+import { getLifecycleRoles, transitionProject } from '@/lib/project-lifecycle';
 
-// Schema for project updates
+// Schema for project updates; the submission date and archiving follow from status changes
 const updateProjectSchema = z.object({
   title: z.string().trim().min(1, 'Project title is required').optional(),
   description: z.string().optional().nullable(),
   status: z.enum(['ACTIVE', 'SUBMITTED', 'COMPLETED', 'ARCHIVED']).optional(),
-  submissionDate: z.string().optional().nullable(), // ISO date string
   advisorId: z.string().optional().nullable(),
-  archived: z.boolean().optional(),
 });
 
 // GET: Retrieve a specific project
@@ -167,6 +169,14 @@ export async function PATCH(
 ) {
   try {
     const { groupUserName, projectId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
 
     const group = await db.group.findUnique({
       where: { groupUserName },
@@ -195,6 +205,15 @@ export async function PATCH(
       );
     }
 
+    // Only the group and administrators edit a project; advisors act through status transitions
+    const roles = await getLifecycleRoles(project, session.user);
+    if (!roles.includes('MEMBER') && !roles.includes('ADMINISTRATOR')) {
+      return NextResponse.json(
+        { message: 'Only group members can update this project' },
+        { status: 403 }
+      );
+    }
+
     // Validate input data
     const rawData = await req.json();
     const validationResult = updateProjectSchema.safeParse(rawData);
@@ -206,7 +225,17 @@ export async function PATCH(
       );
     }
 
-    const updateData = validationResult.data;
+    // Status changes are lifecycle transitions, never plain updates
+    const { status, ...updateData } = validationResult.data;
+
+    // The advisor signs off submitted work, so they are fixed once the project leaves ACTIVE
+    const changesAdvisor = updateData.advisorId !== undefined && updateData.advisorId !== project.advisorId;
+    if (changesAdvisor && project.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { message: 'The advisor can only be changed while the project is active' },
+        { status: 400 }
+      );
+    }
 
     // If advisor is being changed, check if they exist and have the correct role
     if (updateData.advisorId && updateData.advisorId !== project.advisorId) {
@@ -228,11 +257,22 @@ export async function PATCH(
           { status: 400 }
         );
       }
+
+      const { maxProjectsPerAdvisor } = await getRules();
+      if (await countAdvisedProjects(advisor.userId) >= maxProjectsPerAdvisor) {
+        return NextResponse.json(
+          { message: `This advisor already supervises the maximum of ${maxProjectsPerAdvisor} projects` },
+          { status: 400 }
+        );
+      }
     }
 
-    // Set submission date if status is changing to SUBMITTED
-    if (updateData.status === 'SUBMITTED' && project.status !== 'SUBMITTED') {
-      updateData.submissionDate = new Date().toISOString();
+    if (status && status !== project.status) {
+      const result = await transitionProject(projectId, status, session.user);
+      if ('error' in result) {
+        const { error, status: httpStatus, ...details } = result;
+        return NextResponse.json({ message: error, ...details }, { status: httpStatus });
+      }
     }
 
     // Update the project
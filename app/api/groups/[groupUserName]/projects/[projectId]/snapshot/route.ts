@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { db } from '@/lib/db';
+import { authOptions } from '@/lib/auth';
+import { getLifecycleRoles } from '@/lib/project-lifecycle';
+import { diffSnapshot, getLatestSnapshot } from '@/lib/submission-snapshots';
+
+// GET: What the project looked like when it was last submitted, and what changed since
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ groupUserName: string; projectId: string }> }
+) {
+  try {
+    const { groupUserName, projectId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const project = await db.project.findFirst({
+      where: { id: projectId, groupUserName },
+      select: { id: true, title: true, status: true, groupUserName: true, advisorId: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Project not found or does not belong to this group' },
+        { status: 404 }
+      );
+    }
+
+    const [roles, evaluator] = await Promise.all([
+      getLifecycleRoles(project, session.user),
+      db.projectEvaluator.findUnique({
+        where: { projectId_evaluatorId: { projectId, evaluatorId: session.user.userId } },
+        select: { evaluatorId: true },
+      }),
+    ]);
+    if (roles.length === 0 && !evaluator) {
+      return NextResponse.json({ message: 'You are not involved in this project' }, { status: 403 });
+    }
+
+    const snapshot = await getLatestSnapshot(project.id);
+    if (!snapshot) {
+      return NextResponse.json({ snapshot: null, changes: null });
+    }
+
+    return NextResponse.json({ snapshot, changes: await diffSnapshot(snapshot) });
+  } catch (error) {
+    console.error('Error fetching submission snapshot:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
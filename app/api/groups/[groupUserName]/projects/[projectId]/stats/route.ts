@@ -60,6 +60,20 @@ export async function GET(
       where: { projectId },
     });
 
+    // Fetch the aggregated final grade, if any evaluations have been scored
+    const finalGrade = await prisma.finalGrade.findUnique({
+      where: { projectId },
+      select: {
+        score: true,
+        method: true,
+        evaluationCount: true,
+        lowestScore: true,
+        highestScore: true,
+        disagreement: true,
+        computedAt: true,
+      },
+    });
+
     // Fetch feedback statistics
     const feedbackStats = await prisma.feedback.groupBy({
       by: ['status'],
@@ -135,6 +149,7 @@ export async function GET(
     const stats = {
       tasks,
       evaluations: { total: evaluationCount },
+      finalGrade,
       feedback,
       mergeRequests,
       commits: { total: commitCount },
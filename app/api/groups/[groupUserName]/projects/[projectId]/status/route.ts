@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { ProjectStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { authOptions } from '@/lib/auth';
+import {
+  allowedTransitions,
+  getLifecycleRoles,
+  getStatusHistory,
+  getSubmissionChecklist,
+  projectTransitionSchema,
+  transitionProject,
+} from '@/lib/project-lifecycle';
+
+type RouteParams = { params: Promise<{ groupUserName: string; projectId: string }> };
+
+// GET: The project's status, the transitions open to the caller, the submission checklist and the audit trail
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { groupUserName, projectId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const project = await db.project.findFirst({
+      where: { id: projectId, groupUserName },
+      select: { id: true, title: true, status: true, groupUserName: true, advisorId: true, submissionDate: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Project not found or does not belong to this group' },
+        { status: 404 }
+      );
+    }
+
+    const roles = await getLifecycleRoles(project, session.user);
+    if (roles.length === 0) {
+      return NextResponse.json({ message: 'You are not involved in this project' }, { status: 403 });
+    }
+
+    const [checklist, history] = await Promise.all([
+      project.status === ProjectStatus.ACTIVE ? getSubmissionChecklist(project) : null,
+      getStatusHistory(project.id),
+    ]);
+
+    return NextResponse.json({
+      status: project.status,
+      submissionDate: project.submissionDate,
+      transitions: allowedTransitions(project.status, roles).map(({ to, label, requiresReason }) => ({
+        to,
+        label,
+        requiresReason: !!requiresReason,
+      })),
+      checklist,
+      history,
+    });
+  } catch (error) {
+    console.error('Error fetching project status:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST: Move the project to another lifecycle status
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { groupUserName, projectId } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const project = await db.project.findFirst({
+      where: { id: projectId, groupUserName },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Project not found or does not belong to this group' },
+        { status: 404 }
+      );
+    }
+
+    const validationResult = projectTransitionSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { status, reason } = validationResult.data;
+    const result = await transitionProject(project.id, status, session.user, reason);
+    if ('error' in result) {
+      const { error, status: httpStatus, ...details } = result;
+      return NextResponse.json({ message: error, ...details }, { status: httpStatus });
+    }
+
+    return NextResponse.json({
+      message: 'Project status updated successfully',
+      change: result.change,
+    });
+  } catch (error) {
+    console.error('Error updating project status:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -209,6 +209,8 @@ export async function PATCH(
         deadline: deadline ? new Date(deadline) : null 
       }),
       ...(assigneeId !== undefined && { assigneeId }),
+      // A new deadline or assignee deserves a fresh reminder
+      ...((deadline !== undefined || assigneeId !== undefined) && { deadlineReminderSentAt: null }),
     };
 
     // Update task
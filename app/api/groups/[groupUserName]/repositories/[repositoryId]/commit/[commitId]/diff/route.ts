@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { DEFAULT_CONTEXT_LINES, diffFileChanges } from '@/lib/diff';
+import { getRepositoryAccess } from '@/lib/repositories';
+import { z } from 'zod';
+
+const diffQuerySchema = z.object({
+  // Limit the diff to a single file change
+  fileChangeId: z.string().optional(),
+  context: z.coerce.number().int().min(0).max(50).default(DEFAULT_CONTEXT_LINES),
+});
+
+// GET: Unified and side-by-side diffs for the file changes of a commit
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { groupUserName: string; repositoryId: string; commitId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { groupUserName, repositoryId, commitId } = params;
+    const queryResult = diffQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams.entries())
+    );
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid query', errors: queryResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { fileChangeId, context } = queryResult.data;
+
+    const repository = await db.repository.findUnique({
+      where: { name_groupUserName: { name: repositoryId, groupUserName } },
+      select: { name: true, groupUserName: true, isPrivate: true },
+    });
+
+    if (!repository) {
+      return NextResponse.json(
+        { message: 'Repository not found' },
+        { status: 404 }
+      );
+    }
+
+    // Advisors and evaluators of linked projects review commits alongside the group
+    const access = await getRepositoryAccess(repository, session.user);
+
+    if (!access.canRead) {
+      return NextResponse.json(
+        { message: 'You do not have permission to view this commit' },
+        { status: 403 }
+      );
+    }
+
+    const commit = await db.commit.findFirst({
+      where: {
+        id: commitId,
+        repositoryName: repositoryId,
+        repositoryGroup: groupUserName,
+      },
+      select: {
+        id: true,
+        fileChanges: {
+          where: fileChangeId ? { id: fileChangeId } : undefined,
+          select: {
+            id: true,
+            filePath: true,
+            changeType: true,
+            fileContentHash: true,
+            previousFileContentHash: true,
+          },
+          orderBy: { filePath: 'asc' },
+        },
+      },
+    });
+
+    if (!commit) {
+      return NextResponse.json(
+        { message: 'Commit not found' },
+        { status: 404 }
+      );
+    }
+
+    if (fileChangeId && commit.fileChanges.length === 0) {
+      return NextResponse.json(
+        { message: 'File change not found' },
+        { status: 404 }
+      );
+    }
+
+    const files = await diffFileChanges(commit.fileChanges, context);
+
+    return NextResponse.json({
+      commitId: commit.id,
+      files,
+      stats: {
+        files: files.length,
+        additions: files.reduce((sum, file) => sum + file.additions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+      },
+    });
+  } catch (error) {
+    console.error('Error computing commit diff:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -42,8 +42,10 @@ export async function GET(
     // Verify the repository exists and belongs to the group
     const repository = await db.repository.findUnique({
       where: {
-        id: repositoryId,
-        groupUserName,
+        name_groupUserName: {
+          name: repositoryId,
+          groupUserName,
+        },
       },
     });
 
@@ -69,7 +71,8 @@ export async function GET(
     const commit = await db.commit.findUnique({
       where: {
         id: commitId,
-        repositoryId,
+        repositoryName: repositoryId,
+        repositoryGroup: groupUserName,
       },
       include: {
         author: {
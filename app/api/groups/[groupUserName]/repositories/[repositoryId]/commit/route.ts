@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
+import { linkIssueReferences } from '@/lib/issues';
+import { protectedBranchMessage } from '@/lib/branches';
+import { layoutCommitGraph, loadCommitGraph, simplifyHistory, walkHistory } from '@/lib/commit-graph';
 import { z } from 'zod';
 
 // Schema for creating a new commit
@@ -19,7 +22,17 @@ const createCommitSchema = z.object({
   ).min(1, 'At least one file change is required'),
 });
 
-// GET: Retrieve all commits for a repository
+// Query options for walking a repository's history
+const commitHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional(),
+  branch: z.string().optional(),
+  path: z.string().trim().min(1).optional(),
+  message: z.string().optional(),
+  authorId: z.string().optional(),
+});
+
+// GET: Walk the commit history from a branch head (or every branch head) through parentCommitIDs
 export async function GET(
   req: NextRequest,
   { params }: { params: { groupUserName: string; repositoryId: string } }
@@ -35,12 +48,18 @@ export async function GET(
     }
 
     const { groupUserName, repositoryId } = params;
-    const searchParams = req.nextUrl.searchParams;
-    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit') as string, 10) : 50;
-    const offset = searchParams.get('offset') ? parseInt(searchParams.get('offset') as string, 10) : 0;
-    const branchName = searchParams.get('branch') || undefined;
-    const message = searchParams.get('message') || undefined;
-    const authorId = searchParams.get('authorId') || undefined;
+    const queryResult = commitHistoryQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams.entries())
+    );
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid query', errors: queryResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { limit, cursor, branch: branchName, path, message, authorId } = queryResult.data;
 
     // Verify the group exists
     const group = await db.group.findUnique({
@@ -64,8 +83,10 @@ export async function GET(
     // Verify the repository exists and belongs to the group
     const repository = await db.repository.findUnique({
       where: {
-        id: repositoryId,
-        groupUserName,
+        name_groupUserName: {
+          name: repositoryId,
+          groupUserName,
+        },
       },
     });
 
@@ -88,42 +109,66 @@ export async function GET(
       );
     }
 
-    // If branch name is provided, we need to get commits for that specific branch
-    let commitFilter = {};
-    if (branchName) {
-      const branch = await db.branch.findFirst({
+    const repositoryWhere = { repositoryName: repositoryId, repositoryGroup: groupUserName };
+
+    // Start from the requested branch, or from every branch to show the whole graph
+    const branches = await db.branch.findMany({
+      where: { ...repositoryWhere, ...(branchName && { name: branchName }) },
+      select: { name: true, headCommitId: true },
+    });
+
+    if (branchName && branches.length === 0) {
+      return NextResponse.json(
+        { message: 'Branch not found' },
+        { status: 404 }
+      );
+    }
+
+    const graph = await loadCommitGraph(repositoryId, groupUserName);
+    let history = walkHistory(graph, branches.map((branch) => branch.headCommitId));
+
+    // Filters keep the matching commits and reconnect them through their nearest matching ancestors
+    if (path || message || authorId) {
+      const normalizedPath = path?.replace(/^\/+|\/+$/g, '');
+      const matching = await db.commit.findMany({
         where: {
-          repositoryId,
-          name: branchName,
-        },
-        include: {
-          headCommit: true,
+          ...repositoryWhere,
+          ...(message && { message: { contains: message, mode: 'insensitive' } }),
+          ...(authorId && { authorId }),
+          ...(normalizedPath && {
+            fileChanges: {
+              some: {
+                OR: [
+                  { filePath: normalizedPath },
+                  { filePath: { startsWith: `${normalizedPath}/` } },
+                ],
+              },
+            },
+          }),
         },
+        select: { id: true },
       });
+      const matchingIds = new Set(matching.map((commit) => commit.id));
+      history = simplifyHistory(graph, history.filter((commit) => matchingIds.has(commit.id)));
+    }
+
+    const rows = layoutCommitGraph(history);
 
-      if (!branch) {
+    // The cursor is the id of the last commit of the previous page
+    let start = 0;
+    if (cursor) {
+      start = rows.findIndex((row) => row.commitId === cursor) + 1;
+      if (start === 0) {
         return NextResponse.json(
-          { message: 'Branch not found' },
-          { status: 404 }
+          { message: 'Invalid cursor' },
+          { status: 400 }
         );
       }
-
-      // We would need a helper function to get all commits in a branch
-      // For simplicity, we'll just show a limited approach here
-      // In a real implementation, you would traverse the commit history using parentCommitIDs
-      commitFilter = {
-        id: branch.headCommitId,
-      };
     }
 
-    // Fetch commits with filtering options
-    const commits = await db.commit.findMany({
-      where: {
-        repositoryId,
-        ...(commitFilter),
-        ...(message && { message: { contains: message, mode: 'insensitive' } }),
-        ...(authorId && { authorId }),
-      },
+    const page = rows.slice(start, start + limit);
+    const pageCommits = await db.commit.findMany({
+      where: { id: { in: page.map((row) => row.commitId) } },
       include: {
         author: {
           select: {
@@ -140,26 +185,30 @@ export async function GET(
           },
         },
       },
-      orderBy: { timestamp: 'desc' },
-      skip: offset,
-      take: limit,
     });
+    const commitsById = new Map(pageCommits.map((commit) => [commit.id, commit]));
 
-    const total = await db.commit.count({
-      where: {
-        repositoryId,
-        ...(commitFilter),
-        ...(message && { message: { contains: message, mode: 'insensitive' } }),
-        ...(authorId && { authorId }),
-      },
-    });
+    // Label branch heads so the graph can show where each branch points
+    const branchHeads = new Map<string, string[]>();
+    for (const branch of branches) {
+      branchHeads.set(branch.headCommitId, [...(branchHeads.get(branch.headCommitId) ?? []), branch.name]);
+    }
+
+    const hasMore = start + limit < rows.length;
 
     return NextResponse.json({
-      commits,
+      commits: page.map((row) => ({
+        ...commitsById.get(row.commitId)!,
+        branches: branchHeads.get(row.commitId) ?? [],
+      })),
+      graph: {
+        rows: page,
+        columns: Math.max(0, ...page.flatMap((row) => [row.column, ...row.edges.flatMap((edge) => [edge.from, edge.to])])) + 1,
+      },
       pagination: {
-        total,
-        offset,
+        total: rows.length,
         limit,
+        nextCursor: hasMore && page.length > 0 ? page[page.length - 1].commitId : null,
       },
     });
   } catch (error) {
@@ -210,8 +259,10 @@ export async function POST(
     // Verify the repository exists and belongs to the group
     const repository = await db.repository.findUnique({
       where: {
-        id: repositoryId,
-        groupUserName,
+        name_groupUserName: {
+          name: repositoryId,
+          groupUserName,
+        },
       },
     });
 
@@ -250,7 +301,8 @@ export async function POST(
     // Find branch to update
     const branch = await db.branch.findFirst({
       where: {
-        repositoryId,
+        repositoryName: repositoryId,
+        repositoryGroup: groupUserName,
         name: branchName,
       },
       include: {
@@ -265,6 +317,13 @@ export async function POST(
       );
     }
 
+    if (branch.isProtected) {
+      return NextResponse.json(
+        { message: protectedBranchMessage(branch.name) },
+        { status: 403 }
+      );
+    }
+
     // Create commit ID (usually this would be a hash of the content)
     const commitId = `commit-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
@@ -276,7 +335,8 @@ export async function POST(
           id: commitId,
           message,
           timestamp: new Date(),
-          repositoryId,
+          repositoryName: repositoryId,
+          repositoryGroup: groupUserName,
           authorId: session.user.userId,
           parentCommitIDs: parentCommitIds.length > 0 ? parentCommitIds : [branch.headCommitId],
         },
@@ -308,6 +368,8 @@ export async function POST(
       return commit;
     });
 
+    await linkIssueReferences(newCommit, branch.name);
+
     // Fetch the complete commit with relations
     const completeCommit = await db.commit.findUnique({
       where: {
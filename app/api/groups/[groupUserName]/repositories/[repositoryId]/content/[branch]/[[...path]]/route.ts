@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
+import { readBlob } from '@/lib/blob-store';
+import { treeAtCommit } from '@/lib/commit-graph';
+import { getRepositoryAccess } from '@/lib/repositories';
 import { z } from 'zod';
 
 // Validation schemas
 const paramsSchema = z.object({
-  groupId: z.string().min(1),
+  groupUserName: z.string().min(1),
   repositoryId: z.string().min(1),
   branch: z.string().min(1),
   path: z.array(z.string()).min(1),
@@ -23,11 +26,12 @@ const fileSchema = z.object({
   path: z.string(),
   content: z.string().nullable(),
   isBinary: z.boolean(),
+  commitId: z.string(),
 });
 
 export async function GET(
   req: NextRequest,
-  context: { params: { groupId: string; repositoryId: string; branch: string; path: string[] } }
+  context: { params: { groupUserName: string; repositoryId: string; branch: string; path: string[] } }
 ) {
   try {
     const session = await getServerSession(authOptions);
@@ -47,27 +51,22 @@ export async function GET(
       );
     }
 
-    const { groupId, repositoryId, branch, path } = parsedParams.data;
+    const { groupUserName, repositoryId, branch, path } = parsedParams.data;
     const filePath = path.join("/");
     
     // Find the repository first to check privacy and permissions
     const repository = await db.repository.findUnique({
       where: {
-        id: repositoryId,
-        groupId,
-      },
-      include: {
-        group: {
-          select: {
-            members: {
-              select: {
-                userId: true,
-              },
-            },
-            leaderId: true,
-          },
+        name_groupUserName: {
+          name: repositoryId,
+          groupUserName,
         },
       },
+      select: {
+        name: true,
+        groupUserName: true,
+        isPrivate: true,
+      },
     });
 
     if (!repository) {
@@ -77,35 +76,26 @@ export async function GET(
       );
     }
 
-    // If repository is private, check authentication
-    if (repository.isPrivate) {
-      if (!session?.user) {
-        return NextResponse.json(
-          { error: "Unauthorized" },
-          { status: 401 }
-        );
-      }
-
-      // Check if user has access to this private repository
-      const isGroupMember = repository.group?.members.some(
-        (member: { userId: string }) => member.userId === session.user.userId
-      ) || false;
-      const isGroupLeader = repository.group?.leaderId === session.user.userId;
-      const isRepoOwner = repository.ownerId === session.user.userId;
-
-      if (!isGroupMember && !isGroupLeader && !isRepoOwner) {
-        return NextResponse.json(
-          { error: "You do not have permission to view this private repository" },
-          { status: 403 }
-        );
-      }
+    // Private repositories are open to the group, advisors and evaluators of linked projects
+    const access = await getRepositoryAccess(repository, session?.user);
+    if (!access.canRead) {
+      return session?.user
+        ? NextResponse.json(
+            { error: "You do not have permission to view this private repository" },
+            { status: 403 }
+          )
+        : NextResponse.json(
+            { error: "Unauthorized" },
+            { status: 401 }
+          );
     }
 
     // Get the branch to find the head commit
     const branchData = await db.branch.findUnique({
       where: {
-        repositoryId_name: {
-          repositoryId,
+        repositoryName_repositoryGroup_name: {
+          repositoryName: repositoryId,
+          repositoryGroup: groupUserName,
           name: branch,
         }
       }
@@ -118,24 +108,11 @@ export async function GET(
       );
     }
 
-    // Find the file change for this path
-    const fileChange = await db.fileChange.findFirst({
-      where: {
-        commit: {
-          id: branchData.headCommitId,
-          repositoryId,
-        },
-        filePath,
-        changeType: { not: "DELETED" }
-      },
-      orderBy: {
-        commit: {
-          timestamp: 'desc'
-        }
-      }
-    });
+    // The file as of the branch head, wherever in its history it was last changed
+    const tree = await treeAtCommit(repositoryId, groupUserName, branchData.headCommitId);
+    const fileContentHash = tree.get(filePath);
 
-    if (!fileChange) {
+    if (!fileContentHash) {
       return NextResponse.json(
         { error: "File not found" },
         { status: 404 }
@@ -145,38 +122,35 @@ export async function GET(
     // Get file name from path
     const fileName = filePath.split("/").pop() || "";
     
-    // Check if file is likely binary based on extension
-    const binaryExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.pdf', '.zip', '.exe', '.dll'];
-    const isBinary = binaryExtensions.some(ext => fileName.toLowerCase().endsWith(ext));
-
-    // In a real implementation, you would retrieve the file content
-    // from a storage system using the fileContentHash
-    // This is a simplified example - replace with your actual file storage retrieval
-    const content = isBinary 
-      ? null 
-      : `This is the content of ${filePath} (hash: ${fileChange.fileContentHash})`;
-      
-    // For raw content delivery (e.g., for images, downloads)
-    if (raw && isBinary) {
-      // In a real implementation, this would return the raw binary data
-      // For demo purposes, we'll return a simple message
-      return new Response(
-        `[Binary data would be returned for ${filePath}]`, 
-        {
-          headers: {
-            'Content-Type': 'application/octet-stream',
-            'Content-Disposition': `attachment; filename=${fileName}`
-          }
-        }
+    const blob = await readBlob(fileContentHash);
+    if (!blob) {
+      return NextResponse.json(
+        { error: "File content not found" },
+        { status: 404 }
       );
     }
-    
+
+    const isBinary = blob.isBinary;
+    const content = isBinary ? null : blob.content.toString("utf8");
+
+    // For raw content delivery (e.g., for images, downloads)
+    if (raw) {
+      return new Response(new Uint8Array(blob.content), {
+        headers: {
+          'Content-Type': isBinary ? 'application/octet-stream' : 'text/plain; charset=utf-8',
+          'Content-Disposition': `${isBinary ? 'attachment' : 'inline'}; filename="${fileName}"`,
+        },
+      });
+    }
+
     // For normal JSON response with file metadata and content
     const fileContent = {
       name: fileName,
       path: filePath,
       content,
       isBinary,
+      // The commit the content was read at, which line comments are anchored to
+      commitId: branchData.headCommitId,
     };
 
     return NextResponse.json(fileContent);
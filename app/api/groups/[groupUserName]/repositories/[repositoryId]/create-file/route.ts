@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { linkIssueReferences } from '@/lib/issues';
+import { protectedBranchMessage } from '@/lib/branches';
+import { storeBlob } from '@/lib/blob-store';
 import { z } from 'zod';
 
 // Schema for file creation
@@ -76,6 +79,13 @@ export async function POST(
       },
     });
 
+    if (branchRecord?.isProtected) {
+      return NextResponse.json(
+        { error: protectedBranchMessage(branchRecord.name) },
+        { status: 403 }
+      );
+    }
+
     // Check if file already exists in the branch
     if (branchRecord) {
       const existingFile = await prisma.fileChange.findFirst({
@@ -96,8 +106,8 @@ export async function POST(
       }
     }
 
-    // Create the file change
-    const fileContentHash = Buffer.from(content).toString('base64');
+    // Store the content so the file change can refer to it by hash
+    const fileContentHash = await storeBlob(content);
     
     // Create the transaction
     const result = await prisma.$transaction(async (tx) => {
@@ -171,6 +181,8 @@ export async function POST(
       };
     });
 
+    await linkIssueReferences(result.commit, result.branch.name);
+
     return NextResponse.json(
       {
         success: true,
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { linkIssueReferences } from '@/lib/issues';
+import { protectedBranchMessage } from '@/lib/branches';
+import { storeBlob } from '@/lib/blob-store';
 import { ChangeType } from '@prisma/client';
 
 // Define file change type
@@ -88,6 +91,13 @@ export async function POST(
       },
     });
 
+    if (branchRecord?.isProtected) {
+      return NextResponse.json(
+        { error: protectedBranchMessage(branchRecord.name) },
+        { status: 403 }
+      );
+    }
+
     // Process files
     const fileChanges: FileChange[] = [];
     const processedFiles: ProcessedFile[] = [];
@@ -95,7 +105,7 @@ export async function POST(
     for (const file of files) {
       const filePath = file.name;
       const content = await file.arrayBuffer();
-      const fileContentHash = Buffer.from(content).toString('base64');
+      const fileContentHash = await storeBlob(Buffer.from(content));
 
       let changeType: ChangeType = 'ADDED';
       let previousFileContentHash = null;
@@ -198,6 +208,8 @@ export async function POST(
       };
     });
 
+    await linkIssueReferences(result.commit, result.branch.name);
+
     return NextResponse.json(
       {
         success: true,
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { db } from '@/lib/db';
 import { Prisma } from '@prisma/client';
+import { getRules } from '@/lib/rules';
 
 export async function POST(req: NextRequest) {
   try {
@@ -114,9 +115,8 @@ export async function POST(req: NextRequest) {
 
     // Check if the group is full
     try {
-      // Get max group size from database rules
-      const rule = await db.rule.findFirst();
-      const maxGroupSize = rule?.maxGroupSize || 5; // Default to 5 if not specified
+      // Get max group size from the system rules
+      const { maxGroupSize } = await getRules();
 
       if (invite.group.members.length >= maxGroupSize) {
         return NextResponse.json(
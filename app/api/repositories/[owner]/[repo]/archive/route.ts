@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { DEFAULT_BRANCH, resolveRepository } from '@/lib/repositories';
+import { treeAtCommit } from '@/lib/commit-graph';
+import { readBlobs } from '@/lib/blob-store';
+import { ARCHIVE_FORMATS, ArchiveEntry, createArchiveStream } from '@/lib/archive';
+
+const archiveQuerySchema = z.object({
+  ref: z.string().trim().min(1).default(DEFAULT_BRANCH),
+  format: z.enum(['zip', 'tar.gz']).default('zip'),
+});
+
+// Blobs are loaded a batch at a time while the archive streams
+const BLOB_BATCH_SIZE = 50;
+
+// GET a ZIP or tar.gz of every file at a branch or commit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository } = resolved;
+
+    const query = archiveQuerySchema.safeParse({
+      ref: request.nextUrl.searchParams.get('ref') ?? undefined,
+      format: request.nextUrl.searchParams.get('format') ?? undefined,
+    });
+    if (!query.success) {
+      return NextResponse.json({ error: query.error.errors[0].message }, { status: 400 });
+    }
+    const { ref, format } = query.data;
+
+    // A ref names a branch, or failing that a commit of this repository
+    const branch = await db.branch.findFirst({
+      where: { name: ref, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      select: { headCommitId: true },
+    });
+    const commit = await db.commit.findFirst({
+      where: {
+        id: branch?.headCommitId ?? ref,
+        repositoryName: repository.name,
+        repositoryGroup: repository.groupUserName,
+      },
+      select: { id: true, timestamp: true },
+    });
+    if (!commit) {
+      return NextResponse.json({ error: 'Branch or commit not found' }, { status: 404 });
+    }
+
+    const tree = await treeAtCommit(repository.name, repository.groupUserName, commit.id);
+    const label = branch ? ref.replace(/[^\w.-]+/g, '-') : commit.id.slice(0, 10);
+    const root = `${repository.name}-${label}`;
+    const modifiedAt = commit.timestamp;
+
+    async function* entries(): AsyncGenerator<ArchiveEntry> {
+      const files = [...tree];
+      for (let i = 0; i < files.length; i += BLOB_BATCH_SIZE) {
+        const batch = files.slice(i, i + BLOB_BATCH_SIZE);
+        const blobs = await readBlobs(batch.map(([, hash]) => hash));
+        for (const [path, hash] of batch) {
+          const blob = blobs.get(hash);
+          if (!blob) continue;
+          yield { path: `${root}/${path}`, content: blob.content, modifiedAt };
+        }
+      }
+    }
+
+    const { extension, contentType } = ARCHIVE_FORMATS[format];
+    return new NextResponse(createArchiveStream(format, entries()), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${root}.${extension}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error creating repository archive:', error);
+    return NextResponse.json({ error: 'Failed to create archive' }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { DEFAULT_BRANCH, resolveRepository } from '@/lib/repositories';
+import { branchInclude, updateBranchSchema } from '@/lib/branches';
+
+type RouteParams = { params: Promise<{ owner: string; repo: string; branch: string }> };
+
+// Branch names may contain "/", so clients send them URL-encoded in a single segment
+async function findBranch(repository: { name: string; groupUserName: string }, encodedName: string) {
+  let name: string;
+  try {
+    name = decodeURIComponent(encodedName);
+  } catch {
+    return null;
+  }
+
+  return db.branch.findFirst({
+    where: {
+      name,
+      repositoryName: repository.name,
+      repositoryGroup: repository.groupUserName,
+    },
+  });
+}
+
+// PATCH rename a branch or change its protection
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, branch: branchParam } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, access } = resolved;
+
+    if (!access.canWrite) {
+      return NextResponse.json({ error: 'Only members of the owning group can change branches' }, { status: 403 });
+    }
+
+    const branch = await findBranch(repository, branchParam);
+    if (!branch) {
+      return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateBranchSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { name, isProtected } = validationResult.data;
+
+    if (isProtected !== undefined && !access.canAdminister) {
+      return NextResponse.json(
+        { error: 'Only the group leader can change branch protection' },
+        { status: 403 }
+      );
+    }
+
+    if (name !== undefined && name !== branch.name) {
+      if (branch.isProtected && isProtected !== false) {
+        return NextResponse.json({ error: 'Protected branches cannot be renamed' }, { status: 409 });
+      }
+      if (branch.name === DEFAULT_BRANCH) {
+        return NextResponse.json({ error: 'The default branch cannot be renamed' }, { status: 409 });
+      }
+      const existing = await db.branch.findFirst({
+        where: { name, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+        select: { id: true },
+      });
+      if (existing) {
+        return NextResponse.json({ error: 'A branch with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const updated = await db.branch.update({
+      where: { id: branch.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(isProtected !== undefined && { isProtected }),
+      },
+      include: branchInclude,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating branch:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update branch' }, { status: 500 });
+  }
+}
+
+// DELETE a branch. Its commits stay in the repository's history.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, branch: branchParam } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, access } = resolved;
+
+    if (!access.canWrite) {
+      return NextResponse.json({ error: 'Only members of the owning group can delete branches' }, { status: 403 });
+    }
+
+    const branch = await findBranch(repository, branchParam);
+    if (!branch) {
+      return NextResponse.json({ error: 'Branch not found' }, { status: 404 });
+    }
+    if (branch.isProtected) {
+      return NextResponse.json({ error: 'Protected branches cannot be deleted' }, { status: 409 });
+    }
+    if (branch.name === DEFAULT_BRANCH) {
+      return NextResponse.json({ error: 'The default branch cannot be deleted' }, { status: 409 });
+    }
+
+    // Deleting the branch would cascade to its merge requests and lose their reviews
+    const mergeRequests = await db.mergeRequest.count({
+      where: { OR: [{ sourceBranchId: branch.id }, { targetBranchId: branch.id }] },
+    });
+    if (mergeRequests > 0) {
+      return NextResponse.json(
+        { error: 'Branches with merge requests are kept so the review history is preserved' },
+        { status: 409 }
+      );
+    }
+
+    await db.branch.delete({ where: { id: branch.id } });
+
+    return NextResponse.json({ message: `Branch ${branch.name} deleted` });
+  } catch (error) {
+    console.error('Error deleting branch:', error);
+    return NextResponse.json({ error: 'Failed to delete branch' }, { status: 500 });
+  }
+}
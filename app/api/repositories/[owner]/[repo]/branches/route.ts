@@ -1,166 +1,101 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { resolveRepository } from '@/lib/repositories';
+import { branchInclude, createBranchSchema, listBranchesWithComparison } from '@/lib/branches';
 
-interface BranchData {
-  id: string;
-  name: string;
-  headCommitId: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-// GET all branches for a repository
+// GET all branches for a repository, with ahead/behind counts against the default branch
 export async function GET(
   request: NextRequest,
-  { params }: { params: { owner: string; repo: string } }
+  { params }: { params: Promise<{ owner: string; repo: string }> }
 ) {
   try {
-    const { owner, repo } = params;
-    
-    // Find repository
-    const repository = await db.repository.findUnique({
-      where: { 
-        ownerId_name: { 
-          ownerId: owner, 
-          name: repo 
-        } 
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, access } = resolved;
+
+    const { defaultBranch, branches } = await listBranchesWithComparison(repository.name, repository.groupUserName);
+
+    return NextResponse.json({
+      defaultBranch,
+      branches,
+      permissions: {
+        canWrite: access.canWrite,
+        canAdminister: access.canAdminister,
       },
-      include: {
-        branches: {
-          include: {
-            // Include additional branch-related data that might be needed
-          }
-        }
-      }
     });
-
-    if (!repository) {
-      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
-    }
-    
-    // Return branches with formatted data
-    return NextResponse.json(repository.branches.map((branch: BranchData) => ({
-      id: branch.id,
-      name: branch.name,
-      headCommitId: branch.headCommitId,
-      createdAt: branch.createdAt,
-      updatedAt: branch.updatedAt
-    })));
-    
   } catch (error) {
     console.error('Error fetching branches:', error);
     return NextResponse.json({ error: 'Failed to fetch branches' }, { status: 500 });
   }
 }
 
-// POST create a new branch
+// POST create a new branch from another branch's head or from a commit
 export async function POST(
   request: NextRequest,
-  { params }: { params: { owner: string; repo: string } }
+  { params }: { params: Promise<{ owner: string; repo: string }> }
 ) {
   try {
-    // Get user session for authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-    
-    const userId = session.user.id;
-    const { owner, repo } = params;
-    const body = await request.json();
-    
-    // Validate required fields
-    if (!body.name) {
-      return NextResponse.json({ error: 'Branch name is required' }, { status: 400 });
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
     }
-    
-    if (!body.sourceBranch && !body.sourceCommitId) {
-      return NextResponse.json({ 
-        error: 'Source branch or commit ID is required' 
-      }, { status: 400 });
-    }
-    
-    // Find repository
-    const repository = await db.repository.findUnique({
-      where: { 
-        ownerId_name: { 
-          ownerId: owner, 
-          name: repo 
-        } 
-      },
-      include: {
-        branches: true
-      }
-    });
+    const { repository, access } = resolved;
 
-    if (!repository) {
-      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
-    }
-    
-    // Check if user has permission to create branch
-    // We need to implement authorization rules here based on your application's requirements
-    const canCreateBranch = repository.ownerId === userId;
-    
-    if (!canCreateBranch) {
-      return NextResponse.json({ error: 'Permission denied' }, { status: 403 });
+    if (!access.canWrite) {
+      return NextResponse.json({ error: 'Only members of the owning group can create branches' }, { status: 403 });
     }
-    
-    // Check if branch with same name already exists
-    if (repository.branches.some(b => b.name === body.name)) {
-      return NextResponse.json({ 
-        error: 'A branch with this name already exists' 
-      }, { status: 409 });
+
+    const body = await request.json();
+    const validationResult = createBranchSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
     }
-    
-    // Determine the head commit ID
+    const { name, fromBranch, fromCommitId } = validationResult.data;
+    const repositoryWhere = { repositoryName: repository.name, repositoryGroup: repository.groupUserName };
+
     let headCommitId: string;
-    
-    if (body.sourceCommitId) {
-      // Use the provided commit ID
-      const commit = await db.commit.findUnique({
-        where: { 
-          id: body.sourceCommitId,
-          repositoryId: repository.id
-        }
+    if (fromCommitId) {
+      const commit = await db.commit.findFirst({
+        where: { id: fromCommitId, ...repositoryWhere },
+        select: { id: true },
       });
-      
       if (!commit) {
         return NextResponse.json({ error: 'Source commit not found' }, { status: 404 });
       }
-      
       headCommitId = commit.id;
     } else {
-      // Use the head commit of the source branch
-      const sourceBranch = repository.branches.find(b => b.name === body.sourceBranch);
-      
-      if (!sourceBranch) {
+      const source = fromBranch
+        ? await db.branch.findFirst({ where: { name: fromBranch, ...repositoryWhere } })
+        : (await listBranchesWithComparison(repository.name, repository.groupUserName)).branches.find((b) => b.isDefault);
+      if (!source) {
         return NextResponse.json({ error: 'Source branch not found' }, { status: 404 });
       }
-      
-      headCommitId = sourceBranch.headCommitId;
+      headCommitId = source.headCommitId;
     }
-    
-    // Create new branch
-    const newBranch = await db.branch.create({
-      data: {
-        name: body.name,
-        repositoryId: repository.id,
-        headCommitId
-      }
+
+    const existing = await db.branch.findFirst({ where: { name, ...repositoryWhere }, select: { id: true } });
+    if (existing) {
+      return NextResponse.json({ error: 'A branch with this name already exists' }, { status: 409 });
+    }
+
+    const branch = await db.branch.create({
+      data: { name, headCommitId, ...repositoryWhere },
+      include: branchInclude,
     });
-    
-    return NextResponse.json({
-      id: newBranch.id,
-      name: newBranch.name,
-      headCommitId: newBranch.headCommitId,
-      createdAt: newBranch.createdAt,
-      updatedAt: newBranch.updatedAt
-    }, { status: 201 });
-    
+
+    return NextResponse.json(branch, { status: 201 });
   } catch (error) {
     console.error('Error creating branch:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
     return NextResponse.json({ error: 'Failed to create branch' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
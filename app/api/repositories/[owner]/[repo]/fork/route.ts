@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getRepositoryAccess, resolveRepository } from '@/lib/repositories';
+import { forkRepository, forkRepositorySchema } from '@/lib/forks';
+
+// POST fork a repository, with its branches and history, into a group
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = forkRepositorySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { groupUserName, name = repository.name, description, isPrivate } = validationResult.data;
+
+    const group = await db.group.findUnique({ where: { groupUserName }, select: { groupUserName: true } });
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    // Whoever could push to a repository of the target group may fork into it
+    const targetAccess = await getRepositoryAccess({ name, groupUserName, isPrivate: true }, session.user);
+    if (!targetAccess.canWrite) {
+      return NextResponse.json(
+        { error: 'Only members of the target group can fork into it' },
+        { status: 403 }
+      );
+    }
+
+    if (await db.repository.findUnique({ where: { name_groupUserName: { name, groupUserName } } })) {
+      return NextResponse.json(
+        { error: `${groupUserName} already has a repository named ${name}` },
+        { status: 409 }
+      );
+    }
+
+    const fork = await forkRepository(repository, {
+      name,
+      groupUserName,
+      ownerId: session.user.userId,
+      description,
+      isPrivate,
+    });
+
+    return NextResponse.json(fork, { status: 201 });
+  } catch (error) {
+    console.error('Error forking repository:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to fork repository' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getRepositoryAccess, resolveRepository } from '@/lib/repositories';
+
+const forkSelect = { name: true, groupUserName: true, description: true, isPrivate: true, createdAt: true };
+
+// GET the repository this one was forked from and the forks of it the caller can see
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session } = resolved;
+
+    const [upstream, forks] = await Promise.all([
+      repository.forkedFromName && repository.forkedFromGroup
+        ? db.repository.findUnique({
+            where: {
+              name_groupUserName: { name: repository.forkedFromName, groupUserName: repository.forkedFromGroup },
+            },
+            select: forkSelect,
+          })
+        : null,
+      db.repository.findMany({
+        where: { forkedFromName: repository.name, forkedFromGroup: repository.groupUserName },
+        select: forkSelect,
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const canSee = async (candidate: typeof forks[number] | null) =>
+      !!candidate && (await getRepositoryAccess(candidate, session?.user)).canRead;
+
+    const visibleForks = [];
+    for (const fork of forks) {
+      if (await canSee(fork)) visibleForks.push(fork);
+    }
+
+    return NextResponse.json({
+      upstream: (await canSee(upstream)) ? upstream : null,
+      forks: visibleForks,
+    });
+  } catch (error) {
+    console.error('Error fetching forks:', error);
+    return NextResponse.json({ error: 'Failed to fetch forks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import { issueCommentSchema } from '@/lib/issues';
+
+// POST comment on an issue
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; number: string }> }
+) {
+  try {
+    const { owner, repo, number } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const issueNumber = parseInt(number, 10);
+    const issue = Number.isNaN(issueNumber)
+      ? null
+      : await db.issue.findUnique({
+          where: {
+            repositoryName_repositoryGroup_number: {
+              repositoryName: repository.name,
+              repositoryGroup: repository.groupUserName,
+              number: issueNumber,
+            },
+          },
+          include: { assignees: { select: { userId: true } } },
+        });
+    if (!issue) {
+      return NextResponse.json({ error: 'Issue not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = issueCommentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const comment = await db.issueComment.create({
+      data: {
+        body: validationResult.data.body,
+        issueId: issue.id,
+        authorId: session.user.userId,
+      },
+      include: { author: { select: { userId: true, firstName: true, lastName: true, role: true } } },
+    });
+
+    // Let the author and assignees know, except whoever wrote the comment
+    const recipients = new Set([issue.authorId, ...issue.assignees.map((a) => a.userId)]);
+    recipients.delete(session.user.userId);
+    if (recipients.size > 0) {
+      await db.notification.createMany({
+        data: [...recipients].map((recipientId) => ({
+          recipientId,
+          message: `${comment.author.firstName} ${comment.author.lastName} commented on issue #${issue.number} "${issue.title}"`,
+          link: `/${owner}/${repo}/issues/${issue.number}`,
+        })),
+      });
+    }
+
+    return NextResponse.json(comment, { status: 201 });
+  } catch (error) {
+    console.error('Error commenting on issue:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IssueState } from '@prisma/client';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import { getAssignableUsers, issueDetailInclude, updateIssueSchema } from '@/lib/issues';
+
+type RouteParams = { params: Promise<{ owner: string; repo: string; number: string }> };
+
+// GET an issue with its comments, assignees and the commits that reference it
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, number } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    const issueNumber = parseInt(number, 10);
+    const issue = Number.isNaN(issueNumber)
+      ? null
+      : await db.issue.findUnique({
+          where: {
+            repositoryName_repositoryGroup_number: {
+              repositoryName: repository.name,
+              repositoryGroup: repository.groupUserName,
+              number: issueNumber,
+            },
+          },
+          include: issueDetailInclude,
+        });
+    if (!issue) {
+      return NextResponse.json({ error: 'Issue not found' }, { status: 404 });
+    }
+
+    const userId = session?.user?.userId;
+    return NextResponse.json({
+      issue,
+      assignableUsers: access.canWrite ? await getAssignableUsers(repository.groupUserName) : [],
+      permissions: {
+        canEdit: access.canWrite || issue.authorId === userId,
+        canAssign: access.canWrite,
+        canComment: !!userId,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching issue:', error);
+    return NextResponse.json({ error: 'Failed to fetch issue' }, { status: 500 });
+  }
+}
+
+// PATCH edit, close, reopen or reassign an issue
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, number } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const issueNumber = parseInt(number, 10);
+    const issue = Number.isNaN(issueNumber)
+      ? null
+      : await db.issue.findUnique({
+          where: {
+            repositoryName_repositoryGroup_number: {
+              repositoryName: repository.name,
+              repositoryGroup: repository.groupUserName,
+              number: issueNumber,
+            },
+          },
+          include: { assignees: true },
+        });
+    if (!issue) {
+      return NextResponse.json({ error: 'Issue not found' }, { status: 404 });
+    }
+
+    // The author may edit and close their own issue; group members may change any issue
+    if (!access.canWrite && issue.authorId !== session.user.userId) {
+      return NextResponse.json({ error: 'You cannot edit this issue' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateIssueSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { assigneeIds, state, ...changes } = validationResult.data;
+
+    let addedAssignees: string[] = [];
+    if (assigneeIds) {
+      if (!access.canWrite) {
+        return NextResponse.json({ error: 'Only group members can assign issues' }, { status: 403 });
+      }
+      const assignable = new Set((await getAssignableUsers(repository.groupUserName)).map((u) => u.userId));
+      if (assigneeIds.some((id) => !assignable.has(id))) {
+        return NextResponse.json({ error: 'Issues can only be assigned to members of the group' }, { status: 400 });
+      }
+      const current = new Set(issue.assignees.map((a) => a.userId));
+      addedAssignees = assigneeIds.filter((id) => !current.has(id));
+    }
+
+    const updated = await db.issue.update({
+      where: { id: issue.id },
+      data: {
+        ...changes,
+        ...(state &&
+          state !== issue.state && {
+            state,
+            closedAt: state === IssueState.CLOSED ? new Date() : null,
+          }),
+        ...(assigneeIds && {
+          assignees: {
+            deleteMany: { userId: { notIn: assigneeIds } },
+            create: addedAssignees.map((userId) => ({ userId })),
+          },
+        }),
+      },
+      include: issueDetailInclude,
+    });
+
+    const recipients = addedAssignees.filter((id) => id !== session.user.userId);
+    if (recipients.length > 0) {
+      await db.notification.createMany({
+        data: recipients.map((recipientId) => ({
+          recipientId,
+          message: `You were assigned issue #${updated.number} "${updated.title}" in ${repository.name}`,
+          link: `/${owner}/${repo}/issues/${updated.number}`,
+        })),
+      });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating issue:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update issue' }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IssueState, Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import { createIssue, createIssueSchema, getAssignableUsers, issueListInclude } from '@/lib/issues';
+
+// GET issues for a repository, filtered by state (OPEN by default, ALL for both), label, assignee or text
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository } = resolved;
+
+    const url = new URL(request.url);
+    const state = url.searchParams.get('state') || IssueState.OPEN;
+    const label = url.searchParams.get('label');
+    const assignee = url.searchParams.get('assignee');
+    const search = url.searchParams.get('search') || '';
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '30', 10) || 30, 100);
+    const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
+
+    if (state !== 'ALL' && !(state in IssueState)) {
+      return NextResponse.json({ error: `Unknown state ${state}` }, { status: 400 });
+    }
+
+    const repositoryWhere = { repositoryName: repository.name, repositoryGroup: repository.groupUserName };
+    const filters: Prisma.IssueWhereInput = {
+      ...repositoryWhere,
+      ...(label && { labels: { has: label.toLowerCase() } }),
+      ...(assignee && { assignees: { some: { userId: assignee } } }),
+      ...(search && {
+        OR: [
+          { title: { contains: search, mode: 'insensitive' } },
+          { body: { contains: search, mode: 'insensitive' } },
+          ...(/^#?\d+$/.test(search) ? [{ number: parseInt(search.replace('#', ''), 10) }] : []),
+        ],
+      }),
+    };
+    const where = { ...filters, ...(state !== 'ALL' && { state: state as IssueState }) };
+
+    const [issues, total, stateCounts, labelRows] = await Promise.all([
+      db.issue.findMany({
+        where,
+        include: issueListInclude,
+        orderBy: { number: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      db.issue.count({ where }),
+      db.issue.groupBy({ by: ['state'], where: filters, _count: { _all: true } }),
+      db.issue.findMany({ where: repositoryWhere, select: { labels: true } }),
+    ]);
+
+    const counts = Object.fromEntries(
+      Object.values(IssueState).map((s) => [s, stateCounts.find((c) => c.state === s)?._count._all ?? 0])
+    );
+    const labels = [...new Set(labelRows.flatMap((row) => row.labels))].sort();
+
+    return NextResponse.json({
+      issues,
+      counts,
+      labels,
+      pagination: { total, page, limit },
+    });
+  } catch (error) {
+    console.error('Error fetching issues:', error);
+    return NextResponse.json({ error: 'Failed to fetch issues' }, { status: 500 });
+  }
+}
+
+// POST file a new issue. Anyone who can see the repository may, including advisors and evaluators.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = createIssueSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const data = validationResult.data;
+
+    if (data.assigneeIds.length > 0) {
+      if (!access.canWrite) {
+        return NextResponse.json({ error: 'Only group members can assign issues' }, { status: 403 });
+      }
+      const assignable = new Set((await getAssignableUsers(repository.groupUserName)).map((u) => u.userId));
+      if (data.assigneeIds.some((id) => !assignable.has(id))) {
+        return NextResponse.json({ error: 'Issues can only be assigned to members of the group' }, { status: 400 });
+      }
+    }
+
+    const issue = await createIssue(repository, session.user.userId, data);
+
+    const recipients = data.assigneeIds.filter((id) => id !== session.user.userId);
+    if (recipients.length > 0) {
+      await db.notification.createMany({
+        data: recipients.map((recipientId) => ({
+          recipientId,
+          message: `You were assigned issue #${issue.number} "${issue.title}" in ${repository.name}`,
+          link: `/${owner}/${repo}/issues/${issue.number}`,
+        })),
+      });
+    }
+
+    return NextResponse.json(issue, { status: 201 });
+  } catch (error) {
+    console.error('Error creating issue:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to create issue' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedbackStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import {
+  findLineCommentThread,
+  lineCommentReplySchema,
+  lineCommentThreadInclude,
+  notifyLineCommentRecipients,
+} from '@/lib/line-comments';
+
+// POST reply to a line comment thread
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; commentId: string }> }
+) {
+  try {
+    const { owner, repo, commentId } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!access.canReview) {
+      return NextResponse.json(
+        { error: 'Only group members and project supervisors can comment on code' },
+        { status: 403 }
+      );
+    }
+
+    const thread = await findLineCommentThread(repository, commentId);
+    if (!thread) {
+      return NextResponse.json({ error: 'Comment thread not found' }, { status: 404 });
+    }
+    if (thread.status === FeedbackStatus.CLOSED) {
+      return NextResponse.json({ error: 'This thread is closed' }, { status: 409 });
+    }
+
+    const body = await request.json();
+    const validationResult = lineCommentReplySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const reply = await db.feedback.create({
+      data: {
+        content: validationResult.data.content,
+        authorId: session.user.userId,
+        repositoryName: repository.name,
+        repositoryGroup: repository.groupUserName,
+        parentId: thread.id,
+      },
+      include: { author: { select: { firstName: true, lastName: true } } },
+    });
+
+    const updated = await db.feedback.findUniqueOrThrow({
+      where: { id: thread.id },
+      include: lineCommentThreadInclude,
+    });
+
+    await notifyLineCommentRecipients(
+      [thread.authorId, ...thread.replies.map((r) => r.authorId)],
+      session.user.userId,
+      `${reply.author.firstName} ${reply.author.lastName} replied to a comment on ${thread.filePath} in ${repository.name}`,
+      `/${owner}/${repo}/commit/${thread.commitId}`
+    );
+
+    return NextResponse.json(updated, { status: 201 });
+  } catch (error) {
+    console.error('Error replying to line comment:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to add reply' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedbackStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import {
+  findLineCommentThread,
+  lineCommentThreadInclude,
+  notifyLineCommentRecipients,
+  updateLineCommentThreadSchema,
+} from '@/lib/line-comments';
+
+// PATCH resolve or reopen a line comment thread
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; commentId: string }> }
+) {
+  try {
+    const { owner, repo, commentId } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!access.canReview) {
+      return NextResponse.json(
+        { error: 'Only group members and project supervisors can resolve comments' },
+        { status: 403 }
+      );
+    }
+
+    const thread = await findLineCommentThread(repository, commentId);
+    if (!thread) {
+      return NextResponse.json({ error: 'Comment thread not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateLineCommentThreadSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { status } = validationResult.data;
+
+    const updated = await db.feedback.update({
+      where: { id: thread.id },
+      data: { status },
+      include: lineCommentThreadInclude,
+    });
+
+    if (status !== thread.status) {
+      await notifyLineCommentRecipients(
+        [thread.authorId, ...thread.replies.map((reply) => reply.authorId)],
+        session.user.userId,
+        `${status === FeedbackStatus.OPEN ? 'Reopened' : 'Resolved'} comment on ${thread.filePath} line ${thread.lineStart} in ${repository.name}`,
+        `/${owner}/${repo}/commit/${thread.commitId}`
+      );
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating line comment thread:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update comment thread' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import {
+  createLineCommentSchema,
+  getGroupUserIds,
+  lineCommentThreadInclude,
+  notifyLineCommentRecipients,
+} from '@/lib/line-comments';
+
+// GET line comment threads on a commit, optionally for a single file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, access } = resolved;
+
+    const commitId = request.nextUrl.searchParams.get('commitId');
+    const filePath = request.nextUrl.searchParams.get('filePath');
+    if (!commitId) {
+      return NextResponse.json({ error: 'commitId is required' }, { status: 400 });
+    }
+
+    const threads = await db.feedback.findMany({
+      where: {
+        repositoryName: repository.name,
+        repositoryGroup: repository.groupUserName,
+        commitId,
+        parentId: null,
+        ...(filePath && { filePath }),
+      },
+      include: lineCommentThreadInclude,
+      orderBy: [{ filePath: 'asc' }, { lineStart: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({
+      threads,
+      permissions: { canReview: access.canReview },
+    });
+  } catch (error) {
+    console.error('Error fetching line comments:', error);
+    return NextResponse.json({ error: 'Failed to fetch line comments' }, { status: 500 });
+  }
+}
+
+// POST start a comment thread on a line range
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!access.canReview) {
+      return NextResponse.json(
+        { error: 'Only group members and project supervisors can comment on code' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = createLineCommentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { commitId, filePath, lineStart, lineEnd, lineSide, content } = validationResult.data;
+
+    const commit = await db.commit.findFirst({
+      where: { id: commitId, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      select: { id: true },
+    });
+    if (!commit) {
+      return NextResponse.json({ error: 'Commit not found' }, { status: 404 });
+    }
+
+    const thread = await db.feedback.create({
+      data: {
+        content,
+        authorId: session.user.userId,
+        repositoryName: repository.name,
+        repositoryGroup: repository.groupUserName,
+        commitId,
+        filePath,
+        lineStart,
+        lineEnd: lineEnd ?? lineStart,
+        lineSide,
+      },
+      include: lineCommentThreadInclude,
+    });
+
+    await notifyLineCommentRecipients(
+      await getGroupUserIds(repository.groupUserName),
+      session.user.userId,
+      `${thread.author.firstName} ${thread.author.lastName} commented on ${filePath} line ${lineStart} in ${repository.name}`,
+      `/${owner}/${repo}/commit/${commitId}`
+    );
+
+    return NextResponse.json(thread, { status: 201 });
+  } catch (error) {
+    console.error('Error creating line comment:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import { mergeMergeRequest } from '@/lib/merge-requests';
+
+const mergeSchema = z.object({
+  message: z.string().trim().max(10000).optional(),
+});
+
+// POST merge an approved merge request into its target branch
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; mergeRequestId: string }> }
+) {
+  try {
+    const { owner, repo, mergeRequestId } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId || !access.canWrite) {
+      return NextResponse.json(
+        { error: 'Only members of the owning group can merge' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = mergeSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const mergeRequest = await db.mergeRequest.findFirst({
+      where: { id: mergeRequestId, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      select: { id: true, title: true, creatorId: true },
+    });
+    if (!mergeRequest) {
+      return NextResponse.json({ error: 'Merge request not found' }, { status: 404 });
+    }
+
+    const result = await mergeMergeRequest(mergeRequest.id, session.user.userId, validationResult.data.message);
+    if ('error' in result) {
+      const { status, ...errorBody } = result;
+      return NextResponse.json(errorBody, { status });
+    }
+
+    if (mergeRequest.creatorId !== session.user.userId) {
+      await db.notification.create({
+        data: {
+          recipientId: mergeRequest.creatorId,
+          message: `Your merge request "${mergeRequest.title}" was merged`,
+          link: `/${owner}/${repo}/pulls/${mergeRequest.id}`,
+        },
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error merging merge request:', error);
+    return NextResponse.json({ error: 'Failed to merge' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import {
+  FINISHED_MERGE_REQUEST_STATUSES,
+  mergeRequestInclude,
+  mergeRequestReviewSchema,
+  statusFromReviews,
+} from '@/lib/merge-requests';
+
+// POST record a review decision on a merge request; its status follows from the reviews
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; mergeRequestId: string }> }
+) {
+  try {
+    const { owner, repo, mergeRequestId } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    // Reading a public repository is not enough; only its group, advisor and evaluators review
+    if (!access.canReview) {
+      return NextResponse.json({ error: 'You are not allowed to review merge requests in this repository' }, { status: 403 });
+    }
+    const reviewerId = session.user.userId;
+
+    const mergeRequest = await db.mergeRequest.findFirst({
+      where: { id: mergeRequestId, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      include: { reviews: true },
+    });
+    if (!mergeRequest) {
+      return NextResponse.json({ error: 'Merge request not found' }, { status: 404 });
+    }
+    if (mergeRequest.creatorId === reviewerId) {
+      return NextResponse.json({ error: 'You cannot review your own merge request' }, { status: 403 });
+    }
+    if (FINISHED_MERGE_REQUEST_STATUSES.includes(mergeRequest.status)) {
+      return NextResponse.json(
+        { error: `This merge request is ${mergeRequest.status.toLowerCase()} and can no longer be reviewed` },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = mergeRequestReviewSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { decision, comment } = validationResult.data;
+
+    const updated = await db.$transaction(async (tx) => {
+      const review = await tx.mergeRequestReview.create({
+        data: { mergeRequestId, reviewerId, decision, comment: comment || null },
+      });
+
+      return tx.mergeRequest.update({
+        where: { id: mergeRequestId },
+        data: { status: statusFromReviews([...mergeRequest.reviews, review]) },
+        include: mergeRequestInclude,
+      });
+    });
+
+    const reviewer = updated.reviews[updated.reviews.length - 1]?.reviewer;
+    await db.notification.create({
+      data: {
+        recipientId: mergeRequest.creatorId,
+        message: `${reviewer ? `${reviewer.firstName} ${reviewer.lastName}` : reviewerId} reviewed "${mergeRequest.title}": ${decision.replace('_', ' ').toLowerCase()}`,
+        link: `/${owner}/${repo}/pulls/${mergeRequestId}`,
+      },
+    });
+
+    return NextResponse.json(updated, { status: 201 });
+  } catch (error) {
+    console.error('Error reviewing merge request:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to review merge request' }, { status: 500 });
+  }
+}
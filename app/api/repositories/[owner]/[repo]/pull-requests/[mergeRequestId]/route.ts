@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MergeRequestStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import {
+  compareBranches,
+  mergeRequestGraph,
+  mergeRequestInclude,
+  statusFromReviews,
+  updateMergeRequestSchema,
+} from '@/lib/merge-requests';
+
+type RouteParams = { params: Promise<{ owner: string; repo: string; mergeRequestId: string }> };
+
+// GET a merge request with its reviews and how its branches compare
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, mergeRequestId } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    const mergeRequest = await db.mergeRequest.findFirst({
+      where: { id: mergeRequestId, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      include: mergeRequestInclude,
+    });
+    if (!mergeRequest) {
+      return NextResponse.json({ error: 'Merge request not found' }, { status: 404 });
+    }
+
+    // Once merged the branches have converged, so there is nothing left to compare
+    let comparison = null;
+    if (mergeRequest.status !== MergeRequestStatus.MERGED) {
+      const { graph, sourceHeadId } = await mergeRequestGraph(mergeRequest);
+      comparison = await compareBranches(graph, sourceHeadId, mergeRequest.targetBranch.headCommitId);
+    }
+
+    const userId = session?.user?.userId;
+    return NextResponse.json({
+      mergeRequest,
+      comparison,
+      permissions: {
+        canEdit: access.canWrite || mergeRequest.creatorId === userId,
+        canReview: access.canReview && !!userId && mergeRequest.creatorId !== userId,
+        canMerge: access.canWrite,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching merge request:', error);
+    return NextResponse.json({ error: 'Failed to fetch merge request' }, { status: 500 });
+  }
+}
+
+// PATCH edit the title or description of a merge request, or close and reopen it
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, mergeRequestId } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    const mergeRequest = await db.mergeRequest.findFirst({
+      where: { id: mergeRequestId, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      include: { reviews: true },
+    });
+    if (!mergeRequest) {
+      return NextResponse.json({ error: 'Merge request not found' }, { status: 404 });
+    }
+
+    if (!access.canWrite && mergeRequest.creatorId !== session?.user?.userId) {
+      return NextResponse.json({ error: 'You cannot edit this merge request' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = updateMergeRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { status, ...changes } = validationResult.data;
+
+    if (mergeRequest.status === MergeRequestStatus.MERGED) {
+      return NextResponse.json({ error: 'Merged merge requests cannot be changed' }, { status: 409 });
+    }
+
+    let nextStatus: MergeRequestStatus | undefined;
+    if (status === MergeRequestStatus.CLOSED) {
+      nextStatus = MergeRequestStatus.CLOSED;
+    } else if (status === MergeRequestStatus.OPEN && mergeRequest.status === MergeRequestStatus.CLOSED) {
+      // Reopening restores whatever the existing reviews add up to
+      nextStatus = statusFromReviews(mergeRequest.reviews);
+    }
+
+    const updated = await db.mergeRequest.update({
+      where: { id: mergeRequest.id },
+      data: { ...changes, ...(nextStatus && { status: nextStatus }) },
+      include: mergeRequestInclude,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating merge request:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update merge request' }, { status: 500 });
+  }
+}
@@ -1,258 +1,185 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MergeRequestStatus, Prisma } from '@prisma/client';
 import { db } from '@/lib/db';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { findRepository, getRepositoryAccess, resolveRepository } from '@/lib/repositories';
+import {
+  createMergeRequestSchema,
+  FINISHED_MERGE_REQUEST_STATUSES,
+  mergeRequestInclude,
+} from '@/lib/merge-requests';
 
-// GET pull requests for a repository
+// GET merge requests for a repository, filtered by status (OPEN by default, ALL for every status)
 export async function GET(
   request: NextRequest,
-  { params }: { params: { owner: string; repo: string } }
+  { params }: { params: Promise<{ owner: string; repo: string }> }
 ) {
   try {
-    const { owner, repo } = params;
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository } = resolved;
+
     const url = new URL(request.url);
-    const status = url.searchParams.get('status') || 'OPEN';
-    const limit = parseInt(url.searchParams.get('limit') || '30');
-    const page = parseInt(url.searchParams.get('page') || '1');
+    const status = url.searchParams.get('status') || MergeRequestStatus.OPEN;
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '30', 10) || 30, 100);
+    const page = Math.max(parseInt(url.searchParams.get('page') || '1', 10) || 1, 1);
     const search = url.searchParams.get('search') || '';
-    
-    // Find repository
-    const repository = await db.repository.findUnique({
-      where: { 
-        ownerId_name: { 
-          ownerId: owner, 
-          name: repo 
-        } 
-      }
-    });
 
-    if (!repository) {
-      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    if (status !== 'ALL' && !(status in MergeRequestStatus)) {
+      return NextResponse.json({ error: `Unknown status ${status}` }, { status: 400 });
     }
-    
-    // Build the where clause for pull requests
-    const where = {
-      repositoryId: repository.id,
-      ...(status !== 'ALL' ? { status } : {}),
-      ...(search ? {
-        OR: [
-          { title: { contains: search, mode: 'insensitive' } },
-          { description: { contains: search, mode: 'insensitive' } }
-        ]
-      } : {})
-    };
-    
-    // Find pull requests
-    const pullRequests = await db.mergeRequest.findMany({
-      where,
-      include: {
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            username: true
-          }
-        },
-        sourceBranch: {
-          select: {
-            id: true,
-            name: true
-          }
-        },
-        targetBranch: {
-          select: {
-            id: true,
-            name: true
-          }
-        },
-        reviews: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                username: true
-              }
-            }
+
+    const repositoryWhere = { repositoryName: repository.name, repositoryGroup: repository.groupUserName };
+    const where: Prisma.MergeRequestWhereInput = {
+      ...repositoryWhere,
+      ...(status !== 'ALL' ? { status: status as MergeRequestStatus } : {}),
+      ...(search
+        ? {
+            OR: [
+              { title: { contains: search, mode: 'insensitive' } },
+              { description: { contains: search, mode: 'insensitive' } },
+            ],
           }
-        }
-      },
-      orderBy: {
-        updatedAt: 'desc'
-      },
-      take: limit,
-      skip: (page - 1) * limit
+        : {}),
+    };
+
+    const [mergeRequests, total, statusCounts] = await Promise.all([
+      db.mergeRequest.findMany({
+        where,
+        include: mergeRequestInclude,
+        orderBy: { updatedAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      db.mergeRequest.count({ where }),
+      db.mergeRequest.groupBy({
+        by: ['status'],
+        where: repositoryWhere,
+        _count: { _all: true },
+      }),
+    ]);
+
+    const counts = Object.fromEntries(
+      Object.values(MergeRequestStatus).map((s) => [s, statusCounts.find((c) => c.status === s)?._count._all ?? 0])
+    );
+
+    return NextResponse.json({
+      mergeRequests,
+      counts,
+      pagination: { total, page, limit },
     });
-    
-    // Format pull requests for response
-    const formattedPullRequests = pullRequests.map(pr => ({
-      id: pr.id,
-      title: pr.title,
-      description: pr.description,
-      status: pr.status,
-      createdAt: pr.createdAt,
-      updatedAt: pr.updatedAt,
-      creator: pr.creator,
-      sourceBranch: pr.sourceBranch,
-      targetBranch: pr.targetBranch,
-      reviewCount: pr.reviews.length,
-      reviewers: pr.reviews.map(review => review.user)
-    }));
-    
-    return NextResponse.json(formattedPullRequests);
-    
   } catch (error) {
-    console.error('Error fetching pull requests:', error);
-    return NextResponse.json({ error: 'Failed to fetch pull requests' }, { status: 500 });
+    console.error('Error fetching merge requests:', error);
+    return NextResponse.json({ error: 'Failed to fetch merge requests' }, { status: 500 });
   }
 }
 
-// POST create a new pull request
+// POST open a new merge request from one branch into another
 export async function POST(
   request: NextRequest,
-  { params }: { params: { owner: string; repo: string } }
+  { params }: { params: Promise<{ owner: string; repo: string }> }
 ) {
   try {
-    // Get user session for authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId) {
       return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
     }
-    
-    const userId = session.user.id;
-    const { owner, repo } = params;
+
     const body = await request.json();
-    
-    // Validate required fields
-    if (!body.title) {
-      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    const validationResult = createMergeRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
     }
-    
-    if (!body.sourceBranch || !body.targetBranch) {
-      return NextResponse.json({ 
-        error: 'Source and target branches are required' 
-      }, { status: 400 });
-    }
-    
-    // Find repository
-    const repository = await db.repository.findUnique({
-      where: { 
-        ownerId_name: { 
-          ownerId: owner, 
-          name: repo 
-        } 
-      },
-      include: {
-        branches: true
+    const { title, description, sourceBranch, targetBranch, sourceRepository } = validationResult.data;
+
+    // Branches of a fork are proposed by the fork's group, everything else by this repository's
+    let sourceRepositoryKey = { name: repository.name, groupUserName: repository.groupUserName };
+    let canPropose = access.canWrite;
+    if (sourceRepository) {
+      const fork = await findRepository(sourceRepository.groupUserName, sourceRepository.name);
+      if (
+        !fork ||
+        fork.forkedFromName !== repository.name ||
+        fork.forkedFromGroup !== repository.groupUserName
+      ) {
+        return NextResponse.json({ error: 'Source repository is not a fork of this repository' }, { status: 404 });
       }
-    });
+      sourceRepositoryKey = { name: fork.name, groupUserName: fork.groupUserName };
+      canPropose = (await getRepositoryAccess(fork, session.user)).canWrite;
+    }
 
-    if (!repository) {
-      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    if (!canPropose) {
+      return NextResponse.json(
+        { error: 'Only members of the owning group can open merge requests' },
+        { status: 403 }
+      );
     }
-    
-    // Find source and target branches
-    const sourceBranch = repository.branches.find(
-      (b: { name: string }) => b.name === body.sourceBranch
-    );
-    
-    const targetBranch = repository.branches.find(
-      (b: { name: string }) => b.name === body.targetBranch
-    );
-    
-    if (!sourceBranch) {
+
+    const [source, target] = await Promise.all([
+      db.branch.findFirst({
+        where: {
+          repositoryName: sourceRepositoryKey.name,
+          repositoryGroup: sourceRepositoryKey.groupUserName,
+          name: sourceBranch,
+        },
+      }),
+      db.branch.findFirst({
+        where: { repositoryName: repository.name, repositoryGroup: repository.groupUserName, name: targetBranch },
+      }),
+    ]);
+
+    if (!source) {
       return NextResponse.json({ error: 'Source branch not found' }, { status: 404 });
     }
-    
-    if (!targetBranch) {
+    if (!target) {
       return NextResponse.json({ error: 'Target branch not found' }, { status: 404 });
     }
-    
-    // Check if there's already an open pull request for these branches
-    const existingPR = await db.mergeRequest.findFirst({
+
+    const existing = await db.mergeRequest.findFirst({
       where: {
-        repositoryId: repository.id,
-        sourceBranchId: sourceBranch.id,
-        targetBranchId: targetBranch.id,
-        status: 'OPEN'
-      }
+        sourceBranchId: source.id,
+        targetBranchId: target.id,
+        status: { notIn: FINISHED_MERGE_REQUEST_STATUSES },
+      },
+      select: { id: true },
     });
-    
-    if (existingPR) {
-      return NextResponse.json({ 
-        error: 'An open pull request already exists for these branches' 
-      }, { status: 409 });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A merge request for these branches is already open', mergeRequestId: existing.id },
+        { status: 409 }
+      );
     }
-    
-    // Create the pull request
-    const pullRequest = await db.mergeRequest.create({
+
+    const mergeRequest = await db.mergeRequest.create({
       data: {
-        title: body.title,
-        description: body.description || '',
-        status: 'OPEN',
-        repositoryId: repository.id,
-        creatorId: userId,
-        sourceBranchId: sourceBranch.id,
-        targetBranchId: targetBranch.id,
-        // Create explicit join records for source and target branches
-        branchMergeRequestSources: {
-          create: {
-            branchId: sourceBranch.id
-          }
-        },
-        branchMergeRequestTargets: {
-          create: {
-            branchId: targetBranch.id
-          }
-        }
+        title,
+        description: description || null,
+        repositoryName: repository.name,
+        repositoryGroup: repository.groupUserName,
+        creatorId: session.user.userId,
+        sourceBranchId: source.id,
+        targetBranchId: target.id,
       },
-      include: {
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            username: true
-          }
-        },
-        sourceBranch: true,
-        targetBranch: true
-      }
+      include: mergeRequestInclude,
     });
-    
-    // If reviewers are specified, add them
-    if (body.reviewerIds && Array.isArray(body.reviewerIds)) {
-      for (const reviewerId of body.reviewerIds) {
-        await db.mergeRequestReview.create({
-          data: {
-            mergeRequestId: pullRequest.id,
-            userId: reviewerId,
-            status: 'PENDING'
-          }
-        });
-      }
-    }
-    
-    // Format response
-    return NextResponse.json({
-      id: pullRequest.id,
-      title: pullRequest.title,
-      description: pullRequest.description,
-      status: pullRequest.status,
-      createdAt: pullRequest.createdAt,
-      updatedAt: pullRequest.updatedAt,
-      creator: pullRequest.creator,
-      sourceBranch: {
-        id: pullRequest.sourceBranch.id,
-        name: pullRequest.sourceBranch.name
-      },
-      targetBranch: {
-        id: pullRequest.targetBranch.id,
-        name: pullRequest.targetBranch.name
-      }
-    }, { status: 201 });
-    
+
+    return NextResponse.json(mergeRequest, { status: 201 });
   } catch (error) {
-    console.error('Error creating pull request:', error);
-    return NextResponse.json({ error: 'Failed to create pull request' }, { status: 500 });
+    console.error('Error creating merge request:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to create merge request' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
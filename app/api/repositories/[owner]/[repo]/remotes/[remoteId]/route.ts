@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import { toRemoteResponse, updateRemoteSchema } from '@/lib/remotes';
+
+type RouteParams = { params: Promise<{ owner: string; repo: string; remoteId: string }> };
+
+async function resolveRemote(owner: string, repo: string, remoteId: string) {
+  const resolved = await resolveRepository(owner, repo);
+  if ('error' in resolved) {
+    return { error: resolved.error, status: resolved.status } as const;
+  }
+  const { repository, access } = resolved;
+
+  if (!access.canAdminister) {
+    return { error: 'Only the group leader can manage remotes', status: 403 } as const;
+  }
+
+  const remote = await db.remote.findFirst({
+    where: { id: remoteId, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+  });
+  if (!remote) {
+    return { error: 'Remote not found', status: 404 } as const;
+  }
+
+  return { remote } as const;
+}
+
+// PATCH rename a remote, point it elsewhere or change how it is mirrored
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, remoteId } = await params;
+    const resolved = await resolveRemote(owner, repo, remoteId);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const body = await request.json();
+    const validationResult = updateRemoteSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const remote = await db.remote.update({
+      where: { id: resolved.remote.id },
+      data: validationResult.data,
+    });
+
+    return NextResponse.json(toRemoteResponse(remote));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A remote with this name already exists' }, { status: 409 });
+    }
+    console.error('Error updating remote:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to update remote' }, { status: 500 });
+  }
+}
+
+// DELETE remove a remote
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { owner, repo, remoteId } = await params;
+    const resolved = await resolveRemote(owner, repo, remoteId);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    await db.remote.delete({ where: { id: resolved.remote.id } });
+
+    return NextResponse.json({ message: `Remote ${resolved.remote.name} removed` });
+  } catch (error) {
+    console.error('Error removing remote:', error);
+    return NextResponse.json({ error: 'Failed to remove remote' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import { toRemoteResponse } from '@/lib/remotes';
+import { syncRemote } from '@/lib/mirror';
+
+// POST mirror a remote now, pulling from or pushing to it as configured
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string; remoteId: string }> }
+) {
+  try {
+    const { owner, repo, remoteId } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, session, access } = resolved;
+
+    if (!session?.user?.userId || !access.canWrite) {
+      return NextResponse.json({ error: 'Only members of the owning group can sync remotes' }, { status: 403 });
+    }
+
+    const remote = await db.remote.findFirst({
+      where: { id: remoteId, repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+    });
+    if (!remote) {
+      return NextResponse.json({ error: 'Remote not found' }, { status: 404 });
+    }
+
+    const synced = await syncRemote(repository, remote, session.user.userId);
+    if ('error' in synced) {
+      return NextResponse.json(
+        { error: synced.error, ...(synced.remote && { remote: toRemoteResponse(synced.remote) }) },
+        { status: synced.status }
+      );
+    }
+
+    return NextResponse.json({ remote: toRemoteResponse(synced.remote), result: synced.result });
+  } catch (error) {
+    console.error('Error syncing remote:', error);
+    return NextResponse.json({ error: 'Failed to sync remote' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { resolveRepository } from '@/lib/repositories';
+import { createRemoteSchema, toRemoteResponse } from '@/lib/remotes';
+
+// GET the remotes of a repository with the outcome of their last sync
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, access } = resolved;
+
+    if (!access.canWrite) {
+      return NextResponse.json({ error: 'Only members of the owning group can see remotes' }, { status: 403 });
+    }
+
+    const remotes = await db.remote.findMany({
+      where: { repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      remotes: remotes.map(toRemoteResponse),
+      permissions: { canAdminister: access.canAdminister },
+    });
+  } catch (error) {
+    console.error('Error fetching remotes:', error);
+    return NextResponse.json({ error: 'Failed to fetch remotes' }, { status: 500 });
+  }
+}
+
+// POST add a remote
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ owner: string; repo: string }> }
+) {
+  try {
+    const { owner, repo } = await params;
+    const resolved = await resolveRepository(owner, repo);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    const { repository, access } = resolved;
+
+    if (!access.canAdminister) {
+      return NextResponse.json({ error: 'Only the group leader can manage remotes' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validationResult = createRemoteSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const remote = await db.remote.create({
+      data: {
+        ...validationResult.data,
+        repositoryName: repository.name,
+        repositoryGroup: repository.groupUserName,
+      },
+    });
+
+    return NextResponse.json(toRemoteResponse(remote), { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A remote with this name already exists' }, { status: 409 });
+    }
+    console.error('Error adding remote:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Failed to add remote' }, { status: 500 });
+  }
+}
@@ -1,29 +1,27 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { GradeAggregationMethod } from '@prisma/client';
+import { z } from 'zod';
 import { db } from '@/lib/db';
+import { getAdminSession } from '@/lib/admin';
+import { getRules } from '@/lib/rules';
+import { recomputeAllFinalGrades } from '@/lib/grades';
 
-// Define mock rules as fallback
-const mockRules = {
-  maxGroupSize: 5,
-  advisorRequestDeadline: new Date().toISOString(),
-  projectSubmissionDeadline: new Date().toISOString()
-};
+// Schema for rule updates; deadlines are ISO date strings or null to clear them
+const updateRulesSchema = z.object({
+  maxGroupSize: z.number().int().min(1, 'Groups must allow at least one member').max(50).optional(),
+  maxEvaluatorsPerProject: z.number().int().min(1).max(20).optional(),
+  maxProjectsPerAdvisor: z.number().int().min(1).max(100).optional(),
+  advisorRequestDeadline: z.string().datetime({ offset: true }).nullable().optional(),
+  projectSubmissionDeadline: z.string().datetime({ offset: true }).nullable().optional(),
+  gradeAggregation: z.nativeEnum(GradeAggregationMethod).optional(),
+  gradeDisagreementThreshold: z.number().min(0).max(100).optional(),
+  requiredDocumentCategories: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20).optional(),
+});
 
 export async function GET() {
   try {
-    // Attempt to get rules from the database
-    const dbRules = await db.rule.findFirst();
-
-    // If rules exist in the database, return them
-    if (dbRules) {
-      return NextResponse.json({
-        maxGroupSize: dbRules.maxGroupSize,
-        advisorRequestDeadline: dbRules.advisorRequestDeadline,
-        projectSubmissionDeadline: dbRules.projectSubmissionDeadline
-      });
-    }
-
-    // Fall back to mock rules if no database rules exist
-    return NextResponse.json(mockRules);
+    const rules = await getRules();
+    return NextResponse.json(rules);
   } catch (error) {
     console.error('Error fetching rules:', error);
     return NextResponse.json(
@@ -31,4 +29,65 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// PUT: Update the system rules (administrators only)
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) {
+      return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const rawData = await req.json();
+    const validationResult = updateRulesSchema.safeParse(rawData);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { message: 'Invalid input', errors: validationResult.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { advisorRequestDeadline, projectSubmissionDeadline, ...limits } = validationResult.data;
+    const previousRules = await getRules();
+
+    const data = {
+      ...limits,
+      ...(advisorRequestDeadline !== undefined && {
+        advisorRequestDeadline: advisorRequestDeadline ? new Date(advisorRequestDeadline) : null,
+      }),
+      ...(projectSubmissionDeadline !== undefined && {
+        projectSubmissionDeadline: projectSubmissionDeadline ? new Date(projectSubmissionDeadline) : null,
+      }),
+    };
+
+    // Rule is a singleton table, so always write the row with id 1
+    await db.rule.upsert({
+      where: { id: 1 },
+      update: data,
+      create: { id: 1, ...data },
+    });
+
+    const rules = await getRules();
+
+    // Stored final grades depend on the aggregation settings
+    if (
+      rules.gradeAggregation !== previousRules.gradeAggregation ||
+      rules.gradeDisagreementThreshold !== previousRules.gradeDisagreementThreshold
+    ) {
+      await recomputeAllFinalGrades();
+    }
+
+    return NextResponse.json({
+      message: 'Rules updated successfully',
+      rules,
+    });
+  } catch (error) {
+    console.error('Error updating rules:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { db } from "@/lib/db"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Notifications are written from many routes and possibly other server instances, so the
+// stream watches the table itself instead of relying on in-process events
+const POLL_INTERVAL_MS = 3000
+const HEARTBEAT_INTERVAL_MS = 25000
+// Tell EventSource how long to wait before reconnecting after the stream drops
+const CLIENT_RETRY_MS = 5000
+
+const notificationSelect = {
+  id: true,
+  message: true,
+  read: true,
+  link: true,
+  createdAt: true,
+} as const
+
+// GET /api/users/:userId/notifications/stream
+// Server-sent events: `notification` for each new notification, `read` with the ids that
+// stopped being unread, and `unread-count` whenever the count changes (and once on connect).
+// Notification events carry the notification id as their event id; a reconnect passes the
+// last one back (Last-Event-ID, or ?since= when the client reopens the stream itself) and
+// every notification created after it is replayed
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.userId) {
+    return Response.json({ error: "Not authenticated" }, { status: 401 })
+  }
+
+  const { userId } = await params
+  if (session.user.userId !== userId) {
+    return Response.json({ error: "Unauthorized" }, { status: 403 })
+  }
+
+  const encoder = new TextEncoder()
+  let pollTimer: ReturnType<typeof setTimeout> | undefined
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown, id?: string) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearTimeout(pollTimer)
+        clearInterval(heartbeatTimer)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      }
+
+      request.signal.addEventListener("abort", close)
+
+      // Newest notification already known to the client. Ids are tracked alongside the
+      // timestamp so that rows sharing it are neither missed nor sent twice
+      let since = new Date(0)
+      let seenAtSince = new Set<string>()
+      let unreadIds = new Set<string>()
+      let unreadCount = -1
+
+      const poll = async () => {
+        try {
+          const [created, unread] = await Promise.all([
+            db.notification.findMany({
+              where: { recipientId: userId, createdAt: { gte: since } },
+              select: notificationSelect,
+              orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+            }),
+            db.notification.findMany({
+              where: { recipientId: userId, read: false },
+              select: { id: true },
+            }),
+          ])
+
+          for (const notification of created) {
+            if (seenAtSince.has(notification.id)) continue
+            send("notification", notification, notification.id)
+            if (notification.createdAt > since) {
+              since = notification.createdAt
+              seenAtSince = new Set()
+            }
+            seenAtSince.add(notification.id)
+          }
+
+          const currentUnread = new Set(unread.map((n) => n.id))
+          const noLongerUnread = [...unreadIds].filter((id) => !currentUnread.has(id))
+          if (noLongerUnread.length > 0) {
+            send("read", { ids: noLongerUnread })
+          }
+          unreadIds = currentUnread
+
+          if (currentUnread.size !== unreadCount) {
+            unreadCount = currentUnread.size
+            send("unread-count", { unreadCount })
+          }
+        } catch (error) {
+          console.error(`Error polling notifications for ${userId}:`, error)
+        }
+
+        if (!closed) pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+      }
+
+      controller.enqueue(encoder.encode(`retry: ${CLIENT_RETRY_MS}\n\n`))
+      heartbeatTimer = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"))
+      }, HEARTBEAT_INTERVAL_MS)
+
+      // Resume after the last notification the client received. A fresh connection has
+      // fetched older notifications through the regular endpoint, so it starts after the
+      // newest one
+      const lastEventId = request.headers.get("last-event-id") || new URL(request.url).searchParams.get("since")
+      const resumeFrom = lastEventId
+        ? await db.notification.findFirst({
+            where: { id: lastEventId, recipientId: userId },
+            select: { id: true, createdAt: true },
+          })
+        : null
+      const latest =
+        resumeFrom ??
+        (await db.notification.findFirst({
+          where: { recipientId: userId },
+          select: { id: true, createdAt: true },
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        }))
+      if (latest) {
+        since = latest.createdAt
+        const atLatest = await db.notification.findMany({
+          where: { recipientId: userId, createdAt: latest.createdAt, id: { lte: latest.id } },
+          select: { id: true },
+        })
+        seenAtSince = new Set(atLatest.map((n) => n.id))
+      }
+      await poll()
+    },
+    cancel() {
+      closed = true
+      clearTimeout(pollTimer)
+      clearInterval(heartbeatTimer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable proxy buffering (nginx) so events arrive immediately
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
 import { PrismaClient } from '@prisma/client';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { fileUrl, getFileStorage } from '@/lib/storage';
 
 const prisma = new PrismaClient();
 
-// Create uploads directory if it doesn't exist
-const uploadsDir = join(process.cwd(), 'public', 'uploads', 'profile-photos');
-
 export async function POST(
   req: NextRequest,
   { params }: { params: { userId: string } }
@@ -45,23 +40,17 @@ export async function POST(
       return NextResponse.json({ error: 'File size must be less than 5MB' }, { status: 400 });
     }
 
-    // Create uploads directory if it doesn't exist
-    if (!existsSync(uploadsDir)) {
-      await mkdir(uploadsDir, { recursive: true });
-    }
-
     // Generate unique filename
     const timestamp = Date.now();
     const filename = `${params.userId}-${timestamp}.${file.type.split('/')[1]}`;
-    const filepath = join(uploadsDir, filename);
+    const key = `profile-photos/${filename}`;
 
-    // Convert file to buffer and save
+    // Convert file to buffer and store it
     const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    await writeFile(filepath, buffer);
+    await getFileStorage().put(key, Buffer.from(bytes), file.type);
 
     // Update user profile with new image URL
-    const imageUrl = `/uploads/profile-photos/${filename}`;
+    const imageUrl = fileUrl(key);
     
     await prisma.user.update({
       where: { userId: params.userId },
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient, Role } from '@prisma/client';
+import { Role } from '@prisma/client';
 import { z } from 'zod';
-
-// Initialize Prisma client
-const prisma = new PrismaClient();
+import { db } from '@/lib/db';
+import { MIN_RATINGS_FOR_AGGREGATE } from '@/lib/advisor-ratings';
 
 // Validation schema
 const userIdSchema = z.string().min(1, 'User ID is required');
@@ -25,7 +24,7 @@ export async function GET(
     const userId = params.userId;
 
     // Verify this is an advisor
-    const user = await prisma.user.findUnique({
+    const user = await db.user.findUnique({
       where: { userId },
       select: { role: true }
     });
@@ -44,59 +43,39 @@ export async function GET(
       );
     }
 
-    // Get evaluations for projects advised by this advisor
-    const evaluations = await prisma.evaluation.findMany({
-      where: {
-        project: {
-          advisorId: userId
-        }
-      },
+    // Ratings students gave this advisor. Reviews are anonymous: neither the student nor
+    // the project is disclosed, and the semester stands in for the exact date.
+    const ratings = await db.advisorRating.findMany({
+      where: { advisorId: userId },
       select: {
-        id: true,
         score: true,
-        comments: true,
-        createdAt: true,
-        authorId: true,
-        projectId: true,
-        project: {
-          select: {
-            title: true
-          }
-        }
+        feedback: true,
+        semester: true,
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
     });
 
-    // For each evaluation, fetch the author's name
-    const reviewsPromises = evaluations.map(async (evaluation) => {
-      const author = await prisma.user.findUnique({
-        where: { userId: evaluation.authorId },
-        select: {
-          firstName: true,
-          lastName: true
-        }
-      });
-
-      // Generate a simple helpful count (just for demo)
-      const helpfulCount = Math.floor(Math.random() * 10);
-
-      return {
-        id: evaluation.id,
-        authorId: evaluation.authorId,
-        authorName: author ? `${author.firstName} ${author.lastName}` : 'Unknown User',
-        rating: evaluation.score || 3, // Default to 3 if no score
-        comment: evaluation.comments || "No detailed feedback provided.",
-        projectTitle: evaluation.project.title,
-        date: evaluation.createdAt.toISOString(),
-        helpfulCount: helpfulCount,
-        // Random flag for userHasMarkedHelpful for demo purposes
-        userHasMarkedHelpful: Math.random() > 0.5
-      };
-    });
+    // With only a rating or two in a semester the advisor could tell who wrote them, so
+    // such semesters are left out altogether
+    const perSemester = new Map<string, number>();
+    for (const { semester } of ratings) {
+      perSemester.set(semester, (perSemester.get(semester) ?? 0) + 1);
+    }
 
-    const reviews = await Promise.all(reviewsPromises);
+    // Newest semester first, but within a semester by score and feedback rather than by
+    // date, so the order does not give away when, or by whom, a review was written
+    const reviews = ratings
+      .filter((rating) => perSemester.get(rating.semester)! >= MIN_RATINGS_FOR_AGGREGATE)
+      .sort(
+        (a, b) =>
+          b.semester.localeCompare(a.semester) ||
+          b.score - a.score ||
+          (a.feedback ?? '').localeCompare(b.feedback ?? '')
+      )
+      .map((rating) => ({
+        rating: rating.score,
+        comment: rating.feedback || "No detailed feedback provided.",
+        semester: rating.semester,
+      }));
 
     return NextResponse.json(reviews);
   } catch (error) {
@@ -105,7 +84,5 @@ export async function GET(
       { error: 'Failed to fetch reviews' },
       { status: 500 }
     );
-  } finally {
-    await prisma.$disconnect();
   }
 } 
\ No newline at end of file
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { Role } from '@prisma/client';
 import { z } from 'zod';
-import bcrypt from 'bcryptjs';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
 
 // Define interface for profile info
 interface ProfileInfo {
@@ -18,7 +19,6 @@ const updateUserSchema = z.object({
   firstName: z.string().min(1, 'First name is required').optional(),
   lastName: z.string().min(1, 'Last name is required').optional(),
   email: z.string().email('Invalid email format').optional(),
-  password: z.string().min(8, 'Password must be at least 8 characters').optional(),
   profileInfo: z.record(z.any()).optional(), // Allow any JSON object
   role: z.enum(['STUDENT', 'ADVISOR', 'EVALUATOR', 'ADMINISTRATOR']).optional(),
 });
@@ -156,11 +156,15 @@ export async function PUT(
       );
     }
 
-    // TODO: Add authentication check
-    // const user = req.user;
-    // if (user.userId !== userId && user.role !== 'ADMINISTRATOR') {
-    //   return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
-    // }
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const isAdmin = session.user.role === Role.ADMINISTRATOR;
+    if (session.user.userId !== userId && !isAdmin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
 
     // Parse and validate request body
     const body = await req.json();
@@ -172,7 +176,12 @@ export async function PUT(
       );
     }
 
-    const { firstName, lastName, email, password, profileInfo, role } = parsedBody.data;
+    // Passwords change through /api/auth/change-password, which verifies the current one
+    const { firstName, lastName, email, profileInfo, role } = parsedBody.data;
+
+    if (role && !isAdmin) {
+      return NextResponse.json({ error: 'Only administrators can change roles' }, { status: 403 });
+    }
 
     // Check if user exists
     const existingUser = await db.user.findUnique({
@@ -207,9 +216,8 @@ export async function PUT(
     if (email) updateData.email = email;
     if (profileInfo) updateData.profileInfo = profileInfo;
     if (role) updateData.role = role as Role;
-    if (password) {
-      updateData.passwordHash = await bcrypt.hash(password, 10);
-    }
+    // Sessions carry the role, so a role change signs the user out everywhere
+    if (role && role !== existingUser.role) updateData.tokenVersion = { increment: 1 };
 
     // Update user
     const updatedUser = await db.user.update({
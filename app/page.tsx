@@ -9,6 +9,7 @@ import { Footer } from "@/components/footer";
 import { Role } from "@prisma/client";
 import AdvisorDashboardTabs from "@/components/advisor/dashboard/AdvisorDashboardTabs";
 import EvaluatorDashboard from "@/components/evaluator/dashboard/EvaluatorDashboard";
+import AdminDashboard from "@/components/admin/dashboard/AdminDashboard";
 
 export const metadata: Metadata = {
   title: "Project Repository Platform - BiT",
@@ -31,6 +32,8 @@ export default async function Home() {
         return <AdvisorDashboardTabs />;
       case Role.EVALUATOR:
         return <EvaluatorDashboard />;
+      case Role.ADMINISTRATOR:
+        return <AdminDashboard />;
       default:
         // Fallback to student dashboard or show an error
         return <div className="p-8">Unknown user role: {userRole}</div>;
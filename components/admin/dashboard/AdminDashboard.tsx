@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Users, UsersRound, FolderKanban, ListChecks, Megaphone, Settings, Mail } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import AdminLayout from './AdminLayout';
+import UsersTab from './tabs/UsersTab';
+import GroupsTab from './tabs/GroupsTab';
+import ProjectsTab from './tabs/ProjectsTab';
+import RulesTab from './tabs/RulesTab';
+import AnnouncementsTab from './tabs/AnnouncementsTab';
+import RubricsTab from './tabs/RubricsTab';
+import OutboxTab from './tabs/OutboxTab';
+
+const triggerClassName = "flex items-center justify-center gap-2 py-2.5 text-sm font-medium data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow-sm rounded-md transition-all";
+
+export default function AdminDashboard() {
+  const [activeTab, setActiveTab] = useState("users");
+
+  return (
+    <AdminLayout>
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Administration</h1>
+        <p className="text-muted-foreground mt-1">
+          Manage accounts, groups, project assignments, grading rubrics, system rules and announcements.
+        </p>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full space-y-6">
+        <TabsList className="block w-full grid grid-cols-1 sm:grid-cols-7 h-auto bg-muted/60 rounded-md p-1">
+          <TabsTrigger value="users" className={triggerClassName}>
+            <Users className="h-4 w-4" /> Users
+          </TabsTrigger>
+          <TabsTrigger value="groups" className={triggerClassName}>
+            <UsersRound className="h-4 w-4" /> Groups
+          </TabsTrigger>
+          <TabsTrigger value="projects" className={triggerClassName}>
+            <FolderKanban className="h-4 w-4" /> Projects
+          </TabsTrigger>
+          <TabsTrigger value="rubrics" className={triggerClassName}>
+            <ListChecks className="h-4 w-4" /> Rubrics
+          </TabsTrigger>
+          <TabsTrigger value="rules" className={triggerClassName}>
+            <Settings className="h-4 w-4" /> Rules
+          </TabsTrigger>
+          <TabsTrigger value="announcements" className={triggerClassName}>
+            <Megaphone className="h-4 w-4" /> Announcements
+          </TabsTrigger>
+          <TabsTrigger value="outbox" className={triggerClassName}>
+            <Mail className="h-4 w-4" /> Outbox
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="users" className="mt-4">
+          <UsersTab />
+        </TabsContent>
+
+        <TabsContent value="groups" className="mt-4">
+          <GroupsTab />
+        </TabsContent>
+
+        <TabsContent value="projects" className="mt-4">
+          <ProjectsTab />
+        </TabsContent>
+
+        <TabsContent value="rubrics" className="mt-4">
+          <RubricsTab />
+        </TabsContent>
+
+        <TabsContent value="rules" className="mt-4">
+          <RulesTab />
+        </TabsContent>
+
+        <TabsContent value="announcements" className="mt-4">
+          <AnnouncementsTab />
+        </TabsContent>
+
+        <TabsContent value="outbox" className="mt-4">
+          <OutboxTab />
+        </TabsContent>
+      </Tabs>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import React from 'react';
+import AdminNavbar from './AdminNavbar';
+
+interface AdminLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function AdminLayout({ children }: AdminLayoutProps) {
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <AdminNavbar />
+
+      {/* Page content */}
+      <main className="flex-1 w-full max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { useSession, signOut } from 'next-auth/react';
+import { LogOut, ShieldCheck, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export default function AdminNavbar() {
+  const { data: session } = useSession();
+  const userId = session?.user?.userId;
+
+  return (
+    <header className="bg-background border-b sticky top-0 z-10">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between h-16">
+          {/* Logo/Brand */}
+          <Link href="/" className="flex items-center gap-2">
+            <span className="h-8 w-8 rounded-full bg-violet-100 flex items-center justify-center">
+              <ShieldCheck className="h-4 w-4 text-violet-600" />
+            </span>
+            <h1 className="text-xl font-bold">PRP Admin</h1>
+          </Link>
+
+          {/* User Actions */}
+          <div className="flex items-center space-x-1.5">
+            {userId && (
+              <Link href={`/${userId}`} passHref legacyBehavior>
+                <Button variant="ghost" className="items-center">
+                  <User size={18} className="mr-1.5" />
+                  <span className="hidden sm:inline">{userId}</span>
+                </Button>
+              </Link>
+            )}
+            <Button
+              variant="ghost"
+              onClick={() => signOut({ callbackUrl: '/' })}
+              className="items-center text-red-600 hover:text-red-700 hover:bg-red-100/50"
+            >
+              <LogOut size={18} className="mr-1.5" />
+              Logout
+            </Button>
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,9 @@
+// datetime-local inputs work in local time without a zone suffix
+export const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
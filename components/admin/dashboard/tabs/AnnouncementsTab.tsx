@@ -0,0 +1,419 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { fromLocalInput, toLocalInput } from '../date-input';
+
+interface AdminAnnouncement {
+  id: string;
+  title: string;
+  content: string;
+  priority: number;
+  active: boolean;
+  audience: AudienceRole[];
+  expiresAt: string | null;
+  createdAt: string;
+  creator: {
+    userId: string;
+    firstName: string;
+    lastName: string;
+  };
+  _count: {
+    dismissals: number;
+  };
+}
+
+interface AnnouncementForm {
+  title: string;
+  content: string;
+  priority: string;
+  active: boolean;
+  audience: AudienceRole[];
+  expiresAt: string;
+}
+
+const PRIORITY_LABELS = ['Normal', 'Notice', 'Important', 'Urgent'];
+
+const AUDIENCE_ROLES = ['STUDENT', 'ADVISOR', 'EVALUATOR'] as const;
+type AudienceRole = typeof AUDIENCE_ROLES[number];
+
+const emptyForm: AnnouncementForm = {
+  title: '',
+  content: '',
+  priority: '0',
+  active: true,
+  audience: [],
+  expiresAt: '',
+};
+
+const formatRole = (role: AudienceRole) => role.charAt(0) + role.slice(1).toLowerCase();
+
+export default function AnnouncementsTab() {
+  const [announcements, setAnnouncements] = useState<AdminAnnouncement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AnnouncementForm>(emptyForm);
+  const [announcementToDelete, setAnnouncementToDelete] = useState<AdminAnnouncement | null>(null);
+
+  const fetchAnnouncements = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/announcements');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to load announcements');
+      }
+      const data = await response.json();
+      setAnnouncements(data.announcements);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load announcements');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAnnouncements();
+  }, [fetchAnnouncements]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setIsEditorOpen(true);
+  };
+
+  const openEdit = (announcement: AdminAnnouncement) => {
+    setEditingId(announcement.id);
+    setForm({
+      title: announcement.title,
+      content: announcement.content,
+      priority: String(announcement.priority),
+      active: announcement.active,
+      audience: announcement.audience,
+      expiresAt: toLocalInput(announcement.expiresAt),
+    });
+    setIsEditorOpen(true);
+  };
+
+  const toggleAudience = (role: AudienceRole, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      audience: checked ? [...prev.audience, role] : prev.audience.filter((r) => r !== role),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/admin/announcements/${editingId}` : '/api/admin/announcements',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            title: form.title,
+            content: form.content,
+            priority: Number(form.priority),
+            active: form.active,
+            audience: form.audience,
+            expiresAt: fromLocalInput(form.expiresAt),
+          }),
+        }
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save announcement');
+      }
+      toast.success(result.message || 'Announcement saved');
+      setIsEditorOpen(false);
+      fetchAnnouncements();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save announcement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (announcement: AdminAnnouncement) => {
+    try {
+      const response = await fetch(`/api/admin/announcements/${announcement.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !announcement.active }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to update announcement');
+      }
+      setAnnouncements((prev) =>
+        prev.map((a) => (a.id === announcement.id ? { ...a, active: !announcement.active } : a))
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update announcement');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!announcementToDelete) return;
+
+    try {
+      const response = await fetch(`/api/admin/announcements/${announcementToDelete.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete announcement');
+      }
+      setAnnouncements((prev) => prev.filter((a) => a.id !== announcementToDelete.id));
+      toast.success(result.message || 'Announcement deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete announcement');
+    } finally {
+      setAnnouncementToDelete(null);
+    }
+  };
+
+  const isExpired = (announcement: AdminAnnouncement) =>
+    !!announcement.expiresAt && new Date(announcement.expiresAt) <= new Date();
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Announcements</CardTitle>
+            <CardDescription>Publish announcements to every dashboard or to specific roles.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={fetchAnnouncements} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+            </div>
+          ) : announcements.length === 0 ? (
+            <p className="text-center py-10 text-muted-foreground">No announcements published yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Audience</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-center">Dismissed</TableHead>
+                  <TableHead className="text-center">Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {announcements.map((announcement) => (
+                  <TableRow key={announcement.id}>
+                    <TableCell>
+                      <div className="font-medium">{announcement.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(announcement.createdAt).toLocaleDateString()} by {announcement.creator.firstName} {announcement.creator.lastName}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {announcement.audience.length === 0 ? (
+                          <Badge variant="outline">Everyone</Badge>
+                        ) : (
+                          announcement.audience.map((role) => (
+                            <Badge key={role} variant="outline">{formatRole(role)}</Badge>
+                          ))
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{PRIORITY_LABELS[announcement.priority] ?? announcement.priority}</TableCell>
+                    <TableCell>
+                      {announcement.expiresAt ? (
+                        <span className={isExpired(announcement) ? 'text-red-600' : undefined}>
+                          {new Date(announcement.expiresAt).toLocaleString()}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Never</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{announcement._count.dismissals}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={announcement.active}
+                        onCheckedChange={() => handleToggleActive(announcement)}
+                        aria-label="Toggle announcement"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(announcement)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setAnnouncementToDelete(announcement)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-100/50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit announcement' : 'New announcement'}</DialogTitle>
+              <DialogDescription>
+                Leave every role unchecked to show the announcement to everyone.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="announcement-title">Title</Label>
+                <Input
+                  id="announcement-title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="announcement-content">Content</Label>
+                <Textarea
+                  id="announcement-content"
+                  rows={5}
+                  value={form.content}
+                  onChange={(e) => setForm({ ...form, content: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select value={form.priority} onValueChange={(value) => setForm({ ...form, priority: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRIORITY_LABELS.map((label, index) => (
+                        <SelectItem key={label} value={String(index)}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="announcement-expires">Expires at</Label>
+                  <Input
+                    id="announcement-expires"
+                    type="datetime-local"
+                    value={form.expiresAt}
+                    onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Audience</Label>
+                <div className="flex flex-wrap gap-4">
+                  {AUDIENCE_ROLES.map((role) => (
+                    <label key={role} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.audience.includes(role)}
+                        onCheckedChange={(checked) => toggleAudience(role, checked === true)}
+                      />
+                      {formatRole(role)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={form.active}
+                  onCheckedChange={(checked) => setForm({ ...form, active: checked })}
+                />
+                Active
+              </label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsEditorOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingId ? 'Save changes' : 'Publish'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!announcementToDelete} onOpenChange={(open) => !open && setAnnouncementToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {announcementToDelete?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The announcement is removed from every dashboard and archive. Deactivate it instead to keep a record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
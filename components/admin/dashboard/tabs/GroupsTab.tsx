@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface AdminGroup {
+  groupUserName: string;
+  name: string;
+  createdAt: string;
+  leader: {
+    userId: string;
+    firstName: string;
+    lastName: string;
+  };
+  _count: {
+    members: number;
+    projects: number;
+    repositories: number;
+  };
+}
+
+export default function GroupsTab() {
+  const [groups, setGroups] = useState<AdminGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [groupToDissolve, setGroupToDissolve] = useState<AdminGroup | null>(null);
+
+  const fetchGroups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (search) params.set('search', search);
+
+      const response = await fetch(`/api/admin/groups?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to load groups');
+      }
+      const data = await response.json();
+      setGroups(data.groups);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load groups');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const handleDissolve = async () => {
+    if (!groupToDissolve) return;
+
+    try {
+      const response = await fetch(`/api/admin/groups/${groupToDissolve.groupUserName}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to dissolve group');
+      }
+      setGroups((prev) => prev.filter((g) => g.groupUserName !== groupToDissolve.groupUserName));
+      toast.success(result.message || 'Group dissolved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to dissolve group');
+    } finally {
+      setGroupToDissolve(null);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Groups</CardTitle>
+            <CardDescription>Inspect student groups and dissolve them when necessary.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchGroups} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Search by name or group username"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="sm:max-w-sm"
+          />
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="text-center py-10 text-muted-foreground">No groups found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Leader</TableHead>
+                  <TableHead className="text-center">Members</TableHead>
+                  <TableHead className="text-center">Projects</TableHead>
+                  <TableHead className="text-center">Repositories</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map((group) => (
+                  <TableRow key={group.groupUserName}>
+                    <TableCell>
+                      <Link href={`/${group.groupUserName}`} className="font-medium hover:underline">
+                        {group.name}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">@{group.groupUserName}</div>
+                    </TableCell>
+                    <TableCell>{group.leader.firstName} {group.leader.lastName}</TableCell>
+                    <TableCell className="text-center">{group._count.members}</TableCell>
+                    <TableCell className="text-center">{group._count.projects}</TableCell>
+                    <TableCell className="text-center">{group._count.repositories}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setGroupToDissolve(group)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-100/50"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Dissolve
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!groupToDissolve} onOpenChange={(open) => !open && setGroupToDissolve(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Dissolve {groupToDissolve?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the group together with its {groupToDissolve?._count.projects} project(s)
+              and {groupToDissolve?._count.repositories} repositor(ies). Members will be notified.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDissolve} className="bg-red-600 hover:bg-red-700">
+              Dissolve
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCw, RotateCcw, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const EMAIL_STATUSES = ['PENDING', 'SENDING', 'SENT', 'FAILED'] as const;
+type EmailStatus = typeof EMAIL_STATUSES[number];
+
+interface OutboundEmail {
+  id: string;
+  to: string;
+  subject: string;
+  template: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+const ALL_STATUSES = '__all__';
+
+const STATUS_VARIANTS: Record<EmailStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  SENDING: 'secondary',
+  SENT: 'default',
+  FAILED: 'destructive',
+};
+
+export default function OutboxTab() {
+  const [emails, setEmails] = useState<OutboundEmail[]>([]);
+  const [counts, setCounts] = useState<Record<EmailStatus, number> | null>(null);
+  const [status, setStatus] = useState<string>(ALL_STATUSES);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const fetchEmails = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (status !== ALL_STATUSES) params.set('status', status);
+
+      const response = await fetch(`/api/admin/outbox?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to load outbox');
+      }
+      const data = await response.json();
+      setEmails(data.emails);
+      setCounts(data.counts);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load outbox');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const handleProcess = async () => {
+    setIsProcessing(true);
+    try {
+      const response = await fetch('/api/admin/outbox', { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to process outbox');
+      }
+      toast.success(result.message || 'Outbox processed');
+      await fetchEmails();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to process outbox');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRetry = async (emailId: string) => {
+    setRetryingId(emailId);
+    try {
+      const response = await fetch(`/api/admin/outbox/${emailId}/retry`, { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to retry email');
+      }
+      toast.success(result.message || 'Email retried');
+      await fetchEmails();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to retry email');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Email Outbox</CardTitle>
+          <CardDescription>
+            Outgoing email and its delivery state. Failed sends are retried automatically with backoff.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+              {EMAIL_STATUSES.map((s) => (
+                <SelectItem key={s} value={s}>
+                  {s.charAt(0) + s.slice(1).toLowerCase()}
+                  {counts ? ` (${counts[s]})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={fetchEmails} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={handleProcess} disabled={isProcessing}>
+            {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Process now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : emails.length === 0 ? (
+          <p className="text-center py-10 text-muted-foreground">No emails in the outbox.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-center">Attempts</TableHead>
+                <TableHead>Queued</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell className="font-medium">{email.to}</TableCell>
+                  <TableCell>
+                    <div>{email.subject}</div>
+                    <div className="text-xs text-muted-foreground">{email.template}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[email.status]}>{email.status}</Badge>
+                    {email.lastError && email.status !== 'SENT' && (
+                      <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={email.lastError}>
+                        {email.lastError}
+                      </div>
+                    )}
+                    {email.status === 'PENDING' && email.attempts > 0 && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Next attempt {new Date(email.nextAttemptAt).toLocaleString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">{email.attempts}</TableCell>
+                  <TableCell>{new Date(email.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {email.status === 'FAILED' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRetry(email.id)}
+                        disabled={retryingId === email.id}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface UserSummary {
+  userId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface AdminProject {
+  id: string;
+  title: string;
+  status: string;
+  groupUserName: string;
+  group: { name: string };
+  rubric: { id: string; name: string } | null;
+  finalGrade: { score: number; evaluationCount: number; disagreement: boolean } | null;
+  advisor: UserSummary | null;
+  projectEvaluators: {
+    assignedAt: string;
+    weight: number;
+    evaluator: UserSummary;
+  }[];
+}
+
+const NO_ADVISOR = '__none__';
+const DEFAULT_RUBRIC = '__default__';
+
+export default function ProjectsTab() {
+  const [projects, setProjects] = useState<AdminProject[]>([]);
+  const [advisors, setAdvisors] = useState<UserSummary[]>([]);
+  const [evaluators, setEvaluators] = useState<UserSummary[]>([]);
+  const [rubrics, setRubrics] = useState<{ id: string; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [busyProjectId, setBusyProjectId] = useState<string | null>(null);
+
+  const fetchProjects = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (search) params.set('search', search);
+
+      const response = await fetch(`/api/admin/projects?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to load projects');
+      }
+      const data = await response.json();
+      setProjects(data.projects);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load projects');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search]);
+
+  const fetchStaff = useCallback(async () => {
+    try {
+      const [advisorsRes, evaluatorsRes, rubricsRes] = await Promise.all([
+        fetch('/api/admin/users?role=ADVISOR&suspended=false&limit=100'),
+        fetch('/api/admin/users?role=EVALUATOR&suspended=false&limit=100'),
+        fetch('/api/admin/rubrics'),
+      ]);
+      if (advisorsRes.ok) setAdvisors((await advisorsRes.json()).users);
+      if (evaluatorsRes.ok) setEvaluators((await evaluatorsRes.json()).users);
+      if (rubricsRes.ok) setRubrics((await rubricsRes.json()).rubrics);
+    } catch (err) {
+      console.error('Error fetching staff:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  useEffect(() => {
+    fetchStaff();
+  }, [fetchStaff]);
+
+  const runProjectAction = async (projectId: string, request: () => Promise<Response>) => {
+    setBusyProjectId(projectId);
+    try {
+      const response = await request();
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Request failed');
+      }
+      toast.success(result.message || 'Project updated');
+      await fetchProjects();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyProjectId(null);
+    }
+  };
+
+  const handleAdvisorChange = (projectId: string, value: string) =>
+    runProjectAction(projectId, () =>
+      fetch(`/api/admin/projects/${projectId}/advisor`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ advisorId: value === NO_ADVISOR ? null : value }),
+      })
+    );
+
+  const handleRubricChange = (projectId: string, value: string) =>
+    runProjectAction(projectId, () =>
+      fetch(`/api/admin/projects/${projectId}/rubric`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rubricId: value === DEFAULT_RUBRIC ? null : value }),
+      })
+    );
+
+  const handleAssignEvaluator = (projectId: string, evaluatorId: string) =>
+    runProjectAction(projectId, () =>
+      fetch(`/api/admin/projects/${projectId}/evaluators`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ evaluatorId }),
+      })
+    );
+
+  const handleEvaluatorWeightChange = (projectId: string, evaluatorId: string, value: string) => {
+    const weight = Number(value);
+    if (!Number.isFinite(weight) || weight <= 0) {
+      toast.error('Weight must be a positive number');
+      return;
+    }
+    return runProjectAction(projectId, () =>
+      fetch(`/api/admin/projects/${projectId}/evaluators`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ evaluatorId, weight }),
+      })
+    );
+  };
+
+  const handleUnassignEvaluator = (projectId: string, evaluatorId: string) =>
+    runProjectAction(projectId, () =>
+      fetch(`/api/admin/projects/${projectId}/evaluators?evaluatorId=${encodeURIComponent(evaluatorId)}`, {
+        method: 'DELETE',
+      })
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Projects</CardTitle>
+          <CardDescription>Reassign advisors, manage evaluator assignments and choose grading rubrics.</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchProjects} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          placeholder="Search by title or group"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="sm:max-w-sm"
+        />
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : projects.length === 0 ? (
+          <p className="text-center py-10 text-muted-foreground">No projects found.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Project</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Advisor</TableHead>
+                <TableHead>Evaluators</TableHead>
+                <TableHead>Rubric</TableHead>
+                <TableHead>Final Grade</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {projects.map((project) => {
+                const assignedIds = project.projectEvaluators.map((pe) => pe.evaluator.userId);
+                const isBusy = busyProjectId === project.id;
+
+                return (
+                  <TableRow key={project.id}>
+                    <TableCell>
+                      <div className="font-medium">{project.title}</div>
+                      <div className="text-xs text-muted-foreground">{project.group.name}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{project.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={project.advisor?.userId || NO_ADVISOR}
+                        onValueChange={(value) => handleAdvisorChange(project.id, value)}
+                        disabled={isBusy}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_ADVISOR}>No advisor</SelectItem>
+                          {advisors.map((advisor) => (
+                            <SelectItem key={advisor.userId} value={advisor.userId}>
+                              {advisor.firstName} {advisor.lastName}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        {project.projectEvaluators.map(({ evaluator, weight }) => (
+                          <Badge key={evaluator.userId} variant="secondary" className="gap-1">
+                            {evaluator.firstName} {evaluator.lastName}
+                            <Input
+                              key={weight}
+                              type="number"
+                              min={0.1}
+                              step={0.1}
+                              defaultValue={weight}
+                              onBlur={(e) => {
+                                if (Number(e.target.value) !== weight) {
+                                  handleEvaluatorWeightChange(project.id, evaluator.userId, e.target.value);
+                                }
+                              }}
+                              disabled={isBusy}
+                              className="h-5 w-12 px-1 text-xs"
+                              aria-label={`Weight for ${evaluator.firstName} ${evaluator.lastName}`}
+                              title="Weight used by the weighted mean"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => handleUnassignEvaluator(project.id, evaluator.userId)}
+                              disabled={isBusy}
+                              aria-label={`Unassign ${evaluator.firstName} ${evaluator.lastName}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                        <Select
+                          value=""
+                          onValueChange={(value) => handleAssignEvaluator(project.id, value)}
+                          disabled={isBusy}
+                        >
+                          <SelectTrigger className="h-7 w-36 text-xs">
+                            <SelectValue placeholder="Add evaluator" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {evaluators
+                              .filter((e) => !assignedIds.includes(e.userId) && e.userId !== project.advisor?.userId)
+                              .map((evaluator) => (
+                                <SelectItem key={evaluator.userId} value={evaluator.userId}>
+                                  {evaluator.firstName} {evaluator.lastName}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={project.rubric?.id || DEFAULT_RUBRIC}
+                        onValueChange={(value) => handleRubricChange(project.id, value)}
+                        disabled={isBusy}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_RUBRIC}>Default rubric</SelectItem>
+                          {rubrics.map((rubric) => (
+                            <SelectItem key={rubric.id} value={rubric.id}>
+                              {rubric.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {project.finalGrade ? (
+                        <div className="flex items-center gap-1.5">
+                          <span className="font-medium">{project.finalGrade.score}</span>
+                          <span className="text-xs text-muted-foreground">
+                            ({project.finalGrade.evaluationCount} eval.)
+                          </span>
+                          {project.finalGrade.disagreement && (
+                            <AlertTriangle
+                              className="h-4 w-4 text-amber-500"
+                              aria-label="Evaluators disagree beyond the configured threshold"
+                            />
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Not graded</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,426 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface AdminRubric {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  criteria: {
+    id: string;
+    name: string;
+    description: string | null;
+    weight: number;
+    minScore: number;
+    maxScore: number;
+  }[];
+  _count: {
+    projects: number;
+    evaluations: number;
+  };
+}
+
+interface CriterionForm {
+  name: string;
+  description: string;
+  weight: string;
+  minScore: string;
+  maxScore: string;
+}
+
+interface RubricForm {
+  name: string;
+  description: string;
+  isDefault: boolean;
+  criteria: CriterionForm[];
+}
+
+const emptyCriterion: CriterionForm = {
+  name: '',
+  description: '',
+  weight: '',
+  minScore: '0',
+  maxScore: '10',
+};
+
+const emptyForm: RubricForm = {
+  name: '',
+  description: '',
+  isDefault: false,
+  criteria: [emptyCriterion],
+};
+
+export default function RubricsTab() {
+  const [rubrics, setRubrics] = useState<AdminRubric[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RubricForm>(emptyForm);
+  const [rubricToDelete, setRubricToDelete] = useState<AdminRubric | null>(null);
+
+  const fetchRubrics = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/rubrics');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to load rubrics');
+      }
+      const data = await response.json();
+      setRubrics(data.rubrics);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load rubrics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRubrics();
+  }, [fetchRubrics]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setIsEditorOpen(true);
+  };
+
+  const openEdit = (rubric: AdminRubric) => {
+    setEditingId(rubric.id);
+    setForm({
+      name: rubric.name,
+      description: rubric.description ?? '',
+      isDefault: rubric.isDefault,
+      criteria: rubric.criteria.map((criterion) => ({
+        name: criterion.name,
+        description: criterion.description ?? '',
+        weight: String(criterion.weight),
+        minScore: String(criterion.minScore),
+        maxScore: String(criterion.maxScore),
+      })),
+    });
+    setIsEditorOpen(true);
+  };
+
+  const updateCriterion = (index: number, changes: Partial<CriterionForm>) => {
+    setForm((prev) => ({
+      ...prev,
+      criteria: prev.criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)),
+    }));
+  };
+
+  const totalWeight = form.criteria.reduce((sum, criterion) => sum + (Number(criterion.weight) || 0), 0);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/admin/rubrics/${editingId}` : '/api/admin/rubrics', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || null,
+          isDefault: form.isDefault,
+          criteria: form.criteria.map((criterion) => ({
+            name: criterion.name,
+            description: criterion.description || null,
+            weight: Number(criterion.weight),
+            minScore: Number(criterion.minScore),
+            maxScore: Number(criterion.maxScore),
+          })),
+        }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const details = result.errors ? Object.values(result.errors).flat().join(' ') : '';
+        throw new Error(details || result.message || 'Failed to save rubric');
+      }
+      toast.success(result.message || 'Rubric saved');
+      setIsEditorOpen(false);
+      fetchRubrics();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rubric');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!rubricToDelete) return;
+
+    try {
+      const response = await fetch(`/api/admin/rubrics/${rubricToDelete.id}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to delete rubric');
+      }
+      setRubrics((prev) => prev.filter((r) => r.id !== rubricToDelete.id));
+      toast.success(result.message || 'Rubric deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete rubric');
+    } finally {
+      setRubricToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Rubrics</CardTitle>
+            <CardDescription>
+              Define weighted grading criteria. Projects without an assigned rubric use the default one.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={fetchRubrics} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-24 w-full" />)}
+            </div>
+          ) : rubrics.length === 0 ? (
+            <p className="text-center py-10 text-muted-foreground">
+              No rubrics defined yet. Evaluators cannot submit evaluations until one exists.
+            </p>
+          ) : (
+            rubrics.map((rubric) => (
+              <div key={rubric.id} className="rounded-md border p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium">{rubric.name}</h3>
+                      {rubric.isDefault && <Badge>Default</Badge>}
+                    </div>
+                    {rubric.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{rubric.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Assigned to {rubric._count.projects} project(s), used by {rubric._count.evaluations} evaluation(s)
+                    </p>
+                  </div>
+                  <div className="flex whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(rubric)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRubricToDelete(rubric)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-100/50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="mt-3 flex flex-wrap gap-1.5">
+                  {rubric.criteria.map((criterion) => (
+                    <Badge key={criterion.id} variant="outline">
+                      {criterion.name} · {criterion.weight}% · {criterion.minScore}-{criterion.maxScore}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit rubric' : 'New rubric'}</DialogTitle>
+              <DialogDescription>
+                Weights are percentages of the final score and must add up to 100. Editing a rubric does not change
+                evaluations that were already submitted.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="rubric-name">Name</Label>
+                <Input
+                  id="rubric-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rubric-description">Description</Label>
+                <Textarea
+                  id="rubric-description"
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={form.isDefault}
+                  onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })}
+                />
+                Use as the default rubric
+              </label>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Criteria</Label>
+                  <span className={`text-xs ${Math.abs(totalWeight - 100) < 0.01 ? 'text-muted-foreground' : 'text-red-600'}`}>
+                    Total weight: {totalWeight}%
+                  </span>
+                </div>
+                {form.criteria.map((criterion, index) => (
+                  <div key={index} className="rounded-md border p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Criterion name"
+                        value={criterion.name}
+                        onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                        required
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setForm((prev) => ({ ...prev, criteria: prev.criteria.filter((_, i) => i !== index) }))
+                        }
+                        disabled={form.criteria.length === 1}
+                        aria-label="Remove criterion"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      placeholder="What evaluators should look for"
+                      rows={2}
+                      value={criterion.description}
+                      onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                    />
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Weight (%)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step="any"
+                          value={criterion.weight}
+                          onChange={(e) => updateCriterion(index, { weight: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Min score</Label>
+                        <Input
+                          type="number"
+                          step="any"
+                          value={criterion.minScore}
+                          onChange={(e) => updateCriterion(index, { minScore: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Max score</Label>
+                        <Input
+                          type="number"
+                          step="any"
+                          value={criterion.maxScore}
+                          onChange={(e) => updateCriterion(index, { maxScore: e.target.value })}
+                          required
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm((prev) => ({ ...prev, criteria: [...prev.criteria, emptyCriterion] }))}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add criterion
+                </Button>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsEditorOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingId ? 'Save changes' : 'Create rubric'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!rubricToDelete} onOpenChange={(open) => !open && setRubricToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {rubricToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {rubricToDelete?._count.projects} project(s) will fall back to the default rubric. Submitted
+              evaluations keep their recorded scores.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fromLocalInput, toLocalInput } from '../date-input';
+
+interface RulesForm {
+  maxGroupSize: string;
+  maxEvaluatorsPerProject: string;
+  maxProjectsPerAdvisor: string;
+  advisorRequestDeadline: string;
+  projectSubmissionDeadline: string;
+  gradeAggregation: string;
+  gradeDisagreementThreshold: string;
+  requiredDocumentCategories: string;
+}
+
+const AGGREGATION_METHODS = [
+  { value: 'MEAN', label: 'Mean' },
+  { value: 'WEIGHTED_MEAN', label: 'Weighted mean (by evaluator weight)' },
+  { value: 'TRIMMED_MEAN', label: 'Mean without highest and lowest score' },
+];
+
+export default function RulesTab() {
+  const [form, setForm] = useState<RulesForm | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/rules');
+      if (!response.ok) {
+        throw new Error('Failed to load rules');
+      }
+      const rules = await response.json();
+      setForm({
+        maxGroupSize: String(rules.maxGroupSize),
+        maxEvaluatorsPerProject: String(rules.maxEvaluatorsPerProject),
+        maxProjectsPerAdvisor: String(rules.maxProjectsPerAdvisor),
+        advisorRequestDeadline: toLocalInput(rules.advisorRequestDeadline),
+        projectSubmissionDeadline: toLocalInput(rules.projectSubmissionDeadline),
+        gradeAggregation: rules.gradeAggregation,
+        gradeDisagreementThreshold: String(rules.gradeDisagreementThreshold),
+        requiredDocumentCategories: rules.requiredDocumentCategories.join(', '),
+      });
+      setUpdatedAt(rules.updatedAt);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          maxGroupSize: Number(form.maxGroupSize),
+          maxEvaluatorsPerProject: Number(form.maxEvaluatorsPerProject),
+          maxProjectsPerAdvisor: Number(form.maxProjectsPerAdvisor),
+          advisorRequestDeadline: fromLocalInput(form.advisorRequestDeadline),
+          projectSubmissionDeadline: fromLocalInput(form.projectSubmissionDeadline),
+          gradeAggregation: form.gradeAggregation,
+          gradeDisagreementThreshold: Number(form.gradeDisagreementThreshold),
+          requiredDocumentCategories: form.requiredDocumentCategories.split(',').map((category) => category.trim()).filter(Boolean),
+        }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save rules');
+      }
+      setUpdatedAt(result.rules.updatedAt);
+      toast.success('Rules saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rules');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !form) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>System Rules</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSave}>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>System Rules</CardTitle>
+            <CardDescription>
+              Limits, deadlines and grading settings enforced across groups, advisors and submissions.
+              {updatedAt && ` Last updated ${new Date(updatedAt).toLocaleString()}.`}
+            </CardDescription>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={fetchRules}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reload
+          </Button>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="maxGroupSize">Maximum group size</Label>
+            <Input id="maxGroupSize" type="number" min={1} value={form.maxGroupSize} onChange={(e) => setForm({ ...form, maxGroupSize: e.target.value })} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="maxProjectsPerAdvisor">Projects per advisor</Label>
+            <Input id="maxProjectsPerAdvisor" type="number" min={1} value={form.maxProjectsPerAdvisor} onChange={(e) => setForm({ ...form, maxProjectsPerAdvisor: e.target.value })} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="maxEvaluatorsPerProject">Evaluators per project</Label>
+            <Input id="maxEvaluatorsPerProject" type="number" min={1} value={form.maxEvaluatorsPerProject} onChange={(e) => setForm({ ...form, maxEvaluatorsPerProject: e.target.value })} required />
+          </div>
+          <div className="space-y-1 sm:col-span-3 sm:grid sm:grid-cols-2 sm:gap-4 sm:space-y-0">
+            <div className="space-y-1">
+              <Label htmlFor="advisorRequestDeadline">Advisor request deadline</Label>
+              <Input id="advisorRequestDeadline" type="datetime-local" value={form.advisorRequestDeadline} onChange={(e) => setForm({ ...form, advisorRequestDeadline: e.target.value })} />
+              <p className="text-xs text-muted-foreground">Leave empty for no deadline.</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="projectSubmissionDeadline">Project submission deadline</Label>
+              <Input id="projectSubmissionDeadline" type="datetime-local" value={form.projectSubmissionDeadline} onChange={(e) => setForm({ ...form, projectSubmissionDeadline: e.target.value })} />
+              <p className="text-xs text-muted-foreground">Leave empty for no deadline.</p>
+            </div>
+          </div>
+          <div className="space-y-1 sm:col-span-3 sm:grid sm:grid-cols-2 sm:gap-4 sm:space-y-0">
+            <div className="space-y-1">
+              <Label>Final grade aggregation</Label>
+              <Select value={form.gradeAggregation} onValueChange={(value) => setForm({ ...form, gradeAggregation: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AGGREGATION_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Changing this recomputes every final grade.</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="gradeDisagreementThreshold">Disagreement threshold (points)</Label>
+              <Input id="gradeDisagreementThreshold" type="number" min={0} max={100} step="any" value={form.gradeDisagreementThreshold} onChange={(e) => setForm({ ...form, gradeDisagreementThreshold: e.target.value })} required />
+              <p className="text-xs text-muted-foreground">Flag projects whose evaluator scores differ by more than this.</p>
+            </div>
+          </div>
+          <div className="space-y-1 sm:col-span-3">
+            <Label htmlFor="requiredDocumentCategories">Documents required for submission</Label>
+            <Input id="requiredDocumentCategories" placeholder="proposal, report" value={form.requiredDocumentCategories} onChange={(e) => setForm({ ...form, requiredDocumentCategories: e.target.value })} />
+            <p className="text-xs text-muted-foreground">Comma-separated document categories every project must upload before it can be submitted.</p>
+          </div>
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save Rules
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
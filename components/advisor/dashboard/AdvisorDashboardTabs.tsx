@@ -9,6 +9,7 @@ import AdvisorDashboard from './AdvisorDashboard';
 import ProjectsTab from './tabs/ProjectsTab';
 import ActivitiesTab from './tabs/ActivitiesTab';
 import RequestsTab from './tabs/RequestsTab';
+import AnnouncementBanner from '@/components/announcements/announcement-banner';
 import { toast } from "sonner";
 
 // Consistent Type Definitions
@@ -247,6 +248,7 @@ export default function AdvisorDashboardTabs() {
 
   return (
     <AdvisorLayout unreadNotifications={dashboardData?.unreadNotificationsCount || 0}>
+      <AnnouncementBanner className="mb-6" />
       <Tabs
         defaultValue={activeTab}
         value={activeTab}
@@ -1,6 +1,7 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
 import { Bell } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -10,66 +11,86 @@ import {
 } from '@/components/ui/popover';
 import { Spinner } from '@/components/ui/spinner';
 import { cn } from '@/lib/utils';
+import { useNotificationStream } from '@/lib/hooks/use-notification-stream';
 
 interface Notification {
   id: string;
   message: string;
   read: boolean;
   createdAt: string;
-  link?: string;
+  link?: string | null;
 }
 
+const RECENT_NOTIFICATION_LIMIT = 20;
+
 interface NotificationsPopoverProps {
   count?: number;
 }
 
 export default function NotificationsPopover({ count = 0 }: NotificationsPopoverProps) {
+  const { data: session } = useSession();
+  const userId = session?.user?.userId;
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
 
-  useEffect(() => {
-    if (open) {
-      fetchNotifications();
-    }
-  }, [open]);
+  // Live updates; the count prop is only used until the stream reports in
+  const { unreadCount, setUnreadCount } = useNotificationStream(userId, {
+    onNotification: (notification) => {
+      setNotifications(prev =>
+        prev.some(n => n.id === notification.id)
+          ? prev
+          : [notification, ...prev].slice(0, RECENT_NOTIFICATION_LIMIT)
+      );
+    },
+    onRead: (ids) => {
+      setNotifications(prev => prev.map(n => (ids.includes(n.id) ? { ...n, read: true } : n)));
+    },
+  });
+  const badgeCount = unreadCount ?? count;
 
-  const fetchNotifications = async () => {
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
     setLoading(true);
     try {
-      const response = await fetch('/api/notifications/recent');
+      const response = await fetch(`/api/users/${userId}/notifications`);
       const data = await response.json();
       if (data.notifications) {
-        setNotifications(data.notifications);
+        setNotifications(data.notifications.slice(0, RECENT_NOTIFICATION_LIMIT));
       }
     } catch (error) {
       console.error('Error fetching notifications:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [userId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchNotifications();
+    }
+  }, [open, fetchNotifications]);
 
   const markAsRead = async (notificationId?: string) => {
+    if (!userId) return;
+    const notificationIds = notificationId
+      ? [notificationId]
+      : notifications.filter(n => !n.read).map(n => n.id);
+
     try {
-      const response = await fetch('/api/notifications/mark-read', {
-        method: 'POST',
+      const response = await fetch(`/api/users/${userId}/notifications`, {
+        method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          notificationId,
-          markAll: !notificationId,
-        }),
+        body: JSON.stringify({ notificationIds }),
       });
       
       if (response.ok) {
-        if (notificationId) {
-          setNotifications(notifications.map(n => 
-            n.id === notificationId ? { ...n, read: true } : n
-          ));
-        } else {
-          setNotifications(notifications.map(n => ({ ...n, read: true })));
-        }
+        setNotifications(notifications.map(n =>
+          notificationIds.includes(n.id) ? { ...n, read: true } : n
+        ));
+        setUnreadCount(current => Math.max((current ?? count) - notificationIds.length, 0));
       }
     } catch (error) {
       console.error('Error marking notification as read:', error);
@@ -81,9 +102,9 @@ export default function NotificationsPopover({ count = 0 }: NotificationsPopover
       <PopoverTrigger asChild>
         <Button variant="ghost" size="icon" className="relative">
           <Bell size={20} />
-          {count > 0 && (
+          {badgeCount > 0 && (
             <span className="absolute top-0 right-0 w-4 h-4 bg-red-500 text-white rounded-full text-xs flex items-center justify-center">
-              {count > 9 ? '9+' : count}
+              {badgeCount > 9 ? '9+' : badgeCount}
             </span>
           )}
         </Button>
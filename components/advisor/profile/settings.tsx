@@ -6,8 +6,9 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { Settings, Save, Loader2, Lock, Mail, Building, Clock, Briefcase } from "lucide-react";
+import { Settings, Save, Loader2, Lock, Mail, Building, Clock, Briefcase, KeyRound } from "lucide-react";
 import { toast } from "sonner";
+import ChangePasswordForm from "@/components/user/change-password-form";
 
 interface SettingsProps {
   userId: string;
@@ -103,123 +104,138 @@ export default function AdvisorSettings({ userId, isOwner, initialData }: Settin
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Settings className="h-5 w-5 text-primary" />
-          Profile Settings
-        </CardTitle>
-        <CardDescription>Manage your advisor profile information and preferences</CardDescription>
-      </CardHeader>
-      <form onSubmit={handleSubmit}>
-        <CardContent className="space-y-6">
-          {/* Personal Information Section */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium">Personal Information</h3>
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="space-y-2">
-                <Label htmlFor="firstName">First Name</Label>
-                <Input
-                  id="firstName"
-                  name="firstName"
-                  value={formData.firstName}
-                  onChange={handleInputChange}
-                  required
-                />
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Settings className="h-5 w-5 text-primary" />
+            Profile Settings
+          </CardTitle>
+          <CardDescription>Manage your advisor profile information and preferences</CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-6">
+            {/* Personal Information Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Personal Information</h3>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="firstName">First Name</Label>
+                  <Input
+                    id="firstName"
+                    name="firstName"
+                    value={formData.firstName}
+                    onChange={handleInputChange}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lastName">Last Name</Label>
+                  <Input
+                    id="lastName"
+                    name="lastName"
+                    value={formData.lastName}
+                    onChange={handleInputChange}
+                    required
+                  />
+                </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="lastName">Last Name</Label>
+                <Label htmlFor="email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4 text-muted-foreground" /> Email Address
+                </Label>
                 <Input
-                  id="lastName"
-                  name="lastName"
-                  value={formData.lastName}
+                  id="email"
+                  name="email"
+                  type="email"
+                  value={formData.email}
                   onChange={handleInputChange}
                   required
                 />
               </div>
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="email" className="flex items-center gap-2">
-                <Mail className="h-4 w-4 text-muted-foreground" /> Email Address
-              </Label>
-              <Input
-                id="email"
-                name="email"
-                type="email"
-                value={formData.email}
-                onChange={handleInputChange}
-                required
-              />
-            </div>
-          </div>
 
-          <Separator />
-
-          {/* Professional Information Section */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium">Professional Information</h3>
-            <div className="space-y-2">
-              <Label htmlFor="department" className="flex items-center gap-2">
-                <Building className="h-4 w-4 text-muted-foreground" /> Department
-              </Label>
-              <Input
-                id="department"
-                name="department"
-                value={formData.department}
-                onChange={handleInputChange}
-              />
-            </div>
+            <Separator />
 
-            <div className="space-y-2">
-              <Label htmlFor="specialization" className="flex items-center gap-2">
-                <Briefcase className="h-4 w-4 text-muted-foreground" /> Specialization
-              </Label>
-              <Input
-                id="specialization"
-                name="specialization"
-                value={formData.specialization}
-                onChange={handleInputChange}
-              />
-            </div>
-
-            <div className="grid gap-4 md:grid-cols-2">
+            {/* Professional Information Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Professional Information</h3>
               <div className="space-y-2">
-                <Label htmlFor="officeNumber" className="flex items-center gap-2">
-                  <Building className="h-4 w-4 text-muted-foreground" /> Office Number
+                <Label htmlFor="department" className="flex items-center gap-2">
+                  <Building className="h-4 w-4 text-muted-foreground" /> Department
                 </Label>
                 <Input
-                  id="officeNumber"
-                  name="officeNumber"
-                  value={formData.officeNumber}
+                  id="department"
+                  name="department"
+                  value={formData.department}
                   onChange={handleInputChange}
                 />
               </div>
+
               <div className="space-y-2">
-                <Label htmlFor="officeHours" className="flex items-center gap-2">
-                  <Clock className="h-4 w-4 text-muted-foreground" /> Office Hours
+                <Label htmlFor="specialization" className="flex items-center gap-2">
+                  <Briefcase className="h-4 w-4 text-muted-foreground" /> Specialization
                 </Label>
                 <Input
-                  id="officeHours"
-                  name="officeHours"
-                  value={formData.officeHours}
+                  id="specialization"
+                  name="specialization"
+                  value={formData.specialization}
                   onChange={handleInputChange}
-                  placeholder="e.g., Mon, Wed 2-4pm"
                 />
               </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="officeNumber" className="flex items-center gap-2">
+                    <Building className="h-4 w-4 text-muted-foreground" /> Office Number
+                  </Label>
+                  <Input
+                    id="officeNumber"
+                    name="officeNumber"
+                    value={formData.officeNumber}
+                    onChange={handleInputChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="officeHours" className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground" /> Office Hours
+                  </Label>
+                  <Input
+                    id="officeHours"
+                    name="officeHours"
+                    value={formData.officeHours}
+                    onChange={handleInputChange}
+                    placeholder="e.g., Mon, Wed 2-4pm"
+                  />
+                </div>
+              </div>
             </div>
-          </div>
+          </CardContent>
+          <CardFooter className="border-t pt-6">
+            <Button type="submit" disabled={isLoading} className="ml-auto">
+              {isLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Changes
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            Password
+          </CardTitle>
+          <CardDescription>Change the password you sign in with</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChangePasswordForm />
         </CardContent>
-        <CardFooter className="border-t pt-6">
-          <Button type="submit" disabled={isLoading} className="ml-auto">
-            {isLoading ? (
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            ) : (
-              <Save className="mr-2 h-4 w-4" />
-            )}
-            Save Changes
-          </Button>
-        </CardFooter>
-      </form>
-    </Card>
+      </Card>
+    </div>
   );
 } 
\ No newline at end of file
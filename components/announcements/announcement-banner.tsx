@@ -0,0 +1,119 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { MegaphoneIcon, XIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+export interface FeedAnnouncement {
+  id: string
+  title: string
+  content: string
+  priority: number
+  active: boolean
+  expiresAt: string | null
+  createdAt: string
+  dismissed: boolean
+  expired: boolean
+  creator: {
+    firstName: string
+    lastName: string
+  }
+}
+
+interface AnnouncementBannerProps {
+  /** Maximum number of announcements shown at once */
+  limit?: number
+  className?: string
+}
+
+export const getPriorityClasses = (priority: number) => {
+  if (priority > 2) return "border-l-red-600 bg-red-50 dark:bg-red-900/20"
+  if (priority > 1) return "border-l-orange-500 bg-orange-50 dark:bg-orange-900/20"
+  if (priority > 0) return "border-l-blue-400 bg-blue-50 dark:bg-blue-900/20"
+  return "border-l-muted-foreground/40 bg-muted/40"
+}
+
+/**
+ * Dismissible strip of the announcements targeted at the signed-in user's role.
+ * Renders nothing when the feed is empty.
+ */
+export default function AnnouncementBanner({ limit = 3, className }: AnnouncementBannerProps) {
+  const [announcements, setAnnouncements] = useState<FeedAnnouncement[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchAnnouncements = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/announcements?limit=${limit}`)
+      if (!response.ok) return
+      const data = await response.json()
+      setAnnouncements(data.announcements)
+    } catch (error) {
+      console.error("Error fetching announcements:", error)
+    }
+  }, [limit])
+
+  useEffect(() => {
+    fetchAnnouncements()
+  }, [fetchAnnouncements])
+
+  const dismiss = async (id: string) => {
+    // Optimistically hide the announcement; the next fetch restores it if the request failed
+    setAnnouncements((prev) => prev.filter((a) => a.id !== id))
+    try {
+      await fetch(`/api/announcements/${id}/dismiss`, { method: "POST" })
+    } catch (error) {
+      console.error("Error dismissing announcement:", error)
+      fetchAnnouncements()
+    }
+  }
+
+  if (announcements.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {announcements.map((announcement) => (
+        <div
+          key={announcement.id}
+          className={cn("border border-l-4 rounded-md p-3", getPriorityClasses(announcement.priority))}
+        >
+          <div className="flex items-start gap-3">
+            <MegaphoneIcon className="h-5 w-5 mt-0.5 flex-shrink-0 text-muted-foreground" />
+            <div
+              className="flex-1 min-w-0 cursor-pointer"
+              onClick={() => setExpandedId(expandedId === announcement.id ? null : announcement.id)}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="font-medium text-sm">{announcement.title}</h3>
+                {announcement.priority > 1 && (
+                  <Badge variant="destructive">Important</Badge>
+                )}
+              </div>
+              <p className={cn("text-sm text-muted-foreground mt-1 whitespace-pre-line", expandedId !== announcement.id && "line-clamp-1")}>
+                {announcement.content}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 flex-shrink-0"
+              onClick={() => dismiss(announcement.id)}
+              aria-label="Dismiss announcement"
+            >
+              <XIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="text-right">
+        <Link href="/announcements" className="text-xs text-muted-foreground hover:underline">
+          View all announcements →
+        </Link>
+      </div>
+    </div>
+  )
+}
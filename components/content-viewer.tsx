@@ -1,6 +1,6 @@
 "use client";
 
-import ShikiHighlighter from "react-shiki";
+import ShikiHighlighter, { type ShikiHighlighterProps } from "react-shiki";
 import { useTheme } from "next-themes";
 import { useEffect, useState } from "react";
 
@@ -68,22 +68,27 @@ const useThemeDetector = () => {
   return isDarkTheme;
 };
 
-const TextViewer: React.FC<ContentProp> = ({ file, url }) => {
-  const fileExtension = file.name.split(".").pop()?.toLowerCase() || "";
+interface CodeHighlighterProps {
+  language: string;
+  children: string;
+  className?: string;
+  transformers?: ShikiHighlighterProps["transformers"];
+}
+
+// Shiki highlighting that follows the site theme; shared with the commit diff view
+export const CodeHighlighter: React.FC<CodeHighlighterProps> = ({
+  language,
+  children,
+  className = "text-sm",
+  transformers,
+}) => {
   const { theme } = useTheme();
   const isDarkTheme = useThemeDetector();
 
-  if (fileExtension === "svg") {
-    return <img src={url} alt={file.name} />;
-  }
-
-  // Use file.content if available (for text files), otherwise fetch content (not implemented here)
-  const content = file.content || "";
-
   return (
     <ShikiHighlighter
-      language={fileExtension}
-      className="text-sm"
+      language={language}
+      className={className}
       theme={
         theme === "system"
           ? isDarkTheme
@@ -93,12 +98,26 @@ const TextViewer: React.FC<ContentProp> = ({ file, url }) => {
       }
       defaultColor="#000000"
       cssVariablePrefix="shiki"
+      transformers={transformers}
     >
-      {content}
+      {children}
     </ShikiHighlighter>
   );
 };
 
+const TextViewer: React.FC<ContentProp> = ({ file, url }) => {
+  const fileExtension = file.name.split(".").pop()?.toLowerCase() || "";
+
+  if (fileExtension === "svg") {
+    return <img src={url} alt={file.name} />;
+  }
+
+  // Use file.content if available (for text files), otherwise fetch content (not implemented here)
+  const content = file.content || "";
+
+  return <CodeHighlighter language={fileExtension}>{content}</CodeHighlighter>;
+};
+
 const ContentViewer: React.FC<ContentProp> = ({ file, url }) => {
   return file.isBinary ? (
     <BinaryViewer file={file} url={url} />
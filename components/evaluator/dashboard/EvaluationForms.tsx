@@ -19,18 +19,14 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Spinner } from '@/components/ui/spinner';
 import { toast } from 'sonner';
+import { previewWeightedScore, RubricFormCriterion } from './rubric-score';
 
 interface EvaluationForm {
   id: string;
   title: string;
   description: string;
-  deadline: Date;
-  criteria: {
-    id: string;
-    name: string;
-    weight: number;
-    description: string;
-  }[];
+  deadline: Date | null;
+  criteria: RubricFormCriterion[];
   status: 'draft' | 'published' | 'completed';
   completionPercentage?: number;
 }
@@ -42,11 +38,9 @@ export default function EvaluationForms() {
   const [activeFormTab, setActiveFormTab] = useState('published');
   const [refreshing, setRefreshing] = useState(false);
 
-  const [editingCriteria, setEditingCriteria] = useState({
-    id: '',
-    score: 0,
-    comments: '',
-  });
+  const [criterionScores, setCriterionScores] = useState<Record<string, number>>({});
+  const [criterionComments, setCriterionComments] = useState<Record<string, string>>({});
+  const [overallComments, setOverallComments] = useState('');
 
   useEffect(() => {
     fetchEvaluationForms();
@@ -67,7 +61,7 @@ export default function EvaluationForms() {
       // Transform the dates in the response
       const transformedForms = data.map((form: any) => ({
         ...form,
-        deadline: new Date(form.deadline),
+        deadline: form.deadline ? new Date(form.deadline) : null,
       }));
       
       setForms(transformedForms);
@@ -92,7 +86,8 @@ export default function EvaluationForms() {
       });
       
       if (!response.ok) {
-        throw new Error(`Failed to submit evaluation: ${response.statusText}`);
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to submit evaluation: ${response.statusText}`);
       }
       
       toast.success('Evaluation submitted successfully');
@@ -123,17 +118,26 @@ export default function EvaluationForms() {
     return true;
   });
 
-  const handleSubmitEvaluation = (formId: string) => {
-    // Prepare form data - this would be replaced with actual form values
+  const resetFormState = () => {
+    setCriterionScores({});
+    setCriterionComments({});
+    setOverallComments('');
+  };
+
+  const handleSubmitEvaluation = (form: EvaluationForm) => {
+    // Criteria left untouched are left out, so the server reports them as missing
     const formData = {
-      criteria: [
-        { id: 'crit-1', score: 8, comments: 'Good implementation' },
-        // Add more criteria evaluations as needed
-      ],
-      overallComments: 'Project shows strong technical implementation.'
+      criteria: form.criteria
+        .filter((criterion) => criterionScores[criterion.id] !== undefined)
+        .map((criterion) => ({
+          criterionId: criterion.id,
+          score: criterionScores[criterion.id],
+          comment: criterionComments[criterion.id]?.trim() || undefined,
+        })),
+      comments: overallComments,
     };
     
-    submitEvaluationForm(formId, formData);
+    submitEvaluationForm(form.id, formData);
   };
 
   if (loading) {
@@ -201,7 +205,7 @@ export default function EvaluationForms() {
                       <div className="flex flex-wrap gap-4 text-sm">
                         <div className="flex items-center">
                           <Calendar className="h-4 w-4 mr-1 text-gray-500" />
-                          <span>Deadline: {form.deadline.toLocaleDateString()}</span>
+                          <span>Deadline: {form.deadline ? form.deadline.toLocaleDateString() : 'None'}</span>
                         </div>
                         <div className="flex items-center">
                           <FileText className="h-4 w-4 mr-1 text-gray-500" />
@@ -222,7 +226,7 @@ export default function EvaluationForms() {
                     
                     <div className="flex flex-row md:flex-col justify-end p-4 bg-gray-50 border-t md:border-t-0 md:border-l">
                       {form.status === 'published' && (
-                        <Dialog>
+                        <Dialog onOpenChange={(open) => open && resetFormState()}>
                           <DialogTrigger asChild>
                             <Button variant="default" className="mb-2 w-full">
                               <Edit className="h-4 w-4 mr-2" />
@@ -244,7 +248,7 @@ export default function EvaluationForms() {
                                       <p className="text-xs text-gray-400">Weight: {criterion.weight}%</p>
                                     </div>
                                     <span className="bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs">
-                                      Score: {editingCriteria.id === criterion.id ? editingCriteria.score : 0}/10
+                                      Score: {criterionScores[criterion.id] ?? '–'}/{criterion.maxScore}
                                     </span>
                                   </div>
                                   
@@ -256,16 +260,18 @@ export default function EvaluationForms() {
                                       </div>
                                       <Input 
                                         type="range"
-                                        min="0"
-                                        max="10"
+                                        min={criterion.minScore}
+                                        max={criterion.maxScore}
                                         step="1"
-                                        defaultValue="0"
+                                        value={criterionScores[criterion.id] ?? criterion.minScore}
                                         onChange={(e) => {
-                                          setEditingCriteria({
-                                            id: criterion.id,
-                                            score: parseInt(e.target.value),
-                                            comments: editingCriteria.comments,
-                                          });
+                                          const score = Number(e.target.value);
+                                          setCriterionScores((prev) => ({ ...prev, [criterion.id]: score }));
+                                        }}
+                                        // Clicking the untouched slider at its minimum scores it too
+                                        onClick={(e) => {
+                                          const score = Number(e.currentTarget.value);
+                                          setCriterionScores((prev) => ({ ...prev, [criterion.id]: score }));
                                         }}
                                         className="w-full"
                                       />
@@ -279,12 +285,10 @@ export default function EvaluationForms() {
                                         id={`comments-${criterion.id}`}
                                         placeholder="Provide specific feedback on this criterion"
                                         className="mt-1"
+                                        value={criterionComments[criterion.id] ?? ''}
                                         onChange={(e) => {
-                                          setEditingCriteria({
-                                            id: criterion.id,
-                                            score: editingCriteria.score,
-                                            comments: e.target.value,
-                                          });
+                                          const comment = e.target.value;
+                                          setCriterionComments((prev) => ({ ...prev, [criterion.id]: comment }));
                                         }}
                                       />
                                     </div>
@@ -300,14 +304,20 @@ export default function EvaluationForms() {
                                   id="overall-comments"
                                   placeholder="Provide overall feedback on the project"
                                   className="mt-1"
+                                  value={overallComments}
+                                  onChange={(e) => setOverallComments(e.target.value)}
                                 />
                               </div>
+
+                              <p className="text-sm font-medium text-right">
+                                Weighted score: {previewWeightedScore(form.criteria, criterionScores) ?? '–'} / 100
+                              </p>
                             </div>
                             <div className="flex justify-end space-x-2">
                               <Button variant="outline">Save Draft</Button>
                               <Button 
                                 type="submit" 
-                                onClick={() => handleSubmitEvaluation(form.id)}
+                                onClick={() => handleSubmitEvaluation(form)}
                               >
                                 Submit Evaluation
                               </Button>
@@ -28,20 +28,11 @@ import { Skeleton } from "@/components/ui/skeleton"; // Added Skeleton
 import { Spinner } from '@/components/ui/spinner';
 import { toast } from 'sonner';
 import EvaluatorLayout from './EvaluatorLayout';
-import OverviewTab from './tabs/OverviewTab';
+import OverviewTab, { EvaluatorFinalGrade } from './tabs/OverviewTab';
 import CompletedTab from './tabs/CompletedTab';
 import ProjectsTab from './tabs/ProjectsTab';
 
-// Interface for Overview data (Announcements, new Stats)
-interface Announcement {
-  id: string;
-  title: string;
-  content: string;
-  date: string;
-  link?: string;
-  type?: 'info' | 'warning' | 'success' | 'urgent';
-}
-
+// Interface for Overview data (Stats)
 interface EvaluatorOverviewStats {
   totalAssigned: number;
   inProgress: number; // Placeholder, to be implemented
@@ -52,8 +43,8 @@ interface EvaluatorOverviewStats {
 
 interface EvaluatorDashboardData {
   evaluatorName: string | null;
-  announcements: Announcement[];
   stats: EvaluatorOverviewStats;
+  finalGrades: EvaluatorFinalGrade[];
   unreadNotificationsCount: number;
   // Potentially add data for other tabs here if fetched together
 }
@@ -205,8 +196,8 @@ export default function EvaluatorDashboard(/*props: EvaluatorDashboardProps*/) {
           {dashboardData ? (
             <OverviewTab 
               evaluatorName={dashboardData.evaluatorName}
-              announcements={dashboardData.announcements} 
               stats={dashboardData.stats}
+              finalGrades={dashboardData.finalGrades}
               onRefresh={handleRefreshOverview} // Pass the specific refresh handler
               isRefreshing={isOverviewRefreshing} // Pass the specific refreshing state
               // Pass error related to this specific tab if needed, or rely on global error for now
@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, FileText, GitBranch, GitCommit, History, Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+
+interface SnapshotBranch {
+  id: string;
+  repositoryName: string;
+  repositoryGroup: string;
+  branchName: string;
+  commit: { id: string; message: string; timestamp: string };
+}
+
+interface SnapshotDocument {
+  id: string;
+  title: string;
+  category: string;
+  url: string;
+  size: number | null;
+}
+
+interface Snapshot {
+  id: string;
+  createdAt: string;
+  statusChange: { actor: { firstName: string; lastName: string } };
+  branches: SnapshotBranch[];
+  documents: SnapshotDocument[];
+}
+
+interface BranchDifference {
+  repositoryName: string;
+  repositoryGroup: string;
+  branchName: string;
+  state: 'unchanged' | 'ahead' | 'rewritten' | 'deleted' | 'added';
+  commitCount: number;
+  commits: { id: string; message: string; timestamp: string }[];
+  files: { filePath: string; changeType: 'ADDED' | 'MODIFIED' | 'DELETED' }[];
+}
+
+interface DocumentDifference {
+  documentId: string | null;
+  title: string;
+  state: 'added' | 'deleted' | 'modified';
+}
+
+interface SnapshotResponse {
+  snapshot: Snapshot | null;
+  changes: { branches: BranchDifference[]; documents: DocumentDifference[] } | null;
+}
+
+type SnapshotView = 'submitted' | 'changes';
+
+const BRANCH_STATE_LABELS: Record<BranchDifference['state'], string> = {
+  unchanged: 'Unchanged',
+  ahead: 'New commits',
+  rewritten: 'History rewritten',
+  deleted: 'Branch deleted',
+  added: 'New branch',
+};
+
+const CHANGE_TYPE_MARKERS: Record<BranchDifference['files'][number]['changeType'], string> = {
+  ADDED: 'A',
+  MODIFIED: 'M',
+  DELETED: 'D',
+};
+
+interface SubmissionSnapshotProps {
+  groupUserName: string;
+  projectId: string;
+}
+
+export default function SubmissionSnapshot({ groupUserName, projectId }: SubmissionSnapshotProps) {
+  const [data, setData] = useState<SnapshotResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<SnapshotView>('submitted');
+
+  useEffect(() => {
+    const fetchSnapshot = async () => {
+      try {
+        const response = await fetch(`/api/groups/${groupUserName}/projects/${projectId}/snapshot`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to load the submission');
+        }
+        setData(result);
+      } catch (err) {
+        console.error('Error fetching submission snapshot:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the submission');
+      }
+    };
+
+    fetchSnapshot();
+  }, [groupUserName, projectId]);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center py-2 text-sm text-muted-foreground">
+        <Spinner className="mr-2 h-4 w-4" /> Loading submission...
+      </div>
+    );
+  }
+
+  const { snapshot, changes } = data;
+  if (!snapshot || !changes) {
+    return <p className="text-sm text-muted-foreground">This project has no submission snapshot yet.</p>;
+  }
+
+  const changedBranches = changes.branches.filter((branch) => branch.state !== 'unchanged');
+  const changeCount = changedBranches.length + changes.documents.length;
+
+  return (
+    <div className="rounded-md border bg-background p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-sm">
+          <Lock className="h-4 w-4 text-muted-foreground" />
+          Submitted {format(new Date(snapshot.createdAt), 'MMM d, yyyy HH:mm')} by{' '}
+          {snapshot.statusChange.actor.firstName} {snapshot.statusChange.actor.lastName}
+        </p>
+        <div className="flex gap-1">
+          <Button size="sm" variant={view === 'submitted' ? 'secondary' : 'ghost'} onClick={() => setView('submitted')}>
+            Submitted version
+          </Button>
+          <Button size="sm" variant={view === 'changes' ? 'secondary' : 'ghost'} onClick={() => setView('changes')}>
+            <History className="mr-1 h-4 w-4" />
+            Changes since
+            <Badge variant={changeCount > 0 ? 'destructive' : 'outline'} className="ml-1.5 text-xs">{changeCount}</Badge>
+          </Button>
+        </div>
+      </div>
+
+      {view === 'submitted' ? (
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Repositories</p>
+            {snapshot.branches.length === 0 && <p className="text-sm text-muted-foreground">No linked repositories.</p>}
+            {snapshot.branches.map((branch) => (
+              <div key={branch.id} className="flex items-start justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="flex items-center gap-1 font-medium">
+                    <GitBranch className="h-3.5 w-3.5" />
+                    {branch.repositoryName}:{branch.branchName}
+                  </p>
+                  <a
+                    href={`/${branch.repositoryGroup}/${branch.repositoryName}/commit/${branch.commit.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block truncate text-xs text-muted-foreground hover:underline"
+                  >
+                    <span className="font-mono">{branch.commit.id.slice(0, 7)}</span> {branch.commit.message.split('\n')[0]}
+                  </a>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" asChild>
+                  <a
+                    href={`/api/repositories/${branch.repositoryGroup}/${branch.repositoryName}/archive?ref=${branch.commit.id}&format=zip`}
+                    title="Download the submitted files"
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Documents</p>
+            {snapshot.documents.length === 0 && <p className="text-sm text-muted-foreground">No documents.</p>}
+            {snapshot.documents.map((document) => (
+              <a
+                key={document.id}
+                href={document.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1.5 text-sm hover:underline"
+              >
+                <FileText className="h-3.5 w-3.5 shrink-0" />
+                <span className="truncate">{document.title}</span>
+                <Badge variant="outline" className="text-xs">{document.category}</Badge>
+              </a>
+            ))}
+          </div>
+        </div>
+      ) : changeCount === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing changed since the project was submitted.</p>
+      ) : (
+        <div className="space-y-3">
+          {changedBranches.map((branch) => (
+            <div key={`${branch.repositoryName}:${branch.branchName}`} className="space-y-1 text-sm">
+              <p className="flex items-center gap-1.5 font-medium">
+                <GitBranch className="h-3.5 w-3.5" />
+                {branch.repositoryName}:{branch.branchName}
+                <Badge variant="secondary" className="text-xs">{BRANCH_STATE_LABELS[branch.state]}</Badge>
+                {branch.commitCount > 0 && (
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {branch.commitCount} commit{branch.commitCount === 1 ? '' : 's'} since submission
+                  </span>
+                )}
+              </p>
+              {branch.commits.map((commit) => (
+                <a
+                  key={commit.id}
+                  href={`/${branch.repositoryGroup}/${branch.repositoryName}/commit/${commit.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1.5 pl-5 text-xs text-muted-foreground hover:underline"
+                >
+                  <GitCommit className="h-3 w-3 shrink-0" />
+                  <span className="font-mono">{commit.id.slice(0, 7)}</span>
+                  <span className="truncate">{commit.message.split('\n')[0]}</span>
+                </a>
+              ))}
+              {branch.files.length > 0 && (
+                <ul className="pl-5 font-mono text-xs">
+                  {branch.files.map((file) => (
+                    <li key={file.filePath}>
+                      <span className="inline-block w-4 text-muted-foreground">{CHANGE_TYPE_MARKERS[file.changeType]}</span>
+                      {file.filePath}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          {changes.documents.length > 0 && (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">Documents</p>
+              {changes.documents.map((document, index) => (
+                <p key={document.documentId ?? `deleted-${index}`} className="flex items-center gap-1.5 pl-5 text-xs">
+                  <FileText className="h-3 w-3" />
+                  {document.title}
+                  <span className="text-muted-foreground">{document.state}</span>
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
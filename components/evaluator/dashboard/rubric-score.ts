@@ -0,0 +1,26 @@
+export interface RubricFormCriterion {
+  id: string;
+  name: string;
+  description?: string | null;
+  weight: number;
+  minScore: number;
+  maxScore: number;
+}
+
+/**
+ * Mirrors the server-side weighted total (0-100) so evaluators can preview the final score.
+ * The server only scores a submission once every criterion is scored, so until then there
+ * is no total and this returns null.
+ */
+export function previewWeightedScore(criteria: RubricFormCriterion[], scores: Record<string, number>) {
+  if (criteria.some((criterion) => scores[criterion.id] === undefined)) {
+    return null;
+  }
+
+  const total = criteria.reduce(
+    (sum, criterion) =>
+      sum + (criterion.weight * (scores[criterion.id] - criterion.minScore)) / (criterion.maxScore - criterion.minScore),
+    0
+  );
+  return Math.round(total * 100) / 100;
+}
@@ -4,35 +4,22 @@ import React from 'react';
 import {
   Card, 
   CardContent, 
-  CardDescription, 
+  CardDescription,
   CardHeader, 
   CardTitle
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import AnnouncementBanner from '@/components/announcements/announcement-banner';
 import { 
-  Lightbulb, 
-  Megaphone, 
-  Zap, 
   CheckCircle, 
-  AlertTriangle, 
-  Info, 
   RefreshCw, 
   ClipboardList, // For Total Assigned
   Clock,         // For In Progress
+  AlertTriangle, // For grade disagreements
   // MessageSquare  // Removed as Pending Feedback card is removed
 } from 'lucide-react';
 
-interface Announcement {
-  id: string;
-  title: string;
-  content: string;
-  date: string;
-  link?: string;
-  type?: 'info' | 'warning' | 'success' | 'urgent';
-}
-
 interface EvaluatorOverviewStats {
   totalAssigned: number;
   inProgress: number;
@@ -41,29 +28,32 @@ interface EvaluatorOverviewStats {
   averageEvaluationTime: string; 
 }
 
+export interface EvaluatorFinalGrade {
+  projectId: string;
+  projectTitle: string;
+  score: number;
+  method: 'MEAN' | 'WEIGHTED_MEAN' | 'TRIMMED_MEAN';
+  evaluationCount: number;
+  lowestScore: number;
+  highestScore: number;
+  disagreement: boolean;
+}
+
+const AGGREGATION_LABELS: Record<EvaluatorFinalGrade['method'], string> = {
+  MEAN: 'Mean',
+  WEIGHTED_MEAN: 'Weighted mean',
+  TRIMMED_MEAN: 'Trimmed mean',
+};
+
 interface OverviewTabProps {
   evaluatorName: string | null;
-  announcements: Announcement[];
   stats: EvaluatorOverviewStats;
+  finalGrades: EvaluatorFinalGrade[];
   onRefresh: () => Promise<void>;
   isRefreshing: boolean;
 }
 
-const AnnouncementIcon = ({ type }: { type?: Announcement['type'] }) => {
-  switch (type) {
-    case 'urgent':
-      return <Zap className="h-5 w-5 text-red-500 mr-3 flex-shrink-0" />;
-    case 'warning':
-      return <AlertTriangle className="h-5 w-5 text-yellow-500 mr-3 flex-shrink-0" />;
-    case 'success':
-      return <CheckCircle className="h-5 w-5 text-green-500 mr-3 flex-shrink-0" />;
-    case 'info':
-    default:
-      return <Info className="h-5 w-5 text-blue-500 mr-3 flex-shrink-0" />;
-  }
-};
-
-export default function OverviewTab({ evaluatorName, announcements, stats, onRefresh, isRefreshing }: OverviewTabProps) {
+export default function OverviewTab({ evaluatorName, stats, finalGrades, onRefresh, isRefreshing }: OverviewTabProps) {
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
@@ -86,46 +76,7 @@ export default function OverviewTab({ evaluatorName, announcements, stats, onRef
         </Button>
       </div>
 
-      <div className="grid grid-cols-1 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">Announcements</CardTitle>
-            <CardDescription>Latest updates and important information for evaluators.</CardDescription>
-          </CardHeader>
-          <CardContent>
-            {announcements && announcements.length > 0 ? (
-              <ScrollArea className="max-h-96 pr-3">
-                <div className="space-y-4">
-                  {announcements.map((announcement) => (
-                    <div key={announcement.id} className="p-4 border bg-muted/30 rounded-lg flex items-start hover:shadow-sm transition-shadow">
-                      <AnnouncementIcon type={announcement.type} />
-                      <div className="w-full">
-                        <div className="flex justify-between items-start mb-1">
-                            <h3 className="font-semibold text-md">{announcement.title}</h3>
-                            <span className="text-xs text-muted-foreground whitespace-nowrap">{new Date(announcement.date).toLocaleDateString()}</span>
-                        </div>
-                        <p className="text-sm text-muted-foreground mb-2 leading-relaxed">{announcement.content}</p>
-                        {announcement.link && (
-                          <Button variant="link" size="sm" asChild className="p-0 h-auto text-primary hover:underline">
-                            <a href={announcement.link} target="_blank" rel="noopener noreferrer">
-                              Read More &rarr;
-                            </a>
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </ScrollArea>
-            ) : (
-              <div className="text-center py-10">
-                <Megaphone className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No announcements at this time.</p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+      <AnnouncementBanner limit={5} />
 
       {/* Stats Cards - Adjusted grid and removed Pending Feedback */}
       <div className="grid gap-4 md:grid-cols-1 lg:grid-cols-3"> {/* Adjusted to lg:grid-cols-3 */}
@@ -161,6 +112,40 @@ export default function OverviewTab({ evaluatorName, announcements, stats, onRef
         </Card>
         {/* Removed Pending Feedback Card */}
       </div>
+
+      {/* Final grades aggregated across all evaluators of each assigned project */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Final Grades</CardTitle>
+          <CardDescription>Combined scores of every evaluator assigned to your projects</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {finalGrades.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No assigned project has a final grade yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {finalGrades.map((grade) => (
+                <li key={grade.projectId} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{grade.projectTitle}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {AGGREGATION_LABELS[grade.method]} of {grade.evaluationCount} evaluation{grade.evaluationCount === 1 ? '' : 's'} · range {grade.lowestScore} – {grade.highestScore}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {grade.disagreement && (
+                      <Badge variant="outline" className="gap-1 border-amber-400 text-amber-600">
+                        <AlertTriangle className="h-3 w-3" /> Disagreement
+                      </Badge>
+                    )}
+                    <span className="text-lg font-bold">{grade.score}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 } 
\ No newline at end of file
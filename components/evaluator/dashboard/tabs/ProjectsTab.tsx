@@ -16,6 +16,8 @@ import { toast } from 'sonner';
 import { Eye, Edit3, MessageSquare, CheckSquare, Search, Filter, AlertCircle, RefreshCw, Info, Star, XCircle, CalendarDays, AlertTriangle as LucideAlertTriangle, ChevronDown, ChevronUp, Send } from 'lucide-react'; // Renamed AlertTriangle to avoid potential conflicts
 import { formatDistanceToNowStrict } from 'date-fns'; // For relative dates
 import { cn } from '@/lib/utils'; // Added import for cn
+import { previewWeightedScore, RubricFormCriterion } from '../rubric-score';
+import SubmissionSnapshot from '../SubmissionSnapshot';
 
 interface AssignedProject {
   id: string;
@@ -29,6 +31,19 @@ interface AssignedProject {
   evaluationLink?: string;
 }
 
+interface ProjectRubric {
+  id: string;
+  name: string;
+  description?: string | null;
+  criteria: RubricFormCriterion[];
+}
+
+interface RubricCriterionScore {
+  id: string;
+  score: number;
+  comment?: string | null;
+}
+
 // Remove mock fetchAssignedProjectsAPI
 // const fetchAssignedProjectsAPI = async (): Promise<AssignedProject[]> => { ... };
 
@@ -42,7 +57,10 @@ export default function ProjectsTab() {
 
   // State for the collapsible evaluation form
   const [expandedRowId, setExpandedRowId] = useState<string | null>(null);
-  const [evaluationScore, setEvaluationScore] = useState<number | string>('');
+  const [rubric, setRubric] = useState<ProjectRubric | null>(null);
+  const [isRubricLoading, setIsRubricLoading] = useState(false);
+  const [criterionScores, setCriterionScores] = useState<Record<string, number>>({});
+  const [criterionComments, setCriterionComments] = useState<Record<string, string>>({});
   const [evaluationReason, setEvaluationReason] = useState('');
 
   const fetchProjects = useCallback(async () => {
@@ -71,21 +89,47 @@ export default function ProjectsTab() {
     fetchProjects();
   }, [fetchProjects]);
 
+  const loadRubric = async (project: AssignedProject) => {
+    setIsRubricLoading(true);
+    setRubric(null);
+    try {
+      const response = await fetch(`/api/groups/${project.groupUserName}/projects/${project.id}/evaluation`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load the rubric');
+      }
+      setRubric(result.rubric);
+
+      // Pre-fill from the previous evaluation when it was scored against the same criteria
+      const previous: RubricCriterionScore[] = result.evaluation?.criteriaData?.criteria ?? [];
+      setCriterionScores(Object.fromEntries(previous.map((c) => [c.id, c.score])));
+      setCriterionComments(Object.fromEntries(previous.map((c) => [c.id, c.comment ?? ''])));
+    } catch (err) {
+      toast.error('Error Loading Rubric', { description: err instanceof Error ? err.message : 'Failed to load the rubric' });
+    } finally {
+      setIsRubricLoading(false);
+    }
+  };
+
   const handleToggleExpand = (projectId: string, project: AssignedProject) => {
     if (expandedRowId === projectId) {
       setExpandedRowId(null); // Collapse if already open
     } else {
       setExpandedRowId(projectId);
       // Pre-fill form if editing, or clear if it's a new evaluation context for this project
-      setEvaluationScore(project.currentScore ?? ''); 
+      setCriterionScores({});
+      setCriterionComments({});
       setEvaluationReason(project.feedbackSummary ?? '');
+      loadRubric(project);
     }
   };
 
   const handleSubmitInlineEvaluation = async (project: AssignedProject) => {
-    const score = Number(evaluationScore);
-    if (isNaN(score) || score < 0 || score > 100) {
-      toast.error('Invalid Score', { description: 'Score must be between 0 and 100.' });
+    if (!rubric) return;
+
+    const unscored = rubric.criteria.find((criterion) => criterionScores[criterion.id] === undefined);
+    if (unscored) {
+      toast.error('Missing Score', { description: `Please score "${unscored.name}".` });
       return;
     }
     if (!evaluationReason.trim()) {
@@ -101,8 +145,12 @@ export default function ProjectsTab() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            score: score,
             comments: evaluationReason,
+            criteria: rubric.criteria.map((criterion) => ({
+              criterionId: criterion.id,
+              score: criterionScores[criterion.id],
+              comment: criterionComments[criterion.id]?.trim() || undefined,
+            })),
           }),
         }
       );
@@ -241,34 +289,79 @@ export default function ProjectsTab() {
                       <TableCell colSpan={6} className="p-0">
                         <div className="p-4 space-y-4">
                           <h4 className="text-md font-semibold">Submit Evaluation for: {project.title}</h4>
-                          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
-                            <div className="md:col-span-1 space-y-1.5">
-                              <Label htmlFor={`score-${project.id}`}>Score (0-100)</Label>
-                              <Input 
-                                id={`score-${project.id}`}
-                                type="number"
-                                placeholder="e.g., 85"
-                                value={evaluationScore}
-                                onChange={(e) => setEvaluationScore(e.target.value)}
-                                min={0}
-                                max={100}
-                              />
+                          {/* Evaluations grade the submitted version, so it is shown first */}
+                          <SubmissionSnapshot groupUserName={project.groupUserName} projectId={project.id} />
+                          {isRubricLoading ? (
+                            <div className="flex items-center py-4 text-sm text-muted-foreground">
+                              <Spinner className="mr-2 h-4 w-4" /> Loading rubric...
                             </div>
-                            <div className="md:col-span-3 space-y-1.5">
-                              <Label htmlFor={`reason-${project.id}`}>Reason / Overall Feedback</Label>
-                              <Textarea 
-                                id={`reason-${project.id}`}
-                                placeholder="Provide a detailed reason for your evaluation and any overall feedback..."
-                                value={evaluationReason}
-                                onChange={(e) => setEvaluationReason(e.target.value)}
-                                rows={4}
-                              />
+                          ) : !rubric ? (
+                            <div className="flex items-center py-4 text-sm text-muted-foreground">
+                              <Info className="mr-2 h-4 w-4" /> No rubric has been assigned to this project yet. Please contact an administrator.
                             </div>
-                          </div>
+                          ) : (
+                            <>
+                              <div className="flex items-center justify-between">
+                                <p className="text-sm text-muted-foreground">Rubric: <span className="font-medium text-foreground">{rubric.name}</span></p>
+                                <Badge variant="secondary">
+                                  Weighted score: {previewWeightedScore(rubric.criteria, criterionScores) ?? '–'} / 100
+                                </Badge>
+                              </div>
+                              <div className="space-y-3">
+                                {rubric.criteria.map((criterion) => (
+                                  <div key={criterion.id} className="grid grid-cols-1 md:grid-cols-4 gap-4 rounded-md border bg-background p-3">
+                                    <div className="md:col-span-1 space-y-1.5">
+                                      <Label htmlFor={`score-${criterion.id}`}>
+                                        {criterion.name} ({criterion.minScore}-{criterion.maxScore})
+                                      </Label>
+                                      <Input
+                                        id={`score-${criterion.id}`}
+                                        type="number"
+                                        value={criterionScores[criterion.id] ?? ''}
+                                        onChange={(e) => {
+                                          const { value } = e.target;
+                                          setCriterionScores((prev) => {
+                                            const next = { ...prev };
+                                            if (value === '') delete next[criterion.id];
+                                            else next[criterion.id] = Number(value);
+                                            return next;
+                                          });
+                                        }}
+                                        min={criterion.minScore}
+                                        max={criterion.maxScore}
+                                      />
+                                      <p className="text-xs text-muted-foreground">Weight: {criterion.weight}%</p>
+                                    </div>
+                                    <div className="md:col-span-3 space-y-1.5">
+                                      {criterion.description && (
+                                        <p className="text-sm text-muted-foreground">{criterion.description}</p>
+                                      )}
+                                      <Textarea
+                                        placeholder="Optional feedback on this criterion..."
+                                        value={criterionComments[criterion.id] ?? ''}
+                                        onChange={(e) => setCriterionComments((prev) => ({ ...prev, [criterion.id]: e.target.value }))}
+                                        rows={2}
+                                      />
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                              <div className="space-y-1.5">
+                                <Label htmlFor={`reason-${project.id}`}>Reason / Overall Feedback</Label>
+                                <Textarea 
+                                  id={`reason-${project.id}`}
+                                  placeholder="Provide a detailed reason for your evaluation and any overall feedback..."
+                                  value={evaluationReason}
+                                  onChange={(e) => setEvaluationReason(e.target.value)}
+                                  rows={4}
+                                />
+                              </div>
+                            </>
+                          )}
                           <div className="flex justify-end">
                             <Button 
                                 onClick={() => handleSubmitInlineEvaluation(project)}
-                                disabled={isSubmittingEvaluationId === project.id}
+                                disabled={!rubric || isSubmittingEvaluationId === project.id}
                             >
                               {isSubmittingEvaluationId === project.id && <Spinner className="mr-2 h-4 w-4 animate-spin" />}
                               {isSubmittingEvaluationId === project.id ? 'Submitting...' : 'Submit Evaluation'}
@@ -152,51 +152,42 @@ export default function GroupSettings({ group, maxGroupSize, isLeader, onUpdate
 
     try {
       setIsLoading(true);
-      // Use the correct API endpoint for generating invitation codes
+      const email = inviteEmail.trim();
       const response = await fetch(`/api/groups/${group.groupUserName}/invite-code`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          groupUserName: group.groupUserName 
-        }),
+        body: JSON.stringify({ email: email || undefined }),
       });
+      const data = await response.json();
 
-      // Simulate API call delay - consider removing or making conditional for production
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Assuming the API returns the new code or minimal info, and we construct the rest for immediate UI update.
-      // Or, if API returns the full invite object, use that. For now, constructing with fixes.
-      const createdInviteCode = `WDT2024-${Math.random().toString(36).substr(2, 6).toUpperCase()}`; // Potentially from response.data.code
-
-      const newInvite: GroupInvite = {
-        id: `invite-${Date.now()}`, // This should ideally come from the backend response
-        code: createdInviteCode,
-        email: inviteEmail.trim() || null,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Use Date object
-        createdAt: new Date(), // Use Date object
-        groupUserName: group.groupUserName,
-        usedAt: null,
-        createdById: session.user.userId,
-      };
-      
-      // If the API call itself returns data that should be used for the toast or newInvite, adjust accordingly.
-      // For instance, if response.json() was const data = await response.json();
-      // and data.inviteCode exists:
-      // toast.success('Invite code generated', {
-      //   description: `Invitation code: ${data.inviteCode}`,
-      // });
-      // And newInvite.code would be data.inviteCode
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to generate invite code');
+      }
 
       toast.success('Invite code generated', {
-        description: `Invitation code: ${newInvite.code}`,
+        description: `Invitation code: ${data.inviteCode}`,
       });
-      
+
+      // Email the code when an address was given; delivery failures are retried from the outbox
+      if (email) {
+        const emailResponse = await fetch(`/api/groups/${group.groupUserName}/invite-email`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ invitee: email, inviteCode: data.inviteCode }),
+        });
+        const emailData = await emailResponse.json();
+
+        if (emailResponse.ok) {
+          toast.success(emailData.message, { description: `Sent to ${email}` });
+        } else {
+          toast.error('Failed to send invitation email', { description: emailData.message });
+        }
+      }
+
       fetchActiveInvites(); // Refresh the list of invites from the server
       setShowInviteDialog(false);
-      setInvites(prevInvites => [...prevInvites, newInvite]);
       setInviteEmail("");
       setInviteMessage("");
-      // setTimeout(() => setShowInviteDialog(false), 1000); // setShowInviteDialog is already called
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Something went wrong';
       toast.error('Error generating invite code', {
@@ -4,14 +4,16 @@ import remarkGfm from "remark-gfm";
 
 interface MarkdownProps {
   content: string;
+  // Leave off for text written by other users so embedded HTML is not rendered
+  allowHtml?: boolean;
 }
 
-export function Markdown({ content }: MarkdownProps) {
+export function Markdown({ content, allowHtml = true }: MarkdownProps) {
   return (
     <div className="prose prose-sm dark:prose-invert max-w-none">
-      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={allowHtml ? [rehypeRaw] : []}>
         {content}
       </ReactMarkdown>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -36,6 +36,28 @@ export function AdvisorRating({
   const [hoverRating, setHoverRating] = useState<number>(0);
   const [feedback, setFeedback] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasRated, setHasRated] = useState(false);
+
+  const ratingUrl = `/api/groups/${ownerId}/projects/${projectId}/advisor/rating`;
+
+  // Students rate once per project, so opening the dialog again edits the earlier rating
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    if (!open) return;
+
+    try {
+      const response = await fetch(ratingUrl);
+      if (!response.ok) return;
+      const data = await response.json();
+      if (data.rating) {
+        setRating(data.rating.score);
+        setFeedback(data.rating.feedback || '');
+        setHasRated(true);
+      }
+    } catch (error) {
+      console.error('Error fetching advisor rating:', error);
+    }
+  };
 
   const handleSubmitRating = async () => {
     if (rating === 0) {
@@ -45,7 +67,7 @@ export function AdvisorRating({
 
     try {
       setIsSubmitting(true);
-      const response = await fetch(`/api/groups/${ownerId}/projects/${projectId}/advisor/rating`, {
+      const response = await fetch(ratingUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -62,10 +84,11 @@ export function AdvisorRating({
         throw new Error(errorData.message || 'Failed to submit rating');
       }
 
-      toast.success('Rating submitted', {
+      toast.success(hasRated ? 'Rating updated' : 'Rating submitted', {
         description: 'Thank you for your feedback.'
       });
       
+      setHasRated(true);
       setIsOpen(false);
       onRatingComplete();
     } catch (error) {
@@ -79,7 +102,7 @@ export function AdvisorRating({
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button variant="outline" size="sm">Rate Advisor</Button>
       </DialogTrigger>
@@ -88,6 +111,7 @@ export function AdvisorRating({
           <DialogTitle>Rate Your Advisor</DialogTitle>
           <DialogDescription>
             Share your experience with {advisorName}. Your feedback helps improve the advising process.
+            Ratings are anonymous: {advisorName} only sees them combined with other students&apos; ratings.
           </DialogDescription>
         </DialogHeader>
         
@@ -136,7 +160,7 @@ export function AdvisorRating({
                 Submitting...
               </>
             ) : (
-              'Submit Rating'
+              hasRated ? 'Update Rating' : 'Submit Rating'
             )}
           </Button>
         </DialogFooter>
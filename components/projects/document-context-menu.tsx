@@ -9,7 +9,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Download, Eye, MoreHorizontal, Share, Trash2 } from 'lucide-react';
+import { Download, Eye, History, MoreHorizontal, Share, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   AlertDialog,
@@ -39,9 +39,10 @@ interface Document {
 interface DocumentContextMenuProps {
   document: Document;
   onDelete: (documentId: string) => void;
+  onShowHistory?: (document: Document) => void;
 }
 
-export function DocumentContextMenu({ document, onDelete }: DocumentContextMenuProps) {
+export function DocumentContextMenu({ document, onDelete, onShowHistory }: DocumentContextMenuProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   
@@ -103,6 +104,12 @@ export function DocumentContextMenu({ document, onDelete }: DocumentContextMenuP
             <Share className="mr-2 h-4 w-4" />
             Share Link
           </DropdownMenuItem>
+          {onShowHistory && (
+            <DropdownMenuItem onClick={() => onShowHistory(document)}>
+              <History className="mr-2 h-4 w-4" />
+              Version history
+            </DropdownMenuItem>
+          )}
           <DropdownMenuSeparator />
           <DropdownMenuItem 
             onClick={() => setIsDeleteDialogOpen(true)} 
@@ -0,0 +1,337 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Download, Loader2, MessageSquare, RotateCcw, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface Person {
+  userId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface DocumentVersion {
+  id: string;
+  version: number;
+  url: string;
+  type: string | null;
+  size: number | null;
+  restoredFromVersion: number | null;
+  createdAt: string;
+  uploadedBy: Person | null;
+  _count: { comments: number };
+}
+
+interface VersionComment {
+  id: string;
+  content: string;
+  createdAt: string;
+  author: Person;
+}
+
+interface VersionHistory {
+  versions: DocumentVersion[];
+  currentUrl: string;
+  permissions: { canUpload: boolean; canComment: boolean };
+}
+
+export interface VersionedDocument {
+  id: string;
+  title: string;
+  url: string;
+  type?: string | null;
+  size?: number | null;
+}
+
+const formatFileSize = (bytes?: number | null) => {
+  if (!bytes) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+interface VersionCommentsProps {
+  commentsUrl: string;
+  canComment: boolean;
+  onCommented: () => void;
+}
+
+function VersionComments({ commentsUrl, canComment, onCommented }: VersionCommentsProps) {
+  const [comments, setComments] = useState<VersionComment[] | null>(null);
+  const [content, setContent] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchComments = async () => {
+      try {
+        const response = await fetch(commentsUrl);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load comments');
+        }
+        setComments(data);
+      } catch (error) {
+        console.error('Error fetching version comments:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load comments');
+        setComments([]);
+      }
+    };
+
+    fetchComments();
+  }, [commentsUrl]);
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(commentsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to add comment');
+      }
+
+      setComments((current) => [...(current ?? []), data]);
+      setContent('');
+      onCommented();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add comment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!comments) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-2 border-l-2 pl-3">
+      {comments.length === 0 && <p className="text-xs text-muted-foreground">No comments on this version.</p>}
+      {comments.map((comment) => (
+        <div key={comment.id} className="text-sm">
+          <p className="text-xs text-muted-foreground">
+            {comment.author.firstName} {comment.author.lastName} ·{' '}
+            {format(new Date(comment.createdAt), 'MMM d, yyyy HH:mm')}
+          </p>
+          <p className="whitespace-pre-wrap">{comment.content}</p>
+        </div>
+      ))}
+      {canComment && (
+        <form onSubmit={handleComment} className="space-y-2">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Comment on this version"
+            rows={2}
+            className="resize-none"
+          />
+          <Button type="submit" size="sm" disabled={isSubmitting || !content.trim()}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Comment
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+interface DocumentVersionHistoryProps {
+  ownerId: string;
+  projectId: string;
+  document: VersionedDocument | null;
+  onClose: () => void;
+  onVersionChange: (document: VersionedDocument) => void;
+}
+
+export function DocumentVersionHistory({
+  ownerId,
+  projectId,
+  document,
+  onClose,
+  onVersionChange,
+}: DocumentVersionHistoryProps) {
+  const versionsUrl = document ? `/api/groups/${ownerId}/projects/${projectId}/documents/${document.id}/versions` : null;
+  const [history, setHistory] = useState<VersionHistory | null>(null);
+  const [openComments, setOpenComments] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!versionsUrl) return;
+
+    try {
+      const response = await fetch(versionsUrl);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load version history');
+      }
+      setHistory(data);
+    } catch (error) {
+      console.error('Error fetching document versions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load version history');
+    }
+  }, [versionsUrl]);
+
+  useEffect(() => {
+    setHistory(null);
+    setOpenComments(null);
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const applyChange = async (response: Response, successMessage: string) => {
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to update the document');
+    }
+    toast.success(successMessage);
+    onVersionChange(data.document);
+    await fetchHistory();
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !versionsUrl) return;
+
+    try {
+      setBusy('upload');
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(versionsUrl, { method: 'POST', body: formData });
+      await applyChange(response, 'New version uploaded');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload the new version');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRestore = async (version: DocumentVersion) => {
+    if (!versionsUrl) return;
+
+    try {
+      setBusy(version.id);
+      const response = await fetch(`${versionsUrl}/${version.id}/restore`, { method: 'POST' });
+      await applyChange(response, `Version ${version.version} restored`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore the version');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Several versions can share a restored file; only the newest of them is current
+  const currentVersionId = history?.versions.find((version) => version.url === history.currentUrl)?.id;
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every upload of &quot;{document?.title}&quot; is kept. Restoring an older version makes it current again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {history?.permissions.canUpload && (
+          <div>
+            <input ref={fileInputRef} type="file" className="hidden" onChange={handleUpload} />
+            <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={busy !== null}>
+              {busy === 'upload' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload new version
+            </Button>
+          </div>
+        )}
+
+        {!history ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary/70" />
+          </div>
+        ) : (
+          <ul className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {history.versions.map((version) => (
+              <li key={version.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-2 text-sm font-medium">
+                      Version {version.version}
+                      {version.id === currentVersionId && <Badge variant="secondary">Current</Badge>}
+                      {version.restoredFromVersion && (
+                        <span className="text-xs font-normal text-muted-foreground">
+                          restored from version {version.restoredFromVersion}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {version.uploadedBy
+                        ? `${version.uploadedBy.firstName} ${version.uploadedBy.lastName}`
+                        : 'Unknown user'}{' '}
+                      · {format(new Date(version.createdAt), 'MMM d, yyyy HH:mm')} · {formatFileSize(version.size)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                      <a href={version.url} download title="Download this version">
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    {history.permissions.canUpload && version.url !== history.currentUrl && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Restore this version"
+                        disabled={busy !== null}
+                        onClick={() => handleRestore(version)}
+                      >
+                        {busy === version.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                    <Button
+                      variant={openComments === version.id ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-8"
+                      onClick={() => setOpenComments(openComments === version.id ? null : version.id)}
+                    >
+                      <MessageSquare className="mr-1 h-4 w-4" />
+                      {version._count.comments}
+                    </Button>
+                  </div>
+                </div>
+                {openComments === version.id && versionsUrl && (
+                  <VersionComments
+                    commentsUrl={`${versionsUrl}/${version.id}/comments`}
+                    canComment={history.permissions.canComment}
+                    onCommented={fetchHistory}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,6 +25,7 @@ import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { FileUpload } from '@/components/ui/file-upload';
 import { DocumentContextMenu } from './document-context-menu';
+import { DocumentVersionHistory, VersionedDocument } from './document-version-history';
 import { MultiFileUploadModal } from './multi-file-upload-modal';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -94,6 +95,7 @@ export function ProjectDocuments({ ownerId, projectId }: ProjectDocumentsProps)
     category: 'general'
   });
   const [activeCategory, setActiveCategory] = useState('all');
+  const [historyDocument, setHistoryDocument] = useState<VersionedDocument | null>(null);
 
   useEffect(() => {
     const fetchDocuments = async () => {
@@ -227,6 +229,15 @@ export function ProjectDocuments({ ownerId, projectId }: ProjectDocumentsProps)
     }
   };
 
+  // A new or restored version changes the document's current file
+  const handleVersionChange = (updated: VersionedDocument) => {
+    setDocuments((current) =>
+      current.map((doc) =>
+        doc.id === updated.id ? { ...doc, url: updated.url, type: updated.type, size: updated.size } : doc
+      )
+    );
+  };
+
   const handleMultiUploadSuccess = (newDocuments: Document[]) => {
     setDocuments([...newDocuments, ...documents]);
   };
@@ -425,7 +436,11 @@ export function ProjectDocuments({ ownerId, projectId }: ProjectDocumentsProps)
                                 </p>
                               )}
                             </div>
-                            <DocumentContextMenu document={doc} onDelete={handleDeleteDocument} />
+                            <DocumentContextMenu
+                              document={doc}
+                              onDelete={handleDeleteDocument}
+                              onShowHistory={setHistoryDocument}
+                            />
                           </div>
                           <div className="flex flex-wrap items-center gap-x-4 mt-2 text-xs text-muted-foreground">
                             {doc.uploadedBy && (
@@ -452,6 +467,14 @@ export function ProjectDocuments({ ownerId, projectId }: ProjectDocumentsProps)
         )}
       </CardContent>
 
+      <DocumentVersionHistory
+        ownerId={ownerId}
+        projectId={projectId}
+        document={historyDocument}
+        onClose={() => setHistoryDocument(null)}
+        onVersionChange={handleVersionChange}
+      />
+
       {/* Multi-file upload modal */}
       <MultiFileUploadModal 
         isOpen={isMultiUploadOpen}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { CheckCircle2, Circle, History, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+type ProjectStatus = 'ACTIVE' | 'SUBMITTED' | 'COMPLETED' | 'ARCHIVED';
+
+interface Transition {
+  to: ProjectStatus;
+  label: string;
+  requiresReason: boolean;
+}
+
+interface ChecklistItem {
+  key: string;
+  label: string;
+  satisfied: boolean;
+  detail: string | null;
+}
+
+interface StatusChange {
+  id: string;
+  fromStatus: ProjectStatus;
+  toStatus: ProjectStatus;
+  reason: string | null;
+  createdAt: string;
+  actor: { userId: string; firstName: string; lastName: string };
+}
+
+interface LifecycleState {
+  status: ProjectStatus;
+  submissionDate: string | null;
+  transitions: Transition[];
+  checklist: ChecklistItem[] | null;
+  history: StatusChange[];
+}
+
+const STATUS_LABELS: Record<ProjectStatus, string> = {
+  ACTIVE: 'Active',
+  SUBMITTED: 'Submitted',
+  COMPLETED: 'Completed',
+  ARCHIVED: 'Archived',
+};
+
+interface ProjectLifecycleProps {
+  ownerId: string;
+  projectId: string;
+  onStatusChange?: (status: ProjectStatus) => void;
+}
+
+export function ProjectLifecycle({ ownerId, projectId, onStatusChange }: ProjectLifecycleProps) {
+  const statusUrl = `/api/groups/${ownerId}/projects/${projectId}/status`;
+  const [state, setState] = useState<LifecycleState | null>(null);
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState<Transition | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchState = useCallback(async () => {
+    try {
+      const response = await fetch(statusUrl);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load project status');
+      }
+      setState(data);
+      setError('');
+    } catch (error) {
+      console.error('Error fetching project status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load project status');
+    }
+  }, [statusUrl]);
+
+  useEffect(() => {
+    fetchState();
+  }, [fetchState]);
+
+  const handleTransition = async () => {
+    if (!pending) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(statusUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: pending.to, reason: reason.trim() || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update project status');
+      }
+
+      toast.success(`Project is now ${STATUS_LABELS[pending.to].toLowerCase()}`);
+      onStatusChange?.(pending.to);
+      setPending(null);
+      setReason('');
+    } catch (error) {
+      toast.error('Error updating project status', {
+        description: error instanceof Error ? error.message : 'Failed to update project status',
+      });
+    } finally {
+      setIsSubmitting(false);
+      fetchState();
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+
+  if (!state) {
+    return <div className="h-24 animate-pulse bg-gray-100 dark:bg-gray-800 rounded-lg"></div>;
+  }
+
+  const checklistIncomplete = !!state.checklist?.some((item) => !item.satisfied);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Label>Status</Label>
+          <Badge variant="secondary">{STATUS_LABELS[state.status]}</Badge>
+          {state.submissionDate && state.status !== 'ACTIVE' && (
+            <span className="text-xs text-muted-foreground">
+              Submitted {format(new Date(state.submissionDate), 'MMM d, yyyy')}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {state.transitions.map((transition) => (
+            <Button
+              key={transition.to}
+              type="button"
+              size="sm"
+              variant={transition.to === 'SUBMITTED' ? 'default' : 'outline'}
+              disabled={transition.to === 'SUBMITTED' && checklistIncomplete}
+              onClick={() => setPending(transition)}
+            >
+              {transition.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {state.checklist && (
+        <div className="rounded-lg border p-3 space-y-2">
+          <p className="text-sm font-medium">Before submitting</p>
+          <ul className="space-y-1">
+            {state.checklist.map((item) => (
+              <li key={item.key} className="flex items-start gap-2 text-sm">
+                {item.satisfied ? (
+                  <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600" />
+                ) : (
+                  <Circle className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                )}
+                <span>
+                  {item.label}
+                  {item.detail && <span className="block text-xs text-muted-foreground">{item.detail}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {state.history.length > 0 && (
+        <div className="space-y-2">
+          <p className="flex items-center gap-1 text-sm font-medium">
+            <History className="h-4 w-4" />
+            History
+          </p>
+          <ul className="space-y-1 text-xs text-muted-foreground">
+            {state.history.map((change) => (
+              <li key={change.id}>
+                {format(new Date(change.createdAt), 'MMM d, yyyy HH:mm')} · {change.actor.firstName}{' '}
+                {change.actor.lastName} moved it from {STATUS_LABELS[change.fromStatus]} to{' '}
+                {STATUS_LABELS[change.toStatus]}
+                {change.reason && <span className="italic"> — {change.reason}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending?.label}</DialogTitle>
+            <DialogDescription>
+              {pending?.to === 'SUBMITTED'
+                ? 'The assigned evaluators are notified that the project is ready for evaluation.'
+                : `The project moves from ${STATUS_LABELS[state.status]} to ${pending ? STATUS_LABELS[pending.to] : ''}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="transition-reason">Reason{pending?.requiresReason ? '' : ' (optional)'}</Label>
+            <Textarea
+              id="transition-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleTransition}
+              disabled={isSubmitting || (!!pending?.requiresReason && !reason.trim())}
+            >
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pending?.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { format } from 'date-fns';
-import { FileText, FolderGit2, MessageSquare, GitCommit, Loader2, BarChart, CheckSquare } from 'lucide-react';
+import { FileText, FolderGit2, MessageSquare, GitCommit, Loader2, BarChart, CheckSquare, AlertTriangle } from 'lucide-react';
 import { Project } from './project-card';
 
 // Activity types from the API
@@ -44,6 +44,22 @@ interface ProjectStats {
   evaluations: number;
 }
 
+interface FinalGrade {
+  score: number;
+  method: 'MEAN' | 'WEIGHTED_MEAN' | 'TRIMMED_MEAN';
+  evaluationCount: number;
+  lowestScore: number;
+  highestScore: number;
+  disagreement: boolean;
+  computedAt: string;
+}
+
+const AGGREGATION_LABELS: Record<FinalGrade['method'], string> = {
+  MEAN: 'Mean',
+  WEIGHTED_MEAN: 'Weighted mean',
+  TRIMMED_MEAN: 'Trimmed mean',
+};
+
 interface APIStats {
   stats: {
     tasks: {
@@ -53,6 +69,7 @@ interface APIStats {
     evaluations: {
       total: number;
     };
+    finalGrade: FinalGrade | null;
     feedback: {
       total: number;
       byStatus: Record<string, number>;
@@ -84,6 +101,7 @@ export function ProjectOverview({ ownerId, projectId }: ProjectOverviewProps) {
     feedback: 0,
     evaluations: 0
   });
+  const [finalGrade, setFinalGrade] = useState<FinalGrade | null>(null);
   const [error, setError] = useState('');
 
   // Map API activity type to component activity type
@@ -164,6 +182,7 @@ export function ProjectOverview({ ownerId, projectId }: ProjectOverviewProps) {
             feedback: statsData.stats.feedback.total,
             evaluations: statsData.stats.evaluations.total
           });
+          setFinalGrade(statsData.stats.finalGrade);
         } else {
           console.warn('Unexpected stats data format:', statsData);
         }
@@ -266,6 +285,34 @@ export function ProjectOverview({ ownerId, projectId }: ProjectOverviewProps) {
         </CardContent>
       </Card>
 
+      {finalGrade && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Final Grade</CardTitle>
+            <CardDescription>
+              {AGGREGATION_LABELS[finalGrade.method]} of {finalGrade.evaluationCount} evaluation{finalGrade.evaluationCount === 1 ? '' : 's'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-baseline gap-4">
+              <span className="text-4xl font-bold">{finalGrade.score}</span>
+              <span className="text-sm text-muted-foreground">
+                Range {finalGrade.lowestScore} – {finalGrade.highestScore}
+              </span>
+            </div>
+            {finalGrade.disagreement && (
+              <div className="flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-200">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                Evaluator scores differ by more than the configured threshold.
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Last computed {format(new Date(finalGrade.computedAt), 'MMM d, yyyy h:mm a')}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader className="pb-2">
           <CardTitle>Recent Activity</CardTitle>
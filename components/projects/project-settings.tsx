@@ -26,6 +26,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
+import { ProjectLifecycle } from './project-lifecycle';
 import { 
   Settings, 
   Info, 
@@ -111,7 +112,8 @@ export function ProjectSettings({ ownerId, projectId }: ProjectSettingsProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(form),
+        // Status changes go through the lifecycle controls instead
+        body: JSON.stringify({ title: form.title, description: form.description }),
       });
 
       if (!response.ok) {
@@ -237,23 +239,11 @@ export function ProjectSettings({ ownerId, projectId }: ProjectSettingsProps) {
                 />
               </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select 
-                  value={form.status} 
-                  onValueChange={(value) => handleFormChange('status', value)}
-                >
-                  <SelectTrigger id="status">
-                    <SelectValue placeholder="Select status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="ACTIVE">Active</SelectItem>
-                    <SelectItem value="SUBMITTED">Submitted</SelectItem>
-                    <SelectItem value="COMPLETED">Completed</SelectItem>
-                    <SelectItem value="ARCHIVED">Archived</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              <ProjectLifecycle
+                ownerId={ownerId}
+                projectId={projectId}
+                onStatusChange={(status) => handleFormChange('status', status)}
+              />
             </div>
             
             <Button type="submit" disabled={isSaving}>
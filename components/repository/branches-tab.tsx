@@ -0,0 +1,381 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { GitBranchIcon, MoreHorizontal, PlusIcon, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface BranchEntry {
+  id: string;
+  name: string;
+  isProtected: boolean;
+  isDefault: boolean;
+  ahead: number;
+  behind: number;
+  updatedAt: string;
+  headCommit: {
+    id: string;
+    message: string;
+    timestamp: string;
+    author: { userId: string; firstName: string; lastName: string };
+  };
+}
+
+interface BranchPermissions {
+  canWrite: boolean;
+  canAdminister: boolean;
+}
+
+const FROM_BRANCH = "branch";
+const FROM_COMMIT = "commit";
+
+interface BranchesTabProps {
+  ownerId: string;
+  repoId: string;
+}
+
+export function BranchesTab({ ownerId, repoId }: BranchesTabProps) {
+  const baseUrl = `/api/repositories/${ownerId}/${repoId}/branches`;
+  const [branches, setBranches] = useState<BranchEntry[]>([]);
+  const [defaultBranch, setDefaultBranch] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<BranchPermissions>({ canWrite: false, canAdminister: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [newBranch, setNewBranch] = useState({ name: "", source: FROM_BRANCH, fromBranch: "", fromCommitId: "" });
+  const [branchToRename, setBranchToRename] = useState<BranchEntry | null>(null);
+  const [renameTo, setRenameTo] = useState("");
+  const [branchToDelete, setBranchToDelete] = useState<BranchEntry | null>(null);
+
+  const fetchBranches = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status}`);
+      }
+      const data = await response.json();
+      setBranches(data.branches);
+      setDefaultBranch(data.defaultBranch);
+      setPermissions(data.permissions);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to fetch branches:", err);
+      setError("Failed to load branches");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    fetchBranches();
+  }, [fetchBranches]);
+
+  // Sends a branch request, reports the outcome and reloads the list on success
+  const sendRequest = async (url: string, method: string, successMessage: string, body?: object) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.errors ? Object.values(data.errors).flat().join(", ") : data.error);
+      }
+      toast.success(successMessage);
+      await fetchBranches();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Request failed");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const branchUrl = (branch: BranchEntry) => `${baseUrl}/${encodeURIComponent(branch.name)}`;
+
+  const handleCreate = async () => {
+    const body =
+      newBranch.source === FROM_COMMIT
+        ? { name: newBranch.name, fromCommitId: newBranch.fromCommitId }
+        : { name: newBranch.name, fromBranch: newBranch.fromBranch || defaultBranch || undefined };
+    if (await sendRequest(baseUrl, "POST", `Branch ${newBranch.name} created`, body)) {
+      setShowCreate(false);
+      setNewBranch({ name: "", source: FROM_BRANCH, fromBranch: "", fromCommitId: "" });
+    }
+  };
+
+  const handleRename = async () => {
+    if (!branchToRename) return;
+    if (await sendRequest(branchUrl(branchToRename), "PATCH", `Branch renamed to ${renameTo}`, { name: renameTo })) {
+      setBranchToRename(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!branchToDelete) return;
+    await sendRequest(branchUrl(branchToDelete), "DELETE", `Branch ${branchToDelete.name} deleted`);
+    setBranchToDelete(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-muted-foreground">Loading branches...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-red-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg shadow-sm overflow-hidden">
+      <div className="bg-background border-b p-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GitBranchIcon className="h-5 w-5" />
+          <h1 className="text-xl font-bold">Branches</h1>
+          <span className="text-muted-foreground text-sm">({branches.length})</span>
+        </div>
+        {permissions.canWrite && (
+          <Button onClick={() => setShowCreate(true)} className="bg-green-600 hover:bg-green-700 text-white flex items-center gap-1">
+            <PlusIcon className="h-4 w-4" />
+            <span>New branch</span>
+          </Button>
+        )}
+      </div>
+
+      {branches.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">This repository has no branches yet.</div>
+      ) : (
+        <ul className="divide-y">
+          {branches.map((branch) => (
+            <li key={branch.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Link
+                    href={`/${ownerId}/${repoId}/tree/${encodeURIComponent(branch.name)}`}
+                    className="font-mono font-semibold text-blue-600 hover:underline"
+                  >
+                    {branch.name}
+                  </Link>
+                  {branch.isDefault && <Badge variant="secondary">default</Badge>}
+                  {branch.isProtected && (
+                    <Badge variant="outline" className="gap-1">
+                      <ShieldCheck className="h-3 w-3" />
+                      protected
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1 truncate">
+                  <Link href={`/${ownerId}/${repoId}/commit/${branch.headCommit.id}`} className="font-mono hover:underline">
+                    {branch.headCommit.id.slice(0, 10)}
+                  </Link> {branch.headCommit.message.split("\n")[0]} ·{" "}
+                  {branch.headCommit.author.firstName} {branch.headCommit.author.lastName} · updated{" "}
+                  {formatTimeAgo(new Date(branch.updatedAt))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4 shrink-0">
+                {!branch.isDefault && (
+                  <div className="text-xs text-muted-foreground text-right" title={`Compared with ${defaultBranch}`}>
+                    <div>{branch.behind} behind</div>
+                    <div>{branch.ahead} ahead</div>
+                  </div>
+                )}
+                {permissions.canWrite && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" disabled={isSubmitting}>
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => {
+                          setNewBranch({ name: "", source: FROM_BRANCH, fromBranch: branch.name, fromCommitId: "" });
+                          setShowCreate(true);
+                        }}
+                      >
+                        New branch from here
+                      </DropdownMenuItem>
+                      {permissions.canAdminister && (
+                        <DropdownMenuItem
+                          onClick={() =>
+                            sendRequest(
+                              branchUrl(branch),
+                              "PATCH",
+                              branch.isProtected ? `${branch.name} is no longer protected` : `${branch.name} is now protected`,
+                              { isProtected: !branch.isProtected }
+                            )
+                          }
+                        >
+                          {branch.isProtected ? "Remove protection" : "Protect branch"}
+                        </DropdownMenuItem>
+                      )}
+                      {!branch.isDefault && !branch.isProtected && (
+                        <>
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setRenameTo(branch.name);
+                              setBranchToRename(branch);
+                            }}
+                          >
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem className="text-red-600" onClick={() => setBranchToDelete(branch)}>
+                            Delete
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create a branch</DialogTitle>
+            <DialogDescription>Start a new branch from another branch or from any commit.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="branch-name">Branch name</Label>
+              <Input
+                id="branch-name"
+                placeholder="feature/my-change"
+                value={newBranch.name}
+                onChange={(e) => setNewBranch((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select value={newBranch.source} onValueChange={(source) => setNewBranch((prev) => ({ ...prev, source }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FROM_BRANCH}>Branch</SelectItem>
+                  <SelectItem value={FROM_COMMIT}>Commit</SelectItem>
+                </SelectContent>
+              </Select>
+              {newBranch.source === FROM_BRANCH ? (
+                <Select
+                  value={newBranch.fromBranch || defaultBranch || ""}
+                  onValueChange={(fromBranch) => setNewBranch((prev) => ({ ...prev, fromBranch }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Source branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.name}>
+                        {branch.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  placeholder="Commit ID"
+                  className="font-mono"
+                  value={newBranch.fromCommitId}
+                  onChange={(e) => setNewBranch((prev) => ({ ...prev, fromCommitId: e.target.value }))}
+                />
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSubmitting || !newBranch.name.trim()}>
+              Create branch
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!branchToRename} onOpenChange={(open) => !open && setBranchToRename(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename {branchToRename?.name}</DialogTitle>
+            <DialogDescription>Open merge requests keep pointing at the renamed branch.</DialogDescription>
+          </DialogHeader>
+          <Input value={renameTo} onChange={(e) => setRenameTo(e.target.value)} className="font-mono" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBranchToRename(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={isSubmitting || !renameTo.trim() || renameTo === branchToRename?.name}>
+              Rename
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!branchToDelete} onOpenChange={(open) => !open && setBranchToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {branchToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The branch is removed, but its commits stay in the repository history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
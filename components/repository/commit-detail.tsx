@@ -0,0 +1,320 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ChevronDown, ChevronRight, Columns2, GitCommitHorizontal, Rows3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  anchorKey,
+  CodeLine,
+  CommentableCode,
+  LineAnchor,
+  LineCommentsController,
+  LineCommentThread,
+  threadKey,
+  useLineComments,
+} from "@/components/repository/line-comments";
+import { formatTimeAgo } from "@/lib/utils";
+
+type DiffLineType = "context" | "added" | "removed";
+type ChangeType = "ADDED" | "MODIFIED" | "DELETED";
+
+interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+interface FileDiff {
+  id: string;
+  filePath: string;
+  changeType: ChangeType;
+  isBinary: boolean;
+  tooLarge: boolean;
+  missingContent: boolean;
+  additions: number;
+  deletions: number;
+  hunks: { oldStart: number; oldLines: number; newStart: number; newLines: number; lines: DiffLine[] }[];
+  sideBySide: { header: string; rows: { left: DiffLine | null; right: DiffLine | null }[] }[];
+}
+
+interface CommitDetails {
+  id: string;
+  message: string;
+  timestamp: string;
+  author: { userId: string; firstName: string; lastName: string };
+  branchesHead: { id: string; name: string }[];
+  parentCommits: { id: string; message: string }[];
+}
+
+interface DiffStats {
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+const LINE_STYLES: Record<DiffLineType, string> = {
+  context: "",
+  added: "bg-green-500/15",
+  removed: "bg-red-500/15",
+};
+
+const CHANGE_TYPE_STYLES: Record<ChangeType, string> = {
+  ADDED: "bg-green-100 text-green-800",
+  MODIFIED: "bg-blue-100 text-blue-800",
+  DELETED: "bg-red-100 text-red-800",
+};
+
+function languageOf(filePath: string) {
+  return filePath.split(".").pop()?.toLowerCase() || "text";
+}
+
+// Removed lines are anchored to the parent's version of the file, everything else to this commit's
+function lineAnchor(line: DiffLine): LineAnchor {
+  return line.type === "removed" ? { side: "OLD", line: line.oldNumber! } : { side: "NEW", line: line.newNumber! };
+}
+
+const FILLER_LINE: CodeLine = { content: "", cells: [""], className: "bg-muted/40", anchor: null };
+
+function unifiedColumns(lines: DiffLine[]): CodeLine[][] {
+  const markers: Record<DiffLineType, string> = { context: " ", added: "+", removed: "-" };
+  return [
+    lines.map((line) => ({
+      content: line.content,
+      cells: [line.oldNumber?.toString() ?? "", line.newNumber?.toString() ?? "", markers[line.type]],
+      className: LINE_STYLES[line.type],
+      anchor: lineAnchor(line),
+    })),
+  ];
+}
+
+function splitColumns(rows: { left: DiffLine | null; right: DiffLine | null }[]): CodeLine[][] {
+  const toCodeLine = (line: DiffLine | null, number: number | null | undefined): CodeLine =>
+    line
+      ? { content: line.content, cells: [number?.toString() ?? ""], className: LINE_STYLES[line.type], anchor: lineAnchor(line) }
+      : FILLER_LINE;
+
+  return [
+    rows.map((row) => toCodeLine(row.left, row.left?.oldNumber)),
+    rows.map((row) => toCodeLine(row.right, row.right?.newNumber)),
+  ];
+}
+
+const FileDiffView = ({
+  file,
+  split,
+  comments,
+}: {
+  file: FileDiff;
+  split: boolean;
+  comments: LineCommentsController;
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  // Threads on lines the diff does not show are listed below it
+  const shownKeys = new Set(
+    file.hunks.flatMap((hunk) => hunk.lines.map((line) => anchorKey(file.filePath, lineAnchor(line))))
+  );
+  const otherThreads = comments.threads.filter(
+    (thread) => thread.filePath === file.filePath && !shownKeys.has(threadKey(thread))
+  );
+
+  let body: React.ReactNode;
+  if (file.isBinary) {
+    body = <p className="p-4 text-sm text-muted-foreground">Binary file not shown.</p>;
+  } else if (file.tooLarge) {
+    body = <p className="p-4 text-sm text-muted-foreground">This diff is too large to display.</p>;
+  } else if (file.missingContent) {
+    body = <p className="p-4 text-sm text-muted-foreground">The content of this file is not available.</p>;
+  } else if (file.hunks.length === 0) {
+    body = <p className="p-4 text-sm text-muted-foreground">No content changes.</p>;
+  } else if (split) {
+    body = file.sideBySide.map((hunk) => (
+      <div key={hunk.header}>
+        <div className="px-4 py-1 bg-blue-500/10 text-xs font-mono text-muted-foreground">{hunk.header}</div>
+        <CommentableCode
+          filePath={file.filePath}
+          language={languageOf(file.filePath)}
+          columns={splitColumns(hunk.rows)}
+          controller={comments}
+        />
+      </div>
+    ));
+  } else {
+    body = file.hunks.map((hunk) => (
+      <div key={`${hunk.oldStart}-${hunk.newStart}`}>
+        <div className="px-4 py-1 bg-blue-500/10 text-xs font-mono text-muted-foreground">
+          @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+        </div>
+        <CommentableCode
+          filePath={file.filePath}
+          language={languageOf(file.filePath)}
+          columns={unifiedColumns(hunk.lines)}
+          controller={comments}
+        />
+      </div>
+    ));
+  }
+
+  return (
+    <div id={`diff-${file.id}`} className="border rounded-md overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-4 py-2 bg-muted/20 border-b text-sm text-left"
+      >
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <span className="font-mono truncate flex-1">{file.filePath}</span>
+        <span className={`text-xs px-2 py-0.5 rounded-full ${CHANGE_TYPE_STYLES[file.changeType]}`}>
+          {file.changeType.toLowerCase()}
+        </span>
+        <span className="text-green-600 text-xs">+{file.additions}</span>
+        <span className="text-red-600 text-xs">-{file.deletions}</span>
+      </button>
+      {isOpen && body}
+      {isOpen && otherThreads.length > 0 && (
+        <div className="px-4 py-2 space-y-2 border-t">
+          <p className="text-xs text-muted-foreground">Comments on lines outside this diff</p>
+          {otherThreads.map((thread) => (
+            <LineCommentThread key={thread.id} thread={thread} controller={comments} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CommitDetailProps {
+  ownerId: string;
+  repoId: string;
+  commitId: string;
+}
+
+export function CommitDetail({ ownerId, repoId, commitId }: CommitDetailProps) {
+  const baseUrl = `/api/groups/${ownerId}/repositories/${repoId}/commit/${commitId}`;
+  const [commit, setCommit] = useState<CommitDetails | null>(null);
+  const [files, setFiles] = useState<FileDiff[]>([]);
+  const [stats, setStats] = useState<DiffStats | null>(null);
+  const [split, setSplit] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const comments = useLineComments(ownerId, repoId, commitId);
+
+  useEffect(() => {
+    const fetchCommit = async () => {
+      setIsLoading(true);
+      try {
+        const [commitResponse, diffResponse] = await Promise.all([fetch(baseUrl), fetch(`${baseUrl}/diff`)]);
+        if (!commitResponse.ok || !diffResponse.ok) {
+          const failed = commitResponse.ok ? diffResponse : commitResponse;
+          throw new Error(failed.status === 404 ? "Commit not found" : `Error: ${failed.status}`);
+        }
+        const diff = await diffResponse.json();
+        setCommit(await commitResponse.json());
+        setFiles(diff.files);
+        setStats(diff.stats);
+        setError(null);
+      } catch (err) {
+        console.error("Failed to fetch commit:", err);
+        setError(err instanceof Error ? err.message : "Failed to load commit");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCommit();
+  }, [baseUrl]);
+
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-muted-foreground">Loading commit...</p>
+      </div>
+    );
+  }
+
+  if (error || !commit || !stats) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-red-500">{error || "Failed to load commit"}</p>
+      </div>
+    );
+  }
+
+  const [title, ...description] = commit.message.split("\n");
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-md">
+        <div className="p-4 space-y-2">
+          <h1 className="text-xl font-bold">{title}</h1>
+          {description.join("\n").trim() && (
+            <pre className="whitespace-pre-wrap text-sm text-muted-foreground font-sans">
+              {description.join("\n").trim()}
+            </pre>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {commit.branchesHead.map((branch) => (
+              <Badge key={branch.id} variant="secondary">
+                {branch.name}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 border-t bg-muted/20 text-sm">
+          <span>
+            <span className="font-medium">
+              {commit.author.firstName} {commit.author.lastName}
+            </span>{" "}
+            committed {formatTimeAgo(new Date(commit.timestamp))}
+          </span>
+          <span className="flex items-center gap-3 text-muted-foreground">
+            {commit.parentCommits.length > 0 && (
+              <span>
+                {commit.parentCommits.length > 1 ? "parents" : "parent"}{" "}
+                {commit.parentCommits.map((parent, index) => (
+                  <span key={parent.id}>
+                    {index > 0 && " + "}
+                    <Link href={`/${ownerId}/${repoId}/commit/${parent.id}`} className="font-mono hover:underline">
+                      {parent.id.slice(0, 10)}
+                    </Link>
+                  </span>
+                ))}
+              </span>
+            )}
+            <span className="flex items-center gap-1">
+              <GitCommitHorizontal className="h-4 w-4" />
+              <code>{commit.id.slice(0, 10)}</code>
+            </span>
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          Showing {stats.files} changed {stats.files === 1 ? "file" : "files"} with{" "}
+          <span className="text-green-600">{stats.additions} additions</span> and{" "}
+          <span className="text-red-600">{stats.deletions} deletions</span>
+        </span>
+        <div className="flex gap-1">
+          <Button variant={split ? "outline" : "secondary"} size="sm" onClick={() => setSplit(false)}>
+            <Rows3 className="h-4 w-4 mr-1" />
+            Unified
+          </Button>
+          <Button variant={split ? "secondary" : "outline"} size="sm" onClick={() => setSplit(true)}>
+            <Columns2 className="h-4 w-4 mr-1" />
+            Split
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {files.map((file) => (
+          <FileDiffView key={file.id} file={file} split={split} comments={comments} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CommentableCode } from "@/components/repository/line-comments";
+import { formatTimeAgo } from "@/lib/utils";
+
+interface BlameAuthor {
+  userId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface BlameData {
+  lines: string[];
+  ranges: { commitId: string; startLine: number; lineCount: number }[];
+  commits: { id: string; message: string; timestamp: string; author: BlameAuthor }[];
+  contributors: { author: BlameAuthor; lines: number }[];
+}
+
+interface BlameViewProps {
+  ownerId: string;
+  repoId: string;
+  branch: string;
+  filePath: string;
+}
+
+export default function BlameView({ ownerId, repoId, branch, filePath }: BlameViewProps) {
+  const [blame, setBlame] = useState<BlameData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBlame = async () => {
+      setIsLoading(true);
+      try {
+        const query = new URLSearchParams({ branch, path: filePath });
+        const response = await fetch(`/api/repositories/${ownerId}/${repoId}/blame?${query}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "File not found" : `Error: ${response.status}`);
+        }
+        setBlame(await response.json());
+        setError(null);
+      } catch (err) {
+        console.error("Failed to fetch blame:", err);
+        setError(err instanceof Error ? err.message : "Failed to load blame");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchBlame();
+  }, [ownerId, repoId, branch, filePath]);
+
+  if (isLoading) {
+    return (
+      <div className="p-4 space-y-2">
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-3/4" />
+      </div>
+    );
+  }
+
+  if (error || !blame) {
+    return <div className="p-4 text-red-600">{error || "Failed to load blame"}</div>;
+  }
+
+  const commits = new Map(blame.commits.map((commit) => [commit.id, commit]));
+  const language = filePath.split(".").pop()?.toLowerCase() || "";
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-2 border-b text-xs text-muted-foreground">
+        {blame.contributors.map(({ author, lines }) => (
+          <span key={author.userId}>
+            <span className="font-medium text-foreground">
+              {author.firstName} {author.lastName}
+            </span>{" "}
+            {lines} {lines === 1 ? "line" : "lines"} ({Math.round((lines / Math.max(blame.lines.length, 1)) * 100)}%)
+          </span>
+        ))}
+      </div>
+      {blame.ranges.map((range) => {
+        const commit = commits.get(range.commitId);
+        const lines = blame.lines.slice(range.startLine - 1, range.startLine - 1 + range.lineCount);
+
+        return (
+          <div key={range.startLine} className="grid grid-cols-[16rem_1fr] border-b last:border-b-0">
+            <div className="px-3 py-1 border-r text-xs space-y-0.5 min-w-0">
+              {commit ? (
+                <>
+                  <Link
+                    href={`/${ownerId}/${repoId}/commit/${commit.id}`}
+                    className="block truncate hover:underline"
+                    title={commit.message}
+                  >
+                    {commit.message.split("\n")[0]}
+                  </Link>
+                  <div className="text-muted-foreground truncate">
+                    {commit.author.firstName} {commit.author.lastName} · {formatTimeAgo(new Date(commit.timestamp))}
+                  </div>
+                </>
+              ) : (
+                <span className="font-mono text-muted-foreground">{range.commitId.slice(0, 10)}</span>
+              )}
+            </div>
+            <div className="overflow-x-auto min-w-0">
+              <CommentableCode
+                filePath={filePath}
+                language={language}
+                columns={[
+                  lines.map((line, index) => ({
+                    content: line,
+                    cells: [String(range.startLine + index)],
+                    anchor: null,
+                  })),
+                ]}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
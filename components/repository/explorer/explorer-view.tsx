@@ -16,6 +16,9 @@ import { useMemo, useState, useEffect } from "react";
 import { cn } from "@/lib/utils";
 import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
+import { CommentableCode, useLineComments } from "@/components/repository/line-comments";
+import BlameView from "@/components/repository/explorer/blame-view";
+import { Button } from "@/components/ui/button";
 
 // Define types based on Prisma schema
 interface TreeNode {
@@ -28,6 +31,7 @@ interface FileType {
   content?: string; // Text content for text files
   url?: string; // URL for binary files
   isBinary: boolean;
+  commitId?: string; // Commit the content was read at; enables line comments
 }
 
 interface CommitInfo {
@@ -134,6 +138,37 @@ const deriveFolderContents = (
   return tree;
 };
 
+// Text file with line comment threads anchored to the commit it was read at
+const CommentableBlob = ({
+  ownerId,
+  repoId,
+  commitId,
+  filePath,
+  content,
+}: {
+  ownerId: string;
+  repoId: string;
+  commitId: string;
+  filePath: string;
+  content: string;
+}) => {
+  const comments = useLineComments(ownerId, repoId, commitId, filePath);
+  const lines = content.replace(/\n$/, "").split("\n").map((line, index) => ({
+    content: line,
+    cells: [String(index + 1)],
+    anchor: { side: "NEW" as const, line: index + 1 },
+  }));
+
+  return (
+    <CommentableCode
+      filePath={filePath}
+      language={filePath.split(".").pop()?.toLowerCase() || ""}
+      columns={[lines]}
+      controller={comments}
+    />
+  );
+};
+
 export default function ExplorerView({
   fileTree,
   fileData,
@@ -149,6 +184,7 @@ export default function ExplorerView({
 
   const { ownerId, repoId, branch } = params;
   const [lastCommits, setLastCommits] = useState<Record<string, CommitInfo>>({});
+  const [showBlame, setShowBlame] = useState(false);
 
   const pathSegments = pathname?.split("/") ?? [];
   const relativePath =
@@ -353,12 +389,34 @@ export default function ExplorerView({
     const url = fileData.url || "";
     return (
       <div className="border rounded-md overflow-hidden">
-        <div className="bg-muted/40 border-b p-3">
+        <div className="bg-muted/40 border-b p-3 flex items-center justify-between">
           <h2 className="font-medium">{fileData.name}</h2>
+          {!fileData.isBinary && (
+            <div className="flex gap-1">
+              <Button variant={showBlame ? "outline" : "secondary"} size="sm" onClick={() => setShowBlame(false)}>
+                Code
+              </Button>
+              <Button variant={showBlame ? "secondary" : "outline"} size="sm" onClick={() => setShowBlame(true)}>
+                Blame
+              </Button>
+            </div>
+          )}
         </div>
         <div className="rounded-lg bg-background flex flex-col">
           <div className="overflow-auto">
-            <ContentViewer file={fileData} url={url} />
+            {showBlame && !fileData.isBinary ? (
+              <BlameView ownerId={ownerId} repoId={repoId} branch={branch} filePath={formattedPath} />
+            ) : fileData.commitId && !fileData.isBinary && !fileData.name.toLowerCase().endsWith(".svg") ? (
+              <CommentableBlob
+                ownerId={ownerId}
+                repoId={repoId}
+                commitId={fileData.commitId}
+                filePath={formattedPath}
+                content={fileData.content ?? ""}
+              />
+            ) : (
+              <ContentViewer file={fileData} url={url} />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { GitFork } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { forkRepository } from "@/lib/repositoryService";
+
+interface ForkButtonProps {
+  owner: string;
+  repository: string;
+  forkCount: number;
+}
+
+export function ForkButton({ owner, repository, forkCount }: ForkButtonProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [target, setTarget] = useState({ groupUserName: "", name: repository });
+
+  const openDialog = async () => {
+    setIsOpen(true);
+    if (target.groupUserName) return;
+
+    // Most people fork into their own group
+    try {
+      const response = await fetch("/api/groups/my-group");
+      if (response.ok) {
+        const group: { groupUserName: string } = await response.json();
+        setTarget((prev) => ({ ...prev, groupUserName: prev.groupUserName || group.groupUserName }));
+      }
+    } catch (err) {
+      console.error("Failed to fetch group:", err);
+    }
+  };
+
+  const handleFork = async () => {
+    setIsSubmitting(true);
+    try {
+      const fork = await forkRepository(owner, repository, {
+        groupUserName: target.groupUserName.trim(),
+        name: target.name.trim() || undefined,
+      });
+      toast.success(`Forked into ${fork.groupUserName}/${fork.name}`);
+      setIsOpen(false);
+      router.push(`/${fork.groupUserName}/${fork.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to fork repository");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={openDialog}>
+        <GitFork className="h-4 w-4 mr-1" />
+        Fork
+        <span className="ml-1 rounded-full bg-muted px-1.5 text-xs">{forkCount}</span>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Fork {owner}/{repository}
+            </DialogTitle>
+            <DialogDescription>
+              Copies every branch and commit into a new repository of the group. Merge requests from the fork can
+              later be opened back here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="fork-group">Group</Label>
+              <Input
+                id="fork-group"
+                placeholder="Group username"
+                value={target.groupUserName}
+                onChange={(e) => setTarget((prev) => ({ ...prev, groupUserName: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fork-name">Repository name</Label>
+              <Input
+                id="fork-name"
+                value={target.name}
+                onChange={(e) => setTarget((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleFork} disabled={isSubmitting || !target.groupUserName.trim()}>
+              {isSubmitting ? "Forking..." : "Create fork"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ArrowLeft, CircleCheck, CircleDot, GitCommitHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Markdown } from "@/components/markdown";
+import { IssueState, parseLabels } from "@/components/repository/issues-tab";
+
+interface Person {
+  userId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface IssueDetails {
+  id: string;
+  number: number;
+  title: string;
+  body: string | null;
+  state: IssueState;
+  labels: string[];
+  createdAt: string;
+  closedAt: string | null;
+  author: Person;
+  assignees: { user: Person }[];
+  comments: {
+    id: string;
+    body: string;
+    createdAt: string;
+    author: Person & { role: string };
+  }[];
+  commitReferences: {
+    closes: boolean;
+    commit: { id: string; message: string; timestamp: string; author: Person };
+  }[];
+}
+
+interface Permissions {
+  canEdit: boolean;
+  canAssign: boolean;
+  canComment: boolean;
+}
+
+interface IssueDetailProps {
+  ownerId: string;
+  repoId: string;
+  issueNumber: string;
+}
+
+export function IssueDetail({ ownerId, repoId, issueNumber }: IssueDetailProps) {
+  const baseUrl = `/api/repositories/${ownerId}/${repoId}/issues/${issueNumber}`;
+  const [issue, setIssue] = useState<IssueDetails | null>(null);
+  const [assignableUsers, setAssignableUsers] = useState<Person[]>([]);
+  const [permissions, setPermissions] = useState<Permissions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [comment, setComment] = useState("");
+  const [labelInput, setLabelInput] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchIssue = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? "Issue not found" : `Error: ${response.status}`);
+      }
+      const data = await response.json();
+      setIssue(data.issue);
+      setAssignableUsers(data.assignableUsers);
+      setPermissions(data.permissions);
+      setLabelInput(data.issue.labels.join(", "));
+      setError(null);
+    } catch (err) {
+      console.error("Failed to fetch issue:", err);
+      setError(err instanceof Error ? err.message : "Failed to load issue");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    fetchIssue();
+  }, [fetchIssue]);
+
+  const updateIssue = async (changes: object, successMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update issue");
+      }
+      setIssue(data);
+      setLabelInput(data.labels.join(", "));
+      toast.success(successMessage);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update issue");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleComment = async (closeAfter: boolean) => {
+    setIsSubmitting(true);
+    try {
+      if (comment.trim()) {
+        const response = await fetch(`${baseUrl}/comments`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ body: comment }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to add comment");
+        }
+        setComment("");
+      }
+      if (closeAfter && issue) {
+        await updateIssue(
+          { state: issue.state === "OPEN" ? "CLOSED" : "OPEN" },
+          issue.state === "OPEN" ? "Issue closed" : "Issue reopened"
+        );
+      }
+      await fetchIssue();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add comment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleAssignee = (userId: string, checked: boolean) => {
+    if (!issue) return;
+    const current = issue.assignees.map((a) => a.user.userId);
+    const assigneeIds = checked ? [...current, userId] : current.filter((id) => id !== userId);
+    updateIssue({ assigneeIds }, "Assignees updated");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-muted-foreground">Loading issue...</p>
+      </div>
+    );
+  }
+
+  if (error || !issue || !permissions) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-red-500">{error || "Failed to load issue"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link href={`/${ownerId}/${repoId}/issues`} className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        All issues
+      </Link>
+
+      <div>
+        <h1 className="text-2xl font-bold">
+          {issue.title} <span className="text-muted-foreground font-normal">#{issue.number}</span>
+        </h1>
+        <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+          <Badge className={issue.state === "OPEN" ? "bg-green-600" : "bg-purple-600"}>
+            {issue.state === "OPEN" ? <CircleDot className="h-3 w-3 mr-1" /> : <CircleCheck className="h-3 w-3 mr-1" />}
+            {issue.state === "OPEN" ? "Open" : "Closed"}
+          </Badge>
+          {issue.author.firstName} {issue.author.lastName} opened this issue on{" "}
+          {new Date(issue.createdAt).toLocaleDateString()}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="md:col-span-3 space-y-4">
+          <div className="border rounded-md">
+            <div className="px-4 py-2 bg-muted/20 border-b text-sm font-medium">
+              {issue.author.firstName} {issue.author.lastName}
+            </div>
+            <div className="p-4">
+              {issue.body ? (
+                <Markdown content={issue.body} allowHtml={false} />
+              ) : (
+                <p className="text-sm text-muted-foreground italic">No description provided.</p>
+              )}
+            </div>
+          </div>
+
+          {issue.commitReferences.map((reference) => (
+            <div key={reference.commit.id} className="flex items-center gap-2 text-sm text-muted-foreground pl-4">
+              <GitCommitHorizontal className="h-4 w-4" />
+              {reference.commit.author.firstName} {reference.closes ? "closed this in" : "referenced this in"}
+              <code className="font-mono text-foreground">{reference.commit.id.slice(0, 10)}</code>
+              <span className="truncate">{reference.commit.message.split("\n")[0]}</span>
+            </div>
+          ))}
+
+          {issue.comments.map((c) => (
+            <div key={c.id} className="border rounded-md">
+              <div className="flex items-center gap-2 px-4 py-2 bg-muted/20 border-b text-sm">
+                <span className="font-medium">
+                  {c.author.firstName} {c.author.lastName}
+                </span>
+                {c.author.role !== "STUDENT" && (
+                  <span className="text-xs px-2 py-0.5 font-medium rounded-full bg-blue-100 text-blue-800">
+                    {c.author.role}
+                  </span>
+                )}
+                <span className="text-muted-foreground">commented on {new Date(c.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="p-4">
+                <Markdown content={c.body} allowHtml={false} />
+              </div>
+            </div>
+          ))}
+
+          {permissions.canComment && (
+            <div className="border rounded-md p-4 space-y-3">
+              <Textarea
+                placeholder="Leave a comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                className="min-h-[100px]"
+              />
+              <div className="flex justify-end gap-2">
+                {permissions.canEdit && (
+                  <Button variant="outline" disabled={isSubmitting} onClick={() => handleComment(true)}>
+                    {issue.state === "OPEN" ? "Close issue" : "Reopen issue"}
+                  </Button>
+                )}
+                <Button disabled={isSubmitting || !comment.trim()} onClick={() => handleComment(false)}>
+                  Comment
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6 text-sm">
+          <div>
+            <h3 className="font-semibold mb-2">Assignees</h3>
+            {permissions.canAssign ? (
+              <div className="space-y-2">
+                {assignableUsers.map((user) => (
+                  <div key={user.userId} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`assignee-${user.userId}`}
+                      checked={issue.assignees.some((a) => a.user.userId === user.userId)}
+                      disabled={isSubmitting}
+                      onCheckedChange={(checked) => toggleAssignee(user.userId, checked === true)}
+                    />
+                    <Label htmlFor={`assignee-${user.userId}`} className="font-normal">
+                      {user.firstName} {user.lastName}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            ) : issue.assignees.length > 0 ? (
+              <ul className="space-y-1">
+                {issue.assignees.map((a) => (
+                  <li key={a.user.userId}>
+                    {a.user.firstName} {a.user.lastName}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground">No one assigned</p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-2">Labels</h3>
+            {permissions.canEdit ? (
+              <Input
+                value={labelInput}
+                placeholder="bug, docs"
+                disabled={isSubmitting}
+                onChange={(e) => setLabelInput(e.target.value)}
+                onBlur={() => {
+                  const labels = parseLabels(labelInput);
+                  if (labels.join(",") !== issue.labels.join(",")) {
+                    updateIssue({ labels }, "Labels updated");
+                  }
+                }}
+              />
+            ) : null}
+            <div className="flex flex-wrap gap-1 mt-2">
+              {issue.labels.length > 0 ? (
+                issue.labels.map((l) => (
+                  <Badge key={l} variant="secondary">
+                    {l}
+                  </Badge>
+                ))
+              ) : (
+                <p className="text-muted-foreground">None yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,268 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { CircleCheck, CircleDot, MessageSquare, PlusIcon, SearchIcon, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type IssueState = "OPEN" | "CLOSED";
+
+interface IssueSummary {
+  id: string;
+  number: number;
+  title: string;
+  state: IssueState;
+  labels: string[];
+  createdAt: string;
+  author: { userId: string; firstName: string; lastName: string };
+  assignees: { user: { userId: string; firstName: string; lastName: string } }[];
+  _count: { comments: number };
+}
+
+const ALL_LABELS = "__all__";
+
+// Splits a comma separated label list typed into the form
+export function parseLabels(value: string): string[] {
+  return value
+    .split(",")
+    .map((label) => label.trim().toLowerCase())
+    .filter(Boolean);
+}
+
 interface IssuesTabProps {
   ownerId: string;
   repoId: string;
 }
 
 export function IssuesTab({ ownerId, repoId }: IssuesTabProps) {
+  const baseUrl = `/api/repositories/${ownerId}/${repoId}/issues`;
+  const [issues, setIssues] = useState<IssueSummary[]>([]);
+  const [counts, setCounts] = useState<Record<IssueState, number> | null>(null);
+  const [labels, setLabels] = useState<string[]>([]);
+  const [state, setState] = useState<IssueState>("OPEN");
+  const [label, setLabel] = useState(ALL_LABELS);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showNewForm, setShowNewForm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [form, setForm] = useState({ title: "", body: "", labels: "" });
+
+  const fetchIssues = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ state });
+      if (label !== ALL_LABELS) query.set("label", label);
+      if (searchQuery.trim()) query.set("search", searchQuery.trim());
+
+      const response = await fetch(`${baseUrl}?${query.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status}`);
+      }
+      const data = await response.json();
+      setIssues(data.issues);
+      setCounts(data.counts);
+      setLabels(data.labels);
+    } catch (err) {
+      console.error("Failed to fetch issues:", err);
+      setError("Failed to load issues");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl, state, label, searchQuery]);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [fetchIssues]);
+
+  const handleCreate = async () => {
+    if (!form.title.trim()) {
+      toast.error("Please enter a title");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: form.title, body: form.body, labels: parseLabels(form.labels) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.errors ? Object.values(data.errors).flat().join(", ") : data.error);
+      }
+
+      toast.success(`Issue #${data.number} created`);
+      setForm({ title: "", body: "", labels: "" });
+      setShowNewForm(false);
+      setState("OPEN");
+      await fetchIssues();
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to create issue");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
-    <div className="border rounded-lg shadow-sm overflow-hidden p-8 text-center">
-      <h2 className="text-xl font-semibold mb-4">Issues</h2>
-      <p className="text-muted-foreground">
-        No issues have been created for this repository yet.
-      </p>
+    <div className="border rounded-lg shadow-sm overflow-hidden">
+      <div className="bg-background border-b p-4">
+        <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setState("OPEN")}
+              className={`flex items-center ${state === "OPEN" ? "font-semibold border-b-2 border-red-500 -mb-px pb-2" : "text-muted-foreground"}`}
+            >
+              <CircleDot className="h-4 w-4 mr-1 text-green-600" />
+              <span>{counts ? `${counts.OPEN} ` : ""}Open</span>
+            </button>
+            <button
+              onClick={() => setState("CLOSED")}
+              className={`flex items-center ${state === "CLOSED" ? "font-semibold border-b-2 border-red-500 -mb-px pb-2" : "text-muted-foreground"}`}
+            >
+              <CircleCheck className="h-4 w-4 mr-1 text-purple-600" />
+              <span>{counts ? `${counts.CLOSED} ` : ""}Closed</span>
+            </button>
+          </div>
+
+          <Button
+            onClick={() => setShowNewForm((prev) => !prev)}
+            className="bg-green-600 hover:bg-green-700 text-white flex items-center gap-1"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>New issue</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-muted/30 p-4 border-b flex flex-col md:flex-row gap-3 items-start md:items-center">
+        <div className="flex-grow relative w-full">
+          <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search issues or #number"
+            className="pl-9"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+        <Select value={label} onValueChange={setLabel}>
+          <SelectTrigger className="w-44">
+            <Tag className="h-4 w-4 mr-1" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_LABELS}>All labels</SelectItem>
+            {labels.map((l) => (
+              <SelectItem key={l} value={l}>
+                {l}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {showNewForm && (
+        <div className="p-4 border-b bg-background space-y-4">
+          <Input
+            placeholder="Title"
+            value={form.title}
+            onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+            className="text-base font-medium"
+          />
+          <Textarea
+            placeholder="Describe the issue"
+            value={form.body}
+            onChange={(e) => setForm((prev) => ({ ...prev, body: e.target.value }))}
+            className="min-h-[120px]"
+          />
+          <Input
+            placeholder="Labels, separated by commas"
+            value={form.labels}
+            onChange={(e) => setForm((prev) => ({ ...prev, labels: e.target.value }))}
+          />
+          <div className="flex justify-between items-center">
+            <div className="text-xs text-muted-foreground">
+              Markdown formatting supported. Mention <code>#{"{number}"}</code> in a commit message to link it, or{" "}
+              <code>fixes #{"{number}"}</code> to close it.
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowNewForm(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700 text-white">
+                {isSubmitting ? "Submitting..." : "Submit new issue"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y">
+        {isLoading ? (
+          <div className="p-4 flex justify-center">
+            <p className="text-muted-foreground">Loading issues...</p>
+          </div>
+        ) : error ? (
+          <div className="p-4 flex justify-center">
+            <p className="text-red-500">{error}</p>
+          </div>
+        ) : issues.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className="text-xl font-medium mb-2">No issues</div>
+            <p className="text-muted-foreground">
+              {searchQuery || label !== ALL_LABELS
+                ? "Try a different search term or label."
+                : `There are no ${state.toLowerCase()} issues in this repository.`}
+            </p>
+          </div>
+        ) : (
+          issues.map((issue) => (
+            <Link
+              key={issue.id}
+              href={`/${ownerId}/${repoId}/issues/${issue.number}`}
+              className="flex items-start justify-between gap-4 p-4 hover:bg-muted/10"
+            >
+              <div className="flex items-start gap-3">
+                {issue.state === "OPEN" ? (
+                  <CircleDot className="h-5 w-5 mt-0.5 text-green-600" />
+                ) : (
+                  <CircleCheck className="h-5 w-5 mt-0.5 text-purple-600" />
+                )}
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{issue.title}</span>
+                    {issue.labels.map((l) => (
+                      <Badge key={l} variant="secondary" className="text-xs">
+                        {l}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    #{issue.number} opened {new Date(issue.createdAt).toLocaleDateString()} by {issue.author.firstName}{" "}
+                    {issue.author.lastName}
+                    {issue.assignees.length > 0 &&
+                      ` · assigned to ${issue.assignees.map((a) => a.user.firstName).join(", ")}`}
+                  </div>
+                </div>
+              </div>
+              {issue._count.comments > 0 && (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                  <MessageSquare className="h-4 w-4" />
+                  {issue._count.comments}
+                </span>
+              )}
+            </Link>
+          ))
+        )}
+      </div>
     </div>
   );
-} 
\ No newline at end of file
+}
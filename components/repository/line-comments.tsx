@@ -0,0 +1,441 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CheckCircle2, MessageSquare, RotateCcw } from "lucide-react";
+import type { ShikiHighlighterProps } from "react-shiki";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Markdown } from "@/components/markdown";
+import { CodeHighlighter } from "@/components/content-viewer";
+import { formatTimeAgo } from "@/lib/utils";
+
+export type DiffSide = "OLD" | "NEW";
+type FeedbackStatus = "OPEN" | "ADDRESSED" | "CLOSED";
+
+interface CommentAuthor {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+export interface LineCommentThreadData {
+  id: string;
+  content: string;
+  status: FeedbackStatus;
+  createdAt: string;
+  filePath: string;
+  lineStart: number;
+  lineEnd: number;
+  lineSide: DiffSide;
+  author: CommentAuthor;
+  replies: { id: string; content: string; createdAt: string; author: CommentAuthor }[];
+}
+
+export interface LineAnchor {
+  side: DiffSide;
+  line: number;
+}
+
+interface ComposerTarget extends LineAnchor {
+  filePath: string;
+  /** First line of the range; `line` is the last */
+  lineStart: number;
+}
+
+export interface LineCommentsController {
+  canReview: boolean;
+  threads: LineCommentThreadData[];
+  composer: ComposerTarget | null;
+  isSubmitting: boolean;
+  /** Starts a comment on a line, or extends the open one to a range when `extend` is set */
+  openComposer: (filePath: string, anchor: LineAnchor, extend?: boolean) => void;
+  closeComposer: () => void;
+  createThread: (content: string) => Promise<boolean>;
+  reply: (threadId: string, content: string) => Promise<boolean>;
+  setStatus: (threadId: string, status: FeedbackStatus) => Promise<void>;
+}
+
+export const anchorKey = (filePath: string, anchor: LineAnchor) => `${filePath}:${anchor.side}:${anchor.line}`;
+
+// Threads are shown below the last line of the range they were left on
+export const threadKey = (thread: LineCommentThreadData) =>
+  anchorKey(thread.filePath, { side: thread.lineSide, line: thread.lineEnd });
+
+/**
+ * Loads the line comment threads of a commit (or of one file in it) and exposes the
+ * actions for starting, replying to and resolving them.
+ */
+export function useLineComments(
+  ownerId: string,
+  repoId: string,
+  commitId: string | undefined,
+  filePath?: string
+): LineCommentsController {
+  const baseUrl = `/api/repositories/${ownerId}/${repoId}/line-comments`;
+  const [threads, setThreads] = useState<LineCommentThreadData[]>([]);
+  const [canReview, setCanReview] = useState(false);
+  const [composer, setComposer] = useState<ComposerTarget | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!commitId) return;
+
+    const fetchThreads = async () => {
+      try {
+        const query = new URLSearchParams({ commitId, ...(filePath && { filePath }) });
+        const response = await fetch(`${baseUrl}?${query}`);
+        if (!response.ok) {
+          throw new Error(`Error: ${response.status}`);
+        }
+        const data = await response.json();
+        setThreads(data.threads);
+        setCanReview(data.permissions.canReview);
+      } catch (err) {
+        console.error("Failed to fetch line comments:", err);
+      }
+    };
+
+    fetchThreads();
+  }, [baseUrl, commitId, filePath]);
+
+  // Sends a request that returns the updated thread and swaps it into the list
+  const send = useCallback(async (url: string, method: string, body: object) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      setThreads((current) => [...current.filter((thread) => thread.id !== data.id), data]);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  return {
+    canReview,
+    threads,
+    composer,
+    isSubmitting,
+    openComposer: (path, anchor, extend) =>
+      setComposer((current) =>
+        extend && current && current.filePath === path && current.side === anchor.side
+          ? {
+              ...current,
+              lineStart: Math.min(current.lineStart, anchor.line),
+              line: Math.max(current.line, anchor.line),
+            }
+          : { filePath: path, ...anchor, lineStart: anchor.line }
+      ),
+    closeComposer: () => setComposer(null),
+    createThread: async (content) => {
+      if (!composer || !commitId) return false;
+      const created = await send(baseUrl, "POST", {
+        commitId,
+        filePath: composer.filePath,
+        lineStart: composer.lineStart,
+        lineEnd: composer.line,
+        lineSide: composer.side,
+        content,
+      });
+      if (created) setComposer(null);
+      return created;
+    },
+    reply: (threadId, content) => send(`${baseUrl}/${threadId}/replies`, "POST", { content }),
+    setStatus: async (threadId, status) => {
+      await send(`${baseUrl}/${threadId}`, "PATCH", { status });
+    },
+  };
+}
+
+const CommentForm = ({
+  placeholder,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) => {
+  const [content, setContent] = useState("");
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        placeholder={placeholder}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        className="min-h-[80px] text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          disabled={isSubmitting || !content.trim()}
+          onClick={async () => {
+            if (await onSubmit(content)) setContent("");
+          }}
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CommentBody = ({ author, createdAt, content }: { author: CommentAuthor; createdAt: string; content: string }) => (
+  <div className="space-y-1">
+    <div className="flex items-center gap-2 text-xs">
+      <span className="font-medium">
+        {author.firstName} {author.lastName}
+      </span>
+      {author.role !== "STUDENT" && (
+        <span className="px-2 py-0.5 font-medium rounded-full bg-blue-100 text-blue-800">{author.role}</span>
+      )}
+      <span className="text-muted-foreground">{formatTimeAgo(new Date(createdAt))}</span>
+    </div>
+    <div className="text-sm">
+      <Markdown content={content} allowHtml={false} />
+    </div>
+  </div>
+);
+
+export const LineCommentThread = ({
+  thread,
+  controller,
+}: {
+  thread: LineCommentThreadData;
+  controller: LineCommentsController;
+}) => {
+  const isResolved = thread.status !== "OPEN";
+  const [isExpanded, setIsExpanded] = useState(!isResolved);
+
+  return (
+    <div className="border rounded-md bg-background font-sans">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b bg-muted/20 text-xs">
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <MessageSquare className="h-3.5 w-3.5" />
+          {thread.lineStart === thread.lineEnd
+            ? `Line ${thread.lineStart}`
+            : `Lines ${thread.lineStart}-${thread.lineEnd}`}
+          {thread.lineSide === "OLD" && " (previous version)"}
+          {isResolved && <Badge variant="secondary">{thread.status === "ADDRESSED" ? "Resolved" : "Closed"}</Badge>}
+        </span>
+        <span className="flex items-center gap-1">
+          {isResolved && (
+            <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setIsExpanded(!isExpanded)}>
+              {isExpanded ? "Hide" : "Show"}
+            </Button>
+          )}
+          {controller.canReview && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              disabled={controller.isSubmitting}
+              onClick={() => controller.setStatus(thread.id, isResolved ? "OPEN" : "ADDRESSED")}
+            >
+              {isResolved ? (
+                <>
+                  <RotateCcw className="h-3 w-3 mr-1" /> Reopen
+                </>
+              ) : (
+                <>
+                  <CheckCircle2 className="h-3 w-3 mr-1" /> Resolve
+                </>
+              )}
+            </Button>
+          )}
+        </span>
+      </div>
+      {isExpanded && (
+        <div className="p-3 space-y-3">
+          <CommentBody author={thread.author} createdAt={thread.createdAt} content={thread.content} />
+          {thread.replies.map((reply) => (
+            <div key={reply.id} className="pl-3 border-l-2">
+              <CommentBody author={reply.author} createdAt={reply.createdAt} content={reply.content} />
+            </div>
+          ))}
+          {controller.canReview && thread.status !== "CLOSED" && (
+            <CommentForm
+              placeholder="Reply"
+              submitLabel="Reply"
+              isSubmitting={controller.isSubmitting}
+              onSubmit={(content) => controller.reply(thread.id, content)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export interface CodeLine {
+  content: string;
+  /** Gutter cells, such as old and new line numbers */
+  cells: string[];
+  className?: string;
+  /** Where a comment on this line is stored; null for filler lines */
+  anchor: LineAnchor | null;
+}
+
+type Transformers = NonNullable<ShikiHighlighterProps["transformers"]>;
+
+// Gutter cells are prepended to each highlighted line so numbers always line up with the code
+function gutterTransformer(lines: CodeLine[], firstRow: number, column: number, clickable: boolean): Transformers {
+  return [
+    {
+      line(node, lineNumber) {
+        const line = lines[lineNumber - 1];
+        const canComment = clickable && !!line.anchor;
+        node.properties.class = `${node.properties.class ?? ""} inline-block w-full ${line.className ?? ""}`;
+        node.children.unshift(
+          ...line.cells.map((cell) => ({
+            type: "element" as const,
+            tagName: "span",
+            properties: {
+              class: `inline-block w-10 pr-2 text-right select-none text-muted-foreground/70 ${
+                canComment ? "cursor-pointer hover:text-blue-600" : ""
+              }`,
+              ...(canComment && {
+                "data-comment-row": String(firstRow + lineNumber - 1),
+                "data-comment-column": String(column),
+                title: "Comment on this line",
+              }),
+            },
+            children: [{ type: "text" as const, value: cell || " " }],
+          }))
+        );
+      },
+    },
+  ];
+}
+
+/**
+ * Renders one or more aligned columns of highlighted code with comment threads shown
+ * below the lines they belong to. Clicking a line number starts a new thread.
+ */
+export const CommentableCode = ({
+  filePath,
+  language,
+  columns,
+  controller,
+}: {
+  filePath: string;
+  language: string;
+  columns: CodeLine[][];
+  controller?: LineCommentsController;
+}) => {
+  const rowCount = columns[0]?.length ?? 0;
+  const canComment = !!controller?.canReview;
+
+  const threadsByKey = new Map<string, LineCommentThreadData[]>();
+  for (const thread of controller?.threads ?? []) {
+    if (thread.filePath !== filePath) continue;
+    threadsByKey.set(threadKey(thread), [...(threadsByKey.get(threadKey(thread)) ?? []), thread]);
+  }
+
+  // The distinct anchors of a row; a context line appears in both columns with the same anchor
+  const rowAnchors = (row: number) => {
+    const anchors = new Map<string, LineAnchor>();
+    for (const column of columns) {
+      const anchor = column[row].anchor;
+      if (anchor) anchors.set(anchorKey(filePath, anchor), anchor);
+    }
+    return anchors;
+  };
+
+  // Split the code after every row that has threads or the open comment form
+  const segments: { start: number; end: number; anchors: Map<string, LineAnchor> }[] = [];
+  let start = 0;
+  for (let row = 0; row < rowCount; row++) {
+    const anchors = rowAnchors(row);
+    const hasSlot = [...anchors.keys()].some(
+      (key) =>
+        threadsByKey.has(key) ||
+        (controller?.composer && anchorKey(controller.composer.filePath, controller.composer) === key)
+    );
+    if (hasSlot || row === rowCount - 1) {
+      segments.push({ start, end: row + 1, anchors: hasSlot ? anchors : new Map() });
+      start = row + 1;
+    }
+  }
+
+  const handleClick = (event: React.MouseEvent) => {
+    const cell = (event.target as HTMLElement).closest<HTMLElement>("[data-comment-row]");
+    if (!cell || !controller) return;
+    const anchor = columns[Number(cell.dataset.commentColumn)]?.[Number(cell.dataset.commentRow)]?.anchor;
+    if (anchor) controller.openComposer(filePath, anchor, event.shiftKey);
+  };
+
+  return (
+    <div onClick={canComment ? handleClick : undefined}>
+      {segments.map((segment) => (
+        <Fragment key={segment.start}>
+          <div className={columns.length > 1 ? "grid grid-cols-2 divide-x" : undefined}>
+            {columns.map((column, columnIndex) => {
+              const lines = column.slice(segment.start, segment.end);
+              return (
+                <div key={columnIndex} className="overflow-x-auto">
+                  <CodeHighlighter
+                    language={language}
+                    className="text-xs"
+                    transformers={gutterTransformer(lines, segment.start, columnIndex, canComment)}
+                  >
+                    {lines.map((line) => line.content).join("\n")}
+                  </CodeHighlighter>
+                </div>
+              );
+            })}
+          </div>
+          {controller &&
+            [...segment.anchors].map(([key, anchor]) => (
+              <div key={key} className="px-4 py-2 space-y-2 bg-muted/10 border-y">
+                {(threadsByKey.get(key) ?? []).map((thread) => (
+                  <LineCommentThread key={thread.id} thread={thread} controller={controller} />
+                ))}
+                {controller.composer && anchorKey(controller.composer.filePath, controller.composer) === key && (
+                  <div className="border rounded-md p-3 bg-background font-sans">
+                    <p className="text-xs text-muted-foreground mb-2">
+                      {controller.composer.lineStart === anchor.line
+                        ? `Comment on line ${anchor.line}`
+                        : `Comment on lines ${controller.composer.lineStart}-${anchor.line}`}
+                      {anchor.side === "OLD" && " of the previous version"}
+                      {" "}(shift-click another line number to select a range)
+                    </p>
+                    <CommentForm
+                      placeholder="Leave a review comment"
+                      submitLabel="Comment"
+                      isSubmitting={controller.isSubmitting}
+                      onSubmit={controller.createThread}
+                      onCancel={controller.closeComposer}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+        </Fragment>
+      ))}
+    </div>
+  );
+};
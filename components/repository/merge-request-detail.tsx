@@ -0,0 +1,314 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle2, FileText, GitMerge, MessageSquare, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MergeRequestStatus, sourceBranchLabel, STATUS_STYLES } from "@/components/repository/pulls-tab";
+
+const REVIEW_DECISIONS = ["APPROVED", "CHANGES_REQUESTED", "REJECTED", "COMMENTED"] as const;
+type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  APPROVED: "Approve",
+  CHANGES_REQUESTED: "Request changes",
+  REJECTED: "Reject",
+  COMMENTED: "Comment",
+};
+
+interface Person {
+  userId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface MergeRequestDetails {
+  id: string;
+  title: string;
+  description: string | null;
+  status: MergeRequestStatus;
+  createdAt: string;
+  creator: Person;
+  sourceBranch: { name: string; headCommitId: string; repositoryName: string; repositoryGroup: string };
+  targetBranch: { name: string; headCommitId: string };
+  reviews: {
+    id: string;
+    decision: ReviewDecision;
+    comment: string | null;
+    createdAt: string;
+    reviewer: Person;
+  }[];
+  mergeCommit: { id: string; timestamp: string } | null;
+}
+
+interface Comparison {
+  commitsAhead: number;
+  commitsBehind: number;
+  changes: { filePath: string; changeType: "ADDED" | "MODIFIED" | "DELETED" }[];
+  conflicts: string[];
+}
+
+interface Permissions {
+  canEdit: boolean;
+  canReview: boolean;
+  canMerge: boolean;
+}
+
+interface MergeRequestDetailProps {
+  ownerId: string;
+  repoId: string;
+  mergeRequestId: string;
+}
+
+export function MergeRequestDetail({ ownerId, repoId, mergeRequestId }: MergeRequestDetailProps) {
+  const baseUrl = `/api/repositories/${ownerId}/${repoId}/pull-requests/${mergeRequestId}`;
+  const [mergeRequest, setMergeRequest] = useState<MergeRequestDetails | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [permissions, setPermissions] = useState<Permissions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [decision, setDecision] = useState<ReviewDecision>("APPROVED");
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchMergeRequest = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? "Merge request not found" : `Error: ${response.status}`);
+      }
+      const data = await response.json();
+      setMergeRequest(data.mergeRequest);
+      setComparison(data.comparison);
+      setPermissions(data.permissions);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to fetch merge request:", err);
+      setError(err instanceof Error ? err.message : "Failed to load merge request");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    fetchMergeRequest();
+  }, [fetchMergeRequest]);
+
+  // Shared by the review, merge and close actions: POST/PATCH, report errors, then reload
+  const runAction = async (url: string, method: string, body: object, successMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const details = data.conflicts ? `: ${data.conflicts.join(", ")}` : "";
+        throw new Error(`${data.error || "Request failed"}${details}`);
+      }
+      toast.success(successMessage);
+      await fetchMergeRequest();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReview = async () => {
+    if (decision === "COMMENTED" && !comment.trim()) {
+      toast.error("Please enter a comment");
+      return;
+    }
+    const ok = await runAction(`${baseUrl}/reviews`, "POST", { decision, comment }, "Review submitted");
+    if (ok) setComment("");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-muted-foreground">Loading merge request...</p>
+      </div>
+    );
+  }
+
+  if (error || !mergeRequest || !permissions) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-red-500">{error || "Failed to load merge request"}</p>
+      </div>
+    );
+  }
+
+  const isFinished = mergeRequest.status === "MERGED" || mergeRequest.status === "CLOSED";
+
+  return (
+    <div className="space-y-6">
+      <Link href={`/${ownerId}/${repoId}/pulls`} className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        All merge requests
+      </Link>
+
+      <div>
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-2xl font-bold">{mergeRequest.title}</h1>
+          <Badge variant="outline" className={STATUS_STYLES[mergeRequest.status]}>
+            {mergeRequest.status.charAt(0) + mergeRequest.status.slice(1).toLowerCase()}
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          {mergeRequest.creator.firstName} {mergeRequest.creator.lastName} wants to merge{" "}
+          <code className="bg-muted px-1 rounded">
+            {sourceBranchLabel(mergeRequest.sourceBranch, ownerId, repoId)}
+          </code>{" "}
+          into{" "}
+          <code className="bg-muted px-1 rounded">{mergeRequest.targetBranch.name}</code> · opened{" "}
+          {new Date(mergeRequest.createdAt).toLocaleDateString()}
+        </p>
+      </div>
+
+      {mergeRequest.description && (
+        <div className="border rounded-md p-4 whitespace-pre-wrap text-sm">{mergeRequest.description}</div>
+      )}
+
+      {comparison && (
+        <div className="border rounded-md">
+          <div className="px-4 py-2 bg-muted/20 border-b text-sm flex items-center gap-4">
+            <span>
+              {comparison.commitsAhead} commit{comparison.commitsAhead === 1 ? "" : "s"} ahead
+            </span>
+            <span className="text-muted-foreground">
+              {comparison.commitsBehind} behind {mergeRequest.targetBranch.name}
+            </span>
+          </div>
+          {comparison.changes.length === 0 && comparison.conflicts.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No file changes.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {comparison.conflicts.map((path) => (
+                <li key={path} className="px-4 py-2 flex items-center gap-2 text-red-600">
+                  <XCircle className="h-4 w-4" />
+                  <span className="font-mono">{path}</span>
+                  <span className="text-xs">conflict</span>
+                </li>
+              ))}
+              {comparison.changes.map((change) => (
+                <li key={change.filePath} className="px-4 py-2 flex items-center gap-2">
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-mono">{change.filePath}</span>
+                  <span className="text-xs text-muted-foreground">{change.changeType.toLowerCase()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h2 className="font-semibold">Reviews</h2>
+        {mergeRequest.reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reviews yet.</p>
+        ) : (
+          mergeRequest.reviews.map((review) => (
+            <div key={review.id} className="border rounded-md">
+              <div className="flex items-center gap-2 px-4 py-2 bg-muted/20 border-b text-sm">
+                {review.decision === "APPROVED" ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                ) : review.decision === "COMMENTED" ? (
+                  <MessageSquare className="h-4 w-4 text-muted-foreground" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-red-600" />
+                )}
+                <span className="font-medium">
+                  {review.reviewer.firstName} {review.reviewer.lastName}
+                </span>
+                <span className="text-muted-foreground">
+                  {DECISION_LABELS[review.decision].toLowerCase()} · {new Date(review.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {review.comment && <div className="p-4 text-sm whitespace-pre-wrap">{review.comment}</div>}
+            </div>
+          ))
+        )}
+      </div>
+
+      {mergeRequest.mergeCommit && (
+        <div className="border rounded-md p-4 flex items-center gap-2 text-sm bg-purple-50">
+          <GitMerge className="h-4 w-4 text-purple-600" />
+          Merged as <code className="font-mono">{mergeRequest.mergeCommit.id.slice(0, 10)}</code> on{" "}
+          {new Date(mergeRequest.mergeCommit.timestamp).toLocaleString()}
+        </div>
+      )}
+
+      {!isFinished && permissions.canReview && (
+        <div className="border rounded-md p-4 space-y-3">
+          <h2 className="font-semibold">Review</h2>
+          <Textarea
+            placeholder="Leave a comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="min-h-[100px]"
+          />
+          <div className="flex justify-end gap-2">
+            <Select value={decision} onValueChange={(value) => setDecision(value as ReviewDecision)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REVIEW_DECISIONS.map((d) => (
+                  <SelectItem key={d} value={d}>
+                    {DECISION_LABELS[d]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleReview} disabled={isSubmitting}>
+              Submit review
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(permissions.canEdit || permissions.canMerge) && mergeRequest.status !== "MERGED" && (
+        <div className="flex justify-end gap-2">
+          {permissions.canEdit && (
+            <Button
+              variant="outline"
+              disabled={isSubmitting}
+              onClick={() =>
+                runAction(
+                  baseUrl,
+                  "PATCH",
+                  { status: mergeRequest.status === "CLOSED" ? "OPEN" : "CLOSED" },
+                  mergeRequest.status === "CLOSED" ? "Merge request reopened" : "Merge request closed"
+                )
+              }
+            >
+              {mergeRequest.status === "CLOSED" ? "Reopen" : "Close merge request"}
+            </Button>
+          )}
+          {permissions.canMerge && !isFinished && (
+            <Button
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+              disabled={isSubmitting || mergeRequest.status !== "APPROVED" || (comparison?.conflicts.length ?? 0) > 0}
+              title={mergeRequest.status !== "APPROVED" ? "Merge requests need an approval before merging" : undefined}
+              onClick={() => runAction(`${baseUrl}/merge`, "POST", {}, "Merged")}
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,360 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { GitMerge, GitPullRequest, PlusIcon, SearchIcon, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type MergeRequestStatus = "OPEN" | "APPROVED" | "REJECTED" | "MERGED" | "CLOSED";
+
+export const STATUS_STYLES: Record<MergeRequestStatus, string> = {
+  OPEN: "bg-green-100 text-green-800",
+  APPROVED: "bg-blue-100 text-blue-800",
+  REJECTED: "bg-red-100 text-red-800",
+  MERGED: "bg-purple-100 text-purple-800",
+  CLOSED: "bg-gray-100 text-gray-800",
+};
+
+interface MergeRequestSummary {
+  id: string;
+  title: string;
+  status: MergeRequestStatus;
+  createdAt: string;
+  updatedAt: string;
+  creator: { userId: string; firstName: string; lastName: string };
+  sourceBranch: { name: string; repositoryName: string; repositoryGroup: string };
+  targetBranch: { name: string };
+  reviews: { id: string }[];
+}
+
+interface BranchOption {
+  id: string;
+  name: string;
+}
+
+interface ForkOption {
+  name: string;
+  groupUserName: string;
+}
+
+// Value of the source repository select that stands for this repository rather than a fork
+const THIS_REPOSITORY = "this";
+
 interface PullsTabProps {
   ownerId: string;
   repoId: string;
 }
 
+/**
+ * Names a merge request's source branch, prefixed with its repository when it comes from a fork.
+ */
+export function sourceBranchLabel(
+  branch: { name: string; repositoryName: string; repositoryGroup: string },
+  ownerId: string,
+  repoId: string
+) {
+  return branch.repositoryGroup === ownerId && branch.repositoryName === repoId
+    ? branch.name
+    : `${branch.repositoryGroup}/${branch.repositoryName}:${branch.name}`;
+}
+
 export function PullsTab({ ownerId, repoId }: PullsTabProps) {
+  const baseUrl = `/api/repositories/${ownerId}/${repoId}/pull-requests`;
+  const [mergeRequests, setMergeRequests] = useState<MergeRequestSummary[]>([]);
+  const [counts, setCounts] = useState<Record<MergeRequestStatus, number> | null>(null);
+  const [status, setStatus] = useState<MergeRequestStatus | "ALL">("OPEN");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [branches, setBranches] = useState<BranchOption[]>([]);
+  const [forks, setForks] = useState<ForkOption[]>([]);
+  const [sourceRepository, setSourceRepository] = useState(THIS_REPOSITORY);
+  const [sourceBranches, setSourceBranches] = useState<BranchOption[]>([]);
+  const [showNewForm, setShowNewForm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [form, setForm] = useState({ title: "", description: "", sourceBranch: "", targetBranch: "" });
+
+  const fetchMergeRequests = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ status });
+      if (searchQuery.trim()) query.set("search", searchQuery.trim());
+
+      const response = await fetch(`${baseUrl}?${query.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Error: ${response.status}`);
+      }
+      const data = await response.json();
+      setMergeRequests(data.mergeRequests);
+      setCounts(data.counts);
+    } catch (err) {
+      console.error("Failed to fetch merge requests:", err);
+      setError("Failed to load merge requests");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl, status, searchQuery]);
+
+  useEffect(() => {
+    fetchMergeRequests();
+  }, [fetchMergeRequests]);
+
+  const openNewForm = async () => {
+    setShowNewForm((prev) => !prev);
+    if (branches.length > 0) return;
+
+    try {
+      const [branchesResponse, forksResponse] = await Promise.all([
+        fetch(`/api/repositories/${ownerId}/${repoId}/branches`),
+        fetch(`/api/repositories/${ownerId}/${repoId}/forks`),
+      ]);
+      if (!branchesResponse.ok) throw new Error(`Error: ${branchesResponse.status}`);
+      const data: { defaultBranch: string | null; branches: BranchOption[] } = await branchesResponse.json();
+      setBranches(data.branches);
+      setSourceBranches(data.branches);
+      setForm((prev) => ({ ...prev, targetBranch: prev.targetBranch || data.defaultBranch || "" }));
+      if (forksResponse.ok) {
+        setForks((await forksResponse.json()).forks);
+      }
+    } catch (err) {
+      console.error("Failed to fetch branches:", err);
+      toast.error("Failed to load branches");
+    }
+  };
+
+  const changeSourceRepository = async (value: string) => {
+    setSourceRepository(value);
+    setForm((prev) => ({ ...prev, sourceBranch: "" }));
+    if (value === THIS_REPOSITORY) {
+      setSourceBranches(branches);
+      return;
+    }
+
+    try {
+      setSourceBranches([]);
+      const response = await fetch(`/api/repositories/${value}/branches`);
+      if (!response.ok) throw new Error(`Error: ${response.status}`);
+      setSourceBranches((await response.json()).branches);
+    } catch (err) {
+      console.error("Failed to fetch fork branches:", err);
+      toast.error("Failed to load the branches of the fork");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.title.trim()) {
+      toast.error("Please enter a title");
+      return;
+    }
+    if (!form.sourceBranch || !form.targetBranch) {
+      toast.error("Please choose the branches to merge");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          ...(sourceRepository !== THIS_REPOSITORY && {
+            sourceRepository: {
+              groupUserName: sourceRepository.split("/")[0],
+              name: sourceRepository.split("/")[1],
+            },
+          }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.errors ? Object.values(data.errors).flat().join(", ") : data.error);
+      }
+
+      toast.success("Merge request opened");
+      setForm((prev) => ({ ...prev, title: "", description: "", sourceBranch: "" }));
+      setShowNewForm(false);
+      setStatus("OPEN");
+      await fetchMergeRequests();
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to open merge request");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderBranchSelect = (
+    field: "sourceBranch" | "targetBranch",
+    placeholder: string,
+    options: BranchOption[]
+  ) => (
+    <Select value={form[field]} onValueChange={(value) => setForm((prev) => ({ ...prev, [field]: value }))}>
+      <SelectTrigger className="w-48">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((branch) => (
+          <SelectItem key={branch.id} value={branch.name}>
+            {branch.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const statusTabs: (MergeRequestStatus | "ALL")[] = ["OPEN", "APPROVED", "MERGED", "CLOSED", "ALL"];
+
   return (
-    <div className="border rounded-lg shadow-sm overflow-hidden p-8 text-center">
-      <h2 className="text-xl font-semibold mb-4">Pull Requests</h2>
-      <p className="text-muted-foreground">
-        No pull requests have been opened for this repository yet.
-      </p>
+    <div className="border rounded-lg shadow-sm overflow-hidden">
+      <div className="bg-background border-b p-4">
+        <div className="flex flex-col space-y-4 md:flex-row md:items-center md:justify-between md:space-y-0">
+          <div className="flex items-center space-x-4">
+            {statusTabs.map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setStatus(tab)}
+                className={`flex items-center ${status === tab ? "font-semibold border-b-2 border-red-500 -mb-px pb-2" : "text-muted-foreground"}`}
+              >
+                {tab === "MERGED" ? (
+                  <GitMerge className="h-4 w-4 mr-1" />
+                ) : tab === "CLOSED" ? (
+                  <XCircle className="h-4 w-4 mr-1" />
+                ) : (
+                  <GitPullRequest className="h-4 w-4 mr-1" />
+                )}
+                <span>
+                  {counts && tab !== "ALL" ? `${counts[tab]} ` : ""}
+                  {tab.charAt(0) + tab.slice(1).toLowerCase()}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <Button onClick={openNewForm} className="bg-green-600 hover:bg-green-700 text-white flex items-center gap-1">
+            <PlusIcon className="h-4 w-4" />
+            <span>New merge request</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-muted/30 p-4 border-b">
+        <div className="relative">
+          <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search merge requests"
+            className="pl-9"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {showNewForm && (
+        <div className="p-4 border-b bg-background space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Merge</span>
+            {forks.length > 0 && (
+              <Select value={sourceRepository} onValueChange={changeSourceRepository}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={THIS_REPOSITORY}>This repository</SelectItem>
+                  {forks.map((fork) => (
+                    <SelectItem key={`${fork.groupUserName}/${fork.name}`} value={`${fork.groupUserName}/${fork.name}`}>
+                      {fork.groupUserName}/{fork.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {renderBranchSelect("sourceBranch", "Source branch", sourceBranches)}
+            <span className="text-muted-foreground">into</span>
+            {renderBranchSelect("targetBranch", "Target branch", branches)}
+          </div>
+          <Input
+            placeholder="Title"
+            value={form.title}
+            onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+            className="text-base font-medium"
+          />
+          <Textarea
+            placeholder="Describe the changes"
+            value={form.description}
+            onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+            className="min-h-[120px]"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setShowNewForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSubmitting} className="bg-green-600 hover:bg-green-700 text-white">
+              {isSubmitting ? "Opening..." : "Open merge request"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y">
+        {isLoading ? (
+          <div className="p-4 flex justify-center">
+            <p className="text-muted-foreground">Loading merge requests...</p>
+          </div>
+        ) : error ? (
+          <div className="p-4 flex justify-center">
+            <p className="text-red-500">{error}</p>
+          </div>
+        ) : mergeRequests.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className="text-xl font-medium mb-2">No merge requests</div>
+            <p className="text-muted-foreground">
+              {searchQuery ? "Try a different search term or status." : "Open a merge request to propose changes from one branch to another."}
+            </p>
+          </div>
+        ) : (
+          mergeRequests.map((mergeRequest) => (
+            <Link
+              key={mergeRequest.id}
+              href={`/${ownerId}/${repoId}/pulls/${mergeRequest.id}`}
+              className="flex items-start justify-between gap-4 p-4 hover:bg-muted/10"
+            >
+              <div className="flex items-start gap-3">
+                {mergeRequest.status === "MERGED" ? (
+                  <GitMerge className="h-5 w-5 mt-0.5 text-purple-600" />
+                ) : (
+                  <GitPullRequest className={`h-5 w-5 mt-0.5 ${mergeRequest.status === "CLOSED" ? "text-gray-500" : "text-green-600"}`} />
+                )}
+                <div>
+                  <div className="font-semibold">{mergeRequest.title}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {sourceBranchLabel(mergeRequest.sourceBranch, ownerId, repoId)} → {mergeRequest.targetBranch.name} ·
+                    opened{" "}
+                    {new Date(mergeRequest.createdAt).toLocaleDateString()} by {mergeRequest.creator.firstName}{" "}
+                    {mergeRequest.creator.lastName}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {mergeRequest.reviews.length > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {mergeRequest.reviews.length} review{mergeRequest.reviews.length === 1 ? "" : "s"}
+                  </span>
+                )}
+                <Badge variant="outline" className={STATUS_STYLES[mergeRequest.status]}>
+                  {mergeRequest.status.charAt(0) + mergeRequest.status.slice(1).toLowerCase()}
+                </Badge>
+              </div>
+            </Link>
+          ))
+        )}
+      </div>
     </div>
   );
-} 
\ No newline at end of file
+}
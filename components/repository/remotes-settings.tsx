@@ -0,0 +1,304 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Globe, PlusIcon, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { formatTimeAgo } from "@/lib/utils";
+
+type MirrorDirection = "PUSH" | "PULL";
+
+interface RemoteEntry {
+  id: string;
+  name: string;
+  url: string;
+  mirror: MirrorDirection | null;
+  hasToken: boolean;
+  lastSyncedAt: string | null;
+  lastSyncError: string | null;
+}
+
+interface SyncResult {
+  updated: string[];
+  rejected: { name: string; reason: string }[];
+}
+
+// Value of the mirror select for remotes that are only listed
+const NO_MIRROR = "none";
+
+const MIRROR_LABELS: Record<MirrorDirection, string> = {
+  PUSH: "Push mirror",
+  PULL: "Pull mirror",
+};
+
+const EMPTY_REMOTE = { name: "", url: "", mirror: NO_MIRROR, token: "" };
+
+interface RemotesSettingsProps {
+  ownerId: string;
+  repoId: string;
+}
+
+export function RemotesSettings({ ownerId, repoId }: RemotesSettingsProps) {
+  const baseUrl = `/api/repositories/${ownerId}/${repoId}/remotes`;
+  const [remotes, setRemotes] = useState<RemoteEntry[]>([]);
+  const [canAdminister, setCanAdminister] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [newRemote, setNewRemote] = useState(EMPTY_REMOTE);
+  const [remoteToDelete, setRemoteToDelete] = useState<RemoteEntry | null>(null);
+
+  const fetchRemotes = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      if (!response.ok) {
+        throw new Error(response.status === 403 ? "Only members of the owning group can see remotes" : `Error: ${response.status}`);
+      }
+      const data = await response.json();
+      setRemotes(data.remotes);
+      setCanAdminister(data.permissions.canAdminister);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to fetch remotes:", err);
+      setError(err instanceof Error ? err.message : "Failed to load remotes");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    fetchRemotes();
+  }, [fetchRemotes]);
+
+  const handleAdd = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: newRemote.name,
+          url: newRemote.url,
+          mirror: newRemote.mirror === NO_MIRROR ? null : newRemote.mirror,
+          token: newRemote.token || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.errors ? Object.values(data.errors).flat().join(", ") : data.error);
+      }
+      toast.success(`Remote ${data.name} added`);
+      setNewRemote(EMPTY_REMOTE);
+      await fetchRemotes();
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to add remote");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!remoteToDelete) return;
+    try {
+      const response = await fetch(`${baseUrl}/${remoteToDelete.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast.success(data.message);
+      await fetchRemotes();
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to remove remote");
+    } finally {
+      setRemoteToDelete(null);
+    }
+  };
+
+  const handleSync = async (remote: RemoteEntry) => {
+    setSyncingId(remote.id);
+    try {
+      const response = await fetch(`${baseUrl}/${remote.id}/sync`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      const { updated, rejected }: SyncResult = data.result;
+      if (rejected.length > 0) {
+        toast.warning(
+          `Synced ${remote.name}, but ${rejected.map((branch) => `${branch.name} (${branch.reason})`).join(", ")} could not be updated`
+        );
+      } else {
+        toast.success(
+          updated.length > 0 ? `Synced ${remote.name}: updated ${updated.join(", ")}` : `${remote.name} is up to date`
+        );
+      }
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to sync remote");
+    } finally {
+      setSyncingId(null);
+      await fetchRemotes();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-muted-foreground">Loading remotes...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="border rounded-lg shadow-sm p-4 flex justify-center">
+        <p className="text-red-500">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg shadow-sm overflow-hidden">
+      <div className="bg-background border-b p-4">
+        <div className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          <h2 className="text-xl font-bold">Remotes</h2>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Other vec servers this repository is known on. Mirrors copy branches and commits to or from them when synced.
+        </p>
+      </div>
+
+      {remotes.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">This repository has no remotes.</div>
+      ) : (
+        <ul className="divide-y">
+          {remotes.map((remote) => (
+            <li key={remote.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono font-semibold">{remote.name}</span>
+                  {remote.mirror && <Badge variant="secondary">{MIRROR_LABELS[remote.mirror]}</Badge>}
+                  {remote.hasToken && <Badge variant="outline">token</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1 truncate font-mono">{remote.url}</div>
+                {remote.mirror && (
+                  <div className="text-xs mt-1">
+                    {remote.lastSyncError ? (
+                      <span className="text-red-600">Last sync failed: {remote.lastSyncError}</span>
+                    ) : remote.lastSyncedAt ? (
+                      <span className="text-muted-foreground">Synced {formatTimeAgo(new Date(remote.lastSyncedAt))}</span>
+                    ) : (
+                      <span className="text-muted-foreground">Never synced</span>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2 shrink-0">
+                {remote.mirror && (
+                  <Button variant="outline" size="sm" onClick={() => handleSync(remote)} disabled={syncingId !== null}>
+                    <RefreshCw className={`h-4 w-4 mr-1 ${syncingId === remote.id ? "animate-spin" : ""}`} />
+                    Sync now
+                  </Button>
+                )}
+                {canAdminister && (
+                  <Button variant="ghost" size="icon" onClick={() => setRemoteToDelete(remote)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAdminister && (
+        <div className="border-t p-4 space-y-4 bg-muted/20">
+          <h3 className="font-semibold">Add a remote</h3>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="remote-name">Name</Label>
+              <Input
+                id="remote-name"
+                placeholder="origin"
+                value={newRemote.name}
+                onChange={(e) => setNewRemote((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="remote-url">URL</Label>
+              <Input
+                id="remote-url"
+                placeholder="https://vec.example.edu/api/vec/group/repository"
+                value={newRemote.url}
+                onChange={(e) => setNewRemote((prev) => ({ ...prev, url: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mirror</Label>
+              <Select value={newRemote.mirror} onValueChange={(mirror) => setNewRemote((prev) => ({ ...prev, mirror }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MIRROR}>Don&apos;t mirror</SelectItem>
+                  <SelectItem value="PUSH">Push branches to the remote</SelectItem>
+                  <SelectItem value="PULL">Pull branches from the remote</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="remote-token">Token</Label>
+              <Input
+                id="remote-token"
+                type="password"
+                placeholder="Sent to the remote when syncing, optional"
+                value={newRemote.token}
+                onChange={(e) => setNewRemote((prev) => ({ ...prev, token: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleAdd}
+              disabled={isSubmitting || !newRemote.name.trim() || !newRemote.url.trim()}
+              className="flex items-center gap-1"
+            >
+              <PlusIcon className="h-4 w-4" />
+              Add remote
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={!!remoteToDelete} onOpenChange={(open) => !open && setRemoteToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {remoteToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The remote and its mirror settings are removed. Nothing is deleted on the remote server.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
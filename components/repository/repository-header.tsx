@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { GitBranchIcon } from "lucide-react";
+import { Download, GitBranchIcon } from "lucide-react";
 import { Container } from "@/components/ui/container";
 import { useState, useEffect } from "react";
 import type { Session } from "next-auth";
@@ -10,6 +10,21 @@ import { Badge } from "@/components/ui/badge";
 import Navbar from "../student/navbar";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { getRepositoryEndpoints } from "@/config/api";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ForkButton } from "@/components/repository/fork-button";
+
+interface ForkSummary {
+  name: string;
+  groupUserName: string;
+}
 
 interface RepositoryHeaderProps {
   owner: string;
@@ -50,6 +65,7 @@ export function RepositoryHeader({
 }: RepositoryHeaderProps) {
   const [repoData, setRepoData] = useState<RepositoryOverview | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [forks, setForks] = useState<{ upstream: ForkSummary | null; forks: ForkSummary[] } | null>(null);
   const pathname = usePathname();
 
   useEffect(() => {
@@ -74,6 +90,21 @@ export function RepositoryHeader({
     fetchRepositoryData();
   }, [owner, repository]);
 
+  useEffect(() => {
+    const fetchForks = async () => {
+      try {
+        const response = await fetch(`/api/repositories/${owner}/${repository}/forks`);
+        if (response.ok) {
+          setForks(await response.json());
+        }
+      } catch (error) {
+        console.error("Error fetching forks:", error);
+      }
+    };
+
+    fetchForks();
+  }, [owner, repository]);
+
   // Navigation tabs - simplified to only Code, Feedback, and Settings
   const tabs = [
     { name: "Code", path: `/${owner}/${repository}`, value: "code" },
@@ -97,6 +128,18 @@ export function RepositoryHeader({
     return "code"; // Default
   };
 
+  // Download whatever branch or commit is being browsed, falling back to the default branch
+  const getArchiveRef = () => {
+    const [, view, ref] = pathname.slice(`/${owner}/${repository}`.length).split("/");
+    if (ref && (view === "tree" || view === "blob" || view === "commit")) {
+      return decodeURIComponent(ref);
+    }
+    return repoData?.defaultBranch?.name ?? "main";
+  };
+
+  const archiveUrl = (format: "zip" | "tar.gz") =>
+    `/api/repositories/${owner}/${repository}/archive?${new URLSearchParams({ ref: getArchiveRef(), format })}`;
+
   return (
     <header className="w-full bg-background border-b border-border/40">
       <Navbar />
@@ -125,8 +168,46 @@ export function RepositoryHeader({
             {repoData?.isPrivate && (
               <Badge variant="outline" className="ml-2 bg-amber-100/40 text-amber-800 hover:bg-amber-100/40">Private</Badge>
             )}
+            <div className="ml-auto flex items-center gap-2">
+              {session?.user && (
+                <ForkButton owner={owner} repository={repository} forkCount={forks?.forks.length ?? 0} />
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-1" />
+                    Download
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+                    {getArchiveRef()}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem asChild>
+                    <a href={archiveUrl("zip")} download>
+                      Download ZIP
+                    </a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={archiveUrl("tar.gz")} download>
+                      Download tar.gz
+                    </a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           </div>
           
+          {forks?.upstream && (
+            <p className="text-xs text-muted-foreground">
+              forked from{" "}
+              <Link href={`/${forks.upstream.groupUserName}/${forks.upstream.name}`} className="hover:underline">
+                {forks.upstream.groupUserName}/{forks.upstream.name}
+              </Link>
+            </p>
+          )}
+
           <div className="mt-4 w-full border-b">
             <Tabs defaultValue={getActiveTabValue()} className="w-full">
               <TabsList className="w-full justify-start">
@@ -5,6 +5,7 @@ import Link from "next/link"
 import { Bell, Clock, ExternalLink } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { useNotificationStream } from "@/lib/hooks/use-notification-stream"
 
 interface Notification {
   id: string
@@ -23,14 +24,27 @@ interface ApiResponse {
 }
 
 interface NotificationDropdownProps {
-  unreadCount: number
   userId?: string
-  onMarkAllAsRead: () => void
 }
 
-export default function NotificationDropdown({ unreadCount, userId, onMarkAllAsRead }: NotificationDropdownProps) {
+export default function NotificationDropdown({ userId }: NotificationDropdownProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [notifications, setNotifications] = useState<Notification[]>([])
+
+  // New notifications and read-state changes are pushed by the server
+  const { unreadCount: streamedUnreadCount, setUnreadCount } = useNotificationStream(userId, {
+    onNotification: (notification) => {
+      setNotifications((prev) =>
+        prev.some((n) => n.id === notification.id)
+          ? prev
+          : [{ ...notification, link: notification.link ?? undefined, createdAt: new Date(notification.createdAt) }, ...prev]
+      )
+    },
+    onRead: (ids) => {
+      setNotifications((prev) => prev.map((n) => (ids.includes(n.id) ? { ...n, read: true } : n)))
+    },
+  })
+  const unreadCount = streamedUnreadCount ?? 0
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isMounted, setIsMounted] = useState(false)
@@ -169,11 +183,9 @@ export default function NotificationDropdown({ unreadCount, userId, onMarkAllAsR
         throw new Error(`Failed to mark notifications as read: ${response.statusText}`)
       }
 
-      // Call the parent component's handler to update the UI
-      onMarkAllAsRead()
-
-      // Update local state to show all as read
+      // Update local state to show all as read; the stream confirms the new count
       setNotifications(notifications.map((n) => ({ ...n, read: true })))
+      setUnreadCount(0)
     } catch (err) {
       console.error("Error marking notifications as read:", err)
     } finally {
@@ -210,7 +222,7 @@ export default function NotificationDropdown({ unreadCount, userId, onMarkAllAsR
 
       // Update unread count in UI
       if (notifications.find((n) => n.id === notificationId && !n.read)) {
-        onMarkAllAsRead()
+        setUnreadCount((count) => Math.max((count ?? 1) - 1, 0))
       }
     } catch (err) {
       console.error("Error marking notification as read:", err)
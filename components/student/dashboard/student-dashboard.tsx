@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import Navbar from "../navbar";
-import Announcements from "./announcements";
+import AnnouncementBanner from "@/components/announcements/announcement-banner";
 import StatusOverview, { ProjectSummary, TaskSummary } from "./status-overview";
 import RecentActivities, { Activity } from "./recent-activities";
 import Footer from "../footer";
@@ -17,13 +17,6 @@ interface StudentDashboardApiResponse {
     hasGroup: boolean;
     groupName: string | null;
   };
-  announcements: {
-    id: string;
-    title: string;
-    content: string;
-    priority: number;
-    createdAt: string; // API sends string, will be converted to Date
-  }[];
   projectSummary: ProjectSummary;
   taskSummary: TaskSummary & {
     upcomingDeadlines: {
@@ -58,7 +51,6 @@ export default function StudentDashboard() {
       hasGroup: boolean;
       groupName: string | null;
     };
-    announcements: (Omit<StudentDashboardApiResponse['announcements'][0], 'createdAt'> & { createdAt: Date })[];
     projectSummary: ProjectSummary;
     taskSummary: Omit<TaskSummary, 'upcomingDeadlines'> & {
       upcomingDeadlines: (Omit<StudentDashboardApiResponse['taskSummary']['upcomingDeadlines'][0], 'deadline'> & { deadline: Date })[];
@@ -137,12 +129,6 @@ export default function StudentDashboard() {
             hasGroup: mainApiData.user.hasGroup || false,
             groupName: mainApiData.user.groupName || null,
           },
-          announcements: Array.isArray(mainApiData.announcements)
-            ? mainApiData.announcements.map((announcement) => ({
-                ...announcement,
-                createdAt: new Date(announcement.createdAt),
-              }))
-            : [],
           projectSummary: mainApiData.projectSummary || { totalProjects: 0, activeProjects: 0, completedProjects: 0 },
           taskSummary: {
             ...(mainApiData.taskSummary || { totalTasks: 0, completedTasks: 0, inProgressTasks: 0, todoTasks: 0, blockedTasks: 0 }),
@@ -236,14 +222,7 @@ export default function StudentDashboard() {
               </div>
             )}
 
-            <Announcements
-              announcements={
-                dashboardData.announcements.map((announcement) => ({
-                  ...announcement,
-                  createdAt: new Date(announcement.createdAt),
-                })) || []
-              }
-            />
+            <AnnouncementBanner />
 
             <StatusOverview projectSummary={dashboardData.projectSummary} taskSummary={dashboardData.taskSummary} />
 
@@ -25,7 +25,6 @@ export default function Navbar() {
   const pathname = usePathname()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [displayName, setDisplayName] = useState<string>("Student")
-  const [unreadCount, setUnreadCount] = useState(3) // Mock data
 
   const userName = session?.user.userId
 
@@ -54,58 +53,9 @@ export default function Navbar() {
   }
 
   useEffect(() => {
-    async function fetchNavbarData() {
-      try {
-        if (!userName) {
-          // Skip fetching if userName is not available yet
-          return
-        }
-
-        const notifications = await fetch(`/api/users/${userName}/notifications`)
-        if (notifications.ok) {
-          const data = await notifications.json()
-          setUnreadCount(data.unreadCount || 0)
-        } else {
-          console.error("Failed to fetch navbar data")
-        }
-
-        // Mock notification data
-        setUnreadCount(3)
-      } catch (error) {
-        console.error("Error fetching navbar data:", error)
-      }
-    }
-
     setDisplayName(userName || "Student")
-
-    // Only call fetchNavbarData if userName exists
-    if (userName) {
-      fetchNavbarData()
-    }
   }, [userName])
 
-  const handleMarkAllAsRead = async () => {
-    try {
-      if (!userName) {
-        return
-      }
-
-      const response = await fetch(`/api/users/${userName}/notifications`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ notificationIds: [] }),
-      })
-
-      // Mock marking as read
-      setUnreadCount(0)
-      console.log("Marked all notifications as read")
-    } catch (error) {
-      console.error("Error marking notifications as read:", error)
-    }
-  }
-
   return (
     <motion.nav
       initial={{ y: -100, opacity: 0 }}
@@ -205,7 +155,7 @@ export default function Navbar() {
           className="flex items-center space-x-4"
         >
           {/* Notifications Dropdown */}
-          <NotificationDropdown unreadCount={unreadCount} userId={userName} onMarkAllAsRead={handleMarkAllAsRead} />
+          <NotificationDropdown userId={userName} />
 
           {/* User Menu */}
           <div className="hidden md:flex items-center">
@@ -11,6 +11,7 @@ import { toast } from "sonner"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useSession } from "next-auth/react"
+import ChangePasswordForm from "@/components/user/change-password-form"
 
 export default function ProfileSettings() {
   const { data: session, update: updateSession } = useSession()
@@ -169,14 +170,15 @@ export default function ProfileSettings() {
       <CardHeader>
         <CardTitle>Profile Settings</CardTitle>
         <CardDescription>
-          Update your profile information and avatar
+          Update your profile information, avatar and password
         </CardDescription>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="personal" className="space-y-6">
-          <TabsList className="grid w-full md:w-auto md:inline-flex grid-cols-2">
+          <TabsList className="grid w-full md:w-auto md:inline-flex grid-cols-3">
             <TabsTrigger value="personal">Personal Info</TabsTrigger>
             <TabsTrigger value="avatar">Profile Photo</TabsTrigger>
+            <TabsTrigger value="security">Security</TabsTrigger>
           </TabsList>
           
           <TabsContent value="personal" className="space-y-6">
@@ -276,6 +278,10 @@ export default function ProfileSettings() {
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="security" className="space-y-6">
+            <ChangePasswordForm />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from "react"
+import { useSession } from "next-auth/react"
+import { KeyRound, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+const emptyForm = { currentPassword: "", newPassword: "", confirmPassword: "" }
+
+type PasswordField = keyof typeof emptyForm
+
+export default function ChangePasswordForm() {
+  const { data: session } = useSession()
+  const [formData, setFormData] = useState(emptyForm)
+  const [formErrors, setFormErrors] = useState<Partial<Record<PasswordField, string>>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target
+    setFormData((prev) => ({ ...prev, [name]: value }))
+    setFormErrors((prev) => ({ ...prev, [name]: undefined }))
+  }
+
+  const validateForm = () => {
+    const errors: Partial<Record<PasswordField, string>> = {}
+    if (!formData.currentPassword) {
+      errors.currentPassword = "Current password is required"
+    }
+    if (formData.newPassword.length < 8) {
+      errors.newPassword = "Password must be at least 8 characters"
+    }
+    if (formData.newPassword !== formData.confirmPassword) {
+      errors.confirmPassword = "Passwords do not match"
+    }
+    setFormErrors(errors)
+    return Object.keys(errors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm() || !session?.user?.userId) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/auth/change-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currentPassword: formData.currentPassword,
+          newPassword: formData.newPassword,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        if (data.errors) {
+          setFormErrors({
+            currentPassword: data.errors.currentPassword?.[0],
+            newPassword: data.errors.newPassword?.[0],
+          })
+        }
+        throw new Error(data.error || "Failed to change password")
+      }
+
+      setFormData(emptyForm)
+      toast.success("Password changed", {
+        description: "You have been signed out on all other devices.",
+      })
+    } catch (error) {
+      toast.error("Failed to change password", {
+        description: error instanceof Error ? error.message : "Please try again",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderField = (name: PasswordField, label: string, autoComplete: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={name}>{label}</Label>
+      <Input
+        id={name}
+        name={name}
+        type="password"
+        autoComplete={autoComplete}
+        value={formData[name]}
+        onChange={handleChange}
+        disabled={isSaving}
+        className={formErrors[name] ? "ring-2 ring-red-500" : undefined}
+      />
+      {formErrors[name] && <p className="text-sm text-red-500">{formErrors[name]}</p>}
+    </div>
+  )
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+      {renderField("currentPassword", "Current Password", "current-password")}
+      {renderField("newPassword", "New Password", "new-password")}
+      {renderField("confirmPassword", "Confirm New Password", "new-password")}
+      <p className="text-sm text-muted-foreground">
+        Changing your password signs you out of every other device.
+      </p>
+      <Button type="submit" disabled={isSaving}>
+        {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+        Change Password
+      </Button>
+    </form>
+  )
+}
@@ -38,7 +38,8 @@ export const getRepositoryEndpoints = {
   create: () => `${API_URL}/create`,
   update: (username: string, repo: string) => `${API_URL}/${username}/${repo}`,
   delete: (username: string, repo: string) => `${API_URL}/${username}/${repo}`,
-  fork: (username: string, repo: string) => `${API_URL}/${username}/${repo}/fork`,
+  // Forks copy the commit graph between groups, which this app does itself
+  fork: (username: string, repo: string) => `/api/repositories/${username}/${repo}/fork`,
   
   // Feedback endpoints (custom extension)
   feedback: {
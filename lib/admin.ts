@@ -0,0 +1,17 @@
+import { getServerSession } from 'next-auth';
+import { Role } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+
+/**
+ * Returns the current session if it belongs to an administrator, otherwise null.
+ * Used by every route under /api/admin to gate access.
+ */
+export async function getAdminSession() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.userId || session.user.role !== Role.ADMINISTRATOR) {
+    return null;
+  }
+
+  return session;
+}
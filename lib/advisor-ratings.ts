@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { db } from '@/lib/db';
+
+// Schema for a student's rating of their project's advisor
+export const advisorRatingSchema = z.object({
+  advisorId: z.string(),
+  rating: z.number().int().min(1).max(5),
+  feedback: z.string().trim().max(2000, 'Feedback is too long').nullable().optional(),
+});
+
+/**
+ * Aggregates over fewer ratings than this are withheld, so that no single student's
+ * rating can be worked out from an average.
+ */
+export const MIN_RATINGS_FOR_AGGREGATE = 3;
+
+// The academic year starts in September; the second semester runs from February
+const FIRST_SEMESTER_START_MONTH = 8;
+const SECOND_SEMESTER_START_MONTH = 1;
+
+/**
+ * Labels the academic semester a date falls in, e.g. "2024/25-I" for October 2024 and
+ * "2024/25-II" for March 2025. Labels sort chronologically.
+ */
+export function semesterOf(date: Date): string {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const startYear = month >= FIRST_SEMESTER_START_MONTH ? year : year - 1;
+  const half = month >= SECOND_SEMESTER_START_MONTH && month < FIRST_SEMESTER_START_MONTH ? 'II' : 'I';
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}-${half}`;
+}
+
+export type RatingDistribution = Record<1 | 2 | 3 | 4 | 5, number>;
+
+export interface RatingSummary {
+  /** Null while there are too few ratings to publish an average */
+  averageRating: number | null;
+  totalReviews: number;
+  ratingDistribution: RatingDistribution | null;
+}
+
+export interface SemesterTrend extends RatingSummary {
+  semester: string;
+}
+
+/**
+ * Summarizes rating scores without revealing individual ratings: below
+ * MIN_RATINGS_FOR_AGGREGATE only the count is given.
+ */
+export function summarizeRatings(scores: number[]): RatingSummary {
+  if (scores.length < MIN_RATINGS_FOR_AGGREGATE) {
+    return { averageRating: null, totalReviews: scores.length, ratingDistribution: null };
+  }
+
+  const ratingDistribution: RatingDistribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const score of scores) {
+    ratingDistribution[score as keyof RatingDistribution]++;
+  }
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+  return { averageRating: Math.round(average * 100) / 100, totalReviews: scores.length, ratingDistribution };
+}
+
+/**
+ * Overall and per-semester rating statistics of an advisor, oldest semester first. The
+ * overall figures only cover semesters whose own figures are published; otherwise the
+ * withheld ratings could be worked out by subtracting the published semesters from them.
+ */
+export async function getAdvisorRatingStats(advisorId: string) {
+  const ratings = await db.advisorRating.findMany({
+    where: { advisorId },
+    select: { score: true, semester: true },
+  });
+
+  const bySemester = new Map<string, number[]>();
+  for (const { score, semester } of ratings) {
+    bySemester.set(semester, [...(bySemester.get(semester) ?? []), score]);
+  }
+
+  const trends: SemesterTrend[] = [...bySemester.keys()]
+    .sort()
+    .map((semester) => ({ semester, ...summarizeRatings(bySemester.get(semester)!) }));
+
+  const publishedScores = trends
+    .filter((trend) => trend.ratingDistribution !== null)
+    .flatMap((trend) => bySemester.get(trend.semester)!);
+
+  return { ...summarizeRatings(publishedScores), trends };
+}
@@ -0,0 +1,63 @@
+import { Prisma, Role } from '@prisma/client';
+import { z } from 'zod';
+
+// Schema for creating announcements; updates use the partial form
+export const announcementSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  content: z.string().trim().min(1, 'Content is required'),
+  priority: z.number().int().min(0).max(3).default(0),
+  active: z.boolean().default(true),
+  audience: z.array(z.nativeEnum(Role)).default([]),
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+});
+
+interface AnnouncementFeedOptions {
+  /** Include announcements the user has dismissed */
+  includeDismissed?: boolean;
+  /** Include inactive and expired announcements (archive view) */
+  includeExpired?: boolean;
+}
+
+/**
+ * Builds the filter for announcements a user is allowed to see in their feed.
+ * An empty audience targets every role.
+ */
+export function announcementFeedWhere(
+  userId: string,
+  role: Role,
+  { includeDismissed = false, includeExpired = false }: AnnouncementFeedOptions = {}
+): Prisma.AnnouncementWhereInput {
+  const conditions: Prisma.AnnouncementWhereInput[] = [
+    {
+      OR: [
+        { audience: { isEmpty: true } },
+        { audience: { has: role } },
+      ],
+    },
+  ];
+
+  if (!includeExpired) {
+    conditions.push(
+      { active: true },
+      {
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: new Date() } },
+        ],
+      }
+    );
+  }
+
+  if (!includeDismissed) {
+    conditions.push({
+      dismissals: { none: { userId } },
+    });
+  }
+
+  return { AND: conditions };
+}
+
+export const announcementFeedOrderBy: Prisma.AnnouncementOrderByWithRelationInput[] = [
+  { priority: 'desc' },
+  { createdAt: 'desc' },
+];
@@ -0,0 +1,213 @@
+import { deflateRawSync } from 'zlib';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: Record<ArchiveFormat, { extension: string; contentType: string }> = {
+  zip: { extension: 'zip', contentType: 'application/zip' },
+  'tar.gz': { extension: 'tar.gz', contentType: 'application/gzip' },
+};
+
+export interface ArchiveEntry {
+  path: string;
+  content: Buffer;
+  modifiedAt: Date;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ZIP stores local time in MS-DOS format, which cannot represent years before 1980
+function dosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Sizes and offsets are 32-bit and the entry count 16-bit without the ZIP64 extension
+const ZIP_MAX_SIZE = 0xffffffff;
+const ZIP_MAX_ENTRIES = 0xffff;
+
+/**
+ * Writes a ZIP archive one entry at a time. Each file is compressed in memory before its
+ * header is written, so no data descriptors are needed.
+ */
+async function* zipArchive(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Buffer> {
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8');
+    const compressed = deflateRawSync(entry.content);
+    // Already-compressed content is stored as is
+    const method = compressed.length < entry.content.length ? 8 : 0;
+    const data = method === 8 ? compressed : entry.content;
+    const crc = crc32(entry.content);
+    const { time, date } = dosDateTime(entry.modifiedAt);
+
+    if (central.length >= ZIP_MAX_ENTRIES || offset + data.length + 30 + name.length > ZIP_MAX_SIZE) {
+      throw new Error('Repository is too large for a ZIP archive');
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // file names are UTF-8
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(entry.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE((3 << 8) | 20, 4); // made by Unix, so the mode below is honoured
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(entry.content.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE((0o100644 << 16) >>> 0, 38);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    yield Buffer.concat([local, name]);
+    yield data;
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield directory;
+  yield end;
+}
+
+const TAR_BLOCK = 512;
+
+function tarHeader(name: string, size: number, modifiedAt: Date, type: string, prefix = ''): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK);
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+
+  header.write(name, 0, 100, 'utf8');
+  header.write(octal(0o644, 8), 100, 'ascii');
+  header.write(octal(0, 8), 108, 'ascii'); // uid
+  header.write(octal(0, 8), 116, 'ascii'); // gid
+  header.write(octal(size, 12), 124, 'ascii');
+  header.write(octal(Math.floor(modifiedAt.getTime() / 1000), 12), 136, 'ascii');
+  header.write(' '.repeat(8), 148, 'ascii'); // checksum is computed with this field blank
+  header.write(type, 156, 'ascii');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(octal(checksum, 7) + ' ', 148, 'ascii');
+
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK);
+}
+
+/**
+ * Splits a path into ustar's 155-byte prefix and 100-byte name fields at a slash.
+ * Returns null when it does not fit, in which case a PAX header carries the path.
+ */
+function splitTarPath(path: string): { prefix: string; name: string } | null {
+  if (Buffer.byteLength(path) <= 100) return { prefix: '', name: path };
+
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { prefix, name };
+    }
+  }
+  return null;
+}
+
+function paxRecord(key: string, value: string): string {
+  // The length prefix counts itself, so grow it until the total is stable
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (String(length).length + Buffer.byteLength(body) !== length) {
+    length = String(length).length + Buffer.byteLength(body);
+  }
+  return `${length}${body}`;
+}
+
+async function* tarArchive(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Buffer> {
+  for await (const entry of entries) {
+    const split = splitTarPath(entry.path);
+    if (split) {
+      yield tarHeader(split.name, entry.content.length, entry.modifiedAt, '0', split.prefix);
+    } else {
+      const pax = Buffer.from(paxRecord('path', entry.path), 'utf8');
+      yield tarHeader('PaxHeader', pax.length, entry.modifiedAt, 'x');
+      yield pax;
+      yield tarPadding(pax.length);
+      yield tarHeader(entry.path.slice(-100), entry.content.length, entry.modifiedAt, '0');
+    }
+    yield entry.content;
+    yield tarPadding(entry.content.length);
+  }
+
+  // Two empty blocks mark the end of the archive
+  yield Buffer.alloc(TAR_BLOCK * 2);
+}
+
+/**
+ * Streams an archive of the given entries, pulling the next entry only when the client
+ * is ready for more, so a whole repository never has to be held in memory.
+ */
+export function createArchiveStream(
+  format: ArchiveFormat,
+  entries: AsyncIterable<ArchiveEntry>
+): ReadableStream<Uint8Array> {
+  const chunks = format === 'zip' ? zipArchive(entries) : tarArchive(entries);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  return format === 'tar.gz' ? stream.pipeThrough(new CompressionStream('gzip')) : stream;
+}
@@ -6,6 +6,7 @@ import { NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { compare } from 'bcrypt';
 import { db } from '@/lib/db';
+import { assertTokenCurrent } from '@/lib/sessions';
 
 // Use React cache to prevent multiple session fetches within a request
 export const getSession = cache(async () => {
@@ -79,7 +80,7 @@ export const authOptions: NextAuthOptions = {
           where: { userId: credentials.userId },
         });
 
-        if (!user) {
+        if (!user || user.suspended) {
           return null;
         }
 
@@ -93,6 +94,7 @@ export const authOptions: NextAuthOptions = {
           userId: user.userId,
           name: user.firstName + ' ' + user.lastName || '',
           role: user.role,
+          tokenVersion: user.tokenVersion,
         };
       },
     }),
@@ -110,7 +112,11 @@ export const authOptions: NextAuthOptions = {
       if (user) {
         token.userId = user.userId;
         token.role = user.role as Role;
+        token.tokenVersion = user.tokenVersion;
+        return token;
       }
+      // Reject tokens revoked by a password change or an administrator
+      await assertTokenCurrent(token);
       return token;
     },
   },
@@ -129,5 +135,6 @@ declare module 'next-auth' {
     userId: string;
     name: string;
     role: string;
+    tokenVersion: number;
   }
 } 
\ No newline at end of file
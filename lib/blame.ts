@@ -0,0 +1,154 @@
+import { ChangeType } from '@prisma/client';
+import { db } from '@/lib/db';
+import { readBlobs } from '@/lib/blob-store';
+import { ancestorsOf, loadCommitGraph, walkHistory } from '@/lib/commit-graph';
+import { diffLines } from '@/lib/diff';
+
+export interface BlameRange {
+  commitId: string;
+  /** First line of the range, 1-based */
+  startLine: number;
+  lineCount: number;
+}
+
+export interface BlameResult {
+  lines: string[];
+  ranges: BlameRange[];
+  commits: {
+    id: string;
+    message: string;
+    timestamp: Date;
+    author: { userId: string; firstName: string; lastName: string };
+  }[];
+}
+
+/**
+ * Attributes every line of a file, as of `headCommitId`, to the commit that last changed it.
+ *
+ * Follows each line back through the history, newest commit first. A commit that touched
+ * the file hands the lines it kept from a parent down to that parent and claims the rest.
+ * Merge commits record the source branch's net changes, so their lines are handed to
+ * whichever parent already had them; only lines new to every parent, such as conflict
+ * resolutions, belong to the merge itself. Returns null when the file does not exist at
+ * that commit.
+ */
+export async function blameFile(
+  repositoryName: string,
+  repositoryGroup: string,
+  headCommitId: string,
+  filePath: string
+): Promise<BlameResult | null> {
+  const graph = await loadCommitGraph(repositoryName, repositoryGroup);
+  const reachable = ancestorsOf(graph, headCommitId);
+
+  const fileChanges = await db.fileChange.findMany({
+    where: { filePath, commit: { repositoryName, repositoryGroup } },
+    select: { commitId: true, changeType: true, fileContentHash: true },
+  });
+  const changesByCommit = new Map(
+    fileChanges.filter((change) => reachable.has(change.commitId)).map((change) => [change.commitId, change])
+  );
+
+  // Newest first, every commit before its parents
+  const history = walkHistory(graph, [headCommitId]);
+
+  // The file's content hash at each commit, parents first. A commit that did not touch the
+  // file has its first parent's version; merges record only the source branch's changes.
+  const contentAt = new Map<string, string | null>();
+  for (const commit of [...history].reverse()) {
+    const change = changesByCommit.get(commit.id);
+    if (change) {
+      contentAt.set(commit.id, change.changeType === ChangeType.DELETED ? null : change.fileContentHash);
+    } else {
+      const firstParent = commit.parentCommitIDs[0];
+      contentAt.set(commit.id, firstParent ? contentAt.get(firstParent) ?? null : null);
+    }
+  }
+
+  const headHash = contentAt.get(headCommitId);
+  if (!headHash) {
+    return null;
+  }
+
+  const blobs = await readBlobs(
+    [...changesByCommit.values()].map((change) => change.fileContentHash).filter((hash): hash is string => !!hash)
+  );
+  const textOf = (hash: string | null | undefined) => (hash ? blobs.get(hash)?.content.toString('utf8') : '');
+
+  const content = textOf(headHash);
+  if (content === undefined) {
+    return null;
+  }
+  const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+
+  const owners: (string | null)[] = lines.map(() => null);
+  // pending.get(id)[i] lists the final lines that line i of the file at that commit became
+  const pending = new Map<string, (number[] | undefined)[]>([[headCommitId, lines.map((_, index) => [index])]]);
+  const handDown = (commitId: string, index: number, finalLines: number[]) => {
+    const tracked = pending.get(commitId) ?? [];
+    tracked[index] = [...(tracked[index] ?? []), ...finalLines];
+    pending.set(commitId, tracked);
+  };
+
+  for (const commit of history) {
+    const tracked = pending.get(commit.id);
+    if (!tracked) continue;
+    pending.delete(commit.id);
+
+    const parents = commit.parentCommitIDs.filter((id) => reachable.has(id) && graph.has(id));
+    if (!changesByCommit.has(commit.id) && parents.length > 0) {
+      // Untouched here, so the file is exactly its first parent's
+      tracked.forEach((finalLines, index) => finalLines && handDown(parents[0], index, finalLines));
+      continue;
+    }
+
+    const current = textOf(contentAt.get(commit.id));
+    const remaining = [...tracked];
+    if (current !== undefined) {
+      for (const parentId of parents) {
+        const previous = textOf(contentAt.get(parentId));
+        // History is incomplete past a missing blob; the lines stay with this commit
+        if (previous === undefined) continue;
+
+        for (const line of diffLines(previous, current)) {
+          if (line.type !== 'context') continue;
+          const finalLines = remaining[line.newNumber! - 1];
+          if (finalLines) {
+            handDown(parentId, line.oldNumber! - 1, finalLines);
+            remaining[line.newNumber! - 1] = undefined;
+          }
+        }
+      }
+    }
+
+    for (const finalLines of remaining) {
+      for (const finalLine of finalLines ?? []) owners[finalLine] = commit.id;
+    }
+  }
+
+  // Lines whose trail went cold belong to the oldest recorded change
+  const oldest = history.filter((commit) => changesByCommit.has(commit.id)).pop()?.id ?? headCommitId;
+  const attribution = owners.map((owner) => owner ?? oldest);
+
+  const ranges: BlameRange[] = [];
+  attribution.forEach((commitId, index) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.commitId === commitId) {
+      last.lineCount++;
+    } else {
+      ranges.push({ commitId, startLine: index + 1, lineCount: 1 });
+    }
+  });
+
+  const commits = await db.commit.findMany({
+    where: { id: { in: [...new Set(attribution)] } },
+    select: {
+      id: true,
+      message: true,
+      timestamp: true,
+      author: { select: { userId: true, firstName: true, lastName: true } },
+    },
+  });
+
+  return { lines, ranges, commits };
+}
@@ -0,0 +1,71 @@
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { db } from '@/lib/db';
+
+// Git treats a file as binary when a NUL byte shows up in its first 8000 bytes
+const BINARY_SNIFF_LENGTH = 8000;
+
+export interface Blob {
+  hash: string;
+  content: Buffer;
+  isBinary: boolean;
+}
+
+export function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
+
+/**
+ * Stores file content under its SHA-256 hash and returns the hash. Storing the same
+ * content twice is a no-op, so callers can use it inside their commit transaction.
+ * Content that is not valid UTF-8 is kept as base64 and flagged binary, so its bytes
+ * come back unchanged.
+ */
+export async function storeBlob(
+  content: Buffer | string,
+  client: Prisma.TransactionClient = db
+): Promise<string> {
+  const bytes = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+  const hash = hashContent(bytes);
+  const isBinary = isBinaryContent(bytes) || !Buffer.from(bytes.toString('utf8'), 'utf8').equals(bytes);
+
+  await client.fileContent.upsert({
+    where: { hash },
+    create: {
+      hash,
+      content: bytes.toString(isBinary ? 'base64' : 'utf8'),
+      isBinary,
+      size: bytes.length,
+    },
+    update: {},
+  });
+
+  return hash;
+}
+
+/**
+ * Loads several blobs at once, keyed by hash. Missing hashes are left out.
+ */
+export async function readBlobs(hashes: string[]): Promise<Map<string, Blob>> {
+  const blobs = await db.fileContent.findMany({ where: { hash: { in: [...new Set(hashes)] } } });
+
+  return new Map(
+    blobs.map((blob) => [
+      blob.hash,
+      {
+        hash: blob.hash,
+        content: Buffer.from(blob.content, blob.isBinary ? 'base64' : 'utf8'),
+        isBinary: blob.isBinary,
+      },
+    ])
+  );
+}
+
+export async function readBlob(hash: string): Promise<Blob | null> {
+  const blobs = await readBlobs([hash]);
+  return blobs.get(hash) ?? null;
+}
@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { ancestorsOf, loadCommitGraph } from '@/lib/commit-graph';
+import { DEFAULT_BRANCH } from '@/lib/repositories';
+
+// Git-style branch names: path segments of letters, digits, dots, dashes and underscores
+export const branchNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Branch name is required')
+  .max(100, 'Branch name is too long')
+  .regex(/^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/, 'Branch names may only contain letters, digits, ".", "-", "_" and "/"')
+  .refine((name) => !name.includes('..') && !name.endsWith('.lock') && !name.startsWith('.'), {
+    message: 'Invalid branch name',
+  });
+
+// Schema for creating a branch from the head of another branch or from a specific commit
+export const createBranchSchema = z
+  .object({
+    name: branchNameSchema,
+    fromBranch: z.string().trim().min(1).optional(),
+    fromCommitId: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !(data.fromBranch && data.fromCommitId), {
+    message: 'Choose either a source branch or a commit, not both',
+    path: ['fromCommitId'],
+  });
+
+// Schema for renaming a branch or changing its protection
+export const updateBranchSchema = z
+  .object({
+    name: branchNameSchema.optional(),
+    isProtected: z.boolean().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.isProtected !== undefined, {
+    message: 'Nothing to update',
+  });
+
+export const branchInclude = {
+  headCommit: {
+    select: {
+      id: true,
+      message: true,
+      timestamp: true,
+      author: { select: { userId: true, firstName: true, lastName: true } },
+    },
+  },
+} satisfies Prisma.BranchInclude;
+
+/**
+ * Error returned when a direct commit targets a protected branch.
+ */
+export function protectedBranchMessage(branchName: string) {
+  return `Branch ${branchName} is protected; changes must be merged through a merge request`;
+}
+
+/**
+ * Lists a repository's branches with their head commits and how far each is ahead of and
+ * behind the default branch. Falls back to the oldest branch when there is no default branch.
+ */
+export async function listBranchesWithComparison(repositoryName: string, repositoryGroup: string) {
+  const [branches, graph] = await Promise.all([
+    db.branch.findMany({
+      where: { repositoryName, repositoryGroup },
+      include: branchInclude,
+      orderBy: { createdAt: 'asc' },
+    }),
+    loadCommitGraph(repositoryName, repositoryGroup),
+  ]);
+
+  const defaultBranch = branches.find((b) => b.name === DEFAULT_BRANCH) ?? branches[0];
+  const baseline = defaultBranch ? ancestorsOf(graph, defaultBranch.headCommitId) : new Set<string>();
+
+  const result = branches.map((branch) => {
+    const history = ancestorsOf(graph, branch.headCommitId);
+    return {
+      ...branch,
+      isDefault: branch.id === defaultBranch?.id,
+      ahead: [...history].filter((id) => !baseline.has(id)).length,
+      behind: [...baseline].filter((id) => !history.has(id)).length,
+    };
+  });
+
+  // Default branch first, then the most recently updated
+  result.sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  return { defaultBranch: defaultBranch?.name ?? null, branches: result };
+}
@@ -0,0 +1,323 @@
+import { ChangeType } from '@prisma/client';
+import { createHash } from 'crypto';
+import { db } from '@/lib/db';
+
+export interface GraphCommit {
+  id: string;
+  parentCommitIDs: string[];
+  timestamp: Date;
+}
+
+export type CommitGraph = Map<string, GraphCommit>;
+
+/**
+ * Loads every commit of a repository as an id -> commit map for traversal.
+ * Student repositories are small enough to walk in memory.
+ */
+export async function loadCommitGraph(repositoryName: string, repositoryGroup: string): Promise<CommitGraph> {
+  const commits = await db.commit.findMany({
+    where: { repositoryName, repositoryGroup },
+    select: { id: true, parentCommitIDs: true, timestamp: true },
+  });
+
+  return new Map(commits.map((commit) => [commit.id, commit]));
+}
+
+/**
+ * Returns the ids of a commit and all of its ancestors.
+ */
+export function ancestorsOf(graph: CommitGraph, commitId: string): Set<string> {
+  const seen = new Set<string>();
+  const stack = [commitId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const commit = graph.get(id);
+    if (commit) {
+      stack.push(...commit.parentCommitIDs);
+    }
+  }
+
+  return seen;
+}
+
+/**
+ * Commits reachable from `head` but not from `base`, oldest first.
+ */
+export function commitsBetween(graph: CommitGraph, base: string, head: string): GraphCommit[] {
+  const excluded = ancestorsOf(graph, base);
+
+  return [...ancestorsOf(graph, head)]
+    .filter((id) => !excluded.has(id))
+    .map((id) => graph.get(id))
+    .filter((commit): commit is GraphCommit => !!commit)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export interface NetFileChange {
+  filePath: string;
+  changeType: ChangeType;
+  fileContentHash: string | null;
+  previousFileContentHash: string | null;
+  mode: string | null;
+}
+
+/**
+ * Collapses the file changes of a run of commits into one change per path, as if they
+ * had been made in a single commit. Paths that were added and then deleted drop out.
+ */
+export async function netFileChanges(commitIds: string[]): Promise<Map<string, NetFileChange>> {
+  const changes = await db.fileChange.findMany({
+    where: { commitId: { in: commitIds } },
+    select: {
+      filePath: true,
+      changeType: true,
+      fileContentHash: true,
+      previousFileContentHash: true,
+      mode: true,
+      commit: { select: { timestamp: true } },
+    },
+  });
+  changes.sort((a, b) => a.commit.timestamp.getTime() - b.commit.timestamp.getTime());
+
+  const net = new Map<string, NetFileChange>();
+  for (const change of changes) {
+    const earlier = net.get(change.filePath);
+    net.set(change.filePath, {
+      filePath: change.filePath,
+      changeType: change.changeType,
+      fileContentHash: change.changeType === ChangeType.DELETED ? null : change.fileContentHash,
+      // The state before the run is whatever preceded its first change
+      previousFileContentHash: earlier ? earlier.previousFileContentHash : change.previousFileContentHash,
+      mode: change.mode ?? earlier?.mode ?? null,
+    });
+
+    const current = net.get(change.filePath)!;
+    const existedBefore = earlier ? earlier.changeType !== ChangeType.ADDED : change.changeType !== ChangeType.ADDED;
+    if (!existedBefore) {
+      if (current.changeType === ChangeType.DELETED) {
+        net.delete(change.filePath);
+      } else {
+        current.changeType = ChangeType.ADDED;
+      }
+    } else if (current.changeType === ChangeType.ADDED) {
+      current.changeType = ChangeType.MODIFIED;
+    }
+  }
+
+  return net;
+}
+
+/**
+ * Lists the files that exist at a commit, as path -> content hash, by taking the newest
+ * change to each path in the commit's history. Deleted paths are left out.
+ */
+export async function treeAtCommit(
+  repositoryName: string,
+  repositoryGroup: string,
+  commitId: string
+): Promise<Map<string, string>> {
+  const graph = await loadCommitGraph(repositoryName, repositoryGroup);
+  const history = walkHistory(graph, [commitId]);
+  const order = new Map(history.map((commit, index) => [commit.id, index]));
+
+  const changes = await db.fileChange.findMany({
+    where: { commitId: { in: history.map((commit) => commit.id) } },
+    select: { commitId: true, filePath: true, changeType: true, fileContentHash: true },
+  });
+  changes.sort((a, b) => order.get(a.commitId)! - order.get(b.commitId)!);
+
+  const seen = new Set<string>();
+  const tree = new Map<string, string>();
+  for (const change of changes) {
+    if (seen.has(change.filePath)) continue;
+    seen.add(change.filePath);
+    if (change.changeType !== ChangeType.DELETED && change.fileContentHash) {
+      tree.set(change.filePath, change.fileContentHash);
+    }
+  }
+
+  return new Map([...tree].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Derives a commit id by hashing the commit's parents, author, file changes and message.
+ */
+export function computeCommitId(commit: {
+  message: string;
+  authorId: string;
+  timestamp: Date;
+  parentCommitIDs: string[];
+  fileChanges: Pick<NetFileChange, 'filePath' | 'changeType' | 'fileContentHash'>[];
+}): string {
+  const hash = createHash('sha1');
+  hash.update(commit.parentCommitIDs.map((id) => `parent ${id}\n`).join(''));
+  hash.update(`author ${commit.authorId} ${commit.timestamp.toISOString()}\n`);
+  for (const change of commit.fileChanges) {
+    hash.update(`${change.changeType} ${change.filePath} ${change.fileContentHash ?? ''}\n`);
+  }
+  hash.update(`\n${commit.message}`);
+  return hash.digest('hex');
+}
+
+/**
+ * Orders the commits reachable from `heads` newest first, never listing a commit before
+ * one of its descendants, so merged branches stay grouped under their merge commit.
+ */
+export function walkHistory(graph: CommitGraph, heads: string[]): GraphCommit[] {
+  const reachable = new Set<string>();
+  for (const head of heads) {
+    for (const id of ancestorsOf(graph, head)) {
+      if (graph.has(id)) reachable.add(id);
+    }
+  }
+
+  const pendingChildren = new Map<string, number>();
+  for (const id of reachable) {
+    for (const parentId of graph.get(id)!.parentCommitIDs) {
+      if (reachable.has(parentId)) {
+        pendingChildren.set(parentId, (pendingChildren.get(parentId) ?? 0) + 1);
+      }
+    }
+  }
+
+  const ready = [...reachable].filter((id) => !pendingChildren.has(id)).map((id) => graph.get(id)!);
+  const ordered: GraphCommit[] = [];
+
+  while (ready.length > 0) {
+    let newest = 0;
+    for (let i = 1; i < ready.length; i++) {
+      if (ready[i].timestamp > ready[newest].timestamp) newest = i;
+    }
+    const [commit] = ready.splice(newest, 1);
+    ordered.push(commit);
+
+    for (const parentId of commit.parentCommitIDs) {
+      const remaining = pendingChildren.get(parentId);
+      if (remaining === undefined) continue;
+      if (remaining === 1) {
+        pendingChildren.delete(parentId);
+        ready.push(graph.get(parentId)!);
+      } else {
+        pendingChildren.set(parentId, remaining - 1);
+      }
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Rewrites each selected commit's parents to its nearest selected ancestors, so a filtered
+ * history (e.g. commits touching one path) still forms a connected graph.
+ */
+export function simplifyHistory(graph: CommitGraph, selected: GraphCommit[]): GraphCommit[] {
+  const selectedIds = new Set(selected.map((commit) => commit.id));
+
+  return selected.map((commit) => {
+    const parents: string[] = [];
+    const seen = new Set<string>();
+
+    // Walk each parent line in order so the first parent stays first
+    for (const start of commit.parentCommitIDs) {
+      const stack = [start];
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (seen.has(id)) continue;
+        seen.add(id);
+
+        if (selectedIds.has(id)) {
+          parents.push(id);
+        } else {
+          stack.push(...(graph.get(id)?.parentCommitIDs ?? []));
+        }
+      }
+    }
+
+    // Drop parents that are already reachable through another parent
+    const ancestorSets = parents.map((id) => ancestorsOf(graph, id));
+    const direct = parents.filter((id, i) => !ancestorSets.some((ancestors, j) => j !== i && ancestors.has(id)));
+
+    return { ...commit, parentCommitIDs: direct };
+  });
+}
+
+export interface GraphEdge {
+  /** Column of the line in this row */
+  from: number;
+  /** Column the line reaches in the next row */
+  to: number;
+}
+
+export interface GraphRow {
+  commitId: string;
+  /** Column the commit's node is drawn in */
+  column: number;
+  /** Lines running from this row down to the next one */
+  edges: GraphEdge[];
+}
+
+/**
+ * Assigns every commit of an ordered history to a column and lists the line segments
+ * between consecutive rows, which is enough to draw the branch and merge graph.
+ */
+export function layoutCommitGraph(commits: GraphCommit[]): GraphRow[] {
+  const listed = new Set(commits.map((commit) => commit.id));
+  // Each lane holds the id of the commit it is waiting for, or null when free
+  const lanes: (string | null)[] = [];
+  const rows: { commitId: string; column: number; lanes: (string | null)[]; origins: number[]; joins: string[] }[] = [];
+
+  const freeLane = (skip: number) => {
+    const index = lanes.findIndex((lane, i) => lane === null && i !== skip);
+    if (index !== -1) return index;
+    lanes.push(null);
+    return lanes.length - 1;
+  };
+
+  for (const commit of commits) {
+    let column = lanes.indexOf(commit.id);
+    if (column === -1) column = freeLane(-1);
+
+    // Branches that forked from this commit end here
+    for (let i = 0; i < lanes.length; i++) {
+      if (lanes[i] === commit.id) lanes[i] = null;
+    }
+
+    const origins = lanes.map((_, i) => i);
+    const joins: string[] = [];
+    const parents = commit.parentCommitIDs.filter((id) => listed.has(id));
+
+    parents.forEach((parentId, index) => {
+      if (lanes.includes(parentId)) {
+        // Another lane already leads to this parent; this line merges into it
+        joins.push(parentId);
+        return;
+      }
+      const lane = index === 0 ? column : freeLane(column);
+      lanes[lane] = parentId;
+      origins[lane] = column;
+    });
+
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop();
+    rows.push({ commitId: commit.id, column, lanes: [...lanes], origins, joins });
+  }
+
+  return rows.map((row, index) => {
+    const next = rows[index + 1];
+    const target = (lane: number, waitingFor: string) => (next && next.commitId === waitingFor ? next.column : lane);
+
+    const edges: GraphEdge[] = [];
+    row.lanes.forEach((waitingFor, lane) => {
+      if (waitingFor !== null) edges.push({ from: row.origins[lane], to: target(lane, waitingFor) });
+    });
+    for (const parentId of row.joins) {
+      const lane = row.lanes.indexOf(parentId);
+      edges.push({ from: row.column, to: target(lane, parentId) });
+    }
+
+    return { commitId: row.commitId, column: row.column, edges };
+  });
+}
@@ -0,0 +1,305 @@
+import { ChangeType } from '@prisma/client';
+import { readBlobs } from '@/lib/blob-store';
+
+export const DEFAULT_CONTEXT_LINES = 3;
+
+// Beyond this many edits the diff is shown as a full rewrite instead of a minimal edit script
+const MAX_EDIT_DISTANCE = 2000;
+// Files larger than this are not diffed at all
+const MAX_DIFF_BYTES = 1024 * 1024;
+
+export type DiffLineType = 'context' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface FileDiff {
+  id: string;
+  filePath: string;
+  changeType: ChangeType;
+  isBinary: boolean;
+  tooLarge: boolean;
+  /** Set when a blob referenced by the file change is not in the store */
+  missingContent: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+  unified: string;
+  sideBySide: { header: string; rows: SideBySideRow[] }[];
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n').map((line) => line.replace(/\r$/, ''));
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Myers' O(ND) shortest edit script over the lines between the common prefix and suffix.
+ * Returns null when the edit distance exceeds `maxDistance`.
+ */
+function shortestEditScript(a: string[], b: string[], maxDistance: number): DiffLineType[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxDistance);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? v[k + 1 + offset] : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk the trace backwards from (n, m) to recover the edit script
+  const script: DiffLineType[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && snapshot[k - 1 + offset] < snapshot[k + 1 + offset]) ? k + 1 : k - 1;
+    const prevX = snapshot[prevK + offset];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      script.push('context');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      script.push(x === prevX ? 'added' : 'removed');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return script.reverse();
+}
+
+/**
+ * Line-by-line diff of two texts, numbering each line on the side(s) it appears on.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle =
+    shortestEditScript(middleA, middleB, MAX_EDIT_DISTANCE) ??
+    [...middleA.map((): DiffLineType => 'removed'), ...middleB.map((): DiffLineType => 'added')];
+  const script: DiffLineType[] = [
+    ...Array<DiffLineType>(prefix).fill('context'),
+    ...middle,
+    ...Array<DiffLineType>(suffix).fill('context'),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const type of script) {
+    if (type === 'context') {
+      lines.push({ type, content: a[oldIndex], oldNumber: oldIndex + 1, newNumber: newIndex + 1 });
+      oldIndex++;
+      newIndex++;
+    } else if (type === 'removed') {
+      lines.push({ type, content: a[oldIndex], oldNumber: oldIndex + 1, newNumber: null });
+      oldIndex++;
+    } else {
+      lines.push({ type, content: b[newIndex], oldNumber: null, newNumber: newIndex + 1 });
+      newIndex++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Groups changed lines into hunks with `context` unchanged lines around them.
+ */
+export function buildHunks(lines: DiffLine[], context = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  const ranges: [number, number][] = [];
+  lines.forEach((line, index) => {
+    if (line.type === 'context') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end);
+    const oldBefore = lines.slice(0, start).filter((line) => line.oldNumber !== null).length;
+    const newBefore = lines.slice(0, start).filter((line) => line.newNumber !== null).length;
+    const oldLines = hunkLines.filter((line) => line.oldNumber !== null).length;
+    const newLines = hunkLines.filter((line) => line.newNumber !== null).length;
+
+    return {
+      // An empty side starts at the line it would be inserted after, as in `diff -u`
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+    };
+  });
+}
+
+export function hunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Renders hunks as a unified diff that `git apply` understands.
+ */
+export function formatUnifiedDiff(filePath: string, changeType: ChangeType, hunks: DiffHunk[]): string {
+  const prefixes: Record<DiffLineType, string> = { context: ' ', added: '+', removed: '-' };
+  const header = [
+    `--- ${changeType === ChangeType.ADDED ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${changeType === ChangeType.DELETED ? '/dev/null' : `b/${filePath}`}`,
+  ];
+
+  const body = hunks.flatMap((hunk) => [
+    hunkHeader(hunk),
+    ...hunk.lines.map((line) => `${prefixes[line.type]}${line.content}`),
+  ]);
+
+  return [...header, ...body].join('\n') + '\n';
+}
+
+/**
+ * Pairs removed lines with the added lines that replace them so both versions can be
+ * shown next to each other.
+ */
+export function toSideBySide(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Builds the diff of every file change, reading both versions from the blob store.
+ */
+export async function diffFileChanges(
+  fileChanges: {
+    id: string;
+    filePath: string;
+    changeType: ChangeType;
+    fileContentHash: string | null;
+    previousFileContentHash: string | null;
+  }[],
+  context = DEFAULT_CONTEXT_LINES
+): Promise<FileDiff[]> {
+  const blobs = await readBlobs(
+    fileChanges.flatMap((change) => [change.fileContentHash, change.previousFileContentHash]).filter(
+      (hash): hash is string => !!hash
+    )
+  );
+
+  return fileChanges.map((change) => {
+    const oldHash = change.changeType === ChangeType.ADDED ? null : change.previousFileContentHash;
+    const newHash = change.changeType === ChangeType.DELETED ? null : change.fileContentHash;
+    const oldBlob = oldHash ? blobs.get(oldHash) : undefined;
+    const newBlob = newHash ? blobs.get(newHash) : undefined;
+
+    const result: FileDiff = {
+      id: change.id,
+      filePath: change.filePath,
+      changeType: change.changeType,
+      isBinary: !!(oldBlob?.isBinary || newBlob?.isBinary),
+      tooLarge: (oldBlob?.content.length ?? 0) + (newBlob?.content.length ?? 0) > MAX_DIFF_BYTES,
+      missingContent: (!!oldHash && !oldBlob) || (!!newHash && !newBlob),
+      additions: 0,
+      deletions: 0,
+      hunks: [],
+      unified: '',
+      sideBySide: [],
+    };
+    if (result.isBinary || result.tooLarge || result.missingContent) {
+      return result;
+    }
+
+    const lines = diffLines(oldBlob?.content.toString('utf8') ?? '', newBlob?.content.toString('utf8') ?? '');
+    const hunks = buildHunks(lines, context);
+
+    return {
+      ...result,
+      additions: lines.filter((line) => line.type === 'added').length,
+      deletions: lines.filter((line) => line.type === 'removed').length,
+      hunks,
+      unified: formatUnifiedDiff(change.filePath, change.changeType, hunks),
+      sideBySide: hunks.map((hunk) => ({ header: hunkHeader(hunk), rows: toSideBySide(hunk) })),
+    };
+  });
+}
@@ -0,0 +1,225 @@
+import { Prisma, ProjectStatus } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getLifecycleRoles } from '@/lib/project-lifecycle';
+import { fileUrl, getFileStorage, keyFromUrl } from '@/lib/storage';
+import { isFrozenDocumentFile } from '@/lib/submission-snapshots';
+
+// Schema for an advisor's comment on a document version
+export const versionCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment cannot be empty').max(5000, 'Comment is too long'),
+});
+
+// Names saveDocumentFile gives stored files: <timestamp>-<sanitized original name>
+const STORED_FILENAME = /^\d+-[A-Za-z0-9._-]+$/;
+
+export const versionInclude = {
+  uploadedBy: { select: { userId: true, firstName: true, lastName: true } },
+  _count: { select: { comments: true } },
+} satisfies Prisma.DocumentVersionInclude;
+
+interface VersionProject {
+  id: string;
+  title: string;
+  status: ProjectStatus;
+  groupUserName: string;
+  advisorId: string | null;
+}
+
+export interface DocumentAccess {
+  canRead: boolean;
+  /** Group members upload new versions and restore old ones */
+  canUpload: boolean;
+  /** Only the project's advisor comments on versions */
+  canComment: boolean;
+}
+
+/**
+ * What a user may do with the version history of a project's documents. Evaluators
+ * assigned to the project can read it like everyone involved in the project.
+ */
+export async function getDocumentAccess(project: VersionProject, user: { userId: string; role: string }): Promise<DocumentAccess> {
+  const [roles, evaluator] = await Promise.all([
+    getLifecycleRoles(project, user),
+    db.projectEvaluator.findUnique({
+      where: { projectId_evaluatorId: { projectId: project.id, evaluatorId: user.userId } },
+      select: { evaluatorId: true },
+    }),
+  ]);
+
+  return {
+    canRead: roles.length > 0 || !!evaluator,
+    canUpload: roles.includes('MEMBER'),
+    canComment: roles.includes('ADVISOR'),
+  };
+}
+
+/**
+ * Looks up a document of a group's project together with what the user may do with its
+ * versions, or an error when the document is not there or the user has no part in it.
+ */
+export async function resolveDocument(
+  groupUserName: string,
+  projectId: string,
+  documentId: string,
+  user: { userId: string; role: string }
+) {
+  const project = await db.project.findFirst({
+    where: { id: projectId, groupUserName },
+    select: { id: true, title: true, status: true, groupUserName: true, advisorId: true },
+  });
+  if (!project) {
+    return { error: 'Project not found or does not belong to this group', status: 404 } as const;
+  }
+
+  const document = await db.document.findFirst({ where: { id: documentId, projectId } });
+  if (!document) {
+    return { error: 'Document not found', status: 404 } as const;
+  }
+
+  const access = await getDocumentAccess(project, user);
+  if (!access.canRead) {
+    return { error: 'You are not involved in this project', status: 403 } as const;
+  }
+
+  return { project, document, access } as const;
+}
+
+/**
+ * Stores an uploaded file next to the project's other documents under a new name, so
+ * that no earlier version is ever overwritten.
+ */
+export async function saveDocumentFile(projectId: string, file: File) {
+  const filename = `${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+  const key = `documents/${projectId}/${filename}`;
+  await getFileStorage().put(key, Buffer.from(await file.arrayBuffer()), file.type);
+
+  return { filename, url: fileUrl(key), type: file.type, size: file.size };
+}
+
+/**
+ * Documents uploaded before versioning have no history yet; their current file becomes
+ * version 1.
+ */
+async function ensureVersionHistory(
+  tx: Prisma.TransactionClient,
+  document: { id: string; url: string; type: string | null; size: number | null; uploadedById: string | null; createdAt: Date }
+) {
+  const count = await tx.documentVersion.count({ where: { documentId: document.id } });
+  if (count > 0) return;
+
+  await tx.documentVersion.create({
+    data: {
+      documentId: document.id,
+      version: 1,
+      url: document.url,
+      type: document.type,
+      size: document.size,
+      uploadedById: document.uploadedById,
+      createdAt: document.createdAt,
+    },
+  });
+}
+
+/**
+ * Every version of a document, newest first.
+ */
+export async function getDocumentVersions(documentId: string) {
+  await db.$transaction(async (tx) => {
+    const document = await tx.document.findUniqueOrThrow({ where: { id: documentId } });
+    await ensureVersionHistory(tx, document);
+  });
+
+  return db.documentVersion.findMany({
+    where: { documentId },
+    include: versionInclude,
+    orderBy: { version: 'desc' },
+  });
+}
+
+/**
+ * Adds a version on top of a document's history and makes it the current file. Restoring
+ * passes the version it restores, whose file the new version shares.
+ */
+export async function addDocumentVersion(
+  documentId: string,
+  file: { url: string; type: string | null; size: number | null },
+  uploadedById: string,
+  restoredFromVersion?: number
+) {
+  return db.$transaction(async (tx) => {
+    const document = await tx.document.findUniqueOrThrow({ where: { id: documentId } });
+    await ensureVersionHistory(tx, document);
+
+    const latest = await tx.documentVersion.findFirst({
+      where: { documentId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    const version = await tx.documentVersion.create({
+      data: {
+        documentId,
+        version: (latest?.version ?? 0) + 1,
+        url: file.url,
+        type: file.type,
+        size: file.size,
+        restoredFromVersion: restoredFromVersion ?? null,
+        uploadedById,
+      },
+      include: versionInclude,
+    });
+    const updated = await tx.document.update({
+      where: { id: documentId },
+      data: { url: file.url, type: file.type, size: file.size },
+    });
+
+    return { version, document: updated };
+  });
+}
+
+/**
+ * Removes every file a document's versions point to, except those a submission snapshot
+ * still refers to. Called before the document itself is deleted.
+ */
+export async function deleteDocumentFiles(document: { id: string; url: string }) {
+  const versions = await db.documentVersion.findMany({
+    where: { documentId: document.id },
+    select: { url: true },
+  });
+  const urls = new Set([document.url, ...versions.map((version) => version.url)]);
+
+  for (const url of urls) {
+    const key = keyFromUrl(url);
+    if (!key || (await isFrozenDocumentFile(url))) continue;
+    try {
+      await getFileStorage().delete(key);
+    } catch (fileError) {
+      console.error('Error deleting document file:', fileError);
+    }
+  }
+}
+
+/**
+ * Deletes the file behind a temporary document ID, which the upload route hands out when it
+ * stored a file but could not record the document. Refuses names it never generates and
+ * files that a document, a version or a submission snapshot still points to.
+ */
+export async function deleteTemporaryDocumentFile(projectId: string, filename: string) {
+  if (!STORED_FILENAME.test(filename)) {
+    return { error: 'Invalid temporary document ID', status: 400 } as const;
+  }
+
+  const key = `documents/${projectId}/${filename}`;
+  const url = fileUrl(key);
+  const [documents, versions, frozen] = await Promise.all([
+    db.document.count({ where: { url } }),
+    db.documentVersion.count({ where: { url } }),
+    isFrozenDocumentFile(url),
+  ]);
+  if (documents > 0 || versions > 0 || frozen) {
+    return { error: 'The file belongs to a document and cannot be deleted this way', status: 409 } as const;
+  }
+
+  await getFileStorage().delete(key);
+  return { deleted: true } as const;
+}
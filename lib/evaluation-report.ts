@@ -0,0 +1,198 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+
+export interface EvaluationCriterion {
+  id: string;
+  name: string;
+  score: number;
+  maxScore: number;
+  comment?: string;
+}
+
+export interface EvaluationReportData {
+  projectTitle: string;
+  groupName: string;
+  members: string[];
+  evaluatorName: string;
+  evaluationDate: Date;
+  score: number | null;
+  comments: string;
+  criteria: EvaluationCriterion[];
+}
+
+/**
+ * Extracts the per-criterion breakdown from `Evaluation.criteriaData`.
+ * Accepts either `{ criteria: [...] }` or a bare array; anything else yields no criteria.
+ */
+export function parseEvaluationCriteria(criteriaData: unknown): EvaluationCriterion[] {
+  let raw: unknown[] = [];
+  if (Array.isArray(criteriaData)) {
+    raw = criteriaData;
+  } else if (criteriaData && typeof criteriaData === 'object') {
+    const { criteria } = criteriaData as { criteria?: unknown };
+    if (Array.isArray(criteria)) raw = criteria;
+  }
+
+  return raw
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item, index) => ({
+      id: typeof item.id === 'string' ? item.id : String(index),
+      name: typeof item.name === 'string' ? item.name : `Criterion ${index + 1}`,
+      score: Number(item.score) || 0,
+      maxScore: Number(item.maxScore) || 0,
+      comment: typeof item.comment === 'string' && item.comment ? item.comment : undefined,
+    }));
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+
+// The standard fonts only cover WinAnsi, so anything outside Latin-1 is replaced
+const toWinAnsi = (text: string) =>
+  text.replace(/\t/g, '    ').replace(/[^\x20-\x7E\xA0-\xFF\n]/g, '?');
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of toWinAnsi(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      // Hard-break words that are wider than the whole line
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+/**
+ * Renders an evaluation as an A4 PDF and returns the document bytes.
+ */
+export async function generateEvaluationReportPdf(data: EvaluationReportData): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(toWinAnsi(`Evaluation Report - ${data.projectTitle}`));
+  doc.setAuthor(toWinAnsi(data.evaluatorName));
+  doc.setCreationDate(new Date());
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const italic = await doc.embedFont(StandardFonts.HelveticaOblique);
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const write = (
+    text: string,
+    { font = regular, size = 11, color = TEXT_COLOR, indent = 0 }: { font?: PDFFont; size?: number; color?: typeof TEXT_COLOR; indent?: number } = {}
+  ) => {
+    const lineHeight = size * 1.4;
+    for (const line of wrapText(text, font, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(lineHeight);
+      y -= lineHeight;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color });
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y -= 14;
+    write(text, { font: bold, size: 13 });
+    y -= 4;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+    y -= 4;
+  };
+
+  const field = (label: string, value: string) => {
+    write(`${label}: ${value}`);
+  };
+
+  write('Evaluation Report', { font: bold, size: 20 });
+  write(data.projectTitle, { size: 14, color: MUTED_COLOR });
+
+  heading('Project');
+  field('Title', data.projectTitle);
+  field('Group', data.groupName);
+  field('Members', data.members.length > 0 ? data.members.join(', ') : 'None');
+
+  heading('Evaluation');
+  field('Evaluator', data.evaluatorName);
+  field(
+    'Date',
+    new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'long', day: 'numeric' }).format(data.evaluationDate)
+  );
+  field('Overall score', data.score !== null ? String(data.score) : 'Not scored');
+
+  heading('Criteria');
+  if (data.criteria.length === 0) {
+    write('No per-criterion breakdown was recorded.', { font: italic, color: MUTED_COLOR });
+  } else {
+    for (const criterion of data.criteria) {
+      ensureSpace(40);
+      y -= 4;
+      const scoreText = `${criterion.score} / ${criterion.maxScore}`;
+      const scoreWidth = bold.widthOfTextAtSize(scoreText, 11);
+      const nameLines = wrapText(criterion.name, bold, 11, CONTENT_WIDTH - scoreWidth - 20);
+      nameLines.forEach((line, index) => {
+        ensureSpace(15.4);
+        y -= 15.4;
+        page.drawText(line, { x: MARGIN, y, size: 11, font: bold, color: TEXT_COLOR });
+        if (index === 0) {
+          page.drawText(scoreText, { x: PAGE_WIDTH - MARGIN - scoreWidth, y, size: 11, font: bold, color: TEXT_COLOR });
+        }
+      });
+      if (criterion.comment) {
+        write(criterion.comment, { font: italic, size: 10, color: MUTED_COLOR, indent: 12 });
+      }
+    }
+  }
+
+  heading('Comments');
+  write(data.comments || 'No comments.', data.comments ? {} : { font: italic, color: MUTED_COLOR });
+
+  // Footer on every page once the page count is known
+  const pages = doc.getPages();
+  pages.forEach((p, index) => {
+    const footer = `Page ${index + 1} of ${pages.length}`;
+    p.drawText(footer, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(footer, 9),
+      y: MARGIN / 2,
+      size: 9,
+      font: regular,
+      color: MUTED_COLOR,
+    });
+  });
+
+  return doc.save();
+}
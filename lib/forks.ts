@@ -0,0 +1,238 @@
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { CommitGraph, loadCommitGraph, walkHistory } from '@/lib/commit-graph';
+
+// Schema for forking a repository into a group
+export const forkRepositorySchema = z.object({
+  groupUserName: z.string().trim().min(1, 'Target group is required'),
+  name: z.string().trim().min(1, 'Repository name is required').max(255, 'Repository name is too long').optional(),
+  description: z.string().trim().min(1).max(1000, 'Description is too long').optional(),
+  isPrivate: z.boolean().optional(),
+});
+
+interface RepositoryKey {
+  name: string;
+  groupUserName: string;
+}
+
+// Copying a large history takes longer than Prisma's default 5 second transaction timeout
+const COPY_TRANSACTION_TIMEOUT = 60000;
+
+/**
+ * Derives the id a commit gets when it is copied into another repository. Commit ids are
+ * global, so the copy cannot reuse the original's id, but the same commit copied into
+ * the same repository always gets the same id.
+ */
+export function copiedCommitId(commitId: string, target: RepositoryKey): string {
+  return createHash('sha1').update(`copy ${target.groupUserName}/${target.name} ${commitId}`).digest('hex');
+}
+
+const copyableCommitSelect = {
+  id: true,
+  message: true,
+  timestamp: true,
+  authorId: true,
+  parentCommitIDs: true,
+  copiedFromId: true,
+  fileChanges: {
+    select: { filePath: true, changeType: true, fileContentHash: true, previousFileContentHash: true, mode: true },
+  },
+} satisfies Prisma.CommitSelect;
+
+type CopyableCommit = Prisma.CommitGetPayload<{ select: typeof copyableCommitSelect }>;
+
+/**
+ * Creates copies of `commits` in the target repository, oldest first, with ids from
+ * `idFor` and parents rewritten through it. Blobs are content-addressed and shared, so
+ * only the file change records are copied.
+ */
+async function createCommitCopies(
+  tx: Prisma.TransactionClient,
+  commits: CopyableCommit[],
+  target: RepositoryKey,
+  idFor: (commitId: string) => string | undefined
+) {
+  await tx.commit.createMany({
+    data: commits.map((commit) => ({
+      id: idFor(commit.id)!,
+      message: commit.message,
+      timestamp: commit.timestamp,
+      authorId: commit.authorId,
+      repositoryName: target.name,
+      repositoryGroup: target.groupUserName,
+      parentCommitIDs: commit.parentCommitIDs.map(idFor).filter((id): id is string => !!id),
+      copiedFromId: commit.id,
+    })),
+  });
+
+  await tx.fileChange.createMany({
+    data: commits.flatMap((commit) =>
+      commit.fileChanges.map((change) => ({ ...change, commitId: idFor(commit.id)! }))
+    ),
+  });
+}
+
+/**
+ * Forks a repository into another group: copies its whole commit graph and every branch
+ * under new commit ids and records the source as the fork's upstream. Forks of private
+ * repositories are always private.
+ */
+export async function forkRepository(
+  source: RepositoryKey & { description: string; isPrivate: boolean },
+  target: RepositoryKey & { ownerId: string; description?: string; isPrivate?: boolean }
+) {
+  const [commits, branches] = await Promise.all([
+    db.commit.findMany({
+      where: { repositoryName: source.name, repositoryGroup: source.groupUserName },
+      select: copyableCommitSelect,
+      orderBy: { timestamp: 'asc' },
+    }),
+    db.branch.findMany({
+      where: { repositoryName: source.name, repositoryGroup: source.groupUserName },
+      select: { name: true, headCommitId: true, isProtected: true },
+    }),
+  ]);
+
+  const ids = new Map(commits.map((commit) => [commit.id, copiedCommitId(commit.id, target)]));
+
+  return db.$transaction(
+    async (tx) => {
+      const repository = await tx.repository.create({
+        data: {
+          name: target.name,
+          groupUserName: target.groupUserName,
+          ownerId: target.ownerId,
+          description: target.description ?? source.description,
+          isPrivate: source.isPrivate || (target.isPrivate ?? false),
+          forkedFromName: source.name,
+          forkedFromGroup: source.groupUserName,
+        },
+      });
+
+      await createCommitCopies(tx, commits, target, (id) => ids.get(id));
+      await tx.branch.createMany({
+        data: branches
+          .filter((branch) => ids.has(branch.headCommitId))
+          .map((branch) => ({
+            name: branch.name,
+            repositoryName: target.name,
+            repositoryGroup: target.groupUserName,
+            headCommitId: ids.get(branch.headCommitId)!,
+            isProtected: branch.isProtected,
+          })),
+      });
+
+      return repository;
+    },
+    { timeout: COPY_TRANSACTION_TIMEOUT }
+  );
+}
+
+/**
+ * Maps the commits of one repository to their counterparts in another: the original a
+ * fork copied, or an earlier copy of the commit.
+ */
+async function findCounterparts(source: RepositoryKey, target: RepositoryKey) {
+  const [sourceCommits, targetCommits] = await Promise.all([
+    db.commit.findMany({
+      where: { repositoryName: source.name, repositoryGroup: source.groupUserName },
+      select: { id: true, parentCommitIDs: true, timestamp: true, copiedFromId: true },
+    }),
+    db.commit.findMany({
+      where: { repositoryName: target.name, repositoryGroup: target.groupUserName },
+      select: { id: true, copiedFromId: true },
+    }),
+  ]);
+
+  const targetIds = new Set(targetCommits.map((commit) => commit.id));
+  const copies = new Map(
+    targetCommits.filter((commit) => commit.copiedFromId).map((commit) => [commit.copiedFromId!, commit.id])
+  );
+  const counterparts = new Map<string, string>();
+  for (const commit of sourceCommits) {
+    const counterpart =
+      commit.copiedFromId && targetIds.has(commit.copiedFromId) ? commit.copiedFromId : copies.get(commit.id);
+    if (counterpart) counterparts.set(commit.id, counterpart);
+  }
+
+  return { sourceCommits, counterparts };
+}
+
+/**
+ * The commit graph of the target with the commits of another repository laid over it, so
+ * that a fork's branch can be compared with the target without copying anything into it.
+ * Commits the target already has stand in for their counterparts; the others keep their
+ * own ids. Returns the graph and the id the given source commit has in it.
+ */
+export async function graphWithCommitsOf(
+  source: RepositoryKey,
+  commitId: string,
+  target: RepositoryKey
+): Promise<{ graph: CommitGraph; headId: string }> {
+  const [graph, { sourceCommits, counterparts }] = await Promise.all([
+    loadCommitGraph(target.name, target.groupUserName),
+    findCounterparts(source, target),
+  ]);
+  const idFor = (id: string) => counterparts.get(id) ?? id;
+
+  for (const commit of sourceCommits) {
+    if (counterparts.has(commit.id)) continue;
+    graph.set(commit.id, {
+      id: commit.id,
+      parentCommitIDs: commit.parentCommitIDs.map(idFor),
+      timestamp: commit.timestamp,
+    });
+  }
+
+  return { graph, headId: idFor(commitId) };
+}
+
+/**
+ * Makes a commit of one repository, with its history, available in another so the two can
+ * be merged, as when a fork's branch is merged back upstream. Commits that already have a
+ * counterpart in the target are reused, the rest are copied. Returns the id of the
+ * commit's counterpart.
+ */
+export async function copyCommitInto(source: RepositoryKey, commitId: string, target: RepositoryKey): Promise<string> {
+  const { sourceCommits, counterparts } = await findCounterparts(source, target);
+
+  // Walk back from the commit, stopping wherever the target already has the history
+  const graph = new Map(
+    sourceCommits.map((commit) => [
+      commit.id,
+      { ...commit, parentCommitIDs: counterparts.has(commit.id) ? [] : commit.parentCommitIDs },
+    ])
+  );
+  const missing = walkHistory(graph, [commitId])
+    .filter((commit) => !counterparts.has(commit.id))
+    .reverse();
+  if (missing.length === 0) {
+    return counterparts.get(commitId) ?? commitId;
+  }
+
+  for (const commit of missing) {
+    counterparts.set(commit.id, copiedCommitId(commit.id, target));
+  }
+
+  const commits = await db.commit.findMany({
+    where: { id: { in: missing.map((commit) => commit.id) } },
+    select: copyableCommitSelect,
+  });
+  const order = new Map(missing.map((commit, index) => [commit.id, index]));
+  commits.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+  await db.$transaction(
+    async (tx) => {
+      // A concurrent request may have copied them already
+      const existing = await tx.commit.count({ where: { id: counterparts.get(commitId)! } });
+      if (existing === 0) {
+        await createCommitCopies(tx, commits, target, (id) => counterparts.get(id));
+      }
+    },
+    { timeout: COPY_TRANSACTION_TIMEOUT }
+  );
+
+  return counterparts.get(commitId)!;
+}
@@ -0,0 +1,340 @@
+import { createHash } from 'crypto';
+import { deflateSync, inflateSync } from 'zlib';
+
+/*
+ * Git's object and wire formats, which vec servers speak over smart HTTP: object ids,
+ * trees, commits, packfiles and the pkt-line framing around them.
+ */
+
+// Raised when data that should be in one of git's formats is not
+export class GitFormatError extends Error {}
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+export interface GitObject {
+  type: GitObjectType;
+  content: Buffer;
+}
+
+// Stands for "no object", e.g. as the old value of a branch that is being created
+export const NULL_OBJECT_ID = '0'.repeat(40);
+
+export const TREE_MODE = '40000';
+export const FILE_MODE = '100644';
+export const EXECUTABLE_MODE = '100755';
+export const SYMLINK_MODE = '120000';
+
+export function gitObjectId(type: GitObjectType, content: Buffer): string {
+  return createHash('sha1').update(`${type} ${content.length}\0`).update(content).digest('hex');
+}
+
+export interface TreeEntry {
+  mode: string;
+  name: string;
+  id: string;
+}
+
+// Git orders tree entries bytewise, comparing subtrees as if their names ended in a slash
+const treeSortKey = (entry: TreeEntry) => Buffer.from(entry.mode === TREE_MODE ? `${entry.name}/` : entry.name);
+
+export function encodeTree(entries: TreeEntry[]): Buffer {
+  const sorted = [...entries].sort((a, b) => Buffer.compare(treeSortKey(a), treeSortKey(b)));
+  return Buffer.concat(
+    sorted.flatMap((entry) => [Buffer.from(`${entry.mode} ${entry.name}\0`), Buffer.from(entry.id, 'hex')])
+  );
+}
+
+export function parseTree(content: Buffer): TreeEntry[] {
+  const entries: TreeEntry[] = [];
+  let offset = 0;
+  while (offset < content.length) {
+    const space = content.indexOf(0x20, offset);
+    const nul = content.indexOf(0, space);
+    if (space < 0 || nul < 0 || nul + 21 > content.length) {
+      throw new GitFormatError('Malformed tree object');
+    }
+    entries.push({
+      mode: content.toString('utf8', offset, space),
+      name: content.toString('utf8', space + 1, nul),
+      id: content.toString('hex', nul + 1, nul + 21),
+    });
+    offset = nul + 21;
+  }
+  return entries;
+}
+
+export interface GitSignature {
+  name: string;
+  email: string;
+  timestamp: Date;
+  /** Offset from UTC as git writes it, e.g. +0200 */
+  timezone: string;
+}
+
+export interface GitCommit {
+  tree: string;
+  parents: string[];
+  author: GitSignature;
+  committer: GitSignature;
+  message: string;
+}
+
+const formatSignature = (signature: GitSignature) =>
+  `${signature.name} <${signature.email}> ${Math.floor(signature.timestamp.getTime() / 1000)} ${signature.timezone}`;
+
+function parseSignature(value: string): GitSignature {
+  const match = value.match(/^(.*) <(.*)> (\d+) ([+-]\d{4})$/);
+  if (!match) {
+    throw new GitFormatError(`Malformed signature "${value}"`);
+  }
+  return { name: match[1], email: match[2], timestamp: new Date(Number(match[3]) * 1000), timezone: match[4] };
+}
+
+export function encodeCommit(commit: GitCommit): Buffer {
+  return Buffer.from(
+    [
+      `tree ${commit.tree}`,
+      ...commit.parents.map((parent) => `parent ${parent}`),
+      `author ${formatSignature(commit.author)}`,
+      `committer ${formatSignature(commit.committer)}`,
+      '',
+      commit.message.endsWith('\n') ? commit.message : `${commit.message}\n`,
+    ].join('\n')
+  );
+}
+
+/**
+ * Reads the fields of a commit object. Headers this server has no use for, such as
+ * signatures, are skipped; they stay part of the object and its id.
+ */
+export function parseCommit(content: Buffer): GitCommit {
+  const text = content.toString('utf8');
+  const split = text.indexOf('\n\n');
+  const header = split < 0 ? text : text.slice(0, split);
+  const message = split < 0 ? '' : text.slice(split + 2);
+
+  let tree: string | undefined;
+  let author: GitSignature | undefined;
+  let committer: GitSignature | undefined;
+  const parents: string[] = [];
+  for (const line of header.split('\n')) {
+    // Continuation of a multi-line header
+    if (line.startsWith(' ')) continue;
+
+    const space = line.indexOf(' ');
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === 'tree') tree = value;
+    else if (key === 'parent') parents.push(value);
+    else if (key === 'author') author = parseSignature(value);
+    else if (key === 'committer') committer = parseSignature(value);
+  }
+
+  if (!tree || !author || !committer) {
+    throw new GitFormatError('Malformed commit object');
+  }
+  return { tree, parents, author, committer, message };
+}
+
+const PACK_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const PACK_TYPE_NUMBERS: Record<GitObjectType, number> = { commit: 1, tree: 2, blob: 3, tag: 4 };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+/**
+ * Builds a version 2 packfile holding the objects whole, without deltas.
+ */
+export function writePack(objects: GitObject[]): Buffer {
+  const header = Buffer.alloc(12);
+  header.write('PACK', 0);
+  header.writeUInt32BE(2, 4);
+  header.writeUInt32BE(objects.length, 8);
+
+  const parts: Buffer[] = [header];
+  for (const object of objects) {
+    let size = object.content.length;
+    const bytes = [(PACK_TYPE_NUMBERS[object.type] << 4) | (size & 0x0f)];
+    size = Math.floor(size / 16);
+    while (size > 0) {
+      bytes[bytes.length - 1] |= 0x80;
+      bytes.push(size & 0x7f);
+      size = Math.floor(size / 128);
+    }
+    parts.push(Buffer.from(bytes), deflateSync(object.content));
+  }
+
+  const body = Buffer.concat(parts);
+  return Buffer.concat([body, createHash('sha1').update(body).digest()]);
+}
+
+// Reads the two sizes at the start of a delta, each 7 bits per byte, least significant first
+function readDeltaSize(delta: Buffer, offset: number) {
+  let size = 0;
+  let shift = 1;
+  let byte: number;
+  do {
+    byte = delta[offset++];
+    size += (byte & 0x7f) * shift;
+    shift *= 128;
+  } while (byte & 0x80);
+  return { size, offset };
+}
+
+function applyDelta(base: Buffer, delta: Buffer): Buffer {
+  const source = readDeltaSize(delta, 0);
+  if (source.size !== base.length) {
+    throw new GitFormatError('Delta does not apply to its base');
+  }
+  const target = readDeltaSize(delta, source.offset);
+
+  const result = Buffer.alloc(target.size);
+  let written = 0;
+  let offset = target.offset;
+  while (offset < delta.length) {
+    const op = delta[offset++];
+    if (op & 0x80) {
+      // Copy a range of the base
+      let copyOffset = 0;
+      let copySize = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        if (op & (1 << bit)) copyOffset += delta[offset++] * 2 ** (8 * bit);
+      }
+      for (let bit = 0; bit < 3; bit++) {
+        if (op & (0x10 << bit)) copySize += delta[offset++] * 2 ** (8 * bit);
+      }
+      written += base.copy(result, written, copyOffset, copyOffset + (copySize || 0x10000));
+    } else if (op > 0) {
+      // Insert the next op bytes as they are
+      written += delta.copy(result, written, offset, offset + op);
+      offset += op;
+    } else {
+      throw new GitFormatError('Malformed delta');
+    }
+  }
+
+  if (written !== target.size) {
+    throw new GitFormatError('Delta produced the wrong size');
+  }
+  return result;
+}
+
+/**
+ * Reads every object of a packfile, resolving deltas against other objects of the pack,
+ * and returns them by id.
+ */
+export function readPack(pack: Buffer): Map<string, GitObject> {
+  if (pack.length < 32 || pack.toString('latin1', 0, 4) !== 'PACK') {
+    throw new GitFormatError('Not a packfile');
+  }
+  const checksum = createHash('sha1').update(pack.subarray(0, pack.length - 20)).digest();
+  if (!checksum.equals(pack.subarray(pack.length - 20))) {
+    throw new GitFormatError('Packfile checksum mismatch');
+  }
+
+  const count = pack.readUInt32BE(8);
+  const byOffset = new Map<number, GitObject>();
+  const objects = new Map<string, GitObject>();
+  const deltas: { offset: number; base: number | string; delta: Buffer }[] = [];
+
+  let offset = 12;
+  for (let index = 0; index < count; index++) {
+    const start = offset;
+    let byte = pack[offset++];
+    const type = (byte >> 4) & 0x07;
+    while (byte & 0x80) {
+      byte = pack[offset++];
+    }
+
+    let base: number | string | undefined;
+    if (type === OFS_DELTA) {
+      byte = pack[offset++];
+      let distance = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = pack[offset++];
+        distance = (distance + 1) * 128 + (byte & 0x7f);
+      }
+      base = start - distance;
+    } else if (type === REF_DELTA) {
+      base = pack.toString('hex', offset, offset + 20);
+      offset += 20;
+    } else if (!PACK_TYPES[type]) {
+      throw new GitFormatError(`Unknown object type ${type} in packfile`);
+    }
+
+    const { buffer, engine } = inflateSync(pack.subarray(offset), { info: true }) as unknown as {
+      buffer: Buffer;
+      engine: { bytesWritten: number };
+    };
+    offset += engine.bytesWritten;
+
+    if (base === undefined) {
+      const object = { type: PACK_TYPES[type], content: buffer };
+      byOffset.set(start, object);
+      objects.set(gitObjectId(object.type, object.content), object);
+    } else {
+      deltas.push({ offset: start, base, delta: buffer });
+    }
+  }
+
+  // Bases may themselves be deltas, in any order
+  let pending = deltas;
+  while (pending.length > 0) {
+    const unresolved = pending.filter(({ offset: start, base, delta }) => {
+      const baseObject = typeof base === 'number' ? byOffset.get(base) : objects.get(base);
+      if (!baseObject) return true;
+
+      const object = { type: baseObject.type, content: applyDelta(baseObject.content, delta) };
+      byOffset.set(start, object);
+      objects.set(gitObjectId(object.type, object.content), object);
+      return false;
+    });
+    if (unresolved.length === pending.length) {
+      throw new GitFormatError('Packfile refers to objects it does not contain');
+    }
+    pending = unresolved;
+  }
+
+  return objects;
+}
+
+export const FLUSH_PKT = Buffer.from('0000');
+
+export function pktLine(data: string | Buffer): Buffer {
+  const payload = typeof data === 'string' ? Buffer.from(data) : data;
+  return Buffer.concat([Buffer.from((payload.length + 4).toString(16).padStart(4, '0')), payload]);
+}
+
+/**
+ * Reads the pkt-line at `offset`. Flush and other special packets come back as null.
+ */
+export function readPktLine(buffer: Buffer, offset: number): { line: Buffer | null; next: number } {
+  const length = parseInt(buffer.toString('latin1', offset, offset + 4), 16);
+  if (Number.isNaN(length) || offset + Math.max(length, 4) > buffer.length) {
+    throw new GitFormatError('Malformed pkt-line');
+  }
+  if (length < 4) {
+    return { line: null, next: offset + 4 };
+  }
+  return { line: buffer.subarray(offset + 4, offset + length), next: offset + length };
+}
+
+/**
+ * Collects the data sent on band 1 of a side-band stream up to its flush packet. Progress
+ * on band 2 is dropped, and band 3 carries a fatal error from the other side.
+ */
+export function readSideBand(buffer: Buffer, offset: number): Buffer {
+  const data: Buffer[] = [];
+  while (offset < buffer.length) {
+    const { line, next } = readPktLine(buffer, offset);
+    offset = next;
+    if (!line) break;
+
+    const band = line[0];
+    if (band === 1) {
+      data.push(line.subarray(1));
+    } else if (band === 3) {
+      throw new GitFormatError(line.toString('utf8', 1).trim());
+    }
+  }
+  return Buffer.concat(data);
+}
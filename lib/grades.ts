@@ -0,0 +1,98 @@
+import { GradeAggregationMethod } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getRules, SystemRules } from '@/lib/rules';
+
+export interface WeightedScore {
+  score: number;
+  weight: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Combines evaluator scores with the given method. Expects at least one score.
+ */
+export function aggregateScores(scores: WeightedScore[], method: GradeAggregationMethod): number {
+  switch (method) {
+    case GradeAggregationMethod.WEIGHTED_MEAN: {
+      const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+      if (totalWeight <= 0) {
+        return mean(scores.map((s) => s.score));
+      }
+      return scores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight;
+    }
+    case GradeAggregationMethod.TRIMMED_MEAN: {
+      const sorted = scores.map((s) => s.score).sort((a, b) => a - b);
+      // Dropping both extremes only makes sense when something remains in between
+      return mean(sorted.length >= 3 ? sorted.slice(1, -1) : sorted);
+    }
+    case GradeAggregationMethod.MEAN:
+    default:
+      return mean(scores.map((s) => s.score));
+  }
+}
+
+/**
+ * Recomputes and stores the final grade of a project from the evaluations of its
+ * currently assigned evaluators. Removes the grade when no scored evaluation is left.
+ */
+export async function recomputeFinalGrade(projectId: string, rules?: SystemRules) {
+  const { gradeAggregation, gradeDisagreementThreshold } = rules ?? (await getRules());
+
+  const assignments = await db.projectEvaluator.findMany({
+    where: { projectId },
+    select: { evaluatorId: true, weight: true },
+  });
+  const weights = new Map(assignments.map((a) => [a.evaluatorId, a.weight]));
+
+  const evaluations = await db.evaluation.findMany({
+    where: {
+      projectId,
+      authorId: { in: [...weights.keys()] },
+      score: { not: null },
+    },
+    select: { authorId: true, score: true },
+  });
+
+  if (evaluations.length === 0) {
+    await db.finalGrade.deleteMany({ where: { projectId } });
+    return null;
+  }
+
+  const scores = evaluations.map((e) => ({ score: e.score as number, weight: weights.get(e.authorId) ?? 1 }));
+  const values = scores.map((s) => s.score);
+  const lowestScore = Math.min(...values);
+  const highestScore = Math.max(...values);
+
+  const data = {
+    score: Math.round(aggregateScores(scores, gradeAggregation) * 100) / 100,
+    method: gradeAggregation,
+    evaluationCount: evaluations.length,
+    lowestScore,
+    highestScore,
+    disagreement: highestScore - lowestScore > gradeDisagreementThreshold,
+    computedAt: new Date(),
+  };
+
+  return db.finalGrade.upsert({
+    where: { projectId },
+    update: data,
+    create: { projectId, ...data },
+  });
+}
+
+/**
+ * Recomputes every stored final grade, e.g. after the aggregation rules change.
+ */
+export async function recomputeAllFinalGrades() {
+  const rules = await getRules();
+  const projects = await db.evaluation.findMany({
+    where: { score: { not: null } },
+    distinct: ['projectId'],
+    select: { projectId: true },
+  });
+
+  for (const { projectId } of projects) {
+    await recomputeFinalGrade(projectId, rules);
+  }
+}
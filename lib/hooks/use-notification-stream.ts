@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+export interface StreamedNotification {
+  id: string;
+  message: string;
+  read: boolean;
+  link: string | null;
+  createdAt: string;
+}
+
+interface NotificationStreamHandlers {
+  onNotification?: (notification: StreamedNotification) => void;
+  onRead?: (ids: string[]) => void;
+}
+
+// Backoff for reconnects after the browser gives up on the stream (e.g. a 401 or 5xx)
+const MIN_RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+/**
+ * Subscribes to the user's notification stream and keeps the unread count up to date.
+ * Network drops are retried by EventSource itself; when the browser closes the stream
+ * for good, it is reopened with exponential backoff. Either way the server replays the
+ * notifications created since the last one received.
+ */
+export function useNotificationStream(userId: string | undefined, handlers: NotificationStreamHandlers = {}) {
+  const [unreadCount, setUnreadCount] = useState<number | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Keep the latest handlers without reopening the stream on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    let disposed = false;
+    // EventSource only sends Last-Event-ID on its own retries, so reopening passes it along
+    let lastEventId = "";
+
+    const connect = () => {
+      const since = lastEventId ? `?since=${encodeURIComponent(lastEventId)}` : "";
+      source = new EventSource(`/api/users/${encodeURIComponent(userId)}/notifications/stream${since}`);
+
+      source.onopen = () => {
+        setIsConnected(true);
+        reconnectDelay = MIN_RECONNECT_DELAY_MS;
+      };
+
+      source.addEventListener("unread-count", (event) => {
+        setUnreadCount(JSON.parse((event as MessageEvent).data).unreadCount);
+      });
+
+      source.addEventListener("notification", (event) => {
+        const message = event as MessageEvent;
+        lastEventId = message.lastEventId || lastEventId;
+        handlersRef.current.onNotification?.(JSON.parse(message.data));
+      });
+
+      source.addEventListener("read", (event) => {
+        handlersRef.current.onRead?.(JSON.parse((event as MessageEvent).data).ids);
+      });
+
+      source.onerror = () => {
+        setIsConnected(false);
+        if (source?.readyState === EventSource.CLOSED && !disposed) {
+          source.close();
+          reconnectTimer = setTimeout(connect, reconnectDelay);
+          reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      source?.close();
+      setIsConnected(false);
+    };
+  }, [userId]);
+
+  return { unreadCount, setUnreadCount, isConnected };
+}
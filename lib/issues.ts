@@ -0,0 +1,178 @@
+import { IssueState, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { DEFAULT_BRANCH } from '@/lib/repositories';
+
+const labelsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(50))
+  .max(20)
+  .transform((labels) => [...new Set(labels)]);
+
+// Schema for filing a new issue
+export const createIssueSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  body: z.string().trim().max(20000).nullable().optional(),
+  labels: labelsSchema.default([]),
+  assigneeIds: z.array(z.string().min(1)).max(20).default([]),
+});
+
+// Schema for editing an issue; every field is optional
+export const updateIssueSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+  body: z.string().trim().max(20000).nullable().optional(),
+  labels: labelsSchema.optional(),
+  assigneeIds: z.array(z.string().min(1)).max(20).optional(),
+  state: z.nativeEnum(IssueState).optional(),
+});
+
+export const issueCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment is required').max(20000),
+});
+
+const userSelect = { userId: true, firstName: true, lastName: true } satisfies Prisma.UserSelect;
+
+export const issueListInclude = {
+  author: { select: userSelect },
+  assignees: { include: { user: { select: userSelect } } },
+  _count: { select: { comments: true } },
+} satisfies Prisma.IssueInclude;
+
+export const issueDetailInclude = {
+  author: { select: userSelect },
+  assignees: { include: { user: { select: userSelect } } },
+  comments: {
+    include: { author: { select: { ...userSelect, role: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+  commitReferences: {
+    include: {
+      commit: { select: { id: true, message: true, timestamp: true, author: { select: userSelect } } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.IssueInclude;
+
+/**
+ * Users issues in a repository can be assigned to: the members and leader of the owning group.
+ */
+export async function getAssignableUsers(groupUserName: string) {
+  const group = await db.group.findUnique({
+    where: { groupUserName },
+    select: {
+      leader: { select: userSelect },
+      members: { select: { user: { select: userSelect } } },
+    },
+  });
+  if (!group) return [];
+
+  const users = new Map([[group.leader.userId, group.leader]]);
+  for (const member of group.members) {
+    users.set(member.user.userId, member.user);
+  }
+  return [...users.values()];
+}
+
+/**
+ * Files an issue under the next free number in the repository. Two issues filed at the same
+ * moment can race for a number, so the loser retries with the following one.
+ */
+export async function createIssue(
+  repository: { name: string; groupUserName: string },
+  authorId: string,
+  data: z.infer<typeof createIssueSchema>
+) {
+  for (let attempt = 0; ; attempt++) {
+    const last = await db.issue.findFirst({
+      where: { repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+
+    try {
+      return await db.issue.create({
+        data: {
+          number: (last?.number ?? 0) + 1,
+          title: data.title,
+          body: data.body || null,
+          labels: data.labels,
+          repositoryName: repository.name,
+          repositoryGroup: repository.groupUserName,
+          authorId,
+          assignees: { create: data.assigneeIds.map((userId) => ({ userId })) },
+        },
+        include: issueListInclude,
+      });
+    } catch (error) {
+      const isNumberTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!isNumberTaken || attempt >= 4) throw error;
+    }
+  }
+}
+
+// "#12" links an issue; a closing keyword in front of it ("fixes #12") also closes it
+const ISSUE_REFERENCE_PATTERN = /(?:\b(close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s+)?#(\d+)\b/gi;
+
+/**
+ * Extracts the issue numbers a commit message refers to, and whether each one is closed by it.
+ */
+export function parseIssueReferences(message: string): Map<number, boolean> {
+  const references = new Map<number, boolean>();
+  for (const match of message.matchAll(ISSUE_REFERENCE_PATTERN)) {
+    const number = parseInt(match[2], 10);
+    references.set(number, references.get(number) || !!match[1]);
+  }
+  return references;
+}
+
+/**
+ * Links a new commit to the issues its message mentions. Closing keywords only close the
+ * issue once the commit lands on the default branch, so work in progress on a feature branch
+ * leaves it open until it is merged.
+ */
+export async function linkIssueReferences(
+  commit: { id: string; message: string; repositoryName: string; repositoryGroup: string },
+  branchName: string
+) {
+  const references = parseIssueReferences(commit.message);
+  if (references.size === 0) return;
+
+  const issues = await db.issue.findMany({
+    where: {
+      repositoryName: commit.repositoryName,
+      repositoryGroup: commit.repositoryGroup,
+      number: { in: [...references.keys()] },
+    },
+    select: { id: true, number: true, state: true },
+  });
+  if (issues.length === 0) return;
+
+  await db.issueCommitReference.createMany({
+    data: issues.map((issue) => ({ issueId: issue.id, commitId: commit.id, closes: references.get(issue.number)! })),
+    skipDuplicates: true,
+  });
+
+  if (branchName !== DEFAULT_BRANCH) return;
+
+  const toClose = issues.filter((issue) => references.get(issue.number) && issue.state === IssueState.OPEN);
+  if (toClose.length > 0) {
+    await db.issue.updateMany({
+      where: { id: { in: toClose.map((issue) => issue.id) } },
+      data: { state: IssueState.CLOSED, closedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Links the issues mentioned by every commit a merge brings into a branch, closing those whose
+ * closing references now reach the default branch.
+ */
+export async function linkMergedIssueReferences(commitIds: string[], branchName: string) {
+  const commits = await db.commit.findMany({
+    where: { id: { in: commitIds } },
+    select: { id: true, message: true, repositoryName: true, repositoryGroup: true },
+  });
+
+  for (const commit of commits) {
+    await linkIssueReferences(commit, branchName);
+  }
+}
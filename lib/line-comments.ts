@@ -0,0 +1,82 @@
+import { DiffSide, FeedbackStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+
+// Schema for starting a comment thread on a line range of a file at a commit
+export const createLineCommentSchema = z
+  .object({
+    commitId: z.string().trim().min(1, 'Commit is required'),
+    filePath: z.string().trim().min(1, 'File path is required').max(500),
+    lineStart: z.number().int().min(1),
+    lineEnd: z.number().int().min(1).optional(),
+    lineSide: z.nativeEnum(DiffSide).default(DiffSide.NEW),
+    content: z.string().trim().min(1, 'Comment is required').max(10000),
+  })
+  .refine((data) => data.lineEnd === undefined || data.lineEnd >= data.lineStart, {
+    message: 'The range must end on or after its first line',
+    path: ['lineEnd'],
+  });
+
+export const lineCommentReplySchema = z.object({
+  content: z.string().trim().min(1, 'Comment is required').max(10000),
+});
+
+// Threads are resolved by moving them to ADDRESSED or CLOSED, and reopened with OPEN
+export const updateLineCommentThreadSchema = z.object({
+  status: z.nativeEnum(FeedbackStatus),
+});
+
+const authorSelect = { userId: true, firstName: true, lastName: true, role: true } satisfies Prisma.UserSelect;
+
+export const lineCommentThreadInclude = {
+  author: { select: authorSelect },
+  replies: {
+    include: { author: { select: authorSelect } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.FeedbackInclude;
+
+/**
+ * Finds the first comment of a line comment thread in a repository.
+ */
+export async function findLineCommentThread(repository: { name: string; groupUserName: string }, id: string) {
+  return db.feedback.findFirst({
+    where: {
+      id,
+      parentId: null,
+      commitId: { not: null },
+      repositoryName: repository.name,
+      repositoryGroup: repository.groupUserName,
+    },
+    include: lineCommentThreadInclude,
+  });
+}
+
+/**
+ * The leader and members of a group, who are told about new threads on their code.
+ */
+export async function getGroupUserIds(groupUserName: string): Promise<string[]> {
+  const group = await db.group.findUnique({
+    where: { groupUserName },
+    select: { leaderId: true, members: { select: { userId: true } } },
+  });
+  return group ? [group.leaderId, ...group.members.map((member) => member.userId)] : [];
+}
+
+/**
+ * Sends a notification to each recipient once, except the user who caused it.
+ */
+export async function notifyLineCommentRecipients(
+  recipientIds: string[],
+  actorId: string,
+  message: string,
+  link: string
+) {
+  const recipients = new Set(recipientIds);
+  recipients.delete(actorId);
+  if (recipients.size === 0) return;
+
+  await db.notification.createMany({
+    data: [...recipients].map((recipientId) => ({ recipientId, message, link })),
+  });
+}
@@ -0,0 +1,111 @@
+import { EmailStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { getMailTransport } from './transport';
+import { EmailContent, emailTemplates, EmailTemplateData, EmailTemplateName } from './templates';
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// First retry after one minute, doubling up to a little over two hours
+const RETRY_BASE_MS = 60_000;
+
+// A SENDING row older than this belongs to a delivery that crashed midway
+const STALE_SENDING_MS = 10 * 60_000;
+
+const retryDelay = (attempts: number) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+/**
+ * Makes one delivery attempt for a queued email. The row is claimed first so that
+ * concurrent workers never send the same email twice. Returns the resulting status.
+ */
+export async function deliverEmail(emailId: string): Promise<EmailStatus | null> {
+  const claimed = await db.outboundEmail.updateMany({
+    where: {
+      id: emailId,
+      OR: [
+        { status: EmailStatus.PENDING },
+        { status: EmailStatus.SENDING, updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) } },
+      ],
+    },
+    data: { status: EmailStatus.SENDING, attempts: { increment: 1 } },
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const email = await db.outboundEmail.findUniqueOrThrow({ where: { id: emailId } });
+
+  try {
+    await getMailTransport().send({
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    await db.outboundEmail.update({
+      where: { id: emailId },
+      data: { status: EmailStatus.SENT, sentAt: new Date(), lastError: null },
+    });
+    return EmailStatus.SENT;
+  } catch (error) {
+    const exhausted = email.attempts >= MAX_DELIVERY_ATTEMPTS;
+    console.error(`Error delivering email ${emailId} (attempt ${email.attempts}):`, error);
+
+    await db.outboundEmail.update({
+      where: { id: emailId },
+      data: {
+        status: exhausted ? EmailStatus.FAILED : EmailStatus.PENDING,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + retryDelay(email.attempts)),
+      },
+    });
+    return exhausted ? EmailStatus.FAILED : EmailStatus.PENDING;
+  }
+}
+
+/**
+ * Renders a template, stores the email in the outbox and makes the first delivery attempt
+ * straight away. A failed attempt is left in the outbox for processOutbox to retry.
+ */
+export async function queueEmail<T extends EmailTemplateName>(to: string, template: T, data: EmailTemplateData<T>) {
+  const render = emailTemplates[template] as (data: EmailTemplateData<T>) => EmailContent;
+  const content = render(data);
+
+  const email = await db.outboundEmail.create({
+    data: { to, template, ...content },
+  });
+
+  const status = await deliverEmail(email.id);
+  return { id: email.id, status: status ?? email.status };
+}
+
+/**
+ * Retries every email whose next attempt is due, oldest first.
+ */
+export async function processOutbox({ limit = 50 }: { limit?: number } = {}) {
+  const now = new Date();
+  const due = await db.outboundEmail.findMany({
+    where: {
+      OR: [
+        { status: EmailStatus.PENDING, nextAttemptAt: { lte: now } },
+        { status: EmailStatus.SENDING, updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+  });
+
+  const summary = { processed: 0, sent: 0, failed: 0, pending: 0 };
+  for (const { id } of due) {
+    const status = await deliverEmail(id);
+    if (!status) continue;
+    summary.processed++;
+    if (status === EmailStatus.SENT) summary.sent++;
+    else if (status === EmailStatus.FAILED) summary.failed++;
+    else summary.pending++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,49 @@
+import { TaskStatus } from '@prisma/client';
+import { db } from '@/lib/db';
+import { queueEmail } from './outbox';
+
+/**
+ * Emails the assignee of every unfinished task due within the given window.
+ * Each task is reminded once; changing its deadline or assignee re-arms the reminder.
+ */
+export async function queueTaskDeadlineReminders({ withinHours = 24 }: { withinHours?: number } = {}) {
+  const now = new Date();
+  const tasks = await db.task.findMany({
+    where: {
+      status: { not: TaskStatus.DONE },
+      deadline: { gt: now, lte: new Date(now.getTime() + withinHours * 60 * 60 * 1000) },
+      assigneeId: { not: null },
+      deadlineReminderSentAt: null,
+    },
+    select: {
+      id: true,
+      title: true,
+      deadline: true,
+      assignee: { select: { email: true, firstName: true } },
+      project: { select: { title: true, groupUserName: true } },
+    },
+  });
+
+  let queued = 0;
+  for (const task of tasks) {
+    if (!task.assignee || !task.deadline) continue;
+
+    // Claim the reminder first so that overlapping runs do not email twice
+    const claimed = await db.task.updateMany({
+      where: { id: task.id, deadlineReminderSentAt: null },
+      data: { deadlineReminderSentAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    await queueEmail(task.assignee.email, 'taskDeadline', {
+      recipientName: task.assignee.firstName,
+      taskTitle: task.title,
+      projectTitle: task.project.title,
+      deadline: task.deadline,
+      taskPath: `/${task.project.groupUserName}/tasks`,
+    });
+    queued++;
+  }
+
+  return queued;
+}
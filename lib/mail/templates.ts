@@ -0,0 +1,135 @@
+import { format } from 'date-fns';
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const APP_NAME = 'FYP Platform';
+
+/**
+ * Absolute URL to a page of the app, based on NEXTAUTH_URL.
+ */
+export const appUrl = (pathname: string) =>
+  new URL(pathname, process.env.NEXTAUTH_URL || 'http://localhost:3000').toString();
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+interface Section {
+  greeting: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  footnote?: string;
+}
+
+// Every template shares one layout so the HTML and plain-text parts never drift apart
+const render = (subject: string, { greeting, paragraphs, action, footnote }: Section): EmailContent => {
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <tr><td>
+        <h1 style="font-size:18px;margin:0 0 24px;">${escapeHtml(APP_NAME)}</h1>
+        <p style="margin:0 0 16px;">${escapeHtml(greeting)}</p>
+        ${paragraphs.map((p) => `<p style="margin:0 0 16px;line-height:1.5;">${escapeHtml(p)}</p>`).join('\n        ')}
+        ${action ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#18181b;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;">${escapeHtml(action.label)}</a></p>` : ''}
+        ${footnote ? `<p style="margin:24px 0 0;font-size:12px;color:#71717a;">${escapeHtml(footnote)}</p>` : ''}
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+
+  const text = [
+    greeting,
+    '',
+    ...paragraphs.flatMap((p) => [p, '']),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    ...(footnote ? [footnote, ''] : []),
+    `-- ${APP_NAME}`,
+  ].join('\n');
+
+  return { subject, html, text };
+};
+
+const formatDate = (date: Date) => format(date, "MMM d, yyyy 'at' h:mm a");
+
+export interface GroupInviteEmail {
+  groupName: string;
+  inviteCode: string;
+  inviterName: string;
+  expiresAt: Date;
+}
+
+export interface AdvisorRequestDecisionEmail {
+  recipientName: string;
+  advisorName: string;
+  projectTitle: string;
+  accepted: boolean;
+  message: string | null;
+  projectPath: string;
+}
+
+export interface PasswordResetEmail {
+  recipientName: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface TaskDeadlineEmail {
+  recipientName: string;
+  taskTitle: string;
+  projectTitle: string;
+  deadline: Date;
+  taskPath: string;
+}
+
+export const emailTemplates = {
+  groupInvite: ({ groupName, inviteCode, inviterName, expiresAt }: GroupInviteEmail) =>
+    render(`Invitation to join ${groupName} on ${APP_NAME}`, {
+      greeting: 'Hello,',
+      paragraphs: [
+        `${inviterName} has invited you to join the group "${groupName}".`,
+        `Your invitation code is ${inviteCode}. Enter it on the group page after signing in.`,
+      ],
+      action: { label: 'Join the group', url: appUrl('/group') },
+      footnote: `This code expires on ${formatDate(expiresAt)} and can only be used once.`,
+    }),
+
+  advisorRequestDecision: ({ recipientName, advisorName, projectTitle, accepted, message, projectPath }: AdvisorRequestDecisionEmail) =>
+    render(`Your advisor request for "${projectTitle}" was ${accepted ? 'accepted' : 'declined'}`, {
+      greeting: `Hi ${recipientName},`,
+      paragraphs: [
+        accepted
+          ? `${advisorName} accepted your request and is now the advisor of "${projectTitle}".`
+          : `${advisorName} declined your request to advise "${projectTitle}". You can send a request to another advisor.`,
+        ...(message ? [`Message from ${advisorName}: ${message}`] : []),
+      ],
+      action: { label: 'Open the project', url: appUrl(projectPath) },
+    }),
+
+  passwordReset: ({ recipientName, resetUrl, expiresInMinutes }: PasswordResetEmail) =>
+    render(`Reset your ${APP_NAME} password`, {
+      greeting: `Hi ${recipientName},`,
+      paragraphs: ['We received a request to reset the password of your account.'],
+      action: { label: 'Choose a new password', url: resetUrl },
+      footnote: `The link expires in ${expiresInMinutes} minutes. If you did not ask for a reset, you can ignore this email.`,
+    }),
+
+  taskDeadline: ({ recipientName, taskTitle, projectTitle, deadline, taskPath }: TaskDeadlineEmail) =>
+    render(`Task "${taskTitle}" is due ${formatDate(deadline)}`, {
+      greeting: `Hi ${recipientName},`,
+      paragraphs: [`Your task "${taskTitle}" in "${projectTitle}" is due on ${formatDate(deadline)}.`],
+      action: { label: 'View the task', url: appUrl(taskPath) },
+    }),
+} satisfies Record<string, (data: never) => EmailContent>;
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+
+export type EmailTemplateData<T extends EmailTemplateName> = Parameters<(typeof emailTemplates)[T]>[0];
@@ -0,0 +1,120 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'FYP Platform <no-reply@localhost>';
+
+const mailFrom = () => process.env.MAIL_FROM || DEFAULT_FROM;
+
+/**
+ * Sends through an SMTP server. Point SMTP_HOST/SMTP_PORT at MailHog (localhost:1025)
+ * to capture mail locally instead of delivering it.
+ */
+export function createSmtpTransport(): MailTransport {
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+    connectionTimeout: 10_000,
+    greetingTimeout: 10_000,
+    socketTimeout: 20_000,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: mailFrom(), ...message });
+    },
+  };
+}
+
+/**
+ * Logs emails instead of sending them. Used in development when no SMTP server is configured.
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * Writes each email as an .eml file into a directory so it can be opened in a mail client.
+ */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const boundary = `boundary-${Date.now().toString(36)}`;
+      const eml = [
+        `From: ${mailFrom()}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        message.html,
+        `--${boundary}--`,
+        '',
+      ].join('\r\n');
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      await writeFile(path.join(directory, `${Date.now()}-${safeRecipient}.eml`), eml);
+    },
+  };
+}
+
+let cachedTransport: MailTransport | undefined;
+
+/**
+ * Returns the transport selected by MAIL_TRANSPORT (smtp, console or file).
+ * Defaults to SMTP when SMTP_HOST is set and to the console otherwise.
+ */
+export function getMailTransport(): MailTransport {
+  if (cachedTransport) {
+    return cachedTransport;
+  }
+
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (kind) {
+    case 'smtp':
+      cachedTransport = createSmtpTransport();
+      break;
+    case 'file':
+      cachedTransport = createFileTransport(process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), '.mail'));
+      break;
+    case 'console':
+      cachedTransport = createConsoleTransport();
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+
+  return cachedTransport;
+}
@@ -0,0 +1,275 @@
+import { MergeRequestStatus, Prisma, ReviewDecision } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import {
+  CommitGraph,
+  commitsBetween,
+  computeCommitId,
+  loadCommitGraph,
+  netFileChanges,
+  NetFileChange,
+} from '@/lib/commit-graph';
+import { linkMergedIssueReferences } from '@/lib/issues';
+import { copyCommitInto, graphWithCommitsOf } from '@/lib/forks';
+
+// Schema for opening a merge request between two branches of a repository, or from a branch of one of its forks
+export const createMergeRequestSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title is required').max(200),
+    description: z.string().trim().max(10000).nullable().optional(),
+    sourceBranch: z.string().trim().min(1, 'Source branch is required'),
+    targetBranch: z.string().trim().min(1, 'Target branch is required'),
+    sourceRepository: z
+      .object({
+        groupUserName: z.string().trim().min(1),
+        name: z.string().trim().min(1),
+      })
+      .optional(),
+  })
+  .refine((data) => !!data.sourceRepository || data.sourceBranch !== data.targetBranch, {
+    message: 'Source and target branches must differ',
+    path: ['targetBranch'],
+  });
+
+// Schema for editing a merge request; only closing and reopening change the status directly
+export const updateMergeRequestSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+  description: z.string().trim().max(10000).nullable().optional(),
+  status: z.enum([MergeRequestStatus.OPEN, MergeRequestStatus.CLOSED]).optional(),
+});
+
+// Schema for a review decision; a plain comment needs some text
+export const mergeRequestReviewSchema = z
+  .object({
+    decision: z.nativeEnum(ReviewDecision),
+    comment: z.string().trim().max(10000).nullable().optional(),
+  })
+  .refine((data) => data.decision !== ReviewDecision.COMMENTED || !!data.comment, {
+    message: 'A comment is required',
+    path: ['comment'],
+  });
+
+// Statuses after which a merge request can no longer be reviewed or merged
+export const FINISHED_MERGE_REQUEST_STATUSES: MergeRequestStatus[] = [
+  MergeRequestStatus.MERGED,
+  MergeRequestStatus.CLOSED,
+];
+
+// Rolls back a merge whose target branch was updated concurrently
+class TargetBranchMovedError extends Error {}
+
+const userSelect = { userId: true, firstName: true, lastName: true } satisfies Prisma.UserSelect;
+
+export const mergeRequestInclude = {
+  creator: { select: userSelect },
+  sourceBranch: { select: { id: true, name: true, headCommitId: true, repositoryName: true, repositoryGroup: true } },
+  targetBranch: { select: { id: true, name: true, headCommitId: true } },
+  reviews: {
+    include: { reviewer: { select: userSelect } },
+    orderBy: { createdAt: 'asc' },
+  },
+  mergeCommit: { select: { id: true, timestamp: true, authorId: true } },
+} satisfies Prisma.MergeRequestInclude;
+
+export type MergeRequestWithDetails = Prisma.MergeRequestGetPayload<{ include: typeof mergeRequestInclude }>;
+
+/**
+ * Derives the status of an open merge request from its reviews. Only each reviewer's
+ * latest decision counts and plain comments are ignored: a rejection rejects the request,
+ * outstanding change requests keep it open, and otherwise one approval approves it.
+ */
+export function statusFromReviews(
+  reviews: { reviewerId: string; decision: ReviewDecision; createdAt: Date }[]
+): MergeRequestStatus {
+  const latest = new Map<string, ReviewDecision>();
+  for (const review of [...reviews].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    if (review.decision !== ReviewDecision.COMMENTED) {
+      latest.set(review.reviewerId, review.decision);
+    }
+  }
+
+  const decisions = [...latest.values()];
+  if (decisions.includes(ReviewDecision.REJECTED)) return MergeRequestStatus.REJECTED;
+  if (decisions.includes(ReviewDecision.CHANGES_REQUESTED)) return MergeRequestStatus.OPEN;
+  if (decisions.includes(ReviewDecision.APPROVED)) return MergeRequestStatus.APPROVED;
+  return MergeRequestStatus.OPEN;
+}
+
+function isFromFork(mergeRequest: MergeRequestWithDetails) {
+  return (
+    mergeRequest.sourceBranch.repositoryName !== mergeRequest.repositoryName ||
+    mergeRequest.sourceBranch.repositoryGroup !== mergeRequest.repositoryGroup
+  );
+}
+
+/**
+ * The commit graph a merge request's branches are compared in, and the source head in it.
+ * A branch of a fork is only looked at, never copied: until it is merged, its commits must
+ * not end up in the target repository.
+ */
+export async function mergeRequestGraph(
+  mergeRequest: MergeRequestWithDetails
+): Promise<{ graph: CommitGraph; sourceHeadId: string }> {
+  const { sourceBranch } = mergeRequest;
+  if (!isFromFork(mergeRequest)) {
+    return {
+      graph: await loadCommitGraph(mergeRequest.repositoryName, mergeRequest.repositoryGroup),
+      sourceHeadId: sourceBranch.headCommitId,
+    };
+  }
+
+  const { graph, headId } = await graphWithCommitsOf(
+    { name: sourceBranch.repositoryName, groupUserName: sourceBranch.repositoryGroup },
+    sourceBranch.headCommitId,
+    { name: mergeRequest.repositoryName, groupUserName: mergeRequest.repositoryGroup }
+  );
+  return { graph, sourceHeadId: headId };
+}
+
+/**
+ * The head of a merge request's source branch as a commit of the target repository. A
+ * branch of a fork is copied into the target first, which only merging may do.
+ */
+async function sourceHeadInTarget(mergeRequest: MergeRequestWithDetails): Promise<string> {
+  const { sourceBranch } = mergeRequest;
+  if (!isFromFork(mergeRequest)) {
+    return sourceBranch.headCommitId;
+  }
+
+  return copyCommitInto(
+    { name: sourceBranch.repositoryName, groupUserName: sourceBranch.repositoryGroup },
+    sourceBranch.headCommitId,
+    { name: mergeRequest.repositoryName, groupUserName: mergeRequest.repositoryGroup }
+  );
+}
+
+/**
+ * Compares the two sides of a merge request since they diverged. Returns the changes the
+ * source branch would bring into the target, and the paths both sides changed differently.
+ */
+export async function compareBranches(graph: CommitGraph, sourceHeadId: string, targetHeadId: string) {
+  const sourceCommits = commitsBetween(graph, targetHeadId, sourceHeadId);
+  const targetCommits = commitsBetween(graph, sourceHeadId, targetHeadId);
+
+  const [sourceChanges, targetChanges] = await Promise.all([
+    netFileChanges(sourceCommits.map((c) => c.id)),
+    netFileChanges(targetCommits.map((c) => c.id)),
+  ]);
+
+  const changes: NetFileChange[] = [];
+  const conflicts: string[] = [];
+  for (const change of sourceChanges.values()) {
+    const other = targetChanges.get(change.filePath);
+    if (!other) {
+      changes.push(change);
+    } else if (other.fileContentHash !== change.fileContentHash) {
+      conflicts.push(change.filePath);
+    }
+    // Identical changes on both sides are already in the target
+  }
+
+  return {
+    commitsAhead: sourceCommits.length,
+    commitsBehind: targetCommits.length,
+    sourceCommitIds: sourceCommits.map((c) => c.id),
+    changes,
+    conflicts: conflicts.sort(),
+  };
+}
+
+/**
+ * Merges an approved merge request: records a merge commit on top of the target branch
+ * with both heads as parents and the source changes as its file changes, advances the
+ * target branch to it and marks the request merged. Issues referenced by the merged commits
+ * are linked afterwards. Fails if the branches conflict or the target branch moved while the
+ * merge was being prepared.
+ */
+export async function mergeMergeRequest(mergeRequestId: string, userId: string, message?: string) {
+  const mergeRequest = await db.mergeRequest.findUnique({
+    where: { id: mergeRequestId },
+    include: mergeRequestInclude,
+  });
+
+  if (!mergeRequest) {
+    return { error: 'Merge request not found', status: 404 } as const;
+  }
+  if (mergeRequest.status !== MergeRequestStatus.APPROVED) {
+    return { error: 'Only approved merge requests can be merged', status: 409 } as const;
+  }
+
+  const { sourceBranch, targetBranch } = mergeRequest;
+  const sourceHeadId = await sourceHeadInTarget(mergeRequest);
+  const comparison = await compareBranches(
+    await loadCommitGraph(mergeRequest.repositoryName, mergeRequest.repositoryGroup),
+    sourceHeadId,
+    targetBranch.headCommitId
+  );
+
+  if (comparison.commitsAhead === 0) {
+    return { error: `${sourceBranch.name} has no commits that are not already in ${targetBranch.name}`, status: 409 } as const;
+  }
+  if (comparison.conflicts.length > 0) {
+    return {
+      error: 'The branches have conflicting changes',
+      conflicts: comparison.conflicts,
+      status: 409,
+    } as const;
+  }
+
+  const timestamp = new Date();
+  const sourceName = isFromFork(mergeRequest)
+    ? `${sourceBranch.repositoryGroup}/${sourceBranch.repositoryName}:${sourceBranch.name}`
+    : sourceBranch.name;
+  const commitMessage = message?.trim() || `Merge branch '${sourceName}' into ${targetBranch.name}\n\n${mergeRequest.title}`;
+  const parentCommitIDs = [targetBranch.headCommitId, sourceHeadId];
+  const commitId = computeCommitId({
+    message: commitMessage,
+    authorId: userId,
+    timestamp,
+    parentCommitIDs,
+    fileChanges: comparison.changes,
+  });
+
+  try {
+    const result = await db.$transaction(async (tx) => {
+      const commit = await tx.commit.create({
+        data: {
+          id: commitId,
+          message: commitMessage,
+          timestamp,
+          repositoryName: mergeRequest.repositoryName,
+          repositoryGroup: mergeRequest.repositoryGroup,
+          authorId: userId,
+          parentCommitIDs,
+          mergeRequestId,
+          fileChanges: { create: comparison.changes },
+        },
+      });
+
+      // Only advance the target if nobody pushed to it in the meantime
+      const advanced = await tx.branch.updateMany({
+        where: { id: targetBranch.id, headCommitId: targetBranch.headCommitId },
+        data: { headCommitId: commit.id },
+      });
+      if (advanced.count === 0) {
+        throw new TargetBranchMovedError();
+      }
+
+      const merged = await tx.mergeRequest.update({
+        where: { id: mergeRequestId },
+        data: { status: MergeRequestStatus.MERGED },
+        include: mergeRequestInclude,
+      });
+
+      return { mergeRequest: merged, commit } as const;
+    });
+
+    await linkMergedIssueReferences([...comparison.sourceCommitIds, result.commit.id], targetBranch.name);
+    return result;
+  } catch (error) {
+    if (error instanceof TargetBranchMovedError) {
+      return { error: `${targetBranch.name} changed while merging, please try again`, status: 409 } as const;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,815 @@
+import { ChangeType, MirrorDirection, Prisma, Remote } from '@prisma/client';
+import { createHash } from 'crypto';
+import { db } from '@/lib/db';
+import { hashContent, readBlobs, storeBlob } from '@/lib/blob-store';
+import { ancestorsOf, CommitGraph, loadCommitGraph, walkHistory } from '@/lib/commit-graph';
+import { branchNameSchema, protectedBranchMessage } from '@/lib/branches';
+import {
+  encodeCommit,
+  encodeTree,
+  EXECUTABLE_MODE,
+  FILE_MODE,
+  FLUSH_PKT,
+  GitFormatError,
+  GitObject,
+  GitObjectType,
+  gitObjectId,
+  GitSignature,
+  NULL_OBJECT_ID,
+  parseCommit,
+  parseTree,
+  pktLine,
+  readPack,
+  readPktLine,
+  readSideBand,
+  SYMLINK_MODE,
+  TREE_MODE,
+  TreeEntry,
+  writePack,
+} from '@/lib/git-objects';
+
+/*
+ * Mirrors talk to another vec server the way the /api/vec proxy does, over git's smart
+ * HTTP protocol below the remote's URL:
+ *
+ *   GET  info/refs?service=git-upload-pack   -> the remote's branches
+ *   POST git-upload-pack                     wants and haves -> pack of the missing commits
+ *   GET  info/refs?service=git-receive-pack  -> the remote's branches, before a push
+ *   POST git-receive-pack                    branch updates and a pack -> report-status
+ *
+ * A commit gets its git form the first time it is exchanged: trees built from its files,
+ * and a commit object that is stored so the commit keeps the same git id from then on.
+ * Commits fetched from a remote keep the object they came with.
+ */
+
+interface RepositoryKey {
+  name: string;
+  groupUserName: string;
+}
+
+export interface BranchUpdateResult {
+  updated: string[];
+  rejected: { name: string; reason: string }[];
+}
+
+interface BranchUpdate {
+  name: string;
+  oldHeadCommitId: string | null;
+  newHeadCommitId: string;
+}
+
+// Raised when a remote cannot be synced, or sends something this server cannot accept
+export class MirrorError extends Error {}
+
+// How long to wait for a remote before giving up on a sync
+const REMOTE_TIMEOUT = 60000;
+
+// Applying a large pack takes longer than Prisma's default 5 second transaction timeout
+const APPLY_TRANSACTION_TIMEOUT = 60000;
+
+const BRANCH_REF_PREFIX = 'refs/heads/';
+
+type GitService = 'git-upload-pack' | 'git-receive-pack';
+
+interface RemoteRefs {
+  /** Branch name -> git id of its head */
+  branches: Map<string, string>;
+  capabilities: Set<string>;
+}
+
+async function requestRemote(remote: Remote, path: string, contentType: string, body?: Buffer) {
+  let response: Response;
+  try {
+    response = await fetch(`${remote.url}/${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        Accept: contentType,
+        ...(body && { 'Content-Type': `application/x-${path}-request` }),
+        ...(remote.token && { Authorization: `Bearer ${remote.token}` }),
+      },
+      body: body && new Uint8Array(body),
+      signal: AbortSignal.timeout(REMOTE_TIMEOUT),
+    });
+  } catch (error) {
+    throw new MirrorError(`Could not reach ${remote.name}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!response.ok) {
+    throw new MirrorError(`${remote.name} refused ${path.split('?')[0]}: ${response.status}`);
+  }
+  if (response.headers.get('content-type')?.split(';')[0].trim() !== contentType) {
+    throw new MirrorError(`${remote.name} does not speak git's smart HTTP protocol`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Lists the remote's branches and what its side of `service` supports.
+ */
+async function discoverRefs(remote: Remote, service: GitService): Promise<RemoteRefs> {
+  const advertisement = await requestRemote(
+    remote,
+    `info/refs?service=${service}`,
+    `application/x-${service}-advertisement`
+  );
+
+  const refs: RemoteRefs = { branches: new Map(), capabilities: new Set() };
+  let offset = 0;
+  let first = true;
+  while (offset < advertisement.length) {
+    const { line, next } = readPktLine(advertisement, offset);
+    offset = next;
+    if (!line) {
+      // The service announcement ends in a flush of its own
+      if (first) continue;
+      break;
+    }
+
+    const text = line.toString('utf8').replace(/\n$/, '');
+    if (text.startsWith('# service=')) continue;
+
+    const [ref, capabilities] = text.split('\0');
+    if (first) {
+      capabilities?.split(' ').forEach((capability) => refs.capabilities.add(capability));
+      first = false;
+    }
+
+    const [id, name] = ref.split(' ');
+    if (name?.startsWith(BRANCH_REF_PREFIX)) {
+      refs.branches.set(name.slice(BRANCH_REF_PREFIX.length), id);
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Asks the remote for the commits reachable from `wants` but not from `haves`, and returns
+ * the objects of the pack it sends.
+ */
+async function fetchPack(remote: Remote, refs: RemoteRefs, wants: string[], haves: string[]) {
+  const sideBand = ['side-band-64k', 'side-band'].find((capability) => refs.capabilities.has(capability));
+  const capabilities = [sideBand, 'ofs-delta', 'no-progress'].filter(
+    (capability): capability is string => !!capability && refs.capabilities.has(capability)
+  );
+
+  const response = await requestRemote(
+    remote,
+    'git-upload-pack',
+    'application/x-git-upload-pack-result',
+    Buffer.concat([
+      ...wants.map((id, index) => pktLine(`want ${id}${index === 0 ? ` ${capabilities.join(' ')}` : ''}\n`)),
+      FLUSH_PKT,
+      ...haves.map((id) => pktLine(`have ${id}\n`)),
+      pktLine('done\n'),
+    ])
+  );
+
+  // Acknowledgements of our haves come first, then the pack, raw or on a side band
+  let offset = 0;
+  while (offset < response.length && response.toString('latin1', offset, offset + 4) !== 'PACK') {
+    const { line, next } = readPktLine(response, offset);
+    const text = line?.toString('utf8') ?? '';
+    if (text.startsWith('ERR ')) {
+      throw new MirrorError(`${remote.name} refused git-upload-pack: ${text.slice(4).trim()}`);
+    }
+    if (sideBand && line && !/^(ACK|NAK|shallow|unshallow)\b/.test(text)) break;
+    offset = next;
+  }
+
+  return readPack(sideBand ? readSideBand(response, offset) : response.subarray(offset));
+}
+
+/**
+ * Sends `objects` to the remote and asks it to move its branches, returning which moves it
+ * accepted.
+ */
+async function sendPack(
+  remote: Remote,
+  refs: RemoteRefs,
+  updates: { name: string; oldId: string; newId: string }[],
+  objects: GitObject[]
+): Promise<BranchUpdateResult> {
+  if (!refs.capabilities.has('report-status')) {
+    throw new MirrorError(`${remote.name} does not report the outcome of pushes`);
+  }
+
+  const response = await requestRemote(
+    remote,
+    'git-receive-pack',
+    'application/x-git-receive-pack-result',
+    Buffer.concat([
+      ...updates.map((update, index) =>
+        pktLine(
+          `${update.oldId} ${update.newId} ${BRANCH_REF_PREFIX}${update.name}${index === 0 ? '\0report-status' : ''}\n`
+        )
+      ),
+      FLUSH_PKT,
+      writePack(objects),
+    ])
+  );
+
+  const result: BranchUpdateResult = { updated: [], rejected: [] };
+  let offset = 0;
+  while (offset < response.length) {
+    const { line, next } = readPktLine(response, offset);
+    offset = next;
+    if (!line) break;
+
+    const text = line.toString('utf8').replace(/\n$/, '');
+    if (text.startsWith('unpack ') && text !== 'unpack ok') {
+      throw new MirrorError(`${remote.name} could not unpack the push: ${text.slice('unpack '.length)}`);
+    }
+
+    const status = text.match(/^(ok|ng) refs\/heads\/(\S+)(?: (.*))?$/);
+    if (status?.[1] === 'ok') {
+      result.updated.push(status[2]);
+    } else if (status) {
+      result.rejected.push({ name: status[2], reason: status[3] ?? 'rejected' });
+    }
+  }
+
+  return result;
+}
+
+interface StoredFile {
+  hash: string;
+  mode: string;
+}
+
+// Path -> file, for every file that exists at a commit
+type FileTree = Map<string, StoredFile>;
+
+interface LocalCommit {
+  id: string;
+  message: string;
+  timestamp: Date;
+  parentCommitIDs: string[];
+  gitId: string | null;
+  gitObject: string | null;
+  author: { firstName: string; lastName: string; email: string };
+}
+
+interface LocalHistory {
+  graph: CommitGraph;
+  commits: Map<string, LocalCommit>;
+  /** Files at each commit: its first parent's files with the commit's own changes applied */
+  files: Map<string, FileTree>;
+  /** Git id -> commit id, for commits that have a git form */
+  byGitId: Map<string, string>;
+}
+
+async function loadHistory(repository: RepositoryKey): Promise<LocalHistory> {
+  const rows = await db.commit.findMany({
+    where: { repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+    select: {
+      id: true,
+      message: true,
+      timestamp: true,
+      parentCommitIDs: true,
+      gitId: true,
+      gitObject: true,
+      author: { select: { firstName: true, lastName: true, email: true } },
+      fileChanges: { select: { filePath: true, changeType: true, fileContentHash: true, mode: true } },
+    },
+  });
+
+  const history: LocalHistory = { graph: new Map(), commits: new Map(), files: new Map(), byGitId: new Map() };
+  const parents = new Set<string>();
+  for (const commit of rows) {
+    history.graph.set(commit.id, commit);
+    history.commits.set(commit.id, commit);
+    if (commit.gitId) history.byGitId.set(commit.gitId, commit.id);
+    commit.parentCommitIDs.forEach((parentId) => parents.add(parentId));
+  }
+
+  const changes = new Map(rows.map((commit) => [commit.id, commit.fileChanges]));
+  const heads = rows.map((commit) => commit.id).filter((id) => !parents.has(id));
+  for (const { id, parentCommitIDs } of walkHistory(history.graph, heads).reverse()) {
+    const files: FileTree = new Map(history.files.get(parentCommitIDs[0]));
+    for (const change of changes.get(id)!) {
+      if (change.changeType === ChangeType.DELETED || !change.fileContentHash) {
+        files.delete(change.filePath);
+      } else {
+        const mode = change.mode ?? files.get(change.filePath)?.mode ?? FILE_MODE;
+        files.set(change.filePath, { hash: change.fileContentHash, mode });
+      }
+    }
+    history.files.set(id, files);
+  }
+
+  return history;
+}
+
+// Content hash -> git id and content of a blob
+type BlobCache = Map<string, { id: string; content: Buffer }>;
+
+async function loadBlobs(blobs: BlobCache, hashes: string[]) {
+  const missing = [...new Set(hashes)].filter((hash) => !blobs.has(hash));
+  if (missing.length === 0) return;
+
+  const stored = await readBlobs(missing);
+  for (const hash of missing) {
+    const blob = stored.get(hash);
+    if (!blob) {
+      throw new MirrorError(`File content ${hash} is missing`);
+    }
+    blobs.set(hash, { id: gitObjectId('blob', blob.content), content: blob.content });
+  }
+}
+
+const fileHashes = (files: FileTree) => [...files.values()].map((file) => file.hash);
+
+interface Directory {
+  entries: TreeEntry[];
+  directories: Map<string, Directory>;
+}
+
+/**
+ * Builds the git trees holding `files`, adds them to `objects` and returns the id of the
+ * root tree. The files' blobs must already be in `blobs`.
+ */
+function writeTrees(files: FileTree, blobs: BlobCache, objects: Map<string, GitObject>): string {
+  const root: Directory = { entries: [], directories: new Map() };
+  for (const [path, file] of files) {
+    const names = path.split('/');
+    let directory = root;
+    for (const name of names.slice(0, -1)) {
+      let child = directory.directories.get(name);
+      if (!child) {
+        child = { entries: [], directories: new Map() };
+        directory.directories.set(name, child);
+      }
+      directory = child;
+    }
+    directory.entries.push({ mode: file.mode, name: names[names.length - 1], id: blobs.get(file.hash)!.id });
+  }
+
+  const write = (directory: Directory): string => {
+    const content = encodeTree([
+      ...directory.entries,
+      ...[...directory.directories].map(([name, child]) => ({ mode: TREE_MODE, name, id: write(child) })),
+    ]);
+    const id = gitObjectId('tree', content);
+    objects.set(id, { type: 'tree', content });
+    return id;
+  };
+  return write(root);
+}
+
+/**
+ * Gives the commits reachable from `heads` that were never exchanged their git form,
+ * parents first, and stores it on them.
+ */
+async function exportCommits(history: LocalHistory, heads: string[], blobs: BlobCache) {
+  const pending = walkHistory(history.graph, heads)
+    .reverse()
+    .map((commit) => history.commits.get(commit.id)!)
+    .filter((commit) => !commit.gitId);
+  if (pending.length === 0) return;
+
+  await loadBlobs(
+    blobs,
+    pending.flatMap((commit) => fileHashes(history.files.get(commit.id)!))
+  );
+
+  const exported: { id: string; gitId: string; content: Buffer }[] = [];
+  for (const commit of pending) {
+    const parents = commit.parentCommitIDs.map((parentId) => history.commits.get(parentId)?.gitId);
+    if (parents.some((parent) => !parent)) {
+      throw new MirrorError(`Commit ${commit.id} has a parent that is not in the repository`);
+    }
+
+    const signature: GitSignature = {
+      name: `${commit.author.firstName} ${commit.author.lastName}`,
+      email: commit.author.email,
+      timestamp: commit.timestamp,
+      timezone: '+0000',
+    };
+    const content = encodeCommit({
+      tree: writeTrees(history.files.get(commit.id)!, blobs, new Map()),
+      parents: parents as string[],
+      author: signature,
+      committer: signature,
+      message: commit.message,
+    });
+
+    commit.gitId = gitObjectId('commit', content);
+    commit.gitObject = hashContent(content);
+    history.byGitId.set(commit.gitId, commit.id);
+    exported.push({ id: commit.id, gitId: commit.gitId, content });
+  }
+
+  await db.$transaction(
+    async (tx) => {
+      for (const commit of exported) {
+        const gitObject = await storeBlob(commit.content, tx);
+        await tx.commit.update({ where: { id: commit.id }, data: { gitId: commit.gitId, gitObject } });
+      }
+    },
+    { timeout: APPLY_TRANSACTION_TIMEOUT }
+  );
+}
+
+/**
+ * Derives the id of a commit fetched from a remote, so that the same git commit pulled into
+ * two repositories becomes two commits.
+ */
+function importedCommitId(repository: RepositoryKey, gitId: string): string {
+  return createHash('sha1').update(`git ${repository.groupUserName}/${repository.name} ${gitId}`).digest('hex');
+}
+
+const FILE_MODES = [FILE_MODE, EXECUTABLE_MODE, SYMLINK_MODE];
+
+/**
+ * Stores the commits of a fetched pack that are reachable from `wants`, parents first.
+ * Each commit's files are read from its tree and recorded as changes against its first
+ * parent. The tree is rebuilt from those files before anything is stored, so a commit that
+ * would not keep its git id is refused. Commits are attributed to whoever ran the sync: the
+ * remote's author lines name whoever it likes, and stay readable in the stored git object.
+ */
+async function importCommits(
+  repository: RepositoryKey,
+  remote: Remote,
+  history: LocalHistory,
+  fetched: Map<string, GitObject>,
+  wants: string[],
+  actorId: string
+) {
+  const blobs: BlobCache = new Map();
+
+  // The remote leaves out objects it was told this server has, so they are rebuilt on demand
+  let local: Map<string, GitObject> | undefined;
+  const buildLocalObjects = async () => {
+    const objects = new Map<string, GitObject>();
+    const commits = [...history.byGitId.values()];
+    await loadBlobs(
+      blobs,
+      commits.flatMap((id) => fileHashes(history.files.get(id)!))
+    );
+    for (const id of commits) writeTrees(history.files.get(id)!, blobs, objects);
+    for (const blob of blobs.values()) objects.set(blob.id, { type: 'blob', content: blob.content });
+    return objects;
+  };
+  const lookup = async (id: string, type: GitObjectType) => {
+    let object = fetched.get(id);
+    if (!object && type !== 'commit') {
+      local ??= await buildLocalObjects();
+      object = local.get(id);
+    }
+    if (!object || object.type !== type) {
+      throw new MirrorError(`${remote.name} did not send ${type} ${id}`);
+    }
+    return object;
+  };
+
+  // Parents before children, stopping at commits that are already here
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const stack = wants.map((id) => ({ id, expanded: false }));
+  while (stack.length > 0) {
+    const { id, expanded } = stack.pop()!;
+    if (expanded) {
+      order.push(id);
+    } else if (!visited.has(id) && !history.byGitId.has(id)) {
+      visited.add(id);
+      const { parents } = parseCommit((await lookup(id, 'commit')).content);
+      stack.push({ id, expanded: true }, ...parents.map((parentId) => ({ id: parentId, expanded: false })));
+    }
+  }
+
+  const imported = new Map<string, FileTree>();
+  const newBlobs = new Map<string, Buffer>();
+  const commits: {
+    id: string;
+    gitId: string;
+    content: Buffer;
+    message: string;
+    timestamp: Date;
+    parentCommitIDs: string[];
+  }[] = [];
+  const fileChanges: Prisma.FileChangeCreateManyInput[] = [];
+  for (const gitId of order) {
+    const content = (await lookup(gitId, 'commit')).content;
+    const commit = parseCommit(content);
+    const id = importedCommitId(repository, gitId);
+
+    const files: FileTree = new Map();
+    const readTree = async (treeId: string, prefix: string) => {
+      for (const entry of parseTree((await lookup(treeId, 'tree')).content)) {
+        const path = `${prefix}${entry.name}`;
+        if (entry.mode === TREE_MODE) {
+          await readTree(entry.id, `${path}/`);
+        } else if (FILE_MODES.includes(entry.mode)) {
+          const blob = await lookup(entry.id, 'blob');
+          const hash = hashContent(blob.content);
+          blobs.set(hash, { id: entry.id, content: blob.content });
+          if (fetched.has(entry.id)) newBlobs.set(hash, blob.content);
+          files.set(path, { hash, mode: entry.mode });
+        } else {
+          throw new MirrorError(`${remote.name} sent ${path} with mode ${entry.mode}, which vec cannot store`);
+        }
+      }
+    };
+    await readTree(commit.tree, '');
+
+    if (writeTrees(files, blobs, new Map()) !== commit.tree) {
+      throw new MirrorError(`Commit ${gitId} from ${remote.name} cannot be stored without changing it`);
+    }
+
+    const firstParent = commit.parents[0];
+    const localParent = firstParent && history.byGitId.get(firstParent);
+    const before: FileTree = (localParent ? history.files.get(localParent) : imported.get(firstParent)) ?? new Map();
+    for (const [filePath, file] of files) {
+      const previous = before.get(filePath);
+      if (!previous || previous.hash !== file.hash || previous.mode !== file.mode) {
+        fileChanges.push({
+          commitId: id,
+          filePath,
+          changeType: previous ? ChangeType.MODIFIED : ChangeType.ADDED,
+          fileContentHash: file.hash,
+          previousFileContentHash: previous?.hash ?? null,
+          mode: file.mode,
+        });
+      }
+    }
+    for (const [filePath, previous] of before) {
+      if (!files.has(filePath)) {
+        fileChanges.push({
+          commitId: id,
+          filePath,
+          changeType: ChangeType.DELETED,
+          fileContentHash: null,
+          previousFileContentHash: previous.hash,
+          mode: previous.mode,
+        });
+      }
+    }
+
+    imported.set(gitId, files);
+    commits.push({
+      id,
+      gitId,
+      content,
+      message: commit.message.replace(/\n+$/, ''),
+      timestamp: commit.author.timestamp,
+      parentCommitIDs: commit.parents.map(
+        (parentId) => history.byGitId.get(parentId) ?? importedCommitId(repository, parentId)
+      ),
+    });
+  }
+
+  await db.$transaction(
+    async (tx) => {
+      for (const content of newBlobs.values()) {
+        await storeBlob(content, tx);
+      }
+      for (const commit of commits) {
+        await storeBlob(commit.content, tx);
+      }
+
+      await tx.commit.createMany({
+        data: commits.map((commit) => ({
+          id: commit.id,
+          message: commit.message,
+          timestamp: commit.timestamp,
+          authorId: actorId,
+          parentCommitIDs: commit.parentCommitIDs,
+          repositoryName: repository.name,
+          repositoryGroup: repository.groupUserName,
+          gitId: commit.gitId,
+          gitObject: hashContent(commit.content),
+        })),
+      });
+      await tx.fileChange.createMany({ data: fileChanges });
+    },
+    { timeout: APPLY_TRANSACTION_TIMEOUT }
+  );
+
+  for (const commit of commits) {
+    history.byGitId.set(commit.gitId, commit.id);
+  }
+}
+
+/**
+ * Creates or fast-forwards branches. An update is rejected when the branch moved since the
+ * other side last saw it, or when its current head is not an ancestor of the new one.
+ * Branches that already contain the new head are left alone. Protected branches are never
+ * moved by a sync, since anyone who can sync could otherwise land commits on them without
+ * a merge request.
+ */
+async function applyBranchUpdates(repository: RepositoryKey, updates: BranchUpdate[]): Promise<BranchUpdateResult> {
+  const graph = await loadCommitGraph(repository.name, repository.groupUserName);
+  const branches = await db.branch.findMany({
+    where: { repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+    select: { id: true, name: true, headCommitId: true, isProtected: true },
+  });
+  const branchesByName = new Map(branches.map((branch) => [branch.name, branch]));
+
+  const result: BranchUpdateResult = { updated: [], rejected: [] };
+  for (const update of updates) {
+    const branch = branchesByName.get(update.name);
+    const reject = (reason: string) => result.rejected.push({ name: update.name, reason });
+
+    if (!branchNameSchema.safeParse(update.name).success) {
+      reject('invalid branch name');
+    } else if (!graph.has(update.newHeadCommitId)) {
+      reject('unknown commit');
+    } else if (!branch && update.oldHeadCommitId !== null) {
+      reject('branch no longer exists');
+    } else if (!branch) {
+      await db.branch.create({
+        data: {
+          name: update.name,
+          repositoryName: repository.name,
+          repositoryGroup: repository.groupUserName,
+          headCommitId: update.newHeadCommitId,
+        },
+      });
+      result.updated.push(update.name);
+    } else if (ancestorsOf(graph, branch.headCommitId).has(update.newHeadCommitId)) {
+      // Already up to date, or ahead of the other side
+    } else if (branch.isProtected) {
+      reject(protectedBranchMessage(branch.name));
+    } else if (update.oldHeadCommitId !== branch.headCommitId) {
+      reject('branch has moved');
+    } else if (!ancestorsOf(graph, update.newHeadCommitId).has(branch.headCommitId)) {
+      reject('not a fast-forward');
+    } else {
+      const advanced = await db.branch.updateMany({
+        where: { id: branch.id, headCommitId: branch.headCommitId },
+        data: { headCommitId: update.newHeadCommitId },
+      });
+      if (advanced.count === 0) {
+        reject('branch has moved');
+      } else {
+        result.updated.push(update.name);
+      }
+    }
+  }
+
+  return result;
+}
+
+async function listBranches(repository: RepositoryKey) {
+  return db.branch.findMany({
+    where: { repositoryName: repository.name, repositoryGroup: repository.groupUserName },
+    select: { name: true, headCommitId: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Brings the remote's commits into the repository and fast-forwards local branches to the
+ * remote's heads, creating the ones that only exist there.
+ */
+async function pullFromRemote(repository: RepositoryKey, remote: Remote, actorId: string) {
+  const refs = await discoverRefs(remote, 'git-upload-pack');
+  const history = await loadHistory(repository);
+
+  const wants = [...new Set(refs.branches.values())].filter((gitId) => !history.byGitId.has(gitId));
+  if (wants.length > 0) {
+    const fetched = await fetchPack(remote, refs, wants, [...history.byGitId.keys()]);
+    await importCommits(repository, remote, history, fetched, wants, actorId);
+  }
+
+  const localHeads = new Map((await listBranches(repository)).map((branch) => [branch.name, branch.headCommitId]));
+  return applyBranchUpdates(
+    repository,
+    [...refs.branches].map(([name, gitId]) => ({
+      name,
+      oldHeadCommitId: localHeads.get(name) ?? null,
+      newHeadCommitId: history.byGitId.get(gitId)!,
+    }))
+  );
+}
+
+/**
+ * Sends the commits the remote is missing and asks it to fast-forward its branches to the
+ * local heads. Branches whose remote head is not an ancestor of the local one are left for
+ * a pull to bring together.
+ */
+async function pushToRemote(repository: RepositoryKey, remote: Remote): Promise<BranchUpdateResult> {
+  const refs = await discoverRefs(remote, 'git-receive-pack');
+  const history = await loadHistory(repository);
+  const branches = (await listBranches(repository)).filter((branch) => history.graph.has(branch.headCommitId));
+
+  const blobs: BlobCache = new Map();
+  await exportCommits(
+    history,
+    branches.map((branch) => branch.headCommitId),
+    blobs
+  );
+
+  const rejected: BranchUpdateResult['rejected'] = [];
+  const updates: { name: string; oldId: string; newId: string; headCommitId: string }[] = [];
+  for (const branch of branches) {
+    const headGitId = history.commits.get(branch.headCommitId)!.gitId!;
+    const remoteHead = refs.branches.get(branch.name);
+    const remoteCommitId = remoteHead && history.byGitId.get(remoteHead);
+
+    if (remoteHead === headGitId) {
+      continue;
+    } else if (remoteHead && !remoteCommitId) {
+      rejected.push({ name: branch.name, reason: 'the remote has commits that are not here' });
+    } else if (remoteCommitId && ancestorsOf(history.graph, remoteCommitId).has(branch.headCommitId)) {
+      // The remote is ahead
+    } else if (remoteCommitId && !ancestorsOf(history.graph, branch.headCommitId).has(remoteCommitId)) {
+      rejected.push({ name: branch.name, reason: 'not a fast-forward' });
+    } else {
+      updates.push({
+        name: branch.name,
+        oldId: remoteHead ?? NULL_OBJECT_ID,
+        newId: headGitId,
+        headCommitId: branch.headCommitId,
+      });
+    }
+  }
+  if (updates.length === 0) {
+    return { updated: [], rejected };
+  }
+
+  // Like git, leave out whatever the commits the remote already has share with the new ones
+  const present = new Set<string>();
+  for (const gitId of refs.branches.values()) {
+    const commitId = history.byGitId.get(gitId);
+    if (commitId) ancestorsOf(history.graph, commitId).forEach((id) => present.add(id));
+  }
+  const sending = walkHistory(
+    history.graph,
+    updates.map((update) => update.headCommitId)
+  )
+    .map((commit) => history.commits.get(commit.id)!)
+    .filter((commit) => !present.has(commit.id));
+  const boundary = [
+    ...new Set(sending.flatMap((commit) => commit.parentCommitIDs.filter((parentId) => present.has(parentId)))),
+  ];
+
+  await loadBlobs(
+    blobs,
+    [...sending.map((commit) => commit.id), ...boundary].flatMap((id) => fileHashes(history.files.get(id)!))
+  );
+  const known = new Map<string, GitObject>();
+  for (const id of boundary) {
+    const files = history.files.get(id)!;
+    writeTrees(files, blobs, known);
+    for (const file of files.values()) {
+      const blob = blobs.get(file.hash)!;
+      known.set(blob.id, { type: 'blob', content: blob.content });
+    }
+  }
+
+  const objects = new Map<string, GitObject>();
+  const commitObjects = await readBlobs(sending.map((commit) => commit.gitObject!));
+  for (const commit of sending) {
+    const content = commitObjects.get(commit.gitObject!)?.content;
+    if (!content) {
+      throw new MirrorError(`The git form of commit ${commit.id} is missing`);
+    }
+    objects.set(commit.gitId!, { type: 'commit', content });
+
+    const files = history.files.get(commit.id)!;
+    writeTrees(files, blobs, objects);
+    for (const file of files.values()) {
+      const blob = blobs.get(file.hash)!;
+      objects.set(blob.id, { type: 'blob', content: blob.content });
+    }
+  }
+  for (const id of known.keys()) objects.delete(id);
+
+  const result = await sendPack(remote, refs, updates, [...objects.values()]);
+  return { updated: result.updated, rejected: [...rejected, ...result.rejected] };
+}
+
+/**
+ * Syncs a mirror remote in its configured direction and records the outcome on the remote.
+ * Returns an error instead when the remote is not a mirror or the sync failed.
+ */
+export async function syncRemote(repository: RepositoryKey, remote: Remote, actorId: string) {
+  if (!remote.mirror) {
+    return { error: `${remote.name} is not a mirror`, status: 409 } as const;
+  }
+
+  try {
+    const result =
+      remote.mirror === MirrorDirection.PULL
+        ? await pullFromRemote(repository, remote, actorId)
+        : await pushToRemote(repository, remote);
+
+    const updated = await db.remote.update({
+      where: { id: remote.id },
+      data: { lastSyncedAt: new Date(), lastSyncError: null },
+    });
+    return { remote: updated, result } as const;
+  } catch (error) {
+    if (!(error instanceof MirrorError) && !(error instanceof GitFormatError)) throw error;
+
+    const message =
+      error instanceof GitFormatError ? `${remote.name} sent invalid git data: ${error.message}` : error.message;
+    const updated = await db.remote.update({
+      where: { id: remote.id },
+      data: { lastSyncError: message },
+    });
+    return { error: message, remote: updated, status: 502 } as const;
+  }
+}
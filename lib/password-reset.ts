@@ -0,0 +1,118 @@
+import { createHash, randomBytes } from 'crypto';
+import { hash } from 'bcrypt';
+import { after } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { queueEmail } from '@/lib/mail/outbox';
+import { appUrl } from '@/lib/mail/templates';
+
+export const RESET_TOKEN_TTL_MINUTES = 30;
+
+// At most this many reset emails per address within the window
+export const RESET_REQUEST_LIMIT = 3;
+export const RESET_REQUEST_WINDOW_MINUTES = 60;
+
+export const requestResetSchema = z.object({
+  email: z.string().trim().toLowerCase().email('A valid email address is required'),
+});
+
+export const newPasswordSchema = z.string().min(8, 'Password must be at least 8 characters').max(200);
+
+export const confirmResetSchema = z.object({
+  token: z.string().trim().min(1, 'Reset token is required'),
+  password: newPasswordSchema,
+});
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: newPasswordSchema,
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: 'The new password must differ from the current one',
+    path: ['newPassword'],
+  });
+
+// Only the hash is stored, so a leaked database row cannot be used to reset a password
+const hashResetToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Emails a single-use reset link to the account with this address, if there is an active
+ * one. Issuing a new token replaces (and so invalidates) any earlier one.
+ */
+async function sendResetLink(email: string) {
+  const user = await db.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    select: { userId: true, email: true, firstName: true, suspended: true },
+  });
+
+  if (!user || user.suspended) {
+    return;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  await db.user.update({
+    where: { userId: user.userId },
+    data: {
+      passwordResetToken: hashResetToken(token),
+      passwordResetExpires: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60_000),
+    },
+  });
+
+  await queueEmail(user.email, 'passwordReset', {
+    recipientName: user.firstName,
+    resetUrl: appUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+    expiresInMinutes: RESET_TOKEN_TTL_MINUTES,
+  });
+}
+
+/**
+ * Records a reset request and, if the address belongs to an active account, emails it a
+ * single-use reset link. The caller must answer the same way whether or not an account
+ * exists; only exceeding the per-address rate limit is reported. The account is looked up
+ * and the email sent after the response, so its timing does not give the answer away either.
+ */
+export async function requestPasswordReset(email: string, ipAddress: string | null) {
+  const windowStart = new Date(Date.now() - RESET_REQUEST_WINDOW_MINUTES * 60_000);
+
+  // Recording the request before counting means concurrent requests always count each other
+  const request = await db.passwordResetRequest.create({ data: { email, ipAddress } });
+  const recentRequests = await db.passwordResetRequest.count({
+    where: { email, createdAt: { gte: windowStart } },
+  });
+
+  if (recentRequests > RESET_REQUEST_LIMIT) {
+    await db.passwordResetRequest.delete({ where: { id: request.id } });
+    return { rateLimited: true } as const;
+  }
+
+  after(() =>
+    sendResetLink(email).catch((error) => console.error('Error sending password reset email:', error))
+  );
+
+  return { rateLimited: false } as const;
+}
+
+/**
+ * Sets a new password if the token is valid and unexpired. The token is consumed in the
+ * same update that changes the password, so it can only ever be used once. Every existing
+ * session of the user is revoked.
+ */
+export async function resetPassword(token: string, password: string) {
+  const passwordHash = await hash(password, 10);
+
+  const result = await db.user.updateMany({
+    where: {
+      passwordResetToken: hashResetToken(token),
+      passwordResetExpires: { gt: new Date() },
+    },
+    data: {
+      passwordHash,
+      passwordResetToken: null,
+      passwordResetExpires: null,
+      tokenVersion: { increment: 1 },
+    },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,262 @@
+import { ProjectStatus, Role } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { getRules, isPastDeadline } from '@/lib/rules';
+import { createSubmissionSnapshot } from '@/lib/submission-snapshots';
+
+// Schema for moving a project to another lifecycle status
+export const projectTransitionSchema = z.object({
+  status: z.nativeEnum(ProjectStatus),
+  reason: z.string().trim().min(1).max(2000).nullable().optional(),
+});
+
+/** How the acting user relates to a project, which decides the transitions open to them */
+export type LifecycleRole = 'LEADER' | 'MEMBER' | 'ADVISOR' | 'ADMINISTRATOR';
+
+export interface ProjectTransition {
+  to: ProjectStatus;
+  label: string;
+  roles: LifecycleRole[];
+  /** Transitions that send work back must say why */
+  requiresReason?: boolean;
+}
+
+/**
+ * The project lifecycle. Groups submit their own work, the advisor returns it for
+ * revision or signs it off, and only administrators bring archived projects back.
+ */
+export const PROJECT_TRANSITIONS: Record<ProjectStatus, ProjectTransition[]> = {
+  [ProjectStatus.ACTIVE]: [
+    { to: ProjectStatus.SUBMITTED, label: 'Submit for evaluation', roles: ['LEADER'] },
+    { to: ProjectStatus.ARCHIVED, label: 'Archive', roles: ['LEADER', 'ADMINISTRATOR'] },
+  ],
+  [ProjectStatus.SUBMITTED]: [
+    { to: ProjectStatus.ACTIVE, label: 'Return for revision', roles: ['ADVISOR', 'ADMINISTRATOR'], requiresReason: true },
+    { to: ProjectStatus.COMPLETED, label: 'Mark completed', roles: ['ADVISOR', 'ADMINISTRATOR'] },
+  ],
+  [ProjectStatus.COMPLETED]: [
+    { to: ProjectStatus.ARCHIVED, label: 'Archive', roles: ['ADVISOR', 'ADMINISTRATOR'] },
+  ],
+  [ProjectStatus.ARCHIVED]: [
+    { to: ProjectStatus.ACTIVE, label: 'Restore', roles: ['ADMINISTRATOR'], requiresReason: true },
+  ],
+};
+
+export interface ChecklistItem {
+  key: 'advisor' | 'documents' | 'repository';
+  label: string;
+  satisfied: boolean;
+  /** What is still missing when the item is not satisfied */
+  detail: string | null;
+}
+
+interface LifecycleProject {
+  id: string;
+  title: string;
+  status: ProjectStatus;
+  groupUserName: string;
+  advisorId: string | null;
+}
+
+interface LifecycleUser {
+  userId: string;
+  role: string;
+}
+
+/**
+ * The lifecycle roles a user holds on a project; empty for users with no part in it.
+ */
+export async function getLifecycleRoles(project: LifecycleProject, user: LifecycleUser): Promise<LifecycleRole[]> {
+  const roles: LifecycleRole[] = [];
+
+  if (user.role === Role.ADMINISTRATOR) {
+    roles.push('ADMINISTRATOR');
+  }
+  if (project.advisorId === user.userId) {
+    roles.push('ADVISOR');
+  }
+
+  const group = await db.group.findUnique({
+    where: { groupUserName: project.groupUserName },
+    select: { leaderId: true, members: { where: { userId: user.userId }, select: { userId: true } } },
+  });
+  if (group?.leaderId === user.userId) {
+    roles.push('LEADER', 'MEMBER');
+  } else if (group?.members.length) {
+    roles.push('MEMBER');
+  }
+
+  return roles;
+}
+
+/**
+ * Transitions out of a status that any of the given roles may take.
+ */
+export function allowedTransitions(status: ProjectStatus, roles: LifecycleRole[]): ProjectTransition[] {
+  return PROJECT_TRANSITIONS[status].filter((transition) => transition.roles.some((role) => roles.includes(role)));
+}
+
+/**
+ * What a project needs before it can be submitted: an advisor, a document in every
+ * required category and a linked repository with at least one commit.
+ */
+export async function getSubmissionChecklist(project: LifecycleProject): Promise<ChecklistItem[]> {
+  const { requiredDocumentCategories } = await getRules();
+
+  const [documents, commitCount] = await Promise.all([
+    db.document.findMany({
+      where: { projectId: project.id },
+      distinct: ['category'],
+      select: { category: true },
+    }),
+    db.commit.count({
+      where: { repository: { projects: { some: { projectId: project.id } } } },
+    }),
+  ]);
+
+  const uploaded = new Set(documents.map((document) => document.category.toLowerCase()));
+  const missingCategories = requiredDocumentCategories.filter((category) => !uploaded.has(category.toLowerCase()));
+
+  return [
+    {
+      key: 'advisor',
+      label: 'An advisor is assigned',
+      satisfied: !!project.advisorId,
+      detail: project.advisorId ? null : 'Request an advisor for the project',
+    },
+    {
+      key: 'documents',
+      label: 'Required documents are uploaded',
+      satisfied: missingCategories.length === 0,
+      detail: missingCategories.length > 0 ? `Missing: ${missingCategories.join(', ')}` : null,
+    },
+    {
+      key: 'repository',
+      label: 'A linked repository has commits',
+      satisfied: commitCount > 0,
+      detail: commitCount > 0 ? null : 'Link a repository and commit your work to it',
+    },
+  ];
+}
+
+const TRANSITION_MESSAGES: Partial<Record<ProjectStatus, (title: string) => string>> = {
+  [ProjectStatus.ACTIVE]: (title) => `"${title}" was returned to your group for revision`,
+  [ProjectStatus.COMPLETED]: (title) => `"${title}" was marked completed`,
+  [ProjectStatus.ARCHIVED]: (title) => `"${title}" was archived`,
+};
+
+/**
+ * Moves a project to another status if the lifecycle allows it and the user holds a role
+ * that may. Submitting checks the deadline and checklist and snapshots the project. Every
+ * transition is recorded; evaluators hear about submissions and the group about
+ * transitions made by someone outside it. Returns an error instead when the move is refused.
+ */
+export async function transitionProject(
+  projectId: string,
+  to: ProjectStatus,
+  user: LifecycleUser,
+  reason?: string | null
+) {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, title: true, status: true, groupUserName: true, advisorId: true },
+  });
+  if (!project) {
+    return { error: 'Project not found', status: 404 } as const;
+  }
+
+  const transition = PROJECT_TRANSITIONS[project.status].find((candidate) => candidate.to === to);
+  if (!transition) {
+    return { error: `A ${project.status.toLowerCase()} project cannot become ${to.toLowerCase()}`, status: 409 } as const;
+  }
+
+  const roles = await getLifecycleRoles(project, user);
+  if (!transition.roles.some((role) => roles.includes(role))) {
+    return { error: `You are not allowed to ${transition.label.toLowerCase()} this project`, status: 403 } as const;
+  }
+  if (transition.requiresReason && !reason) {
+    return { error: 'A reason is required', status: 400 } as const;
+  }
+
+  if (to === ProjectStatus.SUBMITTED) {
+    const { projectSubmissionDeadline } = await getRules();
+    if (isPastDeadline(projectSubmissionDeadline)) {
+      return {
+        error: `The project submission deadline (${projectSubmissionDeadline!.toISOString()}) has passed`,
+        status: 400,
+      } as const;
+    }
+
+    const checklist = await getSubmissionChecklist(project);
+    if (checklist.some((item) => !item.satisfied)) {
+      return { error: 'The project is not ready to be submitted', checklist, status: 409 } as const;
+    }
+  }
+
+  const result = await db.$transaction(async (tx) => {
+    // Only move the project if nobody else moved it in the meantime
+    const { count } = await tx.project.updateMany({
+      where: { id: project.id, status: project.status },
+      data: {
+        status: to,
+        archived: to === ProjectStatus.ARCHIVED,
+        ...(to === ProjectStatus.SUBMITTED && { submissionDate: new Date() }),
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const change = await tx.projectStatusChange.create({
+      data: { projectId: project.id, fromStatus: project.status, toStatus: to, reason: reason || null, actorId: user.userId },
+    });
+    // Evaluators grade what was submitted, not whatever the group pushes afterwards
+    if (to === ProjectStatus.SUBMITTED) {
+      await createSubmissionSnapshot(tx, project.id, change.id);
+    }
+    return change;
+  });
+  if (!result) {
+    return { error: 'The project status changed in the meantime, reload and try again', status: 409 } as const;
+  }
+
+  if (to === ProjectStatus.SUBMITTED) {
+    const evaluators = await db.projectEvaluator.findMany({
+      where: { projectId: project.id },
+      select: { evaluatorId: true },
+    });
+    await db.notification.createMany({
+      data: evaluators.map(({ evaluatorId }) => ({
+        message: `"${project.title}" was submitted and is ready for evaluation`,
+        recipientId: evaluatorId,
+        read: false,
+      })),
+    });
+  } else if (!roles.includes('MEMBER') && TRANSITION_MESSAGES[to]) {
+    const members = await db.groupMember.findMany({
+      where: { groupUserName: project.groupUserName },
+      select: { userId: true },
+    });
+    const message = TRANSITION_MESSAGES[to]!(project.title);
+    await db.notification.createMany({
+      data: members.map(({ userId }) => ({
+        message: reason ? `${message}: ${reason}` : message,
+        recipientId: userId,
+        read: false,
+      })),
+    });
+  }
+
+  return { change: result } as const;
+}
+
+/**
+ * Every recorded transition of a project, newest first.
+ */
+export async function getStatusHistory(projectId: string) {
+  return db.projectStatusChange.findMany({
+    where: { projectId },
+    include: { actor: { select: { userId: true, firstName: true, lastName: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
@@ -0,0 +1,42 @@
+import { MirrorDirection, Remote } from '@prisma/client';
+import { z } from 'zod';
+
+const remoteNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Remote name is required')
+  .max(100, 'Remote name is too long')
+  .regex(/^[A-Za-z0-9._-]+$/, 'Remote names may only contain letters, digits, dots, dashes and underscores');
+
+const remoteUrlSchema = z
+  .string()
+  .trim()
+  .url('Enter a valid URL')
+  .refine((url) => /^https?:\/\//i.test(url), 'Remotes must be reached over HTTP or HTTPS')
+  .transform((url) => url.replace(/\/+$/, ''));
+
+// Tokens are sent to remotes as bearer tokens, so anything guessable is refused
+const remoteTokenSchema = z.string().trim().min(16, 'Tokens must be at least 16 characters').max(200);
+
+// Schema for adding a remote to a repository
+export const createRemoteSchema = z.object({
+  name: remoteNameSchema,
+  url: remoteUrlSchema,
+  mirror: z.nativeEnum(MirrorDirection).nullable().optional(),
+  token: remoteTokenSchema.nullable().optional(),
+});
+
+// Schema for changing a remote; a null token removes it
+export const updateRemoteSchema = z.object({
+  name: remoteNameSchema.optional(),
+  url: remoteUrlSchema.optional(),
+  mirror: z.nativeEnum(MirrorDirection).nullable().optional(),
+  token: remoteTokenSchema.nullable().optional(),
+});
+
+/**
+ * A remote as returned by the API. The token is a secret and is never sent back.
+ */
+export function toRemoteResponse({ token, ...remote }: Remote) {
+  return { ...remote, hasToken: !!token };
+}
@@ -0,0 +1,103 @@
+import { Role } from '@prisma/client';
+import { getServerSession, Session } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+
+// Branch that new repositories start on; closing keywords in commit messages only take effect here
+export const DEFAULT_BRANCH = 'main';
+
+export interface RepositoryAccess {
+  /** May browse code, merge requests and history */
+  canRead: boolean;
+  /** May push commits, manage branches and merge */
+  canWrite: boolean;
+  /** May change repository settings such as branch protection */
+  canAdminister: boolean;
+  /** May leave line comments on code, as members and supervisors do */
+  canReview: boolean;
+}
+
+/**
+ * Looks up a repository by its URL segments, where the owner is the owning group's username.
+ */
+export async function findRepository(owner: string, repo: string) {
+  return db.repository.findUnique({
+    where: { name_groupUserName: { name: repo, groupUserName: owner } },
+  });
+}
+
+/**
+ * Works out what a user may do in a repository. Members and the leader of the owning
+ * group and administrators have write access; the advisor and evaluators of any project
+ * the repository is linked to may read and review it, and anyone may read it when it is
+ * public. Only the group leader and administrators may change its settings.
+ */
+export async function getRepositoryAccess(
+  repository: { name: string; groupUserName: string; isPrivate: boolean },
+  user: Session['user'] | undefined
+): Promise<RepositoryAccess> {
+  if (!user?.userId) {
+    return { canRead: !repository.isPrivate, canWrite: false, canAdminister: false, canReview: false };
+  }
+
+  if (user.role === Role.ADMINISTRATOR) {
+    return { canRead: true, canWrite: true, canAdminister: true, canReview: true };
+  }
+
+  const group = await db.group.findUnique({
+    where: { groupUserName: repository.groupUserName },
+    select: {
+      leaderId: true,
+      members: { where: { userId: user.userId }, select: { userId: true } },
+    },
+  });
+
+  if (group && (group.leaderId === user.userId || group.members.length > 0)) {
+    return { canRead: true, canWrite: true, canAdminister: group.leaderId === user.userId, canReview: true };
+  }
+
+  const supervisedProject = await db.projectRepository.findFirst({
+    where: {
+      repositoryName: repository.name,
+      groupUserName: repository.groupUserName,
+      project: {
+        OR: [
+          { advisorId: user.userId },
+          { projectEvaluators: { some: { evaluatorId: user.userId } } },
+        ],
+      },
+    },
+    select: { projectId: true },
+  });
+
+  return {
+    canRead: !repository.isPrivate || !!supervisedProject,
+    canWrite: false,
+    canAdminister: false,
+    canReview: !!supervisedProject,
+  };
+}
+
+/**
+ * Resolves the repository behind a /api/repositories/:owner/:repo route together with
+ * the caller's session and access. Returns an error response body and status instead
+ * when the repository does not exist or the caller may not read it.
+ */
+export async function resolveRepository(owner: string, repo: string) {
+  const session = await getServerSession(authOptions);
+  const repository = await findRepository(owner, repo);
+
+  if (!repository) {
+    return { error: 'Repository not found', status: 404 } as const;
+  }
+
+  const access = await getRepositoryAccess(repository, session?.user);
+  if (!access.canRead) {
+    // Private repositories are indistinguishable from missing ones to outsiders
+    return session?.user
+      ? ({ error: 'Repository not found', status: 404 } as const)
+      : ({ error: 'Authentication required', status: 401 } as const);
+  }
+
+  return { repository, session, access } as const;
+}
@@ -63,15 +63,23 @@ export async function deleteRepository(username: string, repo: string) {
   return response.json();
 }
 
-// Fork repository
-export async function forkRepository(username: string, repo: string) {
+// Fork repository into a group, optionally under another name
+export async function forkRepository(
+  username: string,
+  repo: string,
+  target: { groupUserName: string; name?: string; description?: string; isPrivate?: boolean }
+) {
   const response = await fetch(getRepositoryEndpoints.fork(username, repo), {
     method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(target),
   });
 
   if (!response.ok) {
     const errorData = await response.json();
-    throw new Error(errorData.message || `Failed to fork repository: ${response.status}`);
+    throw new Error(errorData.error || errorData.message || `Failed to fork repository: ${response.status}`);
   }
 
   return response.json();
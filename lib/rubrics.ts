@@ -0,0 +1,170 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { recomputeFinalGrade } from '@/lib/grades';
+
+const criterionSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Criterion name is required').max(200),
+    description: z.string().trim().max(2000).nullable().optional(),
+    weight: z.number().positive('Weight must be positive').max(100),
+    minScore: z.number().default(0),
+    maxScore: z.number().default(10),
+  })
+  .refine((c) => c.maxScore > c.minScore, {
+    message: 'Maximum score must be greater than the minimum score',
+    path: ['maxScore'],
+  });
+
+// Schema for creating or replacing a rubric together with its criteria
+export const rubricSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(200),
+    description: z.string().trim().max(2000).nullable().optional(),
+    isDefault: z.boolean().default(false),
+    criteria: z.array(criterionSchema).min(1, 'A rubric needs at least one criterion'),
+  })
+  .refine((r) => Math.abs(r.criteria.reduce((sum, c) => sum + c.weight, 0) - 100) < 0.01, {
+    message: 'Criterion weights must add up to 100',
+    path: ['criteria'],
+  });
+
+// Schema for an evaluator's scores against a rubric
+export const rubricEvaluationSchema = z.object({
+  comments: z.string().trim().min(1, 'Comments are required'),
+  criteria: z
+    .array(
+      z.object({
+        criterionId: z.string().min(1),
+        score: z.number(),
+        comment: z.string().trim().max(2000).optional(),
+      })
+    )
+    .min(1, 'Scores are required'),
+});
+
+export type RubricEvaluationInput = z.infer<typeof rubricEvaluationSchema>;
+
+export const rubricInclude = {
+  criteria: { orderBy: { position: 'asc' } },
+} satisfies Prisma.RubricInclude;
+
+export type RubricWithCriteria = Prisma.RubricGetPayload<{ include: typeof rubricInclude }>;
+
+/**
+ * Returns the rubric a project is graded against: its assigned rubric, else the default one.
+ */
+export async function getProjectRubric(projectId: string): Promise<RubricWithCriteria | null> {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { rubric: { include: rubricInclude } },
+  });
+
+  if (project?.rubric) {
+    return project.rubric;
+  }
+
+  return db.rubric.findFirst({
+    where: { isDefault: true },
+    include: rubricInclude,
+  });
+}
+
+/**
+ * Validates scores against a rubric and computes the weighted total on a 0-100 scale.
+ * Every criterion must be scored exactly once and within its range; otherwise an error message is returned.
+ */
+export function scoreAgainstRubric(rubric: RubricWithCriteria, input: RubricEvaluationInput['criteria']) {
+  const scores = new Map<string, RubricEvaluationInput['criteria'][number]>();
+  for (const entry of input) {
+    if (scores.has(entry.criterionId)) {
+      return { error: `Criterion ${entry.criterionId} was scored more than once` } as const;
+    }
+    scores.set(entry.criterionId, entry);
+  }
+
+  let total = 0;
+  const criteria = [];
+  for (const criterion of rubric.criteria) {
+    const entry = scores.get(criterion.id);
+    if (!entry) {
+      return { error: `Missing score for "${criterion.name}"` } as const;
+    }
+    if (entry.score < criterion.minScore || entry.score > criterion.maxScore) {
+      return {
+        error: `Score for "${criterion.name}" must be between ${criterion.minScore} and ${criterion.maxScore}`,
+      } as const;
+    }
+    scores.delete(criterion.id);
+
+    total += (criterion.weight * (entry.score - criterion.minScore)) / (criterion.maxScore - criterion.minScore);
+
+    criteria.push({
+      id: criterion.id,
+      name: criterion.name,
+      weight: criterion.weight,
+      minScore: criterion.minScore,
+      maxScore: criterion.maxScore,
+      score: entry.score,
+      comment: entry.comment || null,
+    });
+  }
+
+  if (scores.size > 0) {
+    return { error: 'Scores were submitted for criteria that are not part of the rubric' } as const;
+  }
+
+  return {
+    score: Math.round(total * 100) / 100,
+    // Snapshot the criteria so later rubric edits do not rewrite past evaluations
+    criteriaData: {
+      rubricId: rubric.id,
+      rubricName: rubric.name,
+      criteria,
+    },
+  };
+}
+
+/**
+ * Scores an evaluator's submission against the project's rubric and stores it,
+ * replacing the evaluator's previous evaluation of the project if there is one.
+ * The project's final grade is recomputed afterwards.
+ */
+export async function saveRubricEvaluation(projectId: string, evaluatorId: string, input: RubricEvaluationInput) {
+  const rubric = await getProjectRubric(projectId);
+  if (!rubric) {
+    return { error: 'No rubric is assigned to this project', status: 409 } as const;
+  }
+
+  const result = scoreAgainstRubric(rubric, input.criteria);
+  if ('error' in result) {
+    return { error: result.error, status: 400 } as const;
+  }
+
+  const data = {
+    score: result.score,
+    comments: input.comments,
+    criteriaData: result.criteriaData,
+    rubricId: rubric.id,
+  };
+
+  const existingEvaluation = await db.evaluation.findFirst({
+    where: { projectId, authorId: evaluatorId },
+    select: { id: true },
+  });
+
+  if (existingEvaluation) {
+    const evaluation = await db.evaluation.update({
+      where: { id: existingEvaluation.id },
+      data: { ...data, createdAt: new Date() },
+    });
+    await recomputeFinalGrade(projectId);
+    return { evaluation, created: false } as const;
+  }
+
+  const evaluation = await db.evaluation.create({
+    data: { ...data, projectId, authorId: evaluatorId },
+  });
+  await recomputeFinalGrade(projectId);
+  return { evaluation, created: true } as const;
+}
@@ -0,0 +1,65 @@
+import { GradeAggregationMethod, ProjectStatus, Rule } from '@prisma/client';
+import { db } from '@/lib/db';
+
+export type SystemRules = Omit<Rule, 'id' | 'updatedAt'> & { updatedAt: Date | null };
+
+/**
+ * Defaults mirror the column defaults of the Rule model and apply
+ * until an administrator saves the rules for the first time.
+ */
+export const DEFAULT_RULES: SystemRules = {
+  maxGroupSize: 5,
+  maxEvaluatorsPerProject: 3,
+  maxProjectsPerAdvisor: 5,
+  advisorRequestDeadline: null,
+  projectSubmissionDeadline: null,
+  gradeAggregation: GradeAggregationMethod.MEAN,
+  gradeDisagreementThreshold: 20,
+  requiredDocumentCategories: ['proposal', 'report'],
+  updatedAt: null,
+};
+
+// Project statuses that still count towards an advisor's workload
+const ADVISOR_LOAD_STATUSES: ProjectStatus[] = [ProjectStatus.ACTIVE, ProjectStatus.SUBMITTED];
+
+/**
+ * Loads the singleton Rule row, falling back to the defaults.
+ */
+export async function getRules(): Promise<SystemRules> {
+  const rule = await db.rule.findFirst();
+
+  if (!rule) {
+    return DEFAULT_RULES;
+  }
+
+  return {
+    maxGroupSize: rule.maxGroupSize,
+    maxEvaluatorsPerProject: rule.maxEvaluatorsPerProject,
+    maxProjectsPerAdvisor: rule.maxProjectsPerAdvisor,
+    advisorRequestDeadline: rule.advisorRequestDeadline,
+    projectSubmissionDeadline: rule.projectSubmissionDeadline,
+    gradeAggregation: rule.gradeAggregation,
+    gradeDisagreementThreshold: rule.gradeDisagreementThreshold,
+    requiredDocumentCategories: rule.requiredDocumentCategories,
+    updatedAt: rule.updatedAt,
+  };
+}
+
+/**
+ * A deadline of null means no deadline has been configured.
+ */
+export function isPastDeadline(deadline: Date | null, now: Date = new Date()): boolean {
+  return deadline !== null && now.getTime() > deadline.getTime();
+}
+
+/**
+ * Counts the projects an advisor is currently supervising.
+ */
+export async function countAdvisedProjects(advisorId: string): Promise<number> {
+  return db.project.count({
+    where: {
+      advisorId,
+      status: { in: ADVISOR_LOAD_STATUSES },
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import type { AuthOptions } from 'next-auth';
+import { encode, getToken, type JWT } from 'next-auth/jwt';
+import { db } from '@/lib/db';
+
+/**
+ * Sessions are stateless JWTs, so each token carries the user's `tokenVersion` from the
+ * moment it was issued. Bumping the version in the database invalidates every token issued
+ * before, which is how sign-out-everywhere, password changes and admin actions revoke sessions.
+ */
+export async function revokeUserSessions(userId: string) {
+  await db.user.update({
+    where: { userId },
+    data: { tokenVersion: { increment: 1 } },
+  });
+}
+
+/**
+ * Throws when the token was revoked or its user is suspended or gone. Called from the `jwt`
+ * callback; NextAuth treats the throw as an invalid session and clears the session cookie.
+ */
+export async function assertTokenCurrent(token: JWT) {
+  const user = token.userId
+    ? await db.user.findUnique({
+        where: { userId: token.userId },
+        select: { tokenVersion: true, suspended: true },
+      })
+    : null;
+
+  if (!user || user.suspended || user.tokenVersion !== (token.tokenVersion ?? 0)) {
+    throw new Error('Session has been revoked');
+  }
+}
+
+// NextAuth's session lifetime when authOptions does not set one
+const DEFAULT_SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+/**
+ * Replaces the request's session cookie on the response with a token carrying the user's
+ * new `tokenVersion`, so that revoking every session after a password change keeps the
+ * current device signed in. `authOptions` must be the options of the NextAuth handler, so
+ * that the token is signed and stored the way the handler reads it back.
+ */
+export async function reissueSessionToken(
+  req: NextRequest,
+  res: NextResponse,
+  tokenVersion: number,
+  authOptions: AuthOptions
+) {
+  const secret = authOptions.secret;
+  const maxAge = authOptions.session?.maxAge ?? DEFAULT_SESSION_MAX_AGE;
+  const secureCookie = authOptions.useSecureCookies ?? process.env.NEXTAUTH_URL?.startsWith('https://') ?? false;
+  const cookie = authOptions.cookies?.sessionToken ?? {
+    name: `${secureCookie ? '__Secure-' : ''}next-auth.session-token`,
+    options: { httpOnly: true, sameSite: 'lax', path: '/', secure: secureCookie },
+  };
+
+  const token = await getToken({ req, secret, secureCookie, cookieName: cookie.name });
+  if (!token || !secret) return;
+
+  const value = await encode({ token: { ...token, tokenVersion }, secret, maxAge });
+  res.cookies.set(cookie.name, value, { ...cookie.options, maxAge });
+}
@@ -0,0 +1,160 @@
+import { createReadStream } from 'fs';
+import { mkdir, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+/** Uploaded files are served by the authorized route under this prefix, never from public/ */
+const FILE_ROUTE_PREFIX = '/api/files/';
+
+export interface StoredFile {
+  body: ReadableStream<Uint8Array>;
+  size: number | null;
+  contentType: string | null;
+}
+
+export interface FileStorage {
+  name: string;
+  put(key: string, content: Buffer, contentType?: string | null): Promise<void>;
+  /** Resolves to null when nothing is stored under the key */
+  get(key: string): Promise<StoredFile | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The URL an uploaded file is downloaded from; it is what gets stored on documents and profiles.
+ */
+export function fileUrl(key: string): string {
+  return `${FILE_ROUTE_PREFIX}${key}`;
+}
+
+/**
+ * The storage key behind a file URL, or null for URLs that do not point at stored files.
+ */
+export function keyFromUrl(url: string): string | null {
+  return url.startsWith(FILE_ROUTE_PREFIX) ? url.slice(FILE_ROUTE_PREFIX.length) : null;
+}
+
+/**
+ * Keeps files in a directory on the server's disk. The directory must not be inside
+ * public/, or files could be fetched without going through the authorized route.
+ */
+export function createLocalStorage(directory: string): FileStorage {
+  const root = path.resolve(directory);
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+    async put(key, content) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, content);
+    },
+    async get(key) {
+      const filePath = resolve(key);
+      const stats = await stat(filePath).catch(() => null);
+      if (!stats?.isFile()) {
+        return null;
+      }
+      return {
+        body: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+        size: stats.size,
+        contentType: null,
+      };
+    },
+    async delete(key) {
+      await unlink(resolve(key)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    },
+  };
+}
+
+/**
+ * Keeps files in an S3 bucket. Set STORAGE_S3_ENDPOINT to use an S3-compatible server such
+ * as MinIO (http://localhost:9000) instead of AWS.
+ */
+export function createS3Storage(): FileStorage {
+  const bucket = process.env.STORAGE_S3_BUCKET;
+  if (!bucket) {
+    throw new Error('STORAGE_S3_BUCKET must be set to use the s3 storage driver');
+  }
+
+  const endpoint = process.env.STORAGE_S3_ENDPOINT;
+  const client = new S3Client({
+    region: process.env.STORAGE_S3_REGION || 'us-east-1',
+    endpoint,
+    // MinIO and most self-hosted servers do not serve buckets as subdomains
+    forcePathStyle: process.env.STORAGE_S3_FORCE_PATH_STYLE
+      ? process.env.STORAGE_S3_FORCE_PATH_STYLE === 'true'
+      : !!endpoint,
+    credentials: process.env.STORAGE_S3_ACCESS_KEY_ID
+      ? {
+          accessKeyId: process.env.STORAGE_S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.STORAGE_S3_SECRET_ACCESS_KEY || '',
+        }
+      : undefined,
+  });
+
+  return {
+    name: 's3',
+    async put(key, content, contentType) {
+      await client.send(
+        new PutObjectCommand({ Bucket: bucket, Key: key, Body: content, ContentType: contentType || undefined })
+      );
+    },
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+        if (!object.Body) {
+          return null;
+        }
+        return {
+          body: object.Body.transformToWebStream(),
+          size: object.ContentLength ?? null,
+          contentType: object.ContentType ?? null,
+        };
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+let cachedStorage: FileStorage | undefined;
+
+/**
+ * Returns the storage selected by STORAGE_DRIVER (local or s3). Defaults to the local
+ * disk, under STORAGE_LOCAL_DIR or storage/ in the project directory.
+ */
+export function getFileStorage(): FileStorage {
+  if (cachedStorage) {
+    return cachedStorage;
+  }
+
+  const kind = process.env.STORAGE_DRIVER || 'local';
+  switch (kind) {
+    case 'local':
+      cachedStorage = createLocalStorage(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage'));
+      break;
+    case 's3':
+      cachedStorage = createS3Storage();
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${kind}"`);
+  }
+
+  return cachedStorage;
+}
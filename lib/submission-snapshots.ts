@@ -0,0 +1,207 @@
+import { ChangeType, Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { commitsBetween, loadCommitGraph, netFileChanges } from '@/lib/commit-graph';
+
+// Commits since submission listed per branch; the count covers all of them
+const MAX_LISTED_COMMITS = 20;
+
+/**
+ * Records the head commit of every branch of the project's linked repositories and a copy
+ * of every document, as part of the transaction that submits the project.
+ */
+export async function createSubmissionSnapshot(tx: Prisma.TransactionClient, projectId: string, statusChangeId: string) {
+  const [links, documents] = await Promise.all([
+    tx.projectRepository.findMany({
+      where: { projectId },
+      select: {
+        repository: {
+          select: { branches: { select: { name: true, headCommitId: true, repositoryName: true, repositoryGroup: true } } },
+        },
+      },
+    }),
+    tx.document.findMany({ where: { projectId } }),
+  ]);
+
+  return tx.submissionSnapshot.create({
+    data: {
+      projectId,
+      statusChangeId,
+      branches: {
+        create: links.flatMap(({ repository }) =>
+          repository.branches.map((branch) => ({
+            repositoryName: branch.repositoryName,
+            repositoryGroup: branch.repositoryGroup,
+            branchName: branch.name,
+            commitId: branch.headCommitId,
+          }))
+        ),
+      },
+      documents: {
+        create: documents.map((document) => ({
+          documentId: document.id,
+          title: document.title,
+          category: document.category,
+          type: document.type,
+          url: document.url,
+          size: document.size,
+          documentUpdatedAt: document.updatedAt,
+        })),
+      },
+    },
+  });
+}
+
+const snapshotInclude = {
+  statusChange: { select: { actor: { select: { userId: true, firstName: true, lastName: true } } } },
+  branches: {
+    include: { commit: { select: { id: true, message: true, timestamp: true } } },
+    orderBy: [{ repositoryName: 'asc' }, { branchName: 'asc' }],
+  },
+  documents: { orderBy: { title: 'asc' } },
+} satisfies Prisma.SubmissionSnapshotInclude;
+
+type SnapshotWithDetails = Prisma.SubmissionSnapshotGetPayload<{ include: typeof snapshotInclude }>;
+
+/**
+ * The project's most recent submission snapshot, or null if it was never submitted.
+ */
+export async function getLatestSnapshot(projectId: string) {
+  return db.submissionSnapshot.findFirst({
+    where: { projectId },
+    include: snapshotInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Whether an uploaded file belongs to a submission snapshot and must outlive its document.
+ */
+export async function isFrozenDocumentFile(url: string): Promise<boolean> {
+  return (await db.submissionSnapshotDocument.count({ where: { url } })) > 0;
+}
+
+export interface BranchDifference {
+  repositoryName: string;
+  repositoryGroup: string;
+  branchName: string;
+  state: 'unchanged' | 'ahead' | 'rewritten' | 'deleted' | 'added';
+  snapshotCommitId: string | null;
+  currentCommitId: string | null;
+  commitCount: number;
+  commits: { id: string; message: string; timestamp: Date }[];
+  files: { filePath: string; changeType: ChangeType }[];
+}
+
+export interface DocumentDifference {
+  documentId: string | null;
+  title: string;
+  state: 'added' | 'deleted' | 'modified';
+}
+
+/**
+ * Compares a snapshot with the project as it is now: commits pushed to each branch since,
+ * branches created or deleted, and documents uploaded, changed or deleted.
+ */
+export async function diffSnapshot(snapshot: SnapshotWithDetails) {
+  const project = await db.project.findUniqueOrThrow({
+    where: { id: snapshot.projectId },
+    select: {
+      documents: { select: { id: true, title: true, updatedAt: true } },
+      repositories: {
+        select: {
+          repository: {
+            select: { branches: { select: { name: true, headCommitId: true, repositoryName: true, repositoryGroup: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  const branchKey = (repositoryGroup: string, repositoryName: string, branchName: string) =>
+    `${repositoryGroup}/${repositoryName}:${branchName}`;
+  const currentBranches = new Map(
+    project.repositories.flatMap(({ repository }) =>
+      repository.branches.map((branch) => [branchKey(branch.repositoryGroup, branch.repositoryName, branch.name), branch])
+    )
+  );
+
+  const branches: BranchDifference[] = [];
+  for (const frozen of snapshot.branches) {
+    const key = branchKey(frozen.repositoryGroup, frozen.repositoryName, frozen.branchName);
+    const current = currentBranches.get(key);
+    currentBranches.delete(key);
+
+    const difference: BranchDifference = {
+      repositoryName: frozen.repositoryName,
+      repositoryGroup: frozen.repositoryGroup,
+      branchName: frozen.branchName,
+      state: 'unchanged',
+      snapshotCommitId: frozen.commitId,
+      currentCommitId: current?.headCommitId ?? null,
+      commitCount: 0,
+      commits: [],
+      files: [],
+    };
+    branches.push(difference);
+
+    if (!current) {
+      difference.state = 'deleted';
+      continue;
+    }
+    if (current.headCommitId === frozen.commitId) {
+      continue;
+    }
+
+    const graph = await loadCommitGraph(frozen.repositoryName, frozen.repositoryGroup);
+    const newer = commitsBetween(graph, frozen.commitId, current.headCommitId);
+    // A head that no longer descends from the submitted commit was force-moved elsewhere
+    difference.state = commitsBetween(graph, current.headCommitId, frozen.commitId).length > 0 ? 'rewritten' : 'ahead';
+    difference.commitCount = newer.length;
+
+    const [commits, changes] = await Promise.all([
+      db.commit.findMany({
+        where: { id: { in: newer.map((commit) => commit.id) } },
+        select: { id: true, message: true, timestamp: true },
+        orderBy: { timestamp: 'desc' },
+        take: MAX_LISTED_COMMITS,
+      }),
+      netFileChanges(newer.map((commit) => commit.id)),
+    ]);
+    difference.commits = commits;
+    difference.files = [...changes.values()]
+      .map(({ filePath, changeType }) => ({ filePath, changeType }))
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  for (const branch of currentBranches.values()) {
+    branches.push({
+      repositoryName: branch.repositoryName,
+      repositoryGroup: branch.repositoryGroup,
+      branchName: branch.name,
+      state: 'added',
+      snapshotCommitId: null,
+      currentCommitId: branch.headCommitId,
+      commitCount: 0,
+      commits: [],
+      files: [],
+    });
+  }
+
+  const currentDocuments = new Map(project.documents.map((document) => [document.id, document]));
+  const documents: DocumentDifference[] = [];
+  for (const frozen of snapshot.documents) {
+    const current = frozen.documentId ? currentDocuments.get(frozen.documentId) : undefined;
+    if (frozen.documentId) currentDocuments.delete(frozen.documentId);
+
+    if (!current) {
+      documents.push({ documentId: null, title: frozen.title, state: 'deleted' });
+    } else if (current.updatedAt.getTime() !== frozen.documentUpdatedAt.getTime()) {
+      documents.push({ documentId: current.id, title: current.title, state: 'modified' });
+    }
+  }
+  for (const document of currentDocuments.values()) {
+    documents.push({ documentId: document.id, title: document.title, state: 'added' });
+  }
+
+  return { branches, documents };
+}
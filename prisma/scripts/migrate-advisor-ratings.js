@@ -0,0 +1,91 @@
+// Script to move advisor ratings stored as Evaluation rows (criteriaData.advisorRating)
+// into the AdvisorRating model, then delete those rows so they stop mixing with
+// evaluator scores. Safe to run more than once.
+// Usage: node prisma/scripts/migrate-advisor-ratings.js [--dry-run]
+
+import { Prisma, PrismaClient } from '@prisma/client';
+const prisma = new PrismaClient();
+
+const dryRun = process.argv.includes('--dry-run');
+
+// Same labels as semesterOf in lib/advisor-ratings.ts
+function semesterOf(date) {
+  const month = date.getMonth();
+  const startYear = month >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+  const half = month >= 1 && month < 8 ? 'II' : 'I';
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}-${half}`;
+}
+
+async function main() {
+  console.log(`Migrating advisor ratings${dryRun ? ' (dry run)' : ''}...`);
+  const evaluations = await prisma.evaluation.findMany({
+    where: { criteriaData: { not: Prisma.DbNull } },
+    include: { project: { select: { advisorId: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // The rating route never deduplicated, so keep each student's latest rating per project
+  const latest = new Map();
+  for (const evaluation of evaluations) {
+    const advisorRating = evaluation.criteriaData?.advisorRating;
+    if (!advisorRating) continue;
+
+    const studentId = advisorRating.ratedBy || evaluation.authorId;
+    const key = `${evaluation.projectId} ${studentId}`;
+    const entry = latest.get(key) ?? { evaluationIds: [] };
+    entry.evaluationIds.push(evaluation.id);
+    entry.evaluation = evaluation;
+    entry.rating = advisorRating;
+    entry.studentId = studentId;
+    latest.set(key, entry);
+  }
+
+  let migrated = 0;
+  let skipped = 0;
+  for (const { evaluation, rating, studentId, evaluationIds } of latest.values()) {
+    const advisorId = evaluation.project.advisorId;
+    const score = Math.round(Number(rating.score ?? evaluation.score));
+    if (!advisorId || !(score >= 1 && score <= 5)) {
+      console.warn(`Skipped evaluation ${evaluation.id}: no advisor on the project or no valid score`);
+      skipped++;
+      continue;
+    }
+
+    const ratedAt = rating.ratedAt ? new Date(rating.ratedAt) : evaluation.createdAt;
+    console.log(
+      `Project ${evaluation.projectId}, student ${studentId} -> ${score}/5 (${evaluationIds.length} evaluation row(s))`
+    );
+    if (dryRun) {
+      migrated++;
+      continue;
+    }
+
+    await prisma.$transaction([
+      // A rating given through the new route since is newer and wins
+      prisma.advisorRating.upsert({
+        where: { projectId_studentId: { projectId: evaluation.projectId, studentId } },
+        update: {},
+        create: {
+          score,
+          feedback: rating.feedback || null,
+          semester: semesterOf(ratedAt),
+          createdAt: ratedAt,
+          projectId: evaluation.projectId,
+          advisorId,
+          studentId,
+        },
+      }),
+      prisma.evaluation.deleteMany({ where: { id: { in: evaluationIds } } }),
+    ]);
+    migrated++;
+  }
+
+  console.log(`Migration complete: ${migrated} rating(s) migrated, ${skipped} skipped.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,91 @@
+// Script to move file contents that file changes still hold inline into FileContent.
+// Before the blob store, FileChange.fileContentHash and previousFileContentHash held the
+// file's content in base64; they now hold the SHA-256 key of a FileContent row. Every value
+// without such a row is decoded, stored and replaced by its key. Safe to run more than once.
+// Usage: node prisma/scripts/migrate-file-contents.js [--dry-run]
+
+import { createHash } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+const prisma = new PrismaClient();
+
+const dryRun = process.argv.includes('--dry-run');
+
+// Same rules as storeBlob in lib/blob-store.ts
+function toFileContent(bytes) {
+  const hash = createHash('sha256').update(bytes).digest('hex');
+  const isBinary =
+    bytes.subarray(0, 8000).includes(0) || !Buffer.from(bytes.toString('utf8'), 'utf8').equals(bytes);
+  return { hash, content: bytes.toString(isBinary ? 'base64' : 'utf8'), isBinary, size: bytes.length };
+}
+
+function decodeBase64(value) {
+  const bytes = Buffer.from(value, 'base64');
+  return bytes.toString('base64') === value ? bytes : null;
+}
+
+async function main() {
+  console.log(`Migrating inline file contents${dryRun ? ' (dry run)' : ''}...`);
+  const [current, previous] = await Promise.all([
+    prisma.fileChange.findMany({
+      where: { fileContentHash: { not: null } },
+      select: { fileContentHash: true },
+      distinct: ['fileContentHash'],
+    }),
+    prisma.fileChange.findMany({
+      where: { previousFileContentHash: { not: null } },
+      select: { previousFileContentHash: true },
+      distinct: ['previousFileContentHash'],
+    }),
+  ]);
+  const values = [
+    ...new Set([
+      ...current.map((change) => change.fileContentHash),
+      ...previous.map((change) => change.previousFileContentHash),
+    ]),
+  ];
+
+  const stored = await prisma.fileContent.findMany({ where: { hash: { in: values } }, select: { hash: true } });
+  const storedHashes = new Set(stored.map((blob) => blob.hash));
+  const legacy = values.filter((value) => !storedHashes.has(value));
+
+  let migrated = 0;
+  let skipped = 0;
+  for (const value of legacy) {
+    const bytes = decodeBase64(value);
+    if (!bytes) {
+      console.warn(`Skipped "${value.slice(0, 40)}": neither a stored hash nor base64 content`);
+      skipped++;
+      continue;
+    }
+
+    const fileContent = toFileContent(bytes);
+    const [changes, previousChanges] = await Promise.all([
+      prisma.fileChange.count({ where: { fileContentHash: value } }),
+      prisma.fileChange.count({ where: { previousFileContentHash: value } }),
+    ]);
+    console.log(`${fileContent.hash} (${bytes.length} bytes) <- ${changes + previousChanges} file change reference(s)`);
+    if (dryRun) {
+      migrated++;
+      continue;
+    }
+
+    await prisma.$transaction([
+      prisma.fileContent.upsert({ where: { hash: fileContent.hash }, create: fileContent, update: {} }),
+      prisma.fileChange.updateMany({ where: { fileContentHash: value }, data: { fileContentHash: fileContent.hash } }),
+      prisma.fileChange.updateMany({
+        where: { previousFileContentHash: value },
+        data: { previousFileContentHash: fileContent.hash },
+      }),
+    ]);
+    migrated++;
+  }
+
+  console.log(`Migration complete: ${migrated} content(s) migrated, ${skipped} skipped.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
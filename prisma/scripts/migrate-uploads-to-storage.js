@@ -0,0 +1,126 @@
+// Script to move documents and profile photos out of public/uploads, where anyone could
+// fetch them, into the storage selected by STORAGE_DRIVER, and point every URL at the
+// authorized file route. Public copies are removed unless --keep-files is given.
+// Safe to run more than once.
+// Usage: node prisma/scripts/migrate-uploads-to-storage.js [--dry-run] [--keep-files]
+
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Prisma, PrismaClient } from '@prisma/client';
+const prisma = new PrismaClient();
+
+const dryRun = process.argv.includes('--dry-run');
+const keepFiles = process.argv.includes('--keep-files');
+
+const uploadsDir = path.join(process.cwd(), 'public', 'uploads');
+
+// Same drivers and variables as getFileStorage in lib/storage.ts
+function createPut() {
+  const kind = process.env.STORAGE_DRIVER || 'local';
+  if (kind === 'local') {
+    const root = path.resolve(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage'));
+    return async (key, content) => {
+      const filePath = path.join(root, key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, content);
+    };
+  }
+  if (kind === 's3') {
+    const endpoint = process.env.STORAGE_S3_ENDPOINT;
+    const client = new S3Client({
+      region: process.env.STORAGE_S3_REGION || 'us-east-1',
+      endpoint,
+      forcePathStyle: process.env.STORAGE_S3_FORCE_PATH_STYLE
+        ? process.env.STORAGE_S3_FORCE_PATH_STYLE === 'true'
+        : !!endpoint,
+      credentials: process.env.STORAGE_S3_ACCESS_KEY_ID
+        ? {
+            accessKeyId: process.env.STORAGE_S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.STORAGE_S3_SECRET_ACCESS_KEY || '',
+          }
+        : undefined,
+    });
+    return async (key, content) => {
+      await client.send(new PutObjectCommand({ Bucket: process.env.STORAGE_S3_BUCKET, Key: key, Body: content }));
+    };
+  }
+  throw new Error(`Unknown STORAGE_DRIVER "${kind}"`);
+}
+
+// Relative paths of every file below a directory, or none if it does not exist
+async function listFiles(directory, prefix = '') {
+  const entries = await readdir(path.join(directory, prefix), { withFileTypes: true }).catch(() => []);
+  const files = [];
+  for (const entry of entries) {
+    const relative = path.posix.join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(directory, relative)));
+    } else if (entry.isFile() && entry.name !== '.gitkeep') {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+async function main() {
+  console.log(`Moving uploads to storage${dryRun ? ' (dry run)' : ''}...`);
+  const put = createPut();
+
+  const files = [
+    ...(await listFiles(path.join(uploadsDir, 'documents'))).map((file) => `documents/${file}`),
+    ...(await listFiles(path.join(uploadsDir, 'profile-photos'))).map((file) => `profile-photos/${file}`),
+  ];
+
+  let moved = 0;
+  for (const key of files) {
+    const filePath = path.join(uploadsDir, key);
+    const oldUrl = `/uploads/${key}`;
+    const newUrl = `/api/files/${key}`;
+    console.log(`${oldUrl} -> ${newUrl} (${(await stat(filePath)).size} bytes)`);
+    if (dryRun) {
+      moved++;
+      continue;
+    }
+
+    await put(key, await readFile(filePath));
+    if (key.startsWith('documents/')) {
+      await prisma.$transaction([
+        prisma.document.updateMany({ where: { url: oldUrl }, data: { url: newUrl } }),
+        prisma.documentVersion.updateMany({ where: { url: oldUrl }, data: { url: newUrl } }),
+        prisma.submissionSnapshotDocument.updateMany({ where: { url: oldUrl }, data: { url: newUrl } }),
+      ]);
+    }
+    if (!keepFiles) {
+      await unlink(filePath);
+    }
+    moved++;
+  }
+
+  // Photo URLs live inside the free-form profileInfo JSON
+  const users = await prisma.user.findMany({
+    where: { profileInfo: { not: Prisma.DbNull } },
+    select: { userId: true, profileInfo: true },
+  });
+  let profiles = 0;
+  for (const user of users) {
+    const before = JSON.stringify(user.profileInfo);
+    const after = before.replaceAll('"/uploads/profile-photos/', '"/api/files/profile-photos/');
+    if (after === before) continue;
+
+    console.log(`Profile of ${user.userId}: photo URL updated`);
+    if (!dryRun) {
+      await prisma.user.update({ where: { userId: user.userId }, data: { profileInfo: JSON.parse(after) } });
+    }
+    profiles++;
+  }
+
+  console.log(`Migration complete: ${moved} file(s) moved, ${profiles} profile(s) updated.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -15,6 +15,8 @@ declare module "next-auth" {
     id: string;   // Standard NextAuth property
     userId: string;
     role: Role;
+    // Session generation of the user when they signed in, see lib/sessions.ts
+    tokenVersion: number;
   }
 }
 
@@ -23,5 +25,7 @@ declare module "next-auth/jwt" {
   interface JWT {
     userId: string;
     role: Role;
+    // Missing on tokens issued before session revocation existed; treated as 0
+    tokenVersion?: number;
   }
 } 
\ No newline at end of file